@@ -0,0 +1,33 @@
+import { Command } from 'commander';
+import { readFileSync } from 'node:fs';
+import { parseBatchOperations, runBatch } from '../services/batch';
+import type { BatchResult } from '../services/batch';
+import { handleCommandError, outputResult } from '../utils/output';
+
+const STDIN_FD = 0;
+const OP_PAD_WIDTH = 14;
+
+export const batchCommand = new Command('batch')
+  .description('Apply a list of operations (JSON array or NDJSON) in one transaction')
+  .argument('[file]', "Operations file to read ('-' or omitted for stdin)", '-')
+  .action((file: string) => {
+    try {
+      let content: string;
+      if (file === '-') {
+        content = readFileSync(STDIN_FD, 'utf-8');
+      } else {
+        content = readFileSync(file, 'utf-8');
+      }
+
+      const result = runBatch(parseBatchOperations(content));
+      outputResult(result, formatBatchResult, `Batch applied: ${result.applied} operation(s)`);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+function formatBatchResult(result: BatchResult): string {
+  return result.results
+    .map((entry, index) => `$${index + 1} ${entry.op.padEnd(OP_PAD_WIDTH)} ${entry.id}`)
+    .join('\n');
+}
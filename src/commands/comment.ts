@@ -1,6 +1,10 @@
 import { Command } from 'commander';
 import { createComment, listComments, updateComment, deleteComment } from '../services/comment';
-import { validateRequired, parsePaginationOptions } from '../utils/validator';
+import {
+  validateRequired,
+  parsePaginationOptions,
+  parseWriteExpectation,
+} from '../utils/validator';
 import {
   success,
   formatComment,
@@ -8,7 +12,7 @@ import {
   handleCommandError,
   outputResult,
 } from '../utils/output';
-import type { CommentAddOptions, CommentUpdateOptions, PaginationOptions } from '../types/options';
+import type { CommentAddOptions, CommentListOptions, CommentUpdateOptions } from '../types/options';
 
 export const commentCommand = new Command('comment').description('Manage comments');
 
@@ -37,13 +41,18 @@ commentCommand
 commentCommand
   .command('list <task-id>')
   .description('List all comments on a task')
+  .option('--include-deleted', 'Include items in the trash')
   .option('--limit <n>', 'Results per page (default: 50)', '50')
   .option('--page <n>', 'Page number (default: 1)', '1')
-  .action((taskId: string, options: PaginationOptions) => {
+  .action((taskId: string, options: CommentListOptions) => {
     try {
       const { limit, page } = parsePaginationOptions(options);
 
-      const result = listComments(taskId, { limit, page });
+      const result = listComments(taskId, {
+        includeDeleted: options.includeDeleted,
+        limit,
+        page,
+      });
 
       outputResult(result, formatPaginatedCommentList);
     } catch (err) {
@@ -55,13 +64,17 @@ commentCommand
   .command('update <comment-id>')
   .description('Update a comment')
   .requiredOption('-c, --content <content>', 'New comment content')
+  .option('--if-unmodified-since <timestamp>', 'Only update if not changed since this time')
+  .option('--if-version <n>', 'Only update if still at this version')
   .action((commentId: string, options: CommentUpdateOptions) => {
     try {
       validateRequired(options.content, 'Content');
 
-      const comment = updateComment(commentId, {
-        content: options.content,
-      });
+      const comment = updateComment(
+        commentId,
+        { content: options.content },
+        parseWriteExpectation(options)
+      );
 
       outputResult(comment, formatComment, `Comment updated: ${comment.id}`);
     } catch (err) {
@@ -74,7 +87,11 @@ commentCommand
   .description('Delete a comment')
   .action((commentId: string) => {
     try {
-      deleteComment(commentId);
+      const outcome = deleteComment(commentId);
+      if (outcome === 'trashed') {
+        success(`Comment moved to trash: ${commentId}`);
+        return;
+      }
       success(`Comment deleted: ${commentId}`);
     } catch (err) {
       handleCommandError(err);
@@ -0,0 +1,23 @@
+import { Command } from 'commander';
+import { estimateTokens, fitContextPack, getContextPack } from '../services/context';
+import { formatContextPack, handleCommandError, outputResult } from '../utils/output';
+import { parsePositiveInteger } from '../utils/validator';
+import type { ContextCommandOptions } from '../types/options';
+
+export const contextCommand = new Command('context')
+  .description('Brief an agent starting a session on the work in progress and what comes next')
+  .option('-e, --epic <epic-id>', 'Only cover this epic')
+  .option('--task <task-id>', 'Start with this task and cover its epic')
+  .option('--budget <tokens>', 'Approximate size limit of the briefing (default: 2000)', '2000')
+  .action((options: ContextCommandOptions) => {
+    try {
+      const budget = parsePositiveInteger(options.budget, 'budget');
+      const pack = getContextPack({ epicId: options.epic, taskId: options.task });
+
+      // The budget is measured on the Markdown briefing, so TOON carries the same items
+      fitContextPack(pack, budget, (trimmed) => estimateTokens(formatContextPack(trimmed)));
+      outputResult(pack, formatContextPack);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
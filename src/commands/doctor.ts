@@ -0,0 +1,64 @@
+import { Command } from 'commander';
+import { runDoctor } from '../services/doctor';
+import type { DoctorReport } from '../services/doctor';
+import { handleCommandError, outputResult } from '../utils/output';
+import { JSON_INDENT } from '../utils/constants';
+import type { DoctorCommandOptions } from '../types/options';
+
+export const doctorCommand = new Command('doctor')
+  .description('Check the database for integrity problems and optionally repair them')
+  .option('--fix', 'Repair every problem found')
+  .option('--json', 'Output the report as JSON')
+  .action((options: DoctorCommandOptions) => {
+    try {
+      const report = runDoctor({ fix: options.fix });
+
+      if (options.json) {
+        console.log(JSON.stringify(report, null, JSON_INDENT));
+        return;
+      }
+
+      outputResult(report, formatDoctorReport);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+function formatDoctorReport(report: DoctorReport): string {
+  const lines: string[] = [];
+
+  for (const check of report.checks) {
+    const findings = report.findings.filter((f) => f.check === check);
+    if (findings.length === 0) {
+      lines.push(`✓ ${check}: OK`);
+      continue;
+    }
+
+    for (const finding of findings) {
+      let status = '';
+      if (finding.fixed) {
+        status = ' [fixed]';
+      }
+      lines.push(`✗ ${check}: ${finding.problem} (${finding.details.length})${status}`);
+      for (const detail of finding.details) {
+        lines.push(`    ${detail}`);
+      }
+      for (const repair of finding.repairs ?? []) {
+        lines.push(`    → ${repair}`);
+      }
+    }
+  }
+
+  lines.push('');
+  if (report.findings.length === 0) {
+    lines.push('No problems found.');
+  } else if (report.healthy) {
+    lines.push(`${report.findings.length} problem(s) found and fixed.`);
+  } else {
+    lines.push(
+      `${report.findings.length} problem(s) found. Run 'trekker doctor --fix' to repair them.`
+    );
+  }
+
+  return lines.join('\n');
+}
@@ -6,24 +6,51 @@ import {
   updateEpic,
   deleteEpic,
   completeEpic,
+  getEpicRollup,
 } from '../services/epic';
+import { getEpicAt } from '../services/snapshot';
+import { getEpicTree } from '../services/epic-tree';
 import {
-  parseStatus,
+  bulkDelete,
+  bulkUpdateEpics,
+  findBulkTargets,
+  getBulkDeleteAction,
+  previewBulk,
+} from '../services/bulk';
+import { confirmBulk } from '../utils/prompt';
+import {
+  parseEpicStatus,
   parsePriority,
   validateRequired,
   parsePaginationOptions,
+  parseTimestamp,
+  parseWriteExpectation,
+  validateTargetOptions,
+  validateUpdateInput,
+  collectValues,
+  parseFieldAssignments,
+  parseScheduleOptions,
 } from '../utils/validator';
 import {
   success,
   formatEpic,
+  formatEpicWithRollup,
+  formatEpicTree,
   formatPaginatedEpicList,
+  formatBulkResult,
   handleCommandError,
   handleNotFound,
   outputResult,
   isToonMode,
   output,
 } from '../utils/output';
-import type { EpicCreateOptions, EpicListOptions, EpicUpdateOptions } from '../types/options';
+import type {
+  BulkCommandOptions,
+  EpicCreateOptions,
+  EpicListOptions,
+  EpicShowOptions,
+  EpicUpdateOptions,
+} from '../types/options';
 
 export const epicCommand = new Command('epic').description('Manage epics');
 
@@ -34,6 +61,9 @@ epicCommand
   .option('-d, --description <description>', 'Epic description')
   .option('-p, --priority <priority>', 'Priority (0-5, default: 2)')
   .option('-s, --status <status>', 'Status (todo, in_progress, completed, archived)')
+  .option('--set <field=value>', 'Set a custom field (repeatable)', collectValues, [])
+  .option('--start <date>', 'Start date (YYYY-MM-DD, today, friday, +3d)')
+  .option('--due <date>', 'Due date (YYYY-MM-DD, today, friday, +3d)')
   .action((options: EpicCreateOptions) => {
     try {
       validateRequired(options.title, 'Title');
@@ -42,7 +72,9 @@ epicCommand
         title: options.title,
         description: options.description,
         priority: parsePriority(options.priority),
-        status: parseStatus(options.status, 'epic'),
+        status: parseEpicStatus(options.status),
+        fields: parseFieldAssignments(options.set),
+        ...parseScheduleOptions(options),
       });
 
       outputResult(epic, formatEpic, `Epic created: ${epic.id}`);
@@ -55,14 +87,15 @@ epicCommand
   .command('list')
   .description('List all epics')
   .option('-s, --status <status>', 'Filter by status')
+  .option('--include-deleted', 'Include items in the trash')
   .option('--limit <n>', 'Results per page (default: 50)', '50')
   .option('--page <n>', 'Page number (default: 1)', '1')
   .action((options: EpicListOptions) => {
     try {
-      const status = parseStatus(options.status, 'epic');
+      const status = parseEpicStatus(options.status);
       const { limit, page } = parsePaginationOptions(options);
 
-      const result = listEpics({ status, limit, page });
+      const result = listEpics({ status, includeDeleted: options.includeDeleted, limit, page });
 
       outputResult(result, formatPaginatedEpicList);
     } catch (err) {
@@ -73,34 +106,82 @@ epicCommand
 epicCommand
   .command('show <epic-id>')
   .description('Show epic details')
-  .action((epicId: string) => {
+  .option('--at <timestamp>', 'Show the epic as it was at a past date or time')
+  .option('--tree', 'Show the tasks and subtasks with their dependencies, progress and next task')
+  .action((epicId: string, options: EpicShowOptions) => {
     try {
+      if (options.tree) {
+        if (options.at) {
+          throw new Error('--tree shows the epic as it is now and cannot be combined with --at.');
+        }
+        outputResult(getEpicTree(epicId), formatEpicTree);
+        return;
+      }
+      if (options.at) {
+        const epic = getEpicAt(epicId, parseTimestamp(options.at));
+        if (!epic) {
+          return handleNotFound('Epic', epicId);
+        }
+        outputResult(epic, formatEpic);
+        return;
+      }
+
       const epic = getEpic(epicId);
       if (!epic) {
         return handleNotFound('Epic', epicId);
       }
-
-      outputResult(epic, formatEpic);
+      // Progress is only known for the current state, so `--at` shows the epic alone
+      outputResult({ ...epic, rollup: getEpicRollup(epic.id) }, formatEpicWithRollup);
     } catch (err) {
       handleCommandError(err);
     }
   });
 
 epicCommand
-  .command('update <epic-id>')
-  .description('Update an epic')
+  .command('update [epic-id]')
+  .description('Update an epic, or every epic matching --where')
   .option('-t, --title <title>', 'New title')
   .option('-d, --description <description>', 'New description')
   .option('-p, --priority <priority>', 'New priority (0-5)')
   .option('-s, --status <status>', 'New status')
-  .action((epicId: string, options: EpicUpdateOptions) => {
+  .option(
+    '--set <field=value>',
+    'Set a custom field, or clear it with field= (repeatable)',
+    collectValues,
+    []
+  )
+  .option('--start <date>', 'New start date (YYYY-MM-DD, today, friday, +3d)')
+  .option('--no-start', 'Clear the start date')
+  .option('--due <date>', 'New due date (YYYY-MM-DD, today, friday, +3d)')
+  .option('--no-due', 'Clear the due date')
+  .option('--if-unmodified-since <timestamp>', 'Only update if not changed since this time')
+  .option('--if-version <n>', 'Only update if still at this version')
+  .option('--where <filter>', 'Apply to every epic matching the filter (e.g. "status:todo tag:ui")')
+  .option('--dry-run', 'With --where, list the matching epics without changing them')
+  .option('-y, --yes', 'With --where, skip the confirmation prompt')
+  .action(async (epicId: string | undefined, options: EpicUpdateOptions) => {
     try {
-      const epic = updateEpic(epicId, {
+      validateTargetOptions(epicId, options, 'Epic');
+      const updateInput = {
         title: options.title,
         description: options.description,
         priority: parsePriority(options.priority),
-        status: parseStatus(options.status, 'epic'),
-      });
+        status: parseEpicStatus(options.status),
+        fields: parseFieldAssignments(options.set),
+        ...parseScheduleOptions(options),
+      };
+
+      if (options.where !== undefined) {
+        validateUpdateInput(updateInput);
+        const items = findBulkTargets('epic', options.where);
+        if (await confirmBulk(previewBulk('epic', 'update', items), options)) {
+          outputResult(bulkUpdateEpics(items, updateInput), formatBulkResult);
+        }
+        return;
+      }
+
+      validateRequired(epicId, 'Epic ID');
+      const epic = updateEpic(epicId, updateInput, parseWriteExpectation(options));
 
       outputResult(epic, formatEpic, `Epic updated: ${epic.id}`);
     } catch (err) {
@@ -109,11 +190,28 @@ epicCommand
   });
 
 epicCommand
-  .command('delete <epic-id>')
-  .description('Delete an epic')
-  .action((epicId: string) => {
+  .command('delete [epic-id]')
+  .description('Delete an epic, or every epic matching --where')
+  .option('--where <filter>', 'Apply to every epic matching the filter (e.g. "status:todo tag:ui")')
+  .option('--dry-run', 'With --where, list the matching epics without changing them')
+  .option('-y, --yes', 'With --where, skip the confirmation prompt')
+  .action(async (epicId: string | undefined, options: BulkCommandOptions) => {
     try {
-      deleteEpic(epicId);
+      validateTargetOptions(epicId, options, 'Epic');
+      if (options.where !== undefined) {
+        const items = findBulkTargets('epic', options.where);
+        if (await confirmBulk(previewBulk('epic', getBulkDeleteAction(), items), options)) {
+          outputResult(bulkDelete('epic', items), formatBulkResult);
+        }
+        return;
+      }
+
+      validateRequired(epicId, 'Epic ID');
+      const outcome = deleteEpic(epicId);
+      if (outcome === 'trashed') {
+        success(`Epic moved to trash: ${epicId}`);
+        return;
+      }
       success(`Epic deleted: ${epicId}`);
     } catch (err) {
       handleCommandError(err);
@@ -0,0 +1,46 @@
+import { Command } from 'commander';
+import { writeFileSync } from 'node:fs';
+import { exportProject } from '../services/export';
+import type { ExportDocument } from '../services/export';
+import { handleCommandError, outputResult } from '../utils/output';
+import { JSON_INDENT } from '../utils/constants';
+import type { ExportCommandOptions } from '../types/options';
+
+export const exportCommand = new Command('export')
+  .description('Export the whole project as a JSON document')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .option('--include-history', 'Include the history event log')
+  .action((options: ExportCommandOptions) => {
+    try {
+      const doc = exportProject({ includeHistory: options.includeHistory });
+      const json = JSON.stringify(doc, null, JSON_INDENT);
+
+      if (!options.output) {
+        console.log(json);
+        return;
+      }
+
+      writeFileSync(options.output, `${json}\n`);
+      outputResult(
+        { path: options.output, counts: countRows(doc) },
+        (data) => formatCounts(data.counts),
+        `Exported project to ${options.output}`
+      );
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+function countRows(doc: ExportDocument): Record<string, number> {
+  const counts: Record<string, number> = {};
+  for (const [table, rows] of Object.entries(doc.tables)) {
+    counts[table] = rows.length;
+  }
+  return counts;
+}
+
+function formatCounts(counts: Record<string, number>): string {
+  return Object.entries(counts)
+    .map(([table, count]) => `  ${table}: ${count}`)
+    .join('\n');
+}
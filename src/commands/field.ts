@@ -0,0 +1,55 @@
+import { Command } from 'commander';
+import { defineField, deleteField, listFields, parseFieldType } from '../services/field';
+import { parseCommaSeparated } from '../utils/validator';
+import {
+  formatCustomField,
+  formatCustomFieldList,
+  handleCommandError,
+  outputResult,
+  success,
+} from '../utils/output';
+import type { FieldDefineOptions } from '../types/options';
+
+export const fieldCommand = new Command('field').description(
+  'Manage the custom fields of epics and tasks'
+);
+
+fieldCommand
+  .command('define <name>')
+  .description('Define a custom field, or change the type or values of an existing one')
+  .requiredOption('--type <type>', 'Value type (string, number, date, enum)')
+  .option('--values <values>', 'Allowed values of an enum field (comma-separated)')
+  .action((name: string, options: FieldDefineOptions) => {
+    try {
+      const field = defineField(name, {
+        type: parseFieldType(options.type),
+        allowedValues: parseCommaSeparated(options.values),
+      });
+      outputResult(field, formatCustomField, `Field defined: ${field.name}`);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+fieldCommand
+  .command('list')
+  .description('List the custom fields')
+  .action(() => {
+    try {
+      outputResult(listFields(), formatCustomFieldList);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+fieldCommand
+  .command('delete <name>')
+  .description('Delete a custom field and clear its values')
+  .action((name: string) => {
+    try {
+      const result = deleteField(name);
+      success(`Field deleted: ${result.field} (cleared on ${result.cleared} item(s))`, result);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
@@ -2,23 +2,25 @@ import { Command } from 'commander';
 import dayjs from 'dayjs';
 import customParseFormat from 'dayjs/plugin/customParseFormat';
 import { getHistory } from '../services/history';
+import { revertEvent } from '../services/revert';
 
 dayjs.extend(customParseFormat);
-import type { HistoryResponse, HistoryEvent } from '../services/history';
-import { handleCommandError, output, isToonMode } from '../utils/output';
+import type { HistoryResponse } from '../services/history';
+import {
+  handleCommandError,
+  output,
+  outputResult,
+  formatHistoryEvent,
+  formatRevertResult,
+  isToonMode,
+} from '../utils/output';
 import {
   parsePaginationOptions,
   parseCommaSeparated,
   validateHistoryTypes,
   validateHistoryActions,
+  parsePositiveInteger,
 } from '../utils/validator';
-import {
-  ACTION_PAD_WIDTH,
-  TIMESTAMP_SLICE_END,
-  TRUNCATE_DEFAULT,
-  TRUNCATE_CONTENT,
-  TRUNCATE_OFFSET,
-} from '../utils/constants';
 import type { HistoryCommandOptions } from '../types/options';
 
 export const historyCommand = new Command('history')
@@ -89,6 +91,18 @@ export const historyCommand = new Command('history')
     }
   });
 
+historyCommand
+  .command('revert <event-id>')
+  .description('Revert a single event (and the changes it cascaded to)')
+  .action((eventId: string) => {
+    try {
+      const id = parsePositiveInteger(eventId, 'event ID');
+      outputResult(revertEvent(id), formatRevertResult, 'Revert complete');
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
 function parseDate(dateStr: string): Date | undefined {
   const parsed = dayjs(dateStr, 'YYYY-MM-DD', true);
   if (!parsed.isValid()) {
@@ -109,7 +123,7 @@ function formatHistoryResults(result: HistoryResponse): string {
   }
 
   for (const event of result.events) {
-    lines.push(formatEvent(event));
+    lines.push(formatHistoryEvent(event));
     lines.push('');
   }
 
@@ -121,57 +135,3 @@ function formatHistoryResults(result: HistoryResponse): string {
 
   return lines.join('\n');
 }
-
-function formatEvent(event: HistoryEvent): string {
-  const lines: string[] = [];
-  const timestamp = event.timestamp.toISOString().replace('T', ' ').slice(0, TIMESTAMP_SLICE_END);
-  const actionLabel = event.action.toUpperCase().padEnd(ACTION_PAD_WIDTH);
-  const typeLabel = event.entityType.toUpperCase();
-
-  lines.push(`[${timestamp}] ${actionLabel} ${typeLabel} ${event.entityId}`);
-
-  if (event.action === 'update' && event.changes) {
-    for (const [field, change] of Object.entries(event.changes)) {
-      const from = formatValue(change.from);
-      const to = formatValue(change.to);
-      lines.push(`  ${field}: ${from} -> ${to}`);
-    }
-  } else if (event.snapshot) {
-    // For create/delete, show key fields
-    const snap = event.snapshot;
-    if (typeof snap.title === 'string') {
-      lines.push(`  title: ${snap.title}`);
-    }
-    if (typeof snap.content === 'string') {
-      lines.push(`  content: ${truncate(snap.content, TRUNCATE_CONTENT)}`);
-    }
-    if (typeof snap.status === 'string') {
-      lines.push(`  status: ${snap.status}`);
-    }
-  }
-
-  return lines.join('\n');
-}
-
-function formatValue(value: unknown): string {
-  if (value === null || value === undefined) {
-    return '(none)';
-  }
-  if (typeof value === 'string') {
-    return truncate(value, TRUNCATE_DEFAULT);
-  }
-  if (typeof value === 'number') {
-    return `${value}`;
-  }
-  if (typeof value === 'boolean') {
-    return String(value);
-  }
-  return JSON.stringify(value);
-}
-
-function truncate(str: string, maxLen: number): string {
-  if (str.length <= maxLen) {
-    return str;
-  }
-  return `${str.slice(0, Math.max(0, maxLen - TRUNCATE_OFFSET))}...`;
-}
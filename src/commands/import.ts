@@ -0,0 +1,59 @@
+import { Command } from 'commander';
+import { readFileSync } from 'node:fs';
+import { importProject, parseExportDocument } from '../services/import';
+import type { ImportResult } from '../services/import';
+import { handleCommandError, outputResult } from '../utils/output';
+import { validateImportMode } from '../utils/validator';
+import type { ImportCommandOptions } from '../types/options';
+
+const STDIN_FD = 0;
+
+export const importCommand = new Command('import')
+  .description('Import a project exported with `trekker export`')
+  .argument('<file>', "Export file to read ('-' for stdin)")
+  .option(
+    '--mode <mode>',
+    'How to handle IDs that already exist: fail, skip, overwrite, renumber',
+    'fail'
+  )
+  .action((file: string, options: ImportCommandOptions) => {
+    try {
+      const mode = options.mode;
+      validateImportMode(mode);
+
+      let json: string;
+      if (file === '-') {
+        json = readFileSync(STDIN_FD, 'utf-8');
+      } else {
+        json = readFileSync(file, 'utf-8');
+      }
+
+      const result = importProject(parseExportDocument(json), { mode });
+      outputResult(result, formatImportResult, 'Import complete');
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+function formatImportResult(result: ImportResult): string {
+  const { imported } = result;
+  const lines = [
+    `Epics:        ${imported.epics}`,
+    `Tasks:        ${imported.tasks}`,
+    `Comments:     ${imported.comments}`,
+    `Dependencies: ${imported.dependencies}`,
+    `Events:       ${imported.events}`,
+  ];
+
+  if (result.skipped.length > 0) {
+    lines.push(`Skipped existing: ${result.skipped.join(', ')}`);
+  }
+  if (result.overwritten.length > 0) {
+    lines.push(`Overwritten: ${result.overwritten.join(', ')}`);
+  }
+  for (const { from, to } of result.renumbered) {
+    lines.push(`Renumbered ${from} -> ${to}`);
+  }
+
+  return lines.join('\n');
+}
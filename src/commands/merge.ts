@@ -0,0 +1,67 @@
+import { Command } from 'commander';
+import { mergeProject } from '../services/merge';
+import type { MergeResult } from '../services/merge';
+import { handleCommandError, outputResult } from '../utils/output';
+import type { MergeCommandOptions } from '../types/options';
+
+export const mergeCommand = new Command('merge')
+  .description('Merge another copy of the project (database file or export) into this one')
+  .argument('<source>', 'Path to another trekker.db or a file written by `trekker export`')
+  .option('--dry-run', 'Show what would change without writing anything')
+  .action((source: string, options: MergeCommandOptions) => {
+    try {
+      const result = mergeProject(source, { dryRun: options.dryRun });
+
+      let message = 'Merge complete';
+      if (result.dryRun) {
+        message = 'Merge preview (nothing was written)';
+      }
+      outputResult(result, formatMergeResult, message);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+function formatValue(value: string | number | null): string {
+  if (value === null) {
+    return '(empty)';
+  }
+  return JSON.stringify(value);
+}
+
+function formatMergeResult(result: MergeResult): string {
+  const lines: string[] = [];
+
+  if (!result.historyAvailable) {
+    lines.push('Source has no history; differing fields were resolved by updated_at.');
+  }
+
+  for (const change of result.changes) {
+    let fields = '';
+    if (change.fields.length > 0) {
+      fields = ` (${change.fields.join(', ')})`;
+    }
+    lines.push(`  ${change.action} ${change.entityType} ${change.entityId}${fields}`);
+  }
+  for (const { from, to } of result.renumbered) {
+    lines.push(`  renumbered ${from} -> ${to} (ID was used for a different item here)`);
+  }
+  if (lines.length === 0) {
+    lines.push('Nothing to merge.');
+  }
+
+  if (result.conflicts.length > 0) {
+    lines.push('', `${result.conflicts.length} conflict(s) kept the local version:`);
+    for (const conflict of result.conflicts) {
+      if (conflict.field) {
+        lines.push(
+          `  ${conflict.entityId}.${conflict.field}: ${conflict.reason} (here ${formatValue(conflict.ours)}, source ${formatValue(conflict.theirs)})`
+        );
+      } else {
+        lines.push(`  ${conflict.entityId}: ${conflict.reason}`);
+      }
+    }
+  }
+
+  return lines.join('\n');
+}
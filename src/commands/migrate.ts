@@ -0,0 +1,88 @@
+import { Command } from 'commander';
+import { getMigrationStatus, applyMigrations } from '../services/migration';
+import type { MigrationStatus, MigrationRunResult } from '../services/migration';
+import { handleCommandError, outputResult, output, success, isToonMode } from '../utils/output';
+import { TIMESTAMP_SLICE_END, VERSION_PAD_WIDTH } from '../utils/constants';
+import type { MigrateUpOptions } from '../types/options';
+
+export const migrateCommand = new Command('migrate').description(
+  'Inspect and apply database schema migrations'
+);
+
+migrateCommand
+  .command('status')
+  .description('Show the current schema version and pending migrations')
+  .action(() => {
+    try {
+      const status = getMigrationStatus();
+      outputResult(status, formatMigrationStatus);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+migrateCommand
+  .command('up')
+  .description('Apply all pending migrations')
+  .option('--no-backup', 'Skip the database backup taken before migrating')
+  .action((options: MigrateUpOptions) => {
+    try {
+      const result = applyMigrations({ backup: options.backup });
+
+      if (isToonMode()) {
+        output(result);
+      } else if (result.applied.length === 0) {
+        success(`Database schema is up to date (v${result.toVersion})`);
+      } else {
+        success(`Database migrated from v${result.fromVersion} to v${result.toVersion}`);
+        console.log(formatMigrationRun(result));
+      }
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+function formatVersion(version: number): string {
+  return String(version).padStart(VERSION_PAD_WIDTH, '0');
+}
+
+function formatMigrationStatus(status: MigrationStatus): string {
+  const lines: string[] = [];
+  lines.push(`Schema version: ${status.currentVersion} (latest: ${status.latestVersion})`);
+
+  lines.push('\nApplied:');
+  if (status.applied.length === 0) {
+    lines.push('  (none)');
+  }
+  for (const m of status.applied) {
+    const appliedAt = m.appliedAt.toISOString().replace('T', ' ').slice(0, TIMESTAMP_SLICE_END);
+    lines.push(`  ${formatVersion(m.version)} ${m.name} [${appliedAt}]`);
+  }
+
+  lines.push('\nPending:');
+  if (status.pending.length === 0) {
+    lines.push('  (none)');
+  }
+  for (const m of status.pending) {
+    lines.push(`  ${formatVersion(m.version)} ${m.name}`);
+  }
+
+  return lines.join('\n');
+}
+
+function formatMigrationRun(result: MigrationRunResult): string {
+  const lines: string[] = [];
+
+  for (const m of result.applied) {
+    lines.push(`  ${formatVersion(m.version)} ${m.name}`);
+    for (const note of m.notes) {
+      lines.push(`    - ${note}`);
+    }
+  }
+
+  if (result.backupPath) {
+    lines.push(`Backup: ${result.backupPath}`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,36 @@
+import { Command, Option } from 'commander';
+import { startNextTask } from '../services/next';
+import { joinQuery, optionTerm } from '../services/query';
+import { formatTaskContext, handleCommandError, outputResult } from '../utils/output';
+import { parseDuration, validateRequired } from '../utils/validator';
+import { DEFAULT_CLAIM_TTL } from '../utils/constants';
+import type { NextCommandOptions } from '../types/options';
+
+export const nextCommand = new Command('next')
+  .description('Start the highest-priority ready task and claim it for an agent')
+  .argument('[query]', 'Only consider tasks matching the query (e.g. "tag:backend")')
+  .requiredOption('--as <agent>', 'Name of the agent taking the task')
+  .option('--ttl <duration>', 'How long the claim holds (e.g. 30m, 2h)', DEFAULT_CLAIM_TTL)
+  .option('-e, --epic <epic-id>', 'Only consider tasks in this epic')
+  .option('--tag <tags>', 'Only consider tasks with all of these tags (comma-separated)')
+  .addOption(new Option('--tags <tags>').hideHelp())
+  .option('--max-priority <n>', 'Only consider tasks of this priority or more urgent (0-5)')
+  .action((query: string | undefined, options: NextCommandOptions) => {
+    try {
+      validateRequired(options.as, 'Agent');
+
+      const context = startNextTask(options.as, parseDuration(options.ttl, 'TTL'), {
+        query: joinQuery(
+          query,
+          optionTerm('epic', ':', options.epic),
+          optionTerm('tag', ':', options.tag),
+          optionTerm('tag', ':', options.tags),
+          optionTerm('priority', '<=', options.maxPriority)
+        ),
+      });
+
+      outputResult(context, formatTaskContext, `Started ${context.task.id}`);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
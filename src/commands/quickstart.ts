@@ -21,20 +21,21 @@ trekker wipe -y                 # Remove all data
 ### Epics (features/milestones)
 trekker epic create -t "Title" [-d "desc"] [-p 0-5]
 trekker epic list [--status <status>]
-trekker epic show <epic-id>
+trekker epic show <epic-id>       # With task counts and effort rollup
+trekker epic show <epic-id> --tree  # Task tree, progress and next ready task
 trekker epic update <epic-id> [-t "Title"] [-d "desc"] [-p 0-5] [-s <status>]
 trekker epic complete <epic-id>   # Complete and archive all tasks
 trekker epic delete <epic-id>
 
 ### Tasks
-trekker task create -t "Title" [-d "desc"] [-p 0-5] [-e <epic-id>] [--tags "a,b"]
+trekker task create -t "Title" [-d "desc"] [-p 0-5] [-e <epic-id>] [--tags "a,b"] [--estimate <n>]
 trekker task list [--status <status>] [--epic <epic-id>]
-trekker task show <task-id>
-trekker task update <task-id> [-t "Title"] [-d "desc"] [-p 0-5] [-s <status>] [--tags "a,b"] [-e <epic-id>] [--no-epic]
+trekker task show <task-id> [--full]   # --full adds epic, subtasks, deps, comments, history
+trekker task update <task-id> [-t "Title"] [-d "desc"] [-p 0-5] [-s <status>] [--tags "a,b"] [-e <epic-id>] [--no-epic] [--due <date>] [--no-due]
 trekker task delete <task-id>
 
 ### Subtasks
-trekker subtask create <task-id> -t "Title" [-d "desc"] [-p 0-5]
+trekker subtask create <task-id> -t "Title" [-d "desc"] [-p 0-5] [--estimate <n>]
 trekker subtask list <task-id>
 trekker subtask update <subtask-id> [-t "Title"] [-d "desc"] [-p 0-5] [-s <status>]
 trekker subtask delete <subtask-id>
@@ -64,12 +65,16 @@ trekker search "auth bug" --type task --limit 10
 trekker history [--entity <entity-id>] [--type task] [--action create,update,delete]
 trekker history --since 2025-01-01 --limit 20
 
+### Context (briefing for the start of a session)
+trekker context [-e <epic-id>] [--task <task-id>] [--budget <tokens>]
+
 ### List (unified view of all items)
 trekker list [--type epic,task,subtask] [--status <status>] [--priority 0,1]
 trekker list --sort priority:asc,created:desc --limit 20
+trekker list --overdue --sort due:asc
 
 ## Status Values
-Tasks: todo, in_progress, completed, wont_fix, archived
+Tasks: todo, in_progress, completed, wont_fix, archived, plus any added with \`trekker workflow add\`
 Epics: todo, in_progress, completed, archived
 
 ## Priority Scale
@@ -99,8 +104,8 @@ flowchart TD
 \`\`\`
 
 ## Session Start
-trekker --toon task list --status in_progress
-trekker --toon comment list <task-id>
+trekker --toon context
+trekker --toon task show <task-id> --full
 
 ## Working
 trekker task update <task-id> -s in_progress
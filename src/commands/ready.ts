@@ -1,7 +1,8 @@
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import { getReadyTasks } from '../services/ready';
 import type { ReadyTask } from '../services/ready';
-import { handleCommandError, outputResult } from '../utils/output';
+import { joinQuery, optionTerm } from '../services/query';
+import { formatDay, handleCommandError, outputResult } from '../utils/output';
 import { parsePaginationOptions } from '../utils/validator';
 import { STATUS_PAD_WIDTH } from '../utils/constants';
 import type { PaginatedResponse } from '../types';
@@ -9,13 +10,32 @@ import type { ReadyCommandOptions } from '../types/options';
 
 export const readyCommand = new Command('ready')
   .description('Show tasks that are ready to work on (unblocked, todo)')
+  .argument('[query]', 'Only tasks matching the query (e.g. "tag:backend priority<=1")')
+  .option('-e, --epic <epic-id>', 'Only show tasks in this epic')
+  .option('--tag <tags>', 'Only show tasks with all of these tags (comma-separated)')
+  .addOption(new Option('--tags <tags>').hideHelp())
+  .option('--max-priority <n>', 'Only show tasks of this priority or more urgent (0-5)')
   .option('--limit <n>', 'Results per page (default: 50)', '50')
   .option('--page <n>', 'Page number (default: 1)', '1')
-  .action((options: ReadyCommandOptions) => {
+  .option('--include-deleted', 'Include items in the trash')
+  .option('--include-claimed', 'Include tasks another agent has claimed')
+  .action((query: string | undefined, options: ReadyCommandOptions) => {
     try {
       const { limit, page } = parsePaginationOptions(options);
 
-      const result = getReadyTasks({ limit, page });
+      const result = getReadyTasks({
+        query: joinQuery(
+          query,
+          optionTerm('epic', ':', options.epic),
+          optionTerm('tag', ':', options.tag),
+          optionTerm('tag', ':', options.tags),
+          optionTerm('priority', '<=', options.maxPriority)
+        ),
+        includeDeleted: options.includeDeleted,
+        includeClaimed: options.includeClaimed,
+        limit,
+        page,
+      });
       outputResult(result, formatReadyTasks);
     } catch (err) {
       handleCommandError(err);
@@ -39,7 +59,18 @@ function formatReadyTasks(result: PaginatedResponse<ReadyTask>): string {
     if (task.tags) {
       tags = ` [${task.tags}]`;
     }
-    lines.push(`${task.id} | P${task.priority} | ${task.title}${epic}${tags}`);
+    let claimed = '';
+    if (task.assignee) {
+      claimed = ` @${task.assignee}`;
+    }
+    // Ready tasks are not done yet, so a due date in the past means overdue
+    let due = '';
+    if (task.dueAt && task.dueAt.getTime() < Date.now()) {
+      due = ` | overdue since ${formatDay(task.dueAt)}`;
+    } else if (task.dueAt) {
+      due = ` | due ${formatDay(task.dueAt)}`;
+    }
+    lines.push(`${task.id} | P${task.priority} | ${task.title}${epic}${tags}${claimed}${due}`);
 
     if (task.dependents.length > 0) {
       for (const dep of task.dependents) {
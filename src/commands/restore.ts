@@ -0,0 +1,51 @@
+import { Command } from 'commander';
+import { restoreEntity } from '../services/revert';
+import type { RestoreResult, RevertedEvent } from '../services/revert';
+import { handleCommandError, outputResult } from '../utils/output';
+
+export const restoreCommand = new Command('restore')
+  .description(
+    'Restore a deleted epic, task, subtask or comment with everything deleted along with it'
+  )
+  .argument('<id>', 'ID of the deleted item')
+  .action((id: string) => {
+    try {
+      const result = restoreEntity(id);
+      outputResult(result, formatRestoreResult, `Restored ${result.entityId}`);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+function formatEntity(event: RevertedEvent): string {
+  return `${event.entityType} ${event.entityId}`;
+}
+
+function formatRestoreResult(result: RestoreResult): string {
+  const lines: string[] = [];
+
+  const related = result.restored.filter((event) => event.entityId !== result.entityId);
+  for (const event of related) {
+    if (event.action === 'update') {
+      lines.push(`  Reattached ${formatEntity(event)}`);
+    } else {
+      lines.push(`  Restored ${formatEntity(event)}`);
+    }
+  }
+  for (const event of result.skipped) {
+    if (event.action === 'update') {
+      lines.push(
+        `  Skipped ${formatEntity(event)} (it has since moved to another epic or was deleted)`
+      );
+    } else {
+      lines.push(
+        `  Skipped ${formatEntity(event)} (the linked task no longer exists or is already linked)`
+      );
+    }
+  }
+
+  if (lines.length === 0) {
+    return 'No related items were deleted with it.';
+  }
+  return lines.join('\n');
+}
@@ -1,24 +1,25 @@
 import { Command } from 'commander';
 import { search, rebuildSearchIndex } from '../services/search';
 import type { SearchResponse } from '../services/search';
+import { joinQuery, optionTerm } from '../services/query';
 import { handleCommandError, outputResult } from '../utils/output';
-import {
-  parsePaginationOptions,
-  validateSearchEntityTypes,
-  parseCommaSeparated,
-} from '../utils/validator';
+import { parsePaginationOptions } from '../utils/validator';
 import { TYPE_PAD_WIDTH } from '../utils/constants';
 import type { SearchCommandOptions } from '../types/options';
-import type { SearchEntityType } from '../types';
 
 export const searchCommand = new Command('search')
   .description('Search across epics, tasks, subtasks, and comments')
-  .argument('<query>', 'Search query (supports FTS5 syntax)')
+  .argument(
+    '<query>',
+    'Words or "phrases" to find, plus optional filter terms (e.g. "login status:todo")'
+  )
   .option('--type <types>', 'Filter by type: epic,task,subtask,comment (comma-separated)')
   .option('--status <status>', 'Filter by status')
+  .option('--tag <tags>', 'Only tasks and subtasks with all of these tags (comma-separated)')
   .option('--limit <n>', 'Results per page (default: 20)', '20')
   .option('--page <n>', 'Page number (default: 1)', '1')
   .option('--rebuild-index', 'Rebuild the search index before searching')
+  .option('--include-deleted', 'Include items in the trash')
   .action((query: string, options: SearchCommandOptions) => {
     try {
       if (options.rebuildIndex) {
@@ -27,20 +28,19 @@ export const searchCommand = new Command('search')
 
       const { limit, page } = parsePaginationOptions(options);
 
-      const rawTypes = parseCommaSeparated(options.type);
-      let types: SearchEntityType[] | undefined;
-
-      if (rawTypes) {
-        validateSearchEntityTypes(rawTypes);
-        types = rawTypes;
-      }
-
-      const result = search(query, {
-        types,
-        status: options.status,
-        limit,
-        page,
-      });
+      const result = search(
+        joinQuery(
+          query,
+          optionTerm('type', ':', options.type),
+          optionTerm('status', ':', options.status),
+          optionTerm('tag', ':', options.tag)
+        ),
+        {
+          includeDeleted: options.includeDeleted,
+          limit,
+          page,
+        }
+      );
 
       outputResult(result, formatSearchResults);
     } catch (err) {
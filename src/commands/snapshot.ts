@@ -0,0 +1,73 @@
+import { Command } from 'commander';
+import { getProjectSnapshot } from '../services/snapshot';
+import type { ProjectSnapshot } from '../services/snapshot';
+import type { Task } from '../types';
+import { handleCommandError, outputResult } from '../utils/output';
+import { parseTimestamp } from '../utils/validator';
+import { STATUS_PAD_WIDTH } from '../utils/constants';
+import type { SnapshotCommandOptions } from '../types/options';
+
+export const snapshotCommand = new Command('snapshot')
+  .description('Reconstruct the project as it was at a past date or time')
+  .requiredOption(
+    '--at <timestamp>',
+    'Point in time (YYYY-MM-DD for the end of that day, "YYYY-MM-DD HH:mm" or ISO 8601)'
+  )
+  .action((options: SnapshotCommandOptions) => {
+    try {
+      outputResult(getProjectSnapshot(parseTimestamp(options.at)), formatSnapshot);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+function formatLine(
+  indent: string,
+  item: { id: string; status: string; priority: number; title: string }
+): string {
+  return `${indent}${item.id} | ${item.status.padEnd(STATUS_PAD_WIDTH)} | P${item.priority} | ${item.title}`;
+}
+
+function formatSnapshot(snapshot: ProjectSnapshot): string {
+  const lines: string[] = [];
+  const topLevel = snapshot.tasks.filter((task) => !task.parentTaskId);
+  const subtasks = snapshot.tasks.filter((task) => task.parentTaskId);
+
+  lines.push(`Snapshot at ${snapshot.at.toISOString()}`);
+  lines.push(
+    `${snapshot.epics.length} epics, ${topLevel.length} tasks, ${subtasks.length} subtasks, ${snapshot.comments.length} comments, ${snapshot.dependencies.length} dependencies`
+  );
+
+  if (snapshot.epics.length === 0 && snapshot.tasks.length === 0) {
+    lines.push('');
+    lines.push('No items existed at that time.');
+    return lines.join('\n');
+  }
+
+  const addTask = (task: Task, indent: string): void => {
+    lines.push(formatLine(indent, task));
+    for (const subtask of subtasks.filter((s) => s.parentTaskId === task.id)) {
+      lines.push(formatLine(`${indent}  `, subtask));
+    }
+  };
+
+  for (const epic of snapshot.epics) {
+    lines.push('');
+    lines.push(formatLine('', epic));
+    for (const task of topLevel.filter((t) => t.epicId === epic.id)) {
+      addTask(task, '  ');
+    }
+  }
+
+  const epicIds = new Set(snapshot.epics.map((epic) => epic.id));
+  const unassigned = topLevel.filter((task) => !task.epicId || !epicIds.has(task.epicId));
+  if (unassigned.length > 0) {
+    lines.push('');
+    lines.push('No epic:');
+    for (const task of unassigned) {
+      addTask(task, '  ');
+    }
+  }
+
+  return lines.join('\n');
+}
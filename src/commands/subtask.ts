@@ -1,24 +1,41 @@
 import { Command } from 'commander';
 import { createTask, getTask, listSubtasks, updateTask, deleteTask } from '../services/task';
+import { parseTaskStatus } from '../services/workflow';
+import {
+  bulkDelete,
+  bulkUpdateTasks,
+  findBulkTargets,
+  getBulkDeleteAction,
+  previewBulk,
+} from '../services/bulk';
+import { confirmBulk } from '../utils/prompt';
 import {
-  parseStatus,
   parsePriority,
   validateRequired,
   parsePaginationOptions,
+  parseWriteExpectation,
+  validateTargetOptions,
+  validateUpdateInput,
+  collectValues,
+  parseFieldAssignments,
+  parseScheduleOptions,
+  parseEstimate,
 } from '../utils/validator';
 import {
   success,
   error,
   formatTask,
   formatPaginatedTaskList,
+  formatBulkResult,
   handleCommandError,
   handleNotFound,
   outputResult,
 } from '../utils/output';
 import type {
+  BulkCommandOptions,
   SubtaskCreateOptions,
+  SubtaskListOptions,
   SubtaskUpdateOptions,
-  PaginationOptions,
 } from '../types/options';
 
 export const subtaskCommand = new Command('subtask').description('Manage subtasks');
@@ -29,7 +46,11 @@ subtaskCommand
   .requiredOption('-t, --title <title>', 'Subtask title')
   .option('-d, --description <description>', 'Subtask description')
   .option('-p, --priority <priority>', 'Priority (0-5, default: 2)')
-  .option('-s, --status <status>', 'Status (todo, in_progress, completed, wont_fix, archived)')
+  .option('-s, --status <status>', 'Status (default: todo; see trekker workflow list)')
+  .option('--set <field=value>', 'Set a custom field (repeatable)', collectValues, [])
+  .option('--start <date>', 'Start date (YYYY-MM-DD, today, friday, +3d)')
+  .option('--due <date>', 'Due date (YYYY-MM-DD, today, friday, +3d)')
+  .option('--estimate <n>', 'Effort estimate (points or hours, see estimate_unit)')
   .action((parentTaskId: string, options: SubtaskCreateOptions) => {
     try {
       validateRequired(options.title, 'Title');
@@ -43,9 +64,12 @@ subtaskCommand
         title: options.title,
         description: options.description,
         priority: parsePriority(options.priority),
-        status: parseStatus(options.status, 'task'),
+        status: parseTaskStatus(options.status),
         parentTaskId,
         epicId: parent.epicId ?? undefined,
+        fields: parseFieldAssignments(options.set),
+        ...parseScheduleOptions(options),
+        estimate: parseEstimate(options.estimate),
       });
 
       outputResult(subtask, formatTask, `Subtask created: ${subtask.id}`);
@@ -57,9 +81,10 @@ subtaskCommand
 subtaskCommand
   .command('list <parent-task-id>')
   .description('List all subtasks of a task')
+  .option('--include-deleted', 'Include items in the trash')
   .option('--limit <n>', 'Results per page (default: 50)', '50')
   .option('--page <n>', 'Page number (default: 1)', '1')
-  .action((parentTaskId: string, options: PaginationOptions) => {
+  .action((parentTaskId: string, options: SubtaskListOptions) => {
     try {
       const parent = getTask(parentTaskId);
       if (!parent) {
@@ -68,7 +93,11 @@ subtaskCommand
 
       const { limit, page } = parsePaginationOptions(options);
 
-      const result = listSubtasks(parentTaskId, { limit, page });
+      const result = listSubtasks(parentTaskId, {
+        includeDeleted: options.includeDeleted,
+        limit,
+        page,
+      });
 
       outputResult(result, formatPaginatedTaskList);
     } catch (err) {
@@ -77,24 +106,35 @@ subtaskCommand
   });
 
 subtaskCommand
-  .command('update <subtask-id>')
-  .description('Update a subtask')
+  .command('update [subtask-id]')
+  .description('Update a subtask, or every subtask matching --where')
   .option('-t, --title <title>', 'New title')
   .option('-d, --description <description>', 'New description')
   .option('-p, --priority <priority>', 'New priority (0-5)')
   .option('-s, --status <status>', 'New status')
-  .action((subtaskId: string, options: SubtaskUpdateOptions) => {
+  .option(
+    '--set <field=value>',
+    'Set a custom field, or clear it with field= (repeatable)',
+    collectValues,
+    []
+  )
+  .option('--start <date>', 'New start date (YYYY-MM-DD, today, friday, +3d)')
+  .option('--no-start', 'Clear the start date')
+  .option('--due <date>', 'New due date (YYYY-MM-DD, today, friday, +3d)')
+  .option('--no-due', 'Clear the due date')
+  .option('--estimate <n>', 'New effort estimate')
+  .option('--no-estimate', 'Clear the estimate')
+  .option('--if-unmodified-since <timestamp>', 'Only update if not changed since this time')
+  .option('--if-version <n>', 'Only update if still at this version')
+  .option(
+    '--where <filter>',
+    'Apply to every subtask matching the filter (e.g. "status:todo tag:ui")'
+  )
+  .option('--dry-run', 'With --where, list the matching subtasks without changing them')
+  .option('-y, --yes', 'With --where, skip the confirmation prompt')
+  .action(async (subtaskId: string | undefined, options: SubtaskUpdateOptions) => {
     try {
-      const subtask = getTask(subtaskId);
-      if (!subtask) {
-        return handleNotFound('Subtask', subtaskId);
-      }
-
-      if (!subtask.parentTaskId) {
-        error(`${subtaskId} is not a subtask. Use 'trekker task update' instead.`);
-        process.exit(1);
-      }
-
+      validateTargetOptions(subtaskId, options, 'Subtask');
       const updateInput: Record<string, unknown> = {};
       if (options.title !== undefined) {
         updateInput.title = options.title;
@@ -106,10 +146,40 @@ subtaskCommand
         updateInput.priority = parsePriority(options.priority);
       }
       if (options.status !== undefined) {
-        updateInput.status = parseStatus(options.status, 'task');
+        updateInput.status = parseTaskStatus(options.status);
+      }
+      const fields = parseFieldAssignments(options.set);
+      if (fields !== undefined) {
+        updateInput.fields = fields;
+      }
+      Object.assign(updateInput, parseScheduleOptions(options));
+      if (options.estimate === false) {
+        updateInput.estimate = null;
+      } else if (options.estimate !== undefined) {
+        updateInput.estimate = parseEstimate(options.estimate);
       }
 
-      const updated = updateTask(subtaskId, updateInput);
+      if (options.where !== undefined) {
+        validateUpdateInput(updateInput);
+        const items = findBulkTargets('subtask', options.where);
+        if (await confirmBulk(previewBulk('subtask', 'update', items), options)) {
+          outputResult(bulkUpdateTasks('subtask', items, updateInput), formatBulkResult);
+        }
+        return;
+      }
+
+      validateRequired(subtaskId, 'Subtask ID');
+      const subtask = getTask(subtaskId);
+      if (!subtask) {
+        return handleNotFound('Subtask', subtaskId);
+      }
+
+      if (!subtask.parentTaskId) {
+        error(`${subtaskId} is not a subtask. Use 'trekker task update' instead.`);
+        process.exit(1);
+      }
+
+      const updated = updateTask(subtaskId, updateInput, parseWriteExpectation(options));
       outputResult(updated, formatTask, `Subtask updated: ${updated.id}`);
     } catch (err) {
       handleCommandError(err);
@@ -117,10 +187,26 @@ subtaskCommand
   });
 
 subtaskCommand
-  .command('delete <subtask-id>')
-  .description('Delete a subtask')
-  .action((subtaskId: string) => {
+  .command('delete [subtask-id]')
+  .description('Delete a subtask, or every subtask matching --where')
+  .option(
+    '--where <filter>',
+    'Apply to every subtask matching the filter (e.g. "status:todo tag:ui")'
+  )
+  .option('--dry-run', 'With --where, list the matching subtasks without changing them')
+  .option('-y, --yes', 'With --where, skip the confirmation prompt')
+  .action(async (subtaskId: string | undefined, options: BulkCommandOptions) => {
     try {
+      validateTargetOptions(subtaskId, options, 'Subtask');
+      if (options.where !== undefined) {
+        const items = findBulkTargets('subtask', options.where);
+        if (await confirmBulk(previewBulk('subtask', getBulkDeleteAction(), items), options)) {
+          outputResult(bulkDelete('subtask', items), formatBulkResult);
+        }
+        return;
+      }
+
+      validateRequired(subtaskId, 'Subtask ID');
       const subtask = getTask(subtaskId);
       if (!subtask) {
         return handleNotFound('Subtask', subtaskId);
@@ -131,7 +217,11 @@ subtaskCommand
         process.exit(1);
       }
 
-      deleteTask(subtaskId);
+      const outcome = deleteTask(subtaskId);
+      if (outcome === 'trashed') {
+        success(`Subtask moved to trash: ${subtaskId}`);
+        return;
+      }
       success(`Subtask deleted: ${subtaskId}`);
     } catch (err) {
       handleCommandError(err);
@@ -0,0 +1,59 @@
+import { Command } from 'commander';
+import { disableMirror, writeMirror } from '../services/mirror';
+import type { MirrorWriteResult } from '../services/mirror';
+import { syncFromFiles } from '../services/sync';
+import type { SyncFromFilesResult } from '../services/sync';
+import { handleCommandError, outputResult, success } from '../utils/output';
+import type { SyncCommandOptions } from '../types/options';
+
+export const syncCommand = new Command('sync')
+  .description(
+    'Mirror the database to plain-text files in .trekker/mirror, or rebuild it from them'
+  )
+  .option('--from-files', 'Rebuild the database from the mirror files')
+  .option('--disable', 'Stop mirroring and remove the mirror files')
+  .action((options: SyncCommandOptions) => {
+    try {
+      if (options.fromFiles && options.disable) {
+        throw new Error('--from-files and --disable cannot be used together.');
+      }
+
+      if (options.disable) {
+        disableMirror();
+        success('Mirror disabled and files removed.');
+        return;
+      }
+
+      if (options.fromFiles) {
+        const result = syncFromFiles();
+        outputResult(result, formatSyncFromFiles, 'Database rebuilt from mirror files');
+        return;
+      }
+
+      const result = writeMirror();
+      outputResult(result, formatMirrorWrite, 'Mirror up to date');
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+function formatMirrorWrite(result: MirrorWriteResult): string {
+  return [
+    `Directory: ${result.directory}`,
+    `Files:     ${result.files} (${result.written} written, ${result.removed} removed)`,
+  ].join('\n');
+}
+
+function formatSyncFromFiles(result: SyncFromFilesResult): string {
+  const { imported } = result;
+  const lines = [
+    `Epics:        ${imported.epics}`,
+    `Tasks:        ${imported.tasks}`,
+    `Comments:     ${imported.comments}`,
+    `Dependencies: ${imported.dependencies}`,
+  ];
+  if (result.backupPath) {
+    lines.push(`Backup:       ${result.backupPath}`);
+  }
+  return lines.join('\n');
+}
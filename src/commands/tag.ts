@@ -0,0 +1,52 @@
+import { Command } from 'commander';
+import { deleteTag, listTags, mergeTags, renameTag } from '../services/tag';
+import { formatTagList, handleCommandError, outputResult, success } from '../utils/output';
+
+export const tagCommand = new Command('tag').description('Manage the tags used on tasks');
+
+tagCommand
+  .command('list')
+  .description('List tags with the number of tasks using each')
+  .action(() => {
+    try {
+      outputResult(listTags(), formatTagList);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+tagCommand
+  .command('rename <tag> <new-name>')
+  .description('Rename a tag on every task that carries it')
+  .action((tag: string, newName: string) => {
+    try {
+      const result = renameTag(tag, newName);
+      success(`Tag renamed to ${result.tag} on ${result.tasks} task(s)`, result);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+tagCommand
+  .command('merge <source> <target>')
+  .description('Replace a tag with another on every task, then remove it')
+  .action((source: string, target: string) => {
+    try {
+      const result = mergeTags(source, target);
+      success(`Tag ${source} merged into ${result.tag} on ${result.tasks} task(s)`, result);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+tagCommand
+  .command('delete <tag>')
+  .description('Remove a tag from every task and delete it')
+  .action((tag: string) => {
+    try {
+      const result = deleteTag(tag);
+      success(`Tag deleted: ${result.tag} (removed from ${result.tasks} task(s))`, result);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
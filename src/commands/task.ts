@@ -1,20 +1,54 @@
 import { Command } from 'commander';
 import { createTask, getTask, listTasks, updateTask, deleteTask } from '../services/task';
+import { parseTaskStatus } from '../services/workflow';
+import { getTaskAt } from '../services/snapshot';
+import { getTaskDetails, TASK_DETAILS_DEFAULTS } from '../services/task-context';
+import { claimTask, heartbeatTask, releaseTask } from '../services/claim';
+import {
+  bulkDelete,
+  bulkUpdateTasks,
+  findBulkTargets,
+  getBulkDeleteAction,
+  previewBulk,
+} from '../services/bulk';
+import { confirmBulk } from '../utils/prompt';
 import {
-  parseStatus,
   parsePriority,
   validateRequired,
   parsePaginationOptions,
+  parseTimestamp,
+  parseDuration,
+  parseWriteExpectation,
+  validateTargetOptions,
+  validateUpdateInput,
+  parseCommaSeparated,
+  collectValues,
+  parseFieldAssignments,
+  parseScheduleOptions,
+  parseEstimate,
+  parsePositiveInteger,
 } from '../utils/validator';
+import { DEFAULT_CLAIM_TTL } from '../utils/constants';
 import {
   success,
   formatTask,
+  formatTaskDetails,
   formatPaginatedTaskList,
+  formatBulkResult,
   handleCommandError,
   handleNotFound,
   outputResult,
 } from '../utils/output';
-import type { TaskCreateOptions, TaskListOptions, TaskUpdateOptions } from '../types/options';
+import type { Task } from '../types';
+import type {
+  BulkCommandOptions,
+  TaskClaimOptions,
+  TaskCreateOptions,
+  TaskListOptions,
+  TaskReleaseOptions,
+  TaskShowOptions,
+  TaskUpdateOptions,
+} from '../types/options';
 
 export const taskCommand = new Command('task').description('Manage tasks');
 
@@ -24,9 +58,14 @@ taskCommand
   .requiredOption('-t, --title <title>', 'Task title')
   .option('-d, --description <description>', 'Task description')
   .option('-p, --priority <priority>', 'Priority (0-5, default: 2)')
-  .option('-s, --status <status>', 'Status (todo, in_progress, completed, wont_fix, archived)')
+  .option('-s, --status <status>', 'Status (default: todo; see trekker workflow list)')
   .option('--tags <tags>', 'Comma-separated tags')
   .option('-e, --epic <epic-id>', 'Epic ID to assign task to')
+  .option('--assignee <name>', 'Who is working on the task')
+  .option('--set <field=value>', 'Set a custom field (repeatable)', collectValues, [])
+  .option('--start <date>', 'Start date (YYYY-MM-DD, today, friday, +3d)')
+  .option('--due <date>', 'Due date (YYYY-MM-DD, today, friday, +3d)')
+  .option('--estimate <n>', 'Effort estimate (points or hours, see estimate_unit)')
   .action((options: TaskCreateOptions) => {
     try {
       validateRequired(options.title, 'Title');
@@ -35,9 +74,13 @@ taskCommand
         title: options.title,
         description: options.description,
         priority: parsePriority(options.priority),
-        status: parseStatus(options.status, 'task'),
+        status: parseTaskStatus(options.status),
         tags: options.tags,
         epicId: options.epic,
+        assignee: options.assignee,
+        fields: parseFieldAssignments(options.set),
+        ...parseScheduleOptions(options),
+        estimate: parseEstimate(options.estimate),
       });
 
       outputResult(task, formatTask, `Task created: ${task.id}`);
@@ -51,17 +94,23 @@ taskCommand
   .description('List all tasks')
   .option('-s, --status <status>', 'Filter by status')
   .option('-e, --epic <epic-id>', 'Filter by epic')
+  .option('--tag <tags>', 'Only tasks with all of these tags (comma-separated)')
+  .option('--assignee <name>', 'Filter by assignee')
+  .option('--include-deleted', 'Include items in the trash')
   .option('--limit <n>', 'Results per page (default: 50)', '50')
   .option('--page <n>', 'Page number (default: 1)', '1')
   .action((options: TaskListOptions) => {
     try {
-      const status = parseStatus(options.status, 'task');
+      const status = parseTaskStatus(options.status);
       const { limit, page } = parsePaginationOptions(options);
 
       const result = listTasks({
         status,
         epicId: options.epic,
+        tags: parseCommaSeparated(options.tag),
         parentTaskId: null,
+        assignee: options.assignee,
+        includeDeleted: options.includeDeleted,
         limit,
         page,
       });
@@ -75,9 +124,36 @@ taskCommand
 taskCommand
   .command('show <task-id>')
   .description('Show task details')
-  .action((taskId: string) => {
+  .option('--at <timestamp>', 'Show the task as it was at a past date or time')
+  .option('--full', 'Also show the epic, subtasks, dependencies, latest comments and history')
+  .option('--comments <n>', 'With --full, how many of the latest comments to show (default: 5)')
+  .option('--history <n>', 'With --full, how many history events to show (default: 10)')
+  .action((taskId: string, options: TaskShowOptions) => {
     try {
-      const task = getTask(taskId);
+      if (options.full) {
+        if (options.at) {
+          throw new Error('--full shows the task as it is now and cannot be combined with --at.');
+        }
+        let { comments, history } = TASK_DETAILS_DEFAULTS;
+        if (options.comments !== undefined) {
+          comments = parsePositiveInteger(options.comments, 'comments');
+        }
+        if (options.history !== undefined) {
+          history = parsePositiveInteger(options.history, 'history');
+        }
+        outputResult(getTaskDetails(taskId, { comments, history }), formatTaskDetails);
+        return;
+      }
+      if (options.comments !== undefined || options.history !== undefined) {
+        throw new Error('--comments and --history only apply with --full.');
+      }
+
+      let task: Task | undefined;
+      if (options.at) {
+        task = getTaskAt(taskId, parseTimestamp(options.at));
+      } else {
+        task = getTask(taskId);
+      }
       if (!task) {
         return handleNotFound('Task', taskId);
       }
@@ -89,8 +165,8 @@ taskCommand
   });
 
 taskCommand
-  .command('update <task-id>')
-  .description('Update a task')
+  .command('update [task-id]')
+  .description('Update a task, or every task matching --where')
   .option('-t, --title <title>', 'New title')
   .option('-d, --description <description>', 'New description')
   .option('-p, --priority <priority>', 'New priority (0-5)')
@@ -98,8 +174,28 @@ taskCommand
   .option('--tags <tags>', 'New tags (comma-separated)')
   .option('-e, --epic <epic-id>', 'New epic ID')
   .option('--no-epic', 'Remove from epic')
-  .action((taskId: string, options: TaskUpdateOptions) => {
+  .option('--assignee <name>', 'New assignee (replaces any claim)')
+  .option('--no-assignee', 'Remove the assignee')
+  .option(
+    '--set <field=value>',
+    'Set a custom field, or clear it with field= (repeatable)',
+    collectValues,
+    []
+  )
+  .option('--start <date>', 'New start date (YYYY-MM-DD, today, friday, +3d)')
+  .option('--no-start', 'Clear the start date')
+  .option('--due <date>', 'New due date (YYYY-MM-DD, today, friday, +3d)')
+  .option('--no-due', 'Clear the due date')
+  .option('--estimate <n>', 'New effort estimate')
+  .option('--no-estimate', 'Clear the estimate')
+  .option('--if-unmodified-since <timestamp>', 'Only update if not changed since this time')
+  .option('--if-version <n>', 'Only update if still at this version')
+  .option('--where <filter>', 'Apply to every task matching the filter (e.g. "status:todo tag:ui")')
+  .option('--dry-run', 'With --where, list the matching tasks without changing them')
+  .option('-y, --yes', 'With --where, skip the confirmation prompt')
+  .action(async (taskId: string | undefined, options: TaskUpdateOptions) => {
     try {
+      validateTargetOptions(taskId, options, 'Task');
       const updateInput: Record<string, unknown> = {};
 
       if (options.title !== undefined) {
@@ -112,7 +208,7 @@ taskCommand
         updateInput.priority = parsePriority(options.priority);
       }
       if (options.status !== undefined) {
-        updateInput.status = parseStatus(options.status, 'task');
+        updateInput.status = parseTaskStatus(options.status);
       }
       if (options.tags !== undefined) {
         updateInput.tags = options.tags;
@@ -122,8 +218,33 @@ taskCommand
       } else if (options.epic !== undefined) {
         updateInput.epicId = options.epic;
       }
+      if (options.assignee === false) {
+        updateInput.assignee = null;
+      } else if (options.assignee !== undefined) {
+        updateInput.assignee = options.assignee;
+      }
+      const fields = parseFieldAssignments(options.set);
+      if (fields !== undefined) {
+        updateInput.fields = fields;
+      }
+      Object.assign(updateInput, parseScheduleOptions(options));
+      if (options.estimate === false) {
+        updateInput.estimate = null;
+      } else if (options.estimate !== undefined) {
+        updateInput.estimate = parseEstimate(options.estimate);
+      }
 
-      const task = updateTask(taskId, updateInput);
+      if (options.where !== undefined) {
+        validateUpdateInput(updateInput);
+        const items = findBulkTargets('task', options.where);
+        if (await confirmBulk(previewBulk('task', 'update', items), options)) {
+          outputResult(bulkUpdateTasks('task', items, updateInput), formatBulkResult);
+        }
+        return;
+      }
+
+      validateRequired(taskId, 'Task ID');
+      const task = updateTask(taskId, updateInput, parseWriteExpectation(options));
       outputResult(task, formatTask, `Task updated: ${task.id}`);
     } catch (err) {
       handleCommandError(err);
@@ -131,13 +252,72 @@ taskCommand
   });
 
 taskCommand
-  .command('delete <task-id>')
-  .description('Delete a task')
-  .action((taskId: string) => {
+  .command('delete [task-id]')
+  .description('Delete a task, or every task matching --where')
+  .option('--where <filter>', 'Apply to every task matching the filter (e.g. "status:todo tag:ui")')
+  .option('--dry-run', 'With --where, list the matching tasks without changing them')
+  .option('-y, --yes', 'With --where, skip the confirmation prompt')
+  .action(async (taskId: string | undefined, options: BulkCommandOptions) => {
     try {
-      deleteTask(taskId);
+      validateTargetOptions(taskId, options, 'Task');
+      if (options.where !== undefined) {
+        const items = findBulkTargets('task', options.where);
+        if (await confirmBulk(previewBulk('task', getBulkDeleteAction(), items), options)) {
+          outputResult(bulkDelete('task', items), formatBulkResult);
+        }
+        return;
+      }
+
+      validateRequired(taskId, 'Task ID');
+      const outcome = deleteTask(taskId);
+      if (outcome === 'trashed') {
+        success(`Task moved to trash: ${taskId}`);
+        return;
+      }
       success(`Task deleted: ${taskId}`);
     } catch (err) {
       handleCommandError(err);
     }
   });
+
+taskCommand
+  .command('claim <task-id>')
+  .description('Claim a task for an agent, failing if another agent holds an unexpired claim')
+  .requiredOption('--as <agent>', 'Name of the agent claiming the task')
+  .option('--ttl <duration>', 'How long the claim holds (e.g. 30m, 2h)', DEFAULT_CLAIM_TTL)
+  .action((taskId: string, options: TaskClaimOptions) => {
+    try {
+      validateRequired(options.as, 'Agent');
+      const task = claimTask(taskId, options.as, parseDuration(options.ttl, 'TTL'));
+      outputResult(task, formatTask, `Task claimed: ${task.id}`);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+taskCommand
+  .command('heartbeat <task-id>')
+  .description('Extend the claim an agent holds on a task')
+  .requiredOption('--as <agent>', 'Name of the agent holding the claim')
+  .option('--ttl <duration>', 'How long the claim holds from now (e.g. 30m, 2h)', DEFAULT_CLAIM_TTL)
+  .action((taskId: string, options: TaskClaimOptions) => {
+    try {
+      const task = heartbeatTask(taskId, options.as, parseDuration(options.ttl, 'TTL'));
+      outputResult(task, formatTask, `Claim extended: ${task.id}`);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+taskCommand
+  .command('release <task-id>')
+  .description('Release the claim an agent holds on a task')
+  .requiredOption('--as <agent>', 'Name of the agent holding the claim')
+  .action((taskId: string, options: TaskReleaseOptions) => {
+    try {
+      const task = releaseTask(taskId, options.as);
+      outputResult(task, formatTask, `Task released: ${task.id}`);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
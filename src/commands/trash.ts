@@ -0,0 +1,116 @@
+import { Command } from 'commander';
+import { listTrash, purgeTrash, restoreFromTrash, setTrashEnabled } from '../services/trash';
+import type { TrashListResponse, TrashPurgeResult } from '../services/trash';
+import { handleCommandError, outputResult, success } from '../utils/output';
+import { parseAge } from '../utils/validator';
+import { TRUNCATE_CONTENT, TYPE_PAD_WIDTH } from '../utils/constants';
+import type { TrashPurgeOptions } from '../types/options';
+
+export const trashCommand = new Command('trash').description(
+  'Keep deleted items in a trash bin until they are purged'
+);
+
+trashCommand
+  .command('enable')
+  .description('Move deleted epics, tasks, subtasks and comments to the trash')
+  .action(() => {
+    try {
+      setTrashEnabled(true);
+      success('Trash enabled. Deleted items are kept until purged.');
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+trashCommand
+  .command('disable')
+  .description('Delete items permanently again (items already in the trash stay there)')
+  .action(() => {
+    try {
+      setTrashEnabled(false);
+      success('Trash disabled. Deleted items are removed immediately.');
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+trashCommand
+  .command('list')
+  .description('List items in the trash')
+  .action(() => {
+    try {
+      outputResult(listTrash(), formatTrashList);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+trashCommand
+  .command('restore <id>')
+  .description('Take an item, and everything trashed with it, out of the trash')
+  .action((id: string) => {
+    try {
+      const result = restoreFromTrash(id);
+      outputResult(result, (r) => `Items restored: ${r.restored}`, `Restored from trash: ${id}`);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+trashCommand
+  .command('purge [id]')
+  .description('Permanently delete one item or everything in the trash')
+  .option('--older-than <age>', 'Only purge items trashed at least this long ago (e.g. 30d, 12h)')
+  .action((id: string | undefined, options: TrashPurgeOptions) => {
+    try {
+      if (id && options.olderThan) {
+        throw new Error('An item ID and --older-than cannot be used together.');
+      }
+
+      let olderThan: Date | undefined;
+      if (options.olderThan) {
+        olderThan = parseAge(options.olderThan);
+      }
+
+      const result = purgeTrash({ id, olderThan });
+      outputResult(result, formatPurgeResult, 'Trash purged');
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+function formatTrashList(result: TrashListResponse): string {
+  const lines: string[] = [];
+  if (!result.enabled) {
+    lines.push("Trash is disabled; deletes are permanent. Run 'trekker trash enable' to use it.");
+  }
+
+  if (result.items.length === 0) {
+    lines.push('The trash is empty.');
+    return lines.join('\n');
+  }
+
+  for (const item of result.items) {
+    let title = item.title;
+    if (title.length > TRUNCATE_CONTENT) {
+      title = `${title.slice(0, TRUNCATE_CONTENT)}...`;
+    }
+    let parent = '';
+    if (item.parentId) {
+      parent = ` (${item.parentId})`;
+    }
+    lines.push(
+      `${item.deletedAt.toISOString()} | ${item.type.padEnd(TYPE_PAD_WIDTH)} | ${item.id} | ${title}${parent}`
+    );
+  }
+
+  return lines.join('\n');
+}
+
+function formatPurgeResult(result: TrashPurgeResult): string {
+  return [
+    `Epics:    ${result.epics}`,
+    `Tasks:    ${result.tasks}`,
+    `Comments: ${result.comments}`,
+  ].join('\n');
+}
@@ -0,0 +1,17 @@
+import { Command } from 'commander';
+import { undo } from '../services/revert';
+import { handleCommandError, outputResult, formatRevertResult } from '../utils/output';
+import { parsePositiveInteger } from '../utils/validator';
+import type { UndoCommandOptions } from '../types/options';
+
+export const undoCommand = new Command('undo')
+  .description('Revert the most recent changes recorded in history')
+  .option('-n, --count <n>', 'Number of changes to undo (default: 1)', '1')
+  .action((options: UndoCommandOptions) => {
+    try {
+      const count = parsePositiveInteger(options.count, 'count');
+      outputResult(undo(count), formatRevertResult, 'Undo complete');
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
@@ -0,0 +1,81 @@
+import { Command, Option } from 'commander';
+import { listFilterQuery } from '../services/list';
+import { deleteView, listViews, runView, saveView } from '../services/view';
+import {
+  formatListResults,
+  formatSavedView,
+  formatSavedViewList,
+  handleCommandError,
+  outputResult,
+  success,
+} from '../utils/output';
+import { parsePaginationOptions } from '../utils/validator';
+import type { ViewRunOptions, ViewSaveOptions } from '../types/options';
+
+export const viewCommand = new Command('view').description(
+  'Save list queries under a name and run them'
+);
+
+viewCommand
+  .command('save <name> [query]')
+  .description('Save a list query as a view, replacing any view of the same name')
+  .option('--type <types>', 'Filter by type: epic,task,subtask (comma-separated)')
+  .option('--status <statuses>', 'Filter by status (comma-separated)')
+  .option('--priority <levels>', 'Filter by priority: 0-5 (comma-separated)')
+  .option('--tag <tags>', 'Only items with all of these tags (comma-separated)')
+  .addOption(new Option('--tags <tags>').hideHelp())
+  .option('-e, --epic <epic-id>', 'Only tasks and subtasks in this epic')
+  .option('--since <date>', 'Created on or after date (YYYY-MM-DD)')
+  .option('--until <date>', 'Created on or before date (YYYY-MM-DD)')
+  .option('--overdue', 'Only items past their due date that are not done')
+  .option('--sort <fields>', 'Sort by fields (field:direction, comma-separated)', 'created:desc')
+  .action((name: string, query: string | undefined, options: ViewSaveOptions) => {
+    try {
+      const view = saveView(name, {
+        query: listFilterQuery(query, options),
+        sort: options.sort,
+      });
+
+      outputResult(view, formatSavedView, `View saved: ${view.name}`);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+viewCommand
+  .command('run <name>')
+  .description('List the items a saved view matches')
+  .option('--limit <n>', 'Results per page (default: 50)', '50')
+  .option('--page <n>', 'Page number (default: 1)', '1')
+  .action((name: string, options: ViewRunOptions) => {
+    try {
+      const { limit, page } = parsePaginationOptions(options);
+
+      outputResult(runView(name, { limit, page }), formatListResults);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+viewCommand
+  .command('list')
+  .description('List saved views')
+  .action(() => {
+    try {
+      outputResult(listViews(), formatSavedViewList);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+viewCommand
+  .command('delete <name>')
+  .description('Delete a saved view')
+  .action((name: string) => {
+    try {
+      deleteView(name);
+      success(`View deleted: ${name}`);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
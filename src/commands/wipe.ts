@@ -1,7 +1,7 @@
 import { Command } from 'commander';
 import { wipeProject, isTrekkerInitialized } from '../services/project';
 import { success, error, handleCommandError } from '../utils/output';
-import * as readline from 'node:readline';
+import { confirm } from '../utils/prompt';
 import type { WipeCommandOptions } from '../types/options';
 
 export const wipeCommand = new Command('wipe')
@@ -30,17 +30,3 @@ export const wipeCommand = new Command('wipe')
       handleCommandError(err);
     }
   });
-
-function confirm(prompt: string): Promise<boolean> {
-  return new Promise((resolve) => {
-    const rl = readline.createInterface({
-      input: process.stdin,
-      output: process.stdout,
-    });
-
-    rl.question(prompt, (answer) => {
-      rl.close();
-      resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
-    });
-  });
-}
@@ -0,0 +1,93 @@
+import { Command } from 'commander';
+import {
+  addStatus,
+  listStatuses,
+  parseStatusCategory,
+  removeStatus,
+  updateStatus,
+} from '../services/workflow';
+import { parseCommaSeparated, validateUpdateInput } from '../utils/validator';
+import {
+  formatWorkflow,
+  formatWorkflowStatus,
+  handleCommandError,
+  outputResult,
+  success,
+} from '../utils/output';
+import type { WorkflowStatusInput } from '../types';
+import type { WorkflowAddOptions, WorkflowUpdateOptions } from '../types/options';
+
+export const workflowCommand = new Command('workflow').description(
+  'Manage the task statuses of the project and the moves allowed between them'
+);
+
+workflowCommand
+  .command('list')
+  .description('List the task statuses with their category and allowed transitions')
+  .action(() => {
+    try {
+      outputResult(listStatuses(), formatWorkflow);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+workflowCommand
+  .command('add <status>')
+  .description('Add a task status')
+  .requiredOption('--category <category>', 'What the status means (todo, active, done)')
+  .option('--to <statuses>', 'Statuses a task may move to from this one (default: any)')
+  .action((name: string, options: WorkflowAddOptions) => {
+    try {
+      const status = addStatus(name, {
+        category: parseStatusCategory(options.category),
+        transitions: parseCommaSeparated(options.to),
+      });
+      outputResult(status, formatWorkflowStatus, `Status added: ${status.name}`);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+workflowCommand
+  .command('update <status>')
+  .description('Change the category of a status or the statuses a task may move to from it')
+  .option('--category <category>', 'What the status means (todo, active, done)')
+  .option('--to <statuses>', 'Statuses a task may move to from this one (replaces the list)')
+  .option('--any', 'Allow moving to any status')
+  .action((name: string, options: WorkflowUpdateOptions) => {
+    try {
+      if (options.to !== undefined && options.any) {
+        throw new Error('Use either --to or --any, not both.');
+      }
+
+      const input: WorkflowStatusInput = {};
+      if (options.category !== undefined) {
+        input.category = parseStatusCategory(options.category);
+      }
+      if (options.to !== undefined) {
+        input.transitions = parseCommaSeparated(options.to) ?? [];
+      }
+      if (options.any) {
+        input.transitions = null;
+      }
+      validateUpdateInput(input);
+
+      const status = updateStatus(name, input);
+      outputResult(status, formatWorkflowStatus, `Status updated: ${status.name}`);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
+
+workflowCommand
+  .command('remove <status>')
+  .description('Remove a status the project added')
+  .action((name: string) => {
+    try {
+      const status = removeStatus(name);
+      success(`Status removed: ${status.name}`, status);
+    } catch (err) {
+      handleCommandError(err);
+    }
+  });
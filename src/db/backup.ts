@@ -0,0 +1,23 @@
+import type { Database } from 'bun:sqlite';
+import { existsSync, mkdirSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+
+/**
+ * Writes a copy of the database to `backupDir` as `<name>-<timestamp>-<pid>.db`
+ * and returns its path. The process id keeps backups apart when several processes
+ * open the same old database at once.
+ */
+export function backupDatabase(sqlite: Database, backupDir: string, name: string): string {
+  if (!existsSync(backupDir)) {
+    mkdirSync(backupDir, { recursive: true });
+  }
+
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const backupPath = join(backupDir, `${name}-${timestamp}-${process.pid}.db`);
+
+  // Serializing copies the database as this connection sees it, which also works inside
+  // the transaction that upgrades it (VACUUM INTO does not)
+  writeFileSync(backupPath, sqlite.serialize());
+
+  return backupPath;
+}
@@ -0,0 +1,210 @@
+import type { Database } from 'bun:sqlite';
+import type { Migration, MigrationContext } from './types';
+
+interface IdRow {
+  id: string;
+}
+
+interface ForeignKeyViolationRow {
+  table: string;
+  rowid: number;
+  parent: string;
+}
+
+// Foreign keys were declared but never enforced, so older databases can hold rows that
+// point at deleted parents. Those are repaired first, then `tasks` is rebuilt so that
+// `parent_task_id` gets a real cascading foreign key.
+export const enforceForeignKeys: Migration = {
+  version: 2,
+  name: 'enforce-foreign-keys',
+  up: (ctx) => {
+    repairOrphans(ctx);
+    rebuildTasksTable(ctx.sqlite);
+    assertNoViolations(ctx.sqlite);
+  },
+};
+
+function selectIds(sqlite: Database, query: string): string[] {
+  return sqlite
+    .query<IdRow, []>(query)
+    .all()
+    .map((row) => row.id);
+}
+
+function noteIds(ctx: MigrationContext, message: string, ids: string[]): void {
+  if (ids.length > 0) {
+    ctx.note(`${message} (${ids.length}): ${ids.join(', ')}`);
+  }
+}
+
+function repairOrphans(ctx: MigrationContext): void {
+  const { sqlite } = ctx;
+
+  // Every database holds exactly one project; rows pointing elsewhere are re-attached to it
+  const project = sqlite.query<IdRow, []>('SELECT id FROM projects LIMIT 1').get();
+  if (project) {
+    for (const table of ['epics', 'tasks']) {
+      const where = 'project_id NOT IN (SELECT id FROM projects)';
+      const ids = selectIds(sqlite, `SELECT id FROM ${table} WHERE ${where}`);
+      sqlite.query(`UPDATE ${table} SET project_id = ? WHERE ${where}`).run(project.id);
+      noteIds(ctx, `Re-attached ${table} with a missing project`, ids);
+    }
+  }
+
+  const detached = selectIds(
+    sqlite,
+    'SELECT id FROM tasks WHERE epic_id IS NOT NULL AND epic_id NOT IN (SELECT id FROM epics)'
+  );
+  sqlite.run(
+    'UPDATE tasks SET epic_id = NULL WHERE epic_id IS NOT NULL AND epic_id NOT IN (SELECT id FROM epics)'
+  );
+  noteIds(ctx, 'Cleared missing epic on tasks', detached);
+
+  // Deleting an orphaned subtask can orphan its own children, so repeat until stable
+  const orphanWhere = 'parent_task_id IS NOT NULL AND parent_task_id NOT IN (SELECT id FROM tasks)';
+  const orphanedSubtasks: string[] = [];
+  for (;;) {
+    const ids = selectIds(sqlite, `SELECT id FROM tasks WHERE ${orphanWhere}`);
+    if (ids.length === 0) {
+      break;
+    }
+    sqlite.run(`DELETE FROM tasks WHERE ${orphanWhere}`);
+    orphanedSubtasks.push(...ids);
+  }
+  noteIds(ctx, 'Deleted orphaned subtasks', orphanedSubtasks);
+
+  const orphanedComments = selectIds(
+    sqlite,
+    'SELECT id FROM comments WHERE task_id NOT IN (SELECT id FROM tasks)'
+  );
+  sqlite.run('DELETE FROM comments WHERE task_id NOT IN (SELECT id FROM tasks)');
+  noteIds(ctx, 'Deleted orphaned comments', orphanedComments);
+
+  const orphanedDependencies = selectIds(
+    sqlite,
+    `SELECT task_id || ' -> ' || depends_on_id AS id FROM dependencies
+     WHERE task_id NOT IN (SELECT id FROM tasks) OR depends_on_id NOT IN (SELECT id FROM tasks)`
+  );
+  sqlite.run(
+    `DELETE FROM dependencies
+     WHERE task_id NOT IN (SELECT id FROM tasks) OR depends_on_id NOT IN (SELECT id FROM tasks)`
+  );
+  noteIds(ctx, 'Deleted orphaned dependencies', orphanedDependencies);
+}
+
+function rebuildTasksTable(sqlite: Database): void {
+  sqlite.run(`
+    CREATE TABLE tasks_new (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      epic_id TEXT REFERENCES epics(id) ON DELETE SET NULL,
+      parent_task_id TEXT REFERENCES tasks(id) ON DELETE CASCADE,
+      title TEXT NOT NULL,
+      description TEXT,
+      priority INTEGER NOT NULL DEFAULT 2,
+      status TEXT NOT NULL DEFAULT 'todo',
+      tags TEXT,
+      created_at INTEGER NOT NULL,
+      updated_at INTEGER NOT NULL
+    )
+  `);
+
+  sqlite.run(`
+    INSERT INTO tasks_new (id, project_id, epic_id, parent_task_id, title, description,
+      priority, status, tags, created_at, updated_at)
+    SELECT id, project_id, epic_id, parent_task_id, title, description,
+      priority, status, tags, created_at, updated_at
+    FROM tasks
+  `);
+
+  // Dropping the table also drops its triggers; they are recreated below unchanged
+  sqlite.run('DROP TABLE tasks');
+  sqlite.run('ALTER TABLE tasks_new RENAME TO tasks');
+
+  sqlite.run('CREATE INDEX IF NOT EXISTS idx_tasks_parent_task_id ON tasks(parent_task_id)');
+  sqlite.run('CREATE INDEX IF NOT EXISTS idx_tasks_epic_id ON tasks(epic_id)');
+
+  sqlite.run(`
+    CREATE TRIGGER tasks_search_insert AFTER INSERT ON tasks BEGIN
+      INSERT INTO search_index(entity_id, entity_type, title, content, author, status, parent_id)
+      VALUES (
+        NEW.id,
+        IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'),
+        NEW.title,
+        NEW.description,
+        '',
+        NEW.status,
+        COALESCE(NEW.parent_task_id, NEW.epic_id)
+      );
+    END
+  `);
+
+  sqlite.run(`
+    CREATE TRIGGER tasks_search_delete AFTER DELETE ON tasks BEGIN
+      DELETE FROM search_index WHERE entity_id = OLD.id AND entity_type IN ('task', 'subtask');
+    END
+  `);
+
+  sqlite.run(`
+    CREATE TRIGGER tasks_search_update AFTER UPDATE ON tasks BEGIN
+      DELETE FROM search_index WHERE entity_id = OLD.id AND entity_type IN ('task', 'subtask');
+      INSERT INTO search_index(entity_id, entity_type, title, content, author, status, parent_id)
+      VALUES (
+        NEW.id,
+        IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'),
+        NEW.title,
+        NEW.description,
+        '',
+        NEW.status,
+        COALESCE(NEW.parent_task_id, NEW.epic_id)
+      );
+    END
+  `);
+
+  sqlite.run(`
+    CREATE TRIGGER tasks_history_insert AFTER INSERT ON tasks BEGIN
+      INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+      VALUES ('create', IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'), NEW.id,
+        json_object('id', NEW.id, 'title', NEW.title, 'description', NEW.description,
+          'status', NEW.status, 'priority', NEW.priority, 'epic_id', NEW.epic_id,
+          'parent_task_id', NEW.parent_task_id, 'tags', NEW.tags),
+        CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+    END
+  `);
+
+  sqlite.run(`
+    CREATE TRIGGER tasks_history_delete AFTER DELETE ON tasks BEGIN
+      INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+      VALUES ('delete', IIF(OLD.parent_task_id IS NULL, 'task', 'subtask'), OLD.id,
+        json_object('id', OLD.id, 'title', OLD.title, 'description', OLD.description,
+          'status', OLD.status, 'priority', OLD.priority, 'epic_id', OLD.epic_id,
+          'parent_task_id', OLD.parent_task_id, 'tags', OLD.tags),
+        CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+    END
+  `);
+
+  sqlite.run(`
+    CREATE TRIGGER tasks_history_update AFTER UPDATE ON tasks BEGIN
+      INSERT INTO events(action, entity_type, entity_id, changes, created_at)
+      SELECT 'update', IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'), NEW.id,
+        json_group_object(key, json_object('from', json_extract(old_json, '$.' || key), 'to', json_extract(new_json, '$.' || key))),
+        CAST(strftime('%s', 'now') AS INTEGER) * 1000
+      FROM (
+        SELECT
+          json_object('title', OLD.title, 'description', OLD.description, 'status', OLD.status,
+            'priority', OLD.priority, 'epic_id', OLD.epic_id, 'tags', OLD.tags) as old_json,
+          json_object('title', NEW.title, 'description', NEW.description, 'status', NEW.status,
+            'priority', NEW.priority, 'epic_id', NEW.epic_id, 'tags', NEW.tags) as new_json
+      ), json_each(json_object('title', 1, 'description', 1, 'status', 1, 'priority', 1, 'epic_id', 1, 'tags', 1))
+      WHERE json_extract(old_json, '$.' || key) IS NOT json_extract(new_json, '$.' || key);
+    END
+  `);
+}
+
+function assertNoViolations(sqlite: Database): void {
+  const violations = sqlite.query<ForeignKeyViolationRow, []>('PRAGMA foreign_key_check').all();
+  if (violations.length > 0) {
+    const details = violations.map((v) => `${v.table} row ${v.rowid} -> ${v.parent}`).join(', ');
+    throw new Error(`Foreign key violations remain after repair: ${details}`);
+  }
+}
@@ -0,0 +1,14 @@
+import type { Migration } from './types';
+import { addColumnIfMissing } from './add-column';
+
+// Tracks which events have been reverted, and which events a revert wrote, so that
+// `trekker undo` walks back through history instead of undoing its own changes.
+export const eventReverts: Migration = {
+  version: 3,
+  name: 'event-reverts',
+  up: ({ sqlite }) => {
+    addColumnIfMissing(sqlite, 'events', 'reverted_at', 'INTEGER');
+    addColumnIfMissing(sqlite, 'events', 'revert_of', 'INTEGER');
+    sqlite.run('CREATE INDEX IF NOT EXISTS idx_events_revert_of ON events(revert_of)');
+  },
+};
@@ -0,0 +1,14 @@
+import type { Migration } from './types';
+import { addColumnIfMissing } from './add-column';
+
+// Lets epics, tasks and comments sit in the trash (deleted_at set) before they are
+// purged for good.
+export const softDelete: Migration = {
+  version: 4,
+  name: 'soft-delete',
+  up: ({ sqlite }) => {
+    for (const table of ['epics', 'tasks', 'comments']) {
+      addColumnIfMissing(sqlite, table, 'deleted_at', 'INTEGER');
+    }
+  },
+};
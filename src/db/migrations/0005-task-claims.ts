@@ -0,0 +1,74 @@
+import type { Migration } from './types';
+import { addColumnIfMissing } from './add-column';
+
+// Who is working on a task, and until when an agent's claim on it holds. The update
+// triggers are recreated so that assignee changes are recorded, and so that updates
+// touching no tracked field (claim renewals, trashing) no longer log empty events.
+export const taskClaims: Migration = {
+  version: 5,
+  name: 'task-claims',
+  up: ({ sqlite }) => {
+    addColumnIfMissing(sqlite, 'tasks', 'assignee', 'TEXT');
+    addColumnIfMissing(sqlite, 'tasks', 'claim_expires_at', 'INTEGER');
+
+    for (const trigger of [
+      'epics_history_update',
+      'tasks_history_update',
+      'comments_history_update',
+    ]) {
+      sqlite.run(`DROP TRIGGER IF EXISTS ${trigger}`);
+    }
+
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS epics_history_update AFTER UPDATE ON epics BEGIN
+        INSERT INTO events(action, entity_type, entity_id, changes, created_at)
+        SELECT 'update', 'epic', NEW.id,
+          json_group_object(key, json_object('from', json_extract(old_json, '$.' || key), 'to', json_extract(new_json, '$.' || key))),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000
+        FROM (
+          SELECT
+            json_object('title', OLD.title, 'description', OLD.description, 'status', OLD.status, 'priority', OLD.priority) as old_json,
+            json_object('title', NEW.title, 'description', NEW.description, 'status', NEW.status, 'priority', NEW.priority) as new_json
+        ), json_each(json_object('title', 1, 'description', 1, 'status', 1, 'priority', 1))
+        WHERE json_extract(old_json, '$.' || key) IS NOT json_extract(new_json, '$.' || key)
+        HAVING COUNT(*) > 0;
+      END
+    `);
+
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_history_update AFTER UPDATE ON tasks BEGIN
+        INSERT INTO events(action, entity_type, entity_id, changes, created_at)
+        SELECT 'update', IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'), NEW.id,
+          json_group_object(key, json_object('from', json_extract(old_json, '$.' || key), 'to', json_extract(new_json, '$.' || key))),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000
+        FROM (
+          SELECT
+            json_object('title', OLD.title, 'description', OLD.description, 'status', OLD.status,
+              'priority', OLD.priority, 'epic_id', OLD.epic_id, 'tags', OLD.tags,
+              'assignee', OLD.assignee) as old_json,
+            json_object('title', NEW.title, 'description', NEW.description, 'status', NEW.status,
+              'priority', NEW.priority, 'epic_id', NEW.epic_id, 'tags', NEW.tags,
+              'assignee', NEW.assignee) as new_json
+        ), json_each(json_object('title', 1, 'description', 1, 'status', 1, 'priority', 1, 'epic_id', 1, 'tags', 1, 'assignee', 1))
+        WHERE json_extract(old_json, '$.' || key) IS NOT json_extract(new_json, '$.' || key)
+        HAVING COUNT(*) > 0;
+      END
+    `);
+
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS comments_history_update AFTER UPDATE ON comments BEGIN
+        INSERT INTO events(action, entity_type, entity_id, changes, created_at)
+        SELECT 'update', 'comment', NEW.id,
+          json_group_object(key, json_object('from', json_extract(old_json, '$.' || key), 'to', json_extract(new_json, '$.' || key))),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000
+        FROM (
+          SELECT
+            json_object('content', OLD.content) as old_json,
+            json_object('content', NEW.content) as new_json
+        ), json_each(json_object('content', 1))
+        WHERE json_extract(old_json, '$.' || key) IS NOT json_extract(new_json, '$.' || key)
+        HAVING COUNT(*) > 0;
+      END
+    `);
+  },
+};
@@ -0,0 +1,22 @@
+import type { Migration } from './types';
+import { addColumnIfMissing } from './add-column';
+
+const VERSIONED_TABLES = ['epics', 'tasks', 'comments'];
+
+// Every change to an epic, task or comment bumps its version, so an update can insist
+// that nobody else has changed the row since it was read.
+export const rowVersions: Migration = {
+  version: 6,
+  name: 'row-versions',
+  up: ({ sqlite }) => {
+    for (const table of VERSIONED_TABLES) {
+      addColumnIfMissing(sqlite, table, 'version', 'INTEGER NOT NULL DEFAULT 1');
+      sqlite.run(`
+        CREATE TRIGGER IF NOT EXISTS ${table}_version AFTER UPDATE ON ${table}
+        WHEN NEW.version = OLD.version BEGIN
+          UPDATE ${table} SET version = OLD.version + 1 WHERE id = NEW.id;
+        END
+      `);
+    }
+  },
+};
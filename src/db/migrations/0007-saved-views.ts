@@ -0,0 +1,18 @@
+import type { Migration } from './types';
+
+// Named list queries that everyone working on the project can run by name
+export const savedViews: Migration = {
+  version: 7,
+  name: 'saved-views',
+  up: ({ sqlite }) => {
+    sqlite.run(`
+      CREATE TABLE IF NOT EXISTS saved_views (
+        name TEXT PRIMARY KEY,
+        query TEXT NOT NULL DEFAULT '',
+        sort TEXT NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+  },
+};
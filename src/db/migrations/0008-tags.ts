@@ -0,0 +1,71 @@
+import type { Migration } from './types';
+
+// Turns a comma-separated tags column into a JSON array that json_each can walk. A
+// value that still is not valid JSON (control characters) yields no tags rather than
+// failing the write.
+function splitTags(column: string): string {
+  const array = `'["' || REPLACE(REPLACE(REPLACE(${column}, '\\', '\\\\'), '"', '\\"'), ',', '","') || '"]'`;
+  return `IIF(json_valid(${array}), ${array}, '[]')`;
+}
+
+function linkTags(taskId: string, tags: string): string {
+  return `
+    INSERT OR IGNORE INTO tags (name, created_at)
+    SELECT TRIM(value), CAST(strftime('%s', 'now') AS INTEGER)
+    FROM json_each(${splitTags(tags)}) WHERE TRIM(value) != '';
+    INSERT OR IGNORE INTO task_tags (task_id, tag_id)
+    SELECT ${taskId}, g.id FROM json_each(${splitTags(tags)}) j JOIN tags g ON g.name = TRIM(j.value);
+  `;
+}
+
+// Tags get a table of their own, names unique regardless of case, and a join table that
+// triggers keep in step with tasks.tags. Existing tag strings are split into both.
+export const normalizedTags: Migration = {
+  version: 8,
+  name: 'tags',
+  up: ({ sqlite }) => {
+    sqlite.run(`
+      CREATE TABLE IF NOT EXISTS tags (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        name TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        created_at INTEGER NOT NULL
+      )
+    `);
+    sqlite.run(`
+      CREATE TABLE IF NOT EXISTS task_tags (
+        task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+        tag_id INTEGER NOT NULL REFERENCES tags(id) ON DELETE CASCADE,
+        PRIMARY KEY (task_id, tag_id)
+      )
+    `);
+    sqlite.run('CREATE INDEX IF NOT EXISTS task_tags_tag_id ON task_tags(tag_id)');
+
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_tags_insert AFTER INSERT ON tasks
+      WHEN NEW.tags IS NOT NULL BEGIN
+        ${linkTags('NEW.id', 'NEW.tags')}
+      END
+    `);
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_tags_update AFTER UPDATE OF tags ON tasks BEGIN
+        DELETE FROM task_tags WHERE task_id = NEW.id;
+        ${linkTags('NEW.id', "COALESCE(NEW.tags, '')")}
+      END
+    `);
+
+    sqlite.run(`
+      INSERT OR IGNORE INTO tags (name, created_at)
+      SELECT TRIM(j.value), CAST(strftime('%s', 'now') AS INTEGER)
+      FROM tasks t, json_each(${splitTags('t.tags')}) j
+      WHERE t.tags IS NOT NULL AND TRIM(j.value) != ''
+      ORDER BY t.rowid
+    `);
+    sqlite.run(`
+      INSERT OR IGNORE INTO task_tags (task_id, tag_id)
+      SELECT t.id, g.id
+      FROM tasks t, json_each(${splitTags('t.tags')}) j
+      JOIN tags g ON g.name = TRIM(j.value)
+      WHERE t.tags IS NOT NULL
+    `);
+  },
+};
@@ -0,0 +1,165 @@
+import type { Migration } from './types';
+import { addColumnIfMissing } from './add-column';
+
+// The text indexed for an epic or task: its description, then its custom field values
+function searchContent(row: string): string {
+  return `IIF(${row}.fields IS NULL, ${row}.description,
+    CONCAT_WS(' ', ${row}.description, (SELECT group_concat(value, ' ') FROM json_each(${row}.fields))))`;
+}
+
+const REPLACED_TRIGGERS = [
+  'epics_search_insert',
+  'epics_search_update',
+  'tasks_search_insert',
+  'tasks_search_update',
+  'epics_history_insert',
+  'epics_history_delete',
+  'epics_history_update',
+  'tasks_history_insert',
+  'tasks_history_delete',
+  'tasks_history_update',
+];
+
+// Project-defined fields on epics and tasks. Definitions live in custom_fields; each
+// row keeps its values as a JSON object in a `fields` column, so the history triggers
+// record changes to them and the search triggers index them like the description.
+export const customFields: Migration = {
+  version: 9,
+  name: 'custom-fields',
+  up: ({ sqlite }) => {
+    sqlite.run(`
+      CREATE TABLE IF NOT EXISTS custom_fields (
+        name TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        allowed_values TEXT,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+    addColumnIfMissing(sqlite, 'epics', 'fields', 'TEXT');
+    addColumnIfMissing(sqlite, 'tasks', 'fields', 'TEXT');
+
+    for (const trigger of REPLACED_TRIGGERS) {
+      sqlite.run(`DROP TRIGGER IF EXISTS ${trigger}`);
+    }
+
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS epics_search_insert AFTER INSERT ON epics BEGIN
+        INSERT INTO search_index(entity_id, entity_type, title, content, author, status, parent_id)
+        VALUES (NEW.id, 'epic', NEW.title, ${searchContent('NEW')}, '', NEW.status, NULL);
+      END
+    `);
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS epics_search_update AFTER UPDATE ON epics BEGIN
+        DELETE FROM search_index WHERE entity_id = OLD.id AND entity_type = 'epic';
+        INSERT INTO search_index(entity_id, entity_type, title, content, author, status, parent_id)
+        VALUES (NEW.id, 'epic', NEW.title, ${searchContent('NEW')}, '', NEW.status, NULL);
+      END
+    `);
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_search_insert AFTER INSERT ON tasks BEGIN
+        INSERT INTO search_index(entity_id, entity_type, title, content, author, status, parent_id)
+        VALUES (
+          NEW.id,
+          IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'),
+          NEW.title,
+          ${searchContent('NEW')},
+          '',
+          NEW.status,
+          COALESCE(NEW.parent_task_id, NEW.epic_id)
+        );
+      END
+    `);
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_search_update AFTER UPDATE ON tasks BEGIN
+        DELETE FROM search_index WHERE entity_id = OLD.id AND entity_type IN ('task', 'subtask');
+        INSERT INTO search_index(entity_id, entity_type, title, content, author, status, parent_id)
+        VALUES (
+          NEW.id,
+          IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'),
+          NEW.title,
+          ${searchContent('NEW')},
+          '',
+          NEW.status,
+          COALESCE(NEW.parent_task_id, NEW.epic_id)
+        );
+      END
+    `);
+
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS epics_history_insert AFTER INSERT ON epics BEGIN
+        INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+        VALUES ('create', 'epic', NEW.id,
+          json_object('id', NEW.id, 'title', NEW.title, 'description', NEW.description,
+            'status', NEW.status, 'priority', NEW.priority, 'fields', NEW.fields),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+      END
+    `);
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS epics_history_delete AFTER DELETE ON epics BEGIN
+        INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+        VALUES ('delete', 'epic', OLD.id,
+          json_object('id', OLD.id, 'title', OLD.title, 'description', OLD.description,
+            'status', OLD.status, 'priority', OLD.priority, 'fields', OLD.fields),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+      END
+    `);
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS epics_history_update AFTER UPDATE ON epics BEGIN
+        INSERT INTO events(action, entity_type, entity_id, changes, created_at)
+        SELECT 'update', 'epic', NEW.id,
+          json_group_object(key, json_object('from', json_extract(old_json, '$.' || key), 'to', json_extract(new_json, '$.' || key))),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000
+        FROM (
+          SELECT
+            json_object('title', OLD.title, 'description', OLD.description, 'status', OLD.status,
+              'priority', OLD.priority, 'fields', OLD.fields) as old_json,
+            json_object('title', NEW.title, 'description', NEW.description, 'status', NEW.status,
+              'priority', NEW.priority, 'fields', NEW.fields) as new_json
+        ), json_each(json_object('title', 1, 'description', 1, 'status', 1, 'priority', 1, 'fields', 1))
+        WHERE json_extract(old_json, '$.' || key) IS NOT json_extract(new_json, '$.' || key)
+        HAVING COUNT(*) > 0;
+      END
+    `);
+
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_history_insert AFTER INSERT ON tasks BEGIN
+        INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+        VALUES ('create', IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'), NEW.id,
+          json_object('id', NEW.id, 'title', NEW.title, 'description', NEW.description,
+            'status', NEW.status, 'priority', NEW.priority, 'epic_id', NEW.epic_id,
+            'parent_task_id', NEW.parent_task_id, 'tags', NEW.tags, 'fields', NEW.fields),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+      END
+    `);
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_history_delete AFTER DELETE ON tasks BEGIN
+        INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+        VALUES ('delete', IIF(OLD.parent_task_id IS NULL, 'task', 'subtask'), OLD.id,
+          json_object('id', OLD.id, 'title', OLD.title, 'description', OLD.description,
+            'status', OLD.status, 'priority', OLD.priority, 'epic_id', OLD.epic_id,
+            'parent_task_id', OLD.parent_task_id, 'tags', OLD.tags, 'fields', OLD.fields),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+      END
+    `);
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_history_update AFTER UPDATE ON tasks BEGIN
+        INSERT INTO events(action, entity_type, entity_id, changes, created_at)
+        SELECT 'update', IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'), NEW.id,
+          json_group_object(key, json_object('from', json_extract(old_json, '$.' || key), 'to', json_extract(new_json, '$.' || key))),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000
+        FROM (
+          SELECT
+            json_object('title', OLD.title, 'description', OLD.description, 'status', OLD.status,
+              'priority', OLD.priority, 'epic_id', OLD.epic_id, 'tags', OLD.tags,
+              'assignee', OLD.assignee, 'fields', OLD.fields) as old_json,
+            json_object('title', NEW.title, 'description', NEW.description, 'status', NEW.status,
+              'priority', NEW.priority, 'epic_id', NEW.epic_id, 'tags', NEW.tags,
+              'assignee', NEW.assignee, 'fields', NEW.fields) as new_json
+        ), json_each(json_object('title', 1, 'description', 1, 'status', 1, 'priority', 1, 'epic_id', 1, 'tags', 1, 'assignee', 1, 'fields', 1))
+        WHERE json_extract(old_json, '$.' || key) IS NOT json_extract(new_json, '$.' || key)
+        HAVING COUNT(*) > 0;
+      END
+    `);
+  },
+};
@@ -0,0 +1,38 @@
+import type { Migration } from './types';
+
+// The statuses tasks could always take, with the category each one keeps
+const BUILTIN_STATUSES = [
+  ['todo', 'todo'],
+  ['in_progress', 'active'],
+  ['completed', 'done'],
+  ['wont_fix', 'done'],
+  ['archived', 'done'],
+] as const;
+
+// The task statuses of the project and the moves allowed between them. Each status
+// has a category (todo, active or done) that `ready` and dependency checks go by, and
+// a JSON list of the statuses a task may move to from it (NULL allows any).
+export const workflow: Migration = {
+  version: 10,
+  name: 'workflow',
+  up: ({ sqlite }) => {
+    sqlite.run(`
+      CREATE TABLE IF NOT EXISTS workflow_statuses (
+        name TEXT PRIMARY KEY,
+        category TEXT NOT NULL,
+        transitions TEXT,
+        position INTEGER NOT NULL,
+        created_at INTEGER NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    const insert = sqlite.prepare(
+      `INSERT OR IGNORE INTO workflow_statuses (name, category, transitions, position, created_at, updated_at)
+       VALUES (?, ?, NULL, ?, CAST(strftime('%s', 'now') AS INTEGER), CAST(strftime('%s', 'now') AS INTEGER))`
+    );
+    for (const [position, [name, category]] of BUILTIN_STATUSES.entries()) {
+      insert.run(name, category, position);
+    }
+  },
+};
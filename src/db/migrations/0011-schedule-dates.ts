@@ -0,0 +1,113 @@
+import type { Migration } from './types';
+import { addColumnIfMissing } from './add-column';
+
+const REPLACED_TRIGGERS = [
+  'epics_history_insert',
+  'epics_history_delete',
+  'epics_history_update',
+  'tasks_history_insert',
+  'tasks_history_delete',
+  'tasks_history_update',
+];
+
+// Optional start and due dates on epics and tasks, stored in seconds like the other
+// timestamps. The history triggers are recreated so changes to them are recorded.
+export const scheduleDates: Migration = {
+  version: 11,
+  name: 'schedule-dates',
+  up: ({ sqlite }) => {
+    for (const table of ['epics', 'tasks']) {
+      addColumnIfMissing(sqlite, table, 'start_at', 'INTEGER');
+      addColumnIfMissing(sqlite, table, 'due_at', 'INTEGER');
+    }
+
+    for (const trigger of REPLACED_TRIGGERS) {
+      sqlite.run(`DROP TRIGGER IF EXISTS ${trigger}`);
+    }
+
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS epics_history_insert AFTER INSERT ON epics BEGIN
+        INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+        VALUES ('create', 'epic', NEW.id,
+          json_object('id', NEW.id, 'title', NEW.title, 'description', NEW.description,
+            'status', NEW.status, 'priority', NEW.priority, 'fields', NEW.fields,
+            'start_at', NEW.start_at, 'due_at', NEW.due_at),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+      END
+    `);
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS epics_history_delete AFTER DELETE ON epics BEGIN
+        INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+        VALUES ('delete', 'epic', OLD.id,
+          json_object('id', OLD.id, 'title', OLD.title, 'description', OLD.description,
+            'status', OLD.status, 'priority', OLD.priority, 'fields', OLD.fields,
+            'start_at', OLD.start_at, 'due_at', OLD.due_at),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+      END
+    `);
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS epics_history_update AFTER UPDATE ON epics BEGIN
+        INSERT INTO events(action, entity_type, entity_id, changes, created_at)
+        SELECT 'update', 'epic', NEW.id,
+          json_group_object(key, json_object('from', json_extract(old_json, '$.' || key), 'to', json_extract(new_json, '$.' || key))),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000
+        FROM (
+          SELECT
+            json_object('title', OLD.title, 'description', OLD.description, 'status', OLD.status,
+              'priority', OLD.priority, 'fields', OLD.fields, 'start_at', OLD.start_at,
+              'due_at', OLD.due_at) as old_json,
+            json_object('title', NEW.title, 'description', NEW.description, 'status', NEW.status,
+              'priority', NEW.priority, 'fields', NEW.fields, 'start_at', NEW.start_at,
+              'due_at', NEW.due_at) as new_json
+        ), json_each(json_object('title', 1, 'description', 1, 'status', 1, 'priority', 1, 'fields', 1,
+            'start_at', 1, 'due_at', 1))
+        WHERE json_extract(old_json, '$.' || key) IS NOT json_extract(new_json, '$.' || key)
+        HAVING COUNT(*) > 0;
+      END
+    `);
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_history_insert AFTER INSERT ON tasks BEGIN
+        INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+        VALUES ('create', IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'), NEW.id,
+          json_object('id', NEW.id, 'title', NEW.title, 'description', NEW.description,
+            'status', NEW.status, 'priority', NEW.priority, 'epic_id', NEW.epic_id,
+            'parent_task_id', NEW.parent_task_id, 'tags', NEW.tags, 'fields', NEW.fields,
+            'start_at', NEW.start_at, 'due_at', NEW.due_at),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+      END
+    `);
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_history_delete AFTER DELETE ON tasks BEGIN
+        INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+        VALUES ('delete', IIF(OLD.parent_task_id IS NULL, 'task', 'subtask'), OLD.id,
+          json_object('id', OLD.id, 'title', OLD.title, 'description', OLD.description,
+            'status', OLD.status, 'priority', OLD.priority, 'epic_id', OLD.epic_id,
+            'parent_task_id', OLD.parent_task_id, 'tags', OLD.tags, 'fields', OLD.fields,
+            'start_at', OLD.start_at, 'due_at', OLD.due_at),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+      END
+    `);
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_history_update AFTER UPDATE ON tasks BEGIN
+        INSERT INTO events(action, entity_type, entity_id, changes, created_at)
+        SELECT 'update', IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'), NEW.id,
+          json_group_object(key, json_object('from', json_extract(old_json, '$.' || key), 'to', json_extract(new_json, '$.' || key))),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000
+        FROM (
+          SELECT
+            json_object('title', OLD.title, 'description', OLD.description, 'status', OLD.status,
+              'priority', OLD.priority, 'epic_id', OLD.epic_id, 'tags', OLD.tags,
+              'assignee', OLD.assignee, 'fields', OLD.fields, 'start_at', OLD.start_at,
+              'due_at', OLD.due_at) as old_json,
+            json_object('title', NEW.title, 'description', NEW.description, 'status', NEW.status,
+              'priority', NEW.priority, 'epic_id', NEW.epic_id, 'tags', NEW.tags,
+              'assignee', NEW.assignee, 'fields', NEW.fields, 'start_at', NEW.start_at,
+              'due_at', NEW.due_at) as new_json
+        ), json_each(json_object('title', 1, 'description', 1, 'status', 1, 'priority', 1, 'epic_id', 1, 'tags', 1, 'assignee', 1, 'fields', 1,
+            'start_at', 1, 'due_at', 1))
+        WHERE json_extract(old_json, '$.' || key) IS NOT json_extract(new_json, '$.' || key)
+        HAVING COUNT(*) > 0;
+      END
+    `);
+  },
+};
@@ -0,0 +1,63 @@
+import type { Migration } from './types';
+import { addColumnIfMissing } from './add-column';
+
+const REPLACED_TRIGGERS = ['tasks_history_insert', 'tasks_history_delete', 'tasks_history_update'];
+
+// An optional effort estimate on tasks and subtasks, in the unit set by the project's
+// `estimate_unit`. The history triggers are recreated so changes to it are recorded.
+export const taskEstimates: Migration = {
+  version: 12,
+  name: 'task-estimates',
+  up: ({ sqlite }) => {
+    addColumnIfMissing(sqlite, 'tasks', 'estimate', 'REAL');
+
+    for (const trigger of REPLACED_TRIGGERS) {
+      sqlite.run(`DROP TRIGGER IF EXISTS ${trigger}`);
+    }
+
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_history_insert AFTER INSERT ON tasks BEGIN
+        INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+        VALUES ('create', IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'), NEW.id,
+          json_object('id', NEW.id, 'title', NEW.title, 'description', NEW.description,
+            'status', NEW.status, 'priority', NEW.priority, 'epic_id', NEW.epic_id,
+            'parent_task_id', NEW.parent_task_id, 'tags', NEW.tags, 'fields', NEW.fields,
+            'start_at', NEW.start_at, 'due_at', NEW.due_at, 'estimate', NEW.estimate),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+      END
+    `);
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_history_delete AFTER DELETE ON tasks BEGIN
+        INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+        VALUES ('delete', IIF(OLD.parent_task_id IS NULL, 'task', 'subtask'), OLD.id,
+          json_object('id', OLD.id, 'title', OLD.title, 'description', OLD.description,
+            'status', OLD.status, 'priority', OLD.priority, 'epic_id', OLD.epic_id,
+            'parent_task_id', OLD.parent_task_id, 'tags', OLD.tags, 'fields', OLD.fields,
+            'start_at', OLD.start_at, 'due_at', OLD.due_at, 'estimate', OLD.estimate),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+      END
+    `);
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_history_update AFTER UPDATE ON tasks BEGIN
+        INSERT INTO events(action, entity_type, entity_id, changes, created_at)
+        SELECT 'update', IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'), NEW.id,
+          json_group_object(key, json_object('from', json_extract(old_json, '$.' || key), 'to', json_extract(new_json, '$.' || key))),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000
+        FROM (
+          SELECT
+            json_object('title', OLD.title, 'description', OLD.description, 'status', OLD.status,
+              'priority', OLD.priority, 'epic_id', OLD.epic_id, 'tags', OLD.tags,
+              'assignee', OLD.assignee, 'fields', OLD.fields, 'start_at', OLD.start_at,
+              'due_at', OLD.due_at, 'estimate', OLD.estimate) as old_json,
+            json_object('title', NEW.title, 'description', NEW.description, 'status', NEW.status,
+              'priority', NEW.priority, 'epic_id', NEW.epic_id, 'tags', NEW.tags,
+              'assignee', NEW.assignee, 'fields', NEW.fields, 'start_at', NEW.start_at,
+              'due_at', NEW.due_at, 'estimate', NEW.estimate) as new_json
+        ), json_each(json_object('title', 1, 'description', 1, 'status', 1, 'priority', 1, 'epic_id', 1, 'tags', 1, 'assignee', 1, 'fields', 1,
+            'start_at', 1, 'due_at', 1, 'estimate', 1))
+        WHERE json_extract(old_json, '$.' || key) IS NOT json_extract(new_json, '$.' || key)
+        HAVING COUNT(*) > 0;
+      END
+    `);
+  },
+};
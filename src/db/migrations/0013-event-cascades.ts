@@ -0,0 +1,151 @@
+import type { Database } from 'bun:sqlite';
+import type { Migration } from './types';
+import { addColumnIfMissing } from './add-column';
+
+const REPLACED_TRIGGERS = ['epics_history_delete', 'tasks_history_insert', 'tasks_history_delete'];
+
+// Snapshot columns that point at the parent a row was removed along with
+const PARENT_COLUMNS = ['parent_task_id', 'task_id', 'depends_on_id'];
+
+interface EventRow {
+  id: number;
+  action: string;
+  entity_id: string;
+  snapshot: string | null;
+  changes: string | null;
+  created_at: number;
+}
+
+const parseJson: (json: string) => Record<string, unknown> = JSON.parse;
+
+// Epic and task deletes write their event before the row goes, so the rows removed or
+// detached along with it are recorded after it and can be linked to it once it is gone.
+// Task snapshots now hold the assignee and claim as well.
+function createHistoryTriggers(sqlite: Database): void {
+  sqlite.run(`
+    CREATE TRIGGER IF NOT EXISTS epics_history_delete BEFORE DELETE ON epics BEGIN
+      INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+      VALUES ('delete', 'epic', OLD.id,
+        json_object('id', OLD.id, 'title', OLD.title, 'description', OLD.description,
+          'status', OLD.status, 'priority', OLD.priority, 'fields', OLD.fields,
+          'start_at', OLD.start_at, 'due_at', OLD.due_at),
+        CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+    END
+  `);
+  sqlite.run(`
+    CREATE TRIGGER IF NOT EXISTS epics_history_cascade AFTER DELETE ON epics BEGIN
+      UPDATE events
+      SET cascade_of = (SELECT MAX(id) FROM events WHERE entity_id = OLD.id AND action = 'delete')
+      WHERE cascade_of IS NULL
+        AND id > (SELECT MAX(id) FROM events WHERE entity_id = OLD.id AND action = 'delete');
+    END
+  `);
+  sqlite.run(`
+    CREATE TRIGGER IF NOT EXISTS tasks_history_insert AFTER INSERT ON tasks BEGIN
+      INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+      VALUES ('create', IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'), NEW.id,
+        json_object('id', NEW.id, 'title', NEW.title, 'description', NEW.description,
+          'status', NEW.status, 'priority', NEW.priority, 'epic_id', NEW.epic_id,
+          'parent_task_id', NEW.parent_task_id, 'tags', NEW.tags, 'assignee', NEW.assignee,
+          'claim_expires_at', NEW.claim_expires_at, 'fields', NEW.fields,
+          'start_at', NEW.start_at, 'due_at', NEW.due_at, 'estimate', NEW.estimate),
+        CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+    END
+  `);
+  sqlite.run(`
+    CREATE TRIGGER IF NOT EXISTS tasks_history_delete BEFORE DELETE ON tasks BEGIN
+      INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+      VALUES ('delete', IIF(OLD.parent_task_id IS NULL, 'task', 'subtask'), OLD.id,
+        json_object('id', OLD.id, 'title', OLD.title, 'description', OLD.description,
+          'status', OLD.status, 'priority', OLD.priority, 'epic_id', OLD.epic_id,
+          'parent_task_id', OLD.parent_task_id, 'tags', OLD.tags, 'assignee', OLD.assignee,
+          'claim_expires_at', OLD.claim_expires_at, 'fields', OLD.fields,
+          'start_at', OLD.start_at, 'due_at', OLD.due_at, 'estimate', OLD.estimate),
+        CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+    END
+  `);
+  sqlite.run(`
+    CREATE TRIGGER IF NOT EXISTS tasks_history_cascade AFTER DELETE ON tasks BEGIN
+      UPDATE events
+      SET cascade_of = (SELECT MAX(id) FROM events WHERE entity_id = OLD.id AND action = 'delete')
+      WHERE cascade_of IS NULL
+        AND id > (SELECT MAX(id) FROM events WHERE entity_id = OLD.id AND action = 'delete');
+    END
+  `);
+}
+
+/**
+ * Links the cascades already in the log. They were recorded before their parent's own
+ * event within the same second, which is the best that can be told from them now.
+ */
+function linkRecordedCascades(sqlite: Database): void {
+  const deletes = sqlite
+    .query<
+      EventRow,
+      []
+    >("SELECT * FROM events WHERE action = 'delete' AND entity_type IN ('epic', 'task', 'subtask') ORDER BY id DESC")
+    .all();
+  const preceding = sqlite.query<EventRow, [number, number]>(
+    'SELECT * FROM events WHERE id < ? AND created_at = ? ORDER BY id DESC'
+  );
+  const link = sqlite.query('UPDATE events SET cascade_of = ? WHERE id = ?');
+
+  const linked = new Set<number>();
+  for (const parent of deletes) {
+    if (linked.has(parent.id)) {
+      continue;
+    }
+
+    // Each removed row's event, by the ID of the row
+    const removed = new Map([[parent.entity_id, parent.id]]);
+    for (const candidate of preceding.all(parent.id, parent.created_at)) {
+      let cascadeOf: number | undefined;
+      if (candidate.action === 'delete' && candidate.snapshot) {
+        const snapshot = parseJson(candidate.snapshot);
+        const parentId = PARENT_COLUMNS.map((column) => snapshot[column]).find(
+          (value) => typeof value === 'string' && removed.has(value)
+        );
+        if (typeof parentId === 'string') {
+          cascadeOf = removed.get(parentId);
+          removed.set(candidate.entity_id, candidate.id);
+        }
+      } else if (candidate.action === 'update' && candidate.changes) {
+        const changes = parseJson(candidate.changes);
+        const epic = changes.epic_id;
+        if (
+          Object.keys(changes).join() === 'epic_id' &&
+          typeof epic === 'object' &&
+          epic !== null &&
+          'from' in epic &&
+          epic.from === parent.entity_id
+        ) {
+          cascadeOf = parent.id;
+        }
+      }
+
+      if (cascadeOf === undefined || linked.has(candidate.id)) {
+        break;
+      }
+      link.run(cascadeOf, candidate.id);
+      linked.add(candidate.id);
+    }
+  }
+}
+
+// Links each change a delete cascades to with the delete's own event, instead of telling
+// them apart by their timestamp, and records every task column in task snapshots.
+export const eventCascades: Migration = {
+  version: 13,
+  name: 'event-cascades',
+  up: ({ sqlite }) => {
+    addColumnIfMissing(sqlite, 'events', 'cascade_of', 'INTEGER');
+    sqlite.run('CREATE INDEX IF NOT EXISTS idx_events_cascade_of ON events(cascade_of)');
+
+    for (const trigger of REPLACED_TRIGGERS) {
+      sqlite.run(`DROP TRIGGER IF EXISTS ${trigger}`);
+    }
+    createHistoryTriggers(sqlite);
+
+    linkRecordedCascades(sqlite);
+  },
+};
@@ -0,0 +1,77 @@
+import type { Migration } from './types';
+
+const REPLACED_TRIGGERS = [
+  'epics_history_update',
+  'tasks_history_update',
+  'comments_history_update',
+];
+
+// Moving an epic, task or comment to the trash and back is recorded as a change to its
+// deleted_at, so undo, snapshots and restore see it like any other change.
+export const trashHistory: Migration = {
+  version: 14,
+  name: 'trash-history',
+  up: ({ sqlite }) => {
+    for (const trigger of REPLACED_TRIGGERS) {
+      sqlite.run(`DROP TRIGGER IF EXISTS ${trigger}`);
+    }
+
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS epics_history_update AFTER UPDATE ON epics BEGIN
+        INSERT INTO events(action, entity_type, entity_id, changes, created_at)
+        SELECT 'update', 'epic', NEW.id,
+          json_group_object(key, json_object('from', json_extract(old_json, '$.' || key), 'to', json_extract(new_json, '$.' || key))),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000
+        FROM (
+          SELECT
+            json_object('title', OLD.title, 'description', OLD.description, 'status', OLD.status,
+              'priority', OLD.priority, 'fields', OLD.fields, 'start_at', OLD.start_at,
+              'due_at', OLD.due_at, 'deleted_at', OLD.deleted_at) as old_json,
+            json_object('title', NEW.title, 'description', NEW.description, 'status', NEW.status,
+              'priority', NEW.priority, 'fields', NEW.fields, 'start_at', NEW.start_at,
+              'due_at', NEW.due_at, 'deleted_at', NEW.deleted_at) as new_json
+        ), json_each(json_object('title', 1, 'description', 1, 'status', 1, 'priority', 1, 'fields', 1,
+            'start_at', 1, 'due_at', 1, 'deleted_at', 1))
+        WHERE json_extract(old_json, '$.' || key) IS NOT json_extract(new_json, '$.' || key)
+        HAVING COUNT(*) > 0;
+      END
+    `);
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS tasks_history_update AFTER UPDATE ON tasks BEGIN
+        INSERT INTO events(action, entity_type, entity_id, changes, created_at)
+        SELECT 'update', IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'), NEW.id,
+          json_group_object(key, json_object('from', json_extract(old_json, '$.' || key), 'to', json_extract(new_json, '$.' || key))),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000
+        FROM (
+          SELECT
+            json_object('title', OLD.title, 'description', OLD.description, 'status', OLD.status,
+              'priority', OLD.priority, 'epic_id', OLD.epic_id, 'tags', OLD.tags,
+              'assignee', OLD.assignee, 'fields', OLD.fields, 'start_at', OLD.start_at,
+              'due_at', OLD.due_at, 'estimate', OLD.estimate, 'deleted_at', OLD.deleted_at) as old_json,
+            json_object('title', NEW.title, 'description', NEW.description, 'status', NEW.status,
+              'priority', NEW.priority, 'epic_id', NEW.epic_id, 'tags', NEW.tags,
+              'assignee', NEW.assignee, 'fields', NEW.fields, 'start_at', NEW.start_at,
+              'due_at', NEW.due_at, 'estimate', NEW.estimate, 'deleted_at', NEW.deleted_at) as new_json
+        ), json_each(json_object('title', 1, 'description', 1, 'status', 1, 'priority', 1, 'epic_id', 1, 'tags', 1, 'assignee', 1, 'fields', 1,
+            'start_at', 1, 'due_at', 1, 'estimate', 1, 'deleted_at', 1))
+        WHERE json_extract(old_json, '$.' || key) IS NOT json_extract(new_json, '$.' || key)
+        HAVING COUNT(*) > 0;
+      END
+    `);
+    sqlite.run(`
+      CREATE TRIGGER IF NOT EXISTS comments_history_update AFTER UPDATE ON comments BEGIN
+        INSERT INTO events(action, entity_type, entity_id, changes, created_at)
+        SELECT 'update', 'comment', NEW.id,
+          json_group_object(key, json_object('from', json_extract(old_json, '$.' || key), 'to', json_extract(new_json, '$.' || key))),
+          CAST(strftime('%s', 'now') AS INTEGER) * 1000
+        FROM (
+          SELECT
+            json_object('content', OLD.content, 'deleted_at', OLD.deleted_at) as old_json,
+            json_object('content', NEW.content, 'deleted_at', NEW.deleted_at) as new_json
+        ), json_each(json_object('content', 1, 'deleted_at', 1))
+        WHERE json_extract(old_json, '$.' || key) IS NOT json_extract(new_json, '$.' || key)
+        HAVING COUNT(*) > 0;
+      END
+    `);
+  },
+};
@@ -0,0 +1,22 @@
+import type { Database } from 'bun:sqlite';
+
+interface ColumnRow {
+  name: string;
+}
+
+/**
+ * SQLite has no `ADD COLUMN IF NOT EXISTS`. Databases from before versioned migrations
+ * replay every migration, so columns added later may already be there.
+ */
+export function addColumnIfMissing(
+  sqlite: Database,
+  table: string,
+  column: string,
+  definition: string
+): void {
+  const columns = sqlite.query<ColumnRow, []>(`PRAGMA table_info(${table})`).all();
+  if (columns.some((row) => row.name === column)) {
+    return;
+  }
+  sqlite.run(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+}
@@ -0,0 +1,47 @@
+import { initialSchema } from './0001-initial-schema';
+import { enforceForeignKeys } from './0002-enforce-foreign-keys';
+import { eventReverts } from './0003-event-reverts';
+import { softDelete } from './0004-soft-delete';
+import { taskClaims } from './0005-task-claims';
+import { rowVersions } from './0006-row-versions';
+import { savedViews } from './0007-saved-views';
+import { normalizedTags } from './0008-tags';
+import { customFields } from './0009-custom-fields';
+import { workflow } from './0010-workflow';
+import { scheduleDates } from './0011-schedule-dates';
+import { taskEstimates } from './0012-task-estimates';
+import { eventCascades } from './0013-event-cascades';
+import { trashHistory } from './0014-trash-history';
+import type { Migration } from './types';
+
+export type { Migration, MigrationContext } from './types';
+
+// Ordered list of schema migrations. Append new entries with the next version number;
+// never edit or reorder a migration that has shipped.
+//
+// For a schema change made in schema.ts, `bun run db:generate --name <name>` writes the
+// SQL to ./drizzle/ (see drizzle.config.ts), apart from the migrations written by hand.
+// drizzle/0000_baseline.sql only records the schema the migrations above build, so that
+// drizzle-kit generates the difference; it is not registered. Register later files like
+// any other migration, with the file's text as `sql`:
+//
+//   import addWidgetsSql from './drizzle/0001_add-widgets.sql' with { type: 'text' };
+//   export const addWidgets: Migration = { version: 15, name: 'add-widgets', sql: addWidgetsSql };
+//
+// History triggers on a changed table usually need recreating too, which takes an `up`.
+export const MIGRATIONS: readonly Migration[] = [
+  initialSchema,
+  enforceForeignKeys,
+  eventReverts,
+  softDelete,
+  taskClaims,
+  rowVersions,
+  savedViews,
+  normalizedTags,
+  customFields,
+  workflow,
+  scheduleDates,
+  taskEstimates,
+  eventCascades,
+  trashHistory,
+];
@@ -0,0 +1,5 @@
+// SQL files generated by drizzle-kit, imported as text (see index.ts)
+declare module '*.sql' {
+  const text: string;
+  export default text;
+}
@@ -0,0 +1,18 @@
+import type { Database } from 'bun:sqlite';
+
+export interface MigrationContext {
+  sqlite: Database;
+  /** Records a message about what the migration changed, shown by `trekker migrate up`. */
+  note: (message: string) => void;
+}
+
+/**
+ * A numbered schema change. Either `up` runs arbitrary logic, or `sql` holds
+ * statements in drizzle-kit's output format (separated by `--> statement-breakpoint`).
+ */
+export interface Migration {
+  version: number;
+  name: string;
+  up?: (ctx: MigrationContext) => void;
+  sql?: string;
+}
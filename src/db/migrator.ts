@@ -0,0 +1,183 @@
+import type { Database } from 'bun:sqlite';
+import { MIGRATIONS } from './migrations';
+import { withTransaction } from './transaction';
+import { backupDatabase } from './backup';
+import type { Migration } from './migrations';
+
+const STATEMENT_BREAKPOINT = '--> statement-breakpoint';
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS.at(-1)?.version ?? 0;
+
+export interface MigrationInfo {
+  version: number;
+  name: string;
+}
+
+export interface AppliedMigration extends MigrationInfo {
+  appliedAt: Date;
+}
+
+export interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: AppliedMigration[];
+  pending: MigrationInfo[];
+}
+
+export interface MigrationRunResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: (MigrationInfo & { notes: string[] })[];
+  backupPath: string | null;
+}
+
+interface SchemaVersionRow {
+  version: number;
+  name: string;
+  applied_at: number;
+}
+
+interface VersionRow {
+  version: number | null;
+}
+
+function ensureSchemaVersionTable(sqlite: Database): void {
+  sqlite.run(`
+    CREATE TABLE IF NOT EXISTS schema_version (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at INTEGER NOT NULL
+    )
+  `);
+}
+
+export function getSchemaVersion(sqlite: Database): number {
+  ensureSchemaVersionTable(sqlite);
+  const row = sqlite
+    .query<VersionRow, []>('SELECT MAX(version) as version FROM schema_version')
+    .get();
+  return row?.version ?? 0;
+}
+
+function assertSupportedVersion(currentVersion: number): void {
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Database schema version ${currentVersion} is newer than this version of trekker supports (${LATEST_SCHEMA_VERSION}). Please upgrade trekker.`
+    );
+  }
+}
+
+function getPendingMigrations(currentVersion: number): Migration[] {
+  return MIGRATIONS.filter((m) => m.version > currentVersion);
+}
+
+export function getMigrationStatus(sqlite: Database): MigrationStatus {
+  const currentVersion = getSchemaVersion(sqlite);
+
+  const applied = sqlite
+    .query<SchemaVersionRow, []>(
+      'SELECT version, name, applied_at FROM schema_version ORDER BY version ASC'
+    )
+    .all()
+    .map((row) => ({
+      version: row.version,
+      name: row.name,
+      appliedAt: new Date(row.applied_at),
+    }));
+
+  return {
+    currentVersion,
+    latestVersion: LATEST_SCHEMA_VERSION,
+    applied,
+    pending: getPendingMigrations(currentVersion).map((m) => ({
+      version: m.version,
+      name: m.name,
+    })),
+  };
+}
+
+function hasUserTables(sqlite: Database): boolean {
+  return (
+    sqlite
+      .query(
+        "SELECT name FROM sqlite_master WHERE type='table' AND name NOT IN ('schema_version', 'sqlite_sequence')"
+      )
+      .get() !== null
+  );
+}
+
+function applyMigration(sqlite: Database, migration: Migration): string[] {
+  const notes: string[] = [];
+
+  if (migration.sql) {
+    for (const statement of migration.sql.split(STATEMENT_BREAKPOINT)) {
+      if (statement.trim()) {
+        sqlite.run(statement);
+      }
+    }
+  }
+
+  if (migration.up) {
+    migration.up({ sqlite, note: (message) => notes.push(message) });
+  }
+
+  sqlite
+    .query('INSERT INTO schema_version (version, name, applied_at) VALUES (?, ?, ?)')
+    .run(migration.version, migration.name, Date.now());
+
+  return notes;
+}
+
+/**
+ * Applies all pending migrations in order, in one transaction that holds the write
+ * lock throughout. When several processes open the same old database, the first one
+ * upgrades it and the others find nothing left to do.
+ * When `backupDir` is given and the database already holds data, a copy is
+ * written there under the same lock before the first migration runs.
+ */
+export function runMigrations(
+  sqlite: Database,
+  options?: { backupDir?: string }
+): MigrationRunResult {
+  const fromVersion = getSchemaVersion(sqlite);
+  assertSupportedVersion(fromVersion);
+
+  if (getPendingMigrations(fromVersion).length === 0) {
+    return { fromVersion, toVersion: fromVersion, applied: [], backupPath: null };
+  }
+
+  // Table rebuilds require foreign keys off; migrations verify integrity themselves.
+  // The pragma cannot change inside a transaction, so it wraps the whole run.
+  sqlite.run('PRAGMA foreign_keys = OFF');
+  try {
+    return withTransaction(
+      sqlite,
+      () => {
+        // Read again under the lock, as another process may have upgraded meanwhile
+        const lockedVersion = getSchemaVersion(sqlite);
+        const pending = getPendingMigrations(lockedVersion);
+
+        let backupPath: string | null = null;
+        if (pending.length > 0 && options?.backupDir && hasUserTables(sqlite)) {
+          backupPath = backupDatabase(sqlite, options.backupDir, `trekker-v${lockedVersion}`);
+        }
+
+        const applied = pending.map((migration) => ({
+          version: migration.version,
+          name: migration.name,
+          notes: applyMigration(sqlite, migration),
+        }));
+
+        return {
+          fromVersion: lockedVersion,
+          toVersion: getSchemaVersion(sqlite),
+          applied,
+          backupPath,
+        };
+      },
+      'immediate'
+    );
+  } finally {
+    sqlite.run('PRAGMA foreign_keys = ON');
+  }
+}
@@ -1,6 +1,14 @@
 import { relations } from 'drizzle-orm';
-import { sqliteTable, text, integer } from 'drizzle-orm/sqlite-core';
-import type { EpicStatus, Priority, TaskStatus } from '../types';
+import { sqliteTable, text, integer, real, primaryKey } from 'drizzle-orm/sqlite-core';
+import type { AnySQLiteColumn } from 'drizzle-orm/sqlite-core';
+import type {
+  CustomFieldType,
+  CustomFieldValues,
+  EpicStatus,
+  Priority,
+  StatusCategory,
+  TaskStatus,
+} from '../types';
 
 // Project table
 export const projects = sqliteTable('projects', {
@@ -15,48 +23,124 @@ export const projectConfig = sqliteTable('project_config', {
   value: text('value').notNull(),
 });
 
+// Saved list queries, run by name
+export const savedViews = sqliteTable('saved_views', {
+  name: text('name').primaryKey(),
+  query: text('query').notNull().default(''),
+  sort: text('sort').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+});
+
+// Fields a project adds to its epics and tasks; the values live in their `fields` column
+export const customFields = sqliteTable('custom_fields', {
+  name: text('name').primaryKey(),
+  type: text('type').notNull().$type<CustomFieldType>(),
+  allowedValues: text('allowed_values', { mode: 'json' }).$type<string[]>(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+});
+
+// Task statuses of the project and the moves allowed between them
+export const workflowStatuses = sqliteTable('workflow_statuses', {
+  name: text('name').primaryKey(),
+  category: text('category').notNull().$type<StatusCategory>(),
+  transitions: text('transitions', { mode: 'json' }).$type<string[]>(),
+  position: integer('position').notNull(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+});
+
 // Epic table
 export const epics = sqliteTable('epics', {
   id: text('id').primaryKey(),
-  projectId: text('project_id').notNull(),
+  projectId: text('project_id')
+    .notNull()
+    .references(() => projects.id, { onDelete: 'cascade' }),
   title: text('title').notNull(),
   description: text('description'),
   status: text('status').notNull().default('todo').$type<EpicStatus>(),
   priority: integer('priority').notNull().default(2).$type<Priority>(),
+  fields: text('fields', { mode: 'json' }).$type<CustomFieldValues>(),
+  startAt: integer('start_at', { mode: 'timestamp' }),
+  dueAt: integer('due_at', { mode: 'timestamp' }),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+  deletedAt: integer('deleted_at', { mode: 'timestamp' }),
+  version: integer('version').notNull().default(1),
 });
 
 // Task table
 export const tasks = sqliteTable('tasks', {
   id: text('id').primaryKey(),
-  projectId: text('project_id').notNull(),
-  epicId: text('epic_id'),
-  parentTaskId: text('parent_task_id'),
+  projectId: text('project_id')
+    .notNull()
+    .references(() => projects.id, { onDelete: 'cascade' }),
+  epicId: text('epic_id').references(() => epics.id, { onDelete: 'set null' }),
+  parentTaskId: text('parent_task_id').references((): AnySQLiteColumn => tasks.id, {
+    onDelete: 'cascade',
+  }),
   title: text('title').notNull(),
   description: text('description'),
   priority: integer('priority').notNull().default(2).$type<Priority>(),
   status: text('status').notNull().default('todo').$type<TaskStatus>(),
   tags: text('tags'),
+  assignee: text('assignee'),
+  claimExpiresAt: integer('claim_expires_at', { mode: 'timestamp' }),
+  fields: text('fields', { mode: 'json' }).$type<CustomFieldValues>(),
+  startAt: integer('start_at', { mode: 'timestamp' }),
+  dueAt: integer('due_at', { mode: 'timestamp' }),
+  estimate: real('estimate'),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+  deletedAt: integer('deleted_at', { mode: 'timestamp' }),
+  version: integer('version').notNull().default(1),
 });
 
+// Tag table; names are unique regardless of case
+export const tags = sqliteTable('tags', {
+  id: integer('id').primaryKey({ autoIncrement: true }),
+  name: text('name').notNull().unique(),
+  createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+});
+
+// Which tags a task carries, kept in step with tasks.tags by triggers
+export const taskTags = sqliteTable(
+  'task_tags',
+  {
+    taskId: text('task_id')
+      .notNull()
+      .references(() => tasks.id, { onDelete: 'cascade' }),
+    tagId: integer('tag_id')
+      .notNull()
+      .references(() => tags.id, { onDelete: 'cascade' }),
+  },
+  (table) => [primaryKey({ columns: [table.taskId, table.tagId] })]
+);
+
 // Comment table
 export const comments = sqliteTable('comments', {
   id: text('id').primaryKey(),
-  taskId: text('task_id').notNull(),
+  taskId: text('task_id')
+    .notNull()
+    .references(() => tasks.id, { onDelete: 'cascade' }),
   author: text('author').notNull(),
   content: text('content').notNull(),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
   updatedAt: integer('updated_at', { mode: 'timestamp' }).notNull(),
+  deletedAt: integer('deleted_at', { mode: 'timestamp' }),
+  version: integer('version').notNull().default(1),
 });
 
 // Dependency table
 export const dependencies = sqliteTable('dependencies', {
   id: text('id').primaryKey(),
-  taskId: text('task_id').notNull(),
-  dependsOnId: text('depends_on_id').notNull(),
+  taskId: text('task_id')
+    .notNull()
+    .references(() => tasks.id, { onDelete: 'cascade' }),
+  dependsOnId: text('depends_on_id')
+    .notNull()
+    .references(() => tasks.id, { onDelete: 'cascade' }),
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
 });
 
@@ -75,6 +159,9 @@ export const events = sqliteTable('events', {
   snapshot: text('snapshot'), // Full JSON for create/delete
   changes: text('changes'), // JSON diff for update
   createdAt: integer('created_at', { mode: 'timestamp' }).notNull(),
+  revertedAt: integer('reverted_at'), // Set once the event has been reverted (ms)
+  revertOf: integer('revert_of'), // For events written by a revert, the event reverted
+  cascadeOf: integer('cascade_of'), // For changes a delete cascaded to, the delete's event
 });
 
 // Relations
@@ -0,0 +1,55 @@
+import { SQLiteError } from 'bun:sqlite';
+import type { Database } from 'bun:sqlite';
+
+const MAX_BUSY_RETRIES = 5;
+const BUSY_RETRY_DELAY_MS = 50;
+
+function isBusy(err: unknown): boolean {
+  return err instanceof SQLiteError && err.code === 'SQLITE_BUSY';
+}
+
+/**
+ * Runs `fn` inside a transaction, committing on success and rolling back if it throws.
+ * `immediate` takes the write lock up front so concurrent writers fail fast instead of
+ * deadlocking halfway through.
+ *
+ * The busy timeout covers most lock waits, but SQLite reports SQLITE_BUSY straight away
+ * when a read transaction cannot be upgraded to a write. Those attempts are rolled back
+ * and retried a few times with a growing delay.
+ *
+ * Called while a transaction is already open (a service used from inside a batch), `fn`
+ * simply joins it, and the outermost caller decides whether everything commits.
+ */
+export function withTransaction<T>(
+  sqlite: Database,
+  fn: () => T,
+  mode: 'deferred' | 'immediate' = 'deferred'
+): T {
+  if (sqlite.inTransaction) {
+    return fn();
+  }
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return runTransaction(sqlite, fn, mode);
+    } catch (err) {
+      if (!isBusy(err) || attempt >= MAX_BUSY_RETRIES) {
+        throw err;
+      }
+      Bun.sleepSync(BUSY_RETRY_DELAY_MS * attempt);
+    }
+  }
+}
+
+function runTransaction<T>(sqlite: Database, fn: () => T, mode: 'deferred' | 'immediate'): T {
+  sqlite.run(`BEGIN ${mode.toUpperCase()}`);
+  try {
+    const result = fn();
+    sqlite.run('COMMIT');
+    return result;
+  } catch (err) {
+    if (sqlite.inTransaction) {
+      sqlite.run('ROLLBACK');
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,290 @@
+// Current definitions of the search index, history, version and tag triggers, keyed by name.
+// Migrations keep their own frozen copies; these are used to detect and restore
+// triggers that have gone missing. Keep them in sync with the latest migration.
+
+/**
+ * The text indexed for an epic or task row (`NEW`, or a table name): its description,
+ * then its custom field values.
+ */
+export function searchContent(row: string): string {
+  return `IIF(${row}.fields IS NULL, ${row}.description,
+    CONCAT_WS(' ', ${row}.description, (SELECT group_concat(value, ' ') FROM json_each(${row}.fields))))`;
+}
+
+export const SEARCH_TRIGGERS: Readonly<Record<string, string>> = {
+  epics_search_insert: `
+    CREATE TRIGGER IF NOT EXISTS epics_search_insert AFTER INSERT ON epics BEGIN
+      INSERT INTO search_index(entity_id, entity_type, title, content, author, status, parent_id)
+      VALUES (NEW.id, 'epic', NEW.title, ${searchContent('NEW')}, '', NEW.status, NULL);
+    END
+  `,
+  epics_search_delete: `
+    CREATE TRIGGER IF NOT EXISTS epics_search_delete AFTER DELETE ON epics BEGIN
+      DELETE FROM search_index WHERE entity_id = OLD.id AND entity_type = 'epic';
+    END
+  `,
+  epics_search_update: `
+    CREATE TRIGGER IF NOT EXISTS epics_search_update AFTER UPDATE ON epics BEGIN
+      DELETE FROM search_index WHERE entity_id = OLD.id AND entity_type = 'epic';
+      INSERT INTO search_index(entity_id, entity_type, title, content, author, status, parent_id)
+      VALUES (NEW.id, 'epic', NEW.title, ${searchContent('NEW')}, '', NEW.status, NULL);
+    END
+  `,
+  tasks_search_insert: `
+    CREATE TRIGGER IF NOT EXISTS tasks_search_insert AFTER INSERT ON tasks BEGIN
+      INSERT INTO search_index(entity_id, entity_type, title, content, author, status, parent_id)
+      VALUES (
+        NEW.id,
+        IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'),
+        NEW.title,
+        ${searchContent('NEW')},
+        '',
+        NEW.status,
+        COALESCE(NEW.parent_task_id, NEW.epic_id)
+      );
+    END
+  `,
+  tasks_search_delete: `
+    CREATE TRIGGER IF NOT EXISTS tasks_search_delete AFTER DELETE ON tasks BEGIN
+      DELETE FROM search_index WHERE entity_id = OLD.id AND entity_type IN ('task', 'subtask');
+    END
+  `,
+  tasks_search_update: `
+    CREATE TRIGGER IF NOT EXISTS tasks_search_update AFTER UPDATE ON tasks BEGIN
+      DELETE FROM search_index WHERE entity_id = OLD.id AND entity_type IN ('task', 'subtask');
+      INSERT INTO search_index(entity_id, entity_type, title, content, author, status, parent_id)
+      VALUES (
+        NEW.id,
+        IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'),
+        NEW.title,
+        ${searchContent('NEW')},
+        '',
+        NEW.status,
+        COALESCE(NEW.parent_task_id, NEW.epic_id)
+      );
+    END
+  `,
+  comments_search_insert: `
+    CREATE TRIGGER IF NOT EXISTS comments_search_insert AFTER INSERT ON comments BEGIN
+      INSERT INTO search_index(entity_id, entity_type, title, content, author, status, parent_id)
+      VALUES (NEW.id, 'comment', '', NEW.content, NEW.author, '', NEW.task_id);
+    END
+  `,
+  comments_search_delete: `
+    CREATE TRIGGER IF NOT EXISTS comments_search_delete AFTER DELETE ON comments BEGIN
+      DELETE FROM search_index WHERE entity_id = OLD.id AND entity_type = 'comment';
+    END
+  `,
+  comments_search_update: `
+    CREATE TRIGGER IF NOT EXISTS comments_search_update AFTER UPDATE ON comments BEGIN
+      DELETE FROM search_index WHERE entity_id = OLD.id AND entity_type = 'comment';
+      INSERT INTO search_index(entity_id, entity_type, title, content, author, status, parent_id)
+      VALUES (NEW.id, 'comment', '', NEW.content, NEW.author, '', NEW.task_id);
+    END
+  `,
+};
+
+export const HISTORY_TRIGGERS: Readonly<Record<string, string>> = {
+  epics_history_insert: `
+    CREATE TRIGGER IF NOT EXISTS epics_history_insert AFTER INSERT ON epics BEGIN
+      INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+      VALUES ('create', 'epic', NEW.id,
+        json_object('id', NEW.id, 'title', NEW.title, 'description', NEW.description,
+          'status', NEW.status, 'priority', NEW.priority, 'fields', NEW.fields,
+          'start_at', NEW.start_at, 'due_at', NEW.due_at),
+        CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+    END
+  `,
+  // Written before the row goes, so the changes the delete cascades to come after it
+  epics_history_delete: `
+    CREATE TRIGGER IF NOT EXISTS epics_history_delete BEFORE DELETE ON epics BEGIN
+      INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+      VALUES ('delete', 'epic', OLD.id,
+        json_object('id', OLD.id, 'title', OLD.title, 'description', OLD.description,
+          'status', OLD.status, 'priority', OLD.priority, 'fields', OLD.fields,
+          'start_at', OLD.start_at, 'due_at', OLD.due_at),
+        CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+    END
+  `,
+  epics_history_cascade: `
+    CREATE TRIGGER IF NOT EXISTS epics_history_cascade AFTER DELETE ON epics BEGIN
+      UPDATE events
+      SET cascade_of = (SELECT MAX(id) FROM events WHERE entity_id = OLD.id AND action = 'delete')
+      WHERE cascade_of IS NULL
+        AND id > (SELECT MAX(id) FROM events WHERE entity_id = OLD.id AND action = 'delete');
+    END
+  `,
+  epics_history_update: `
+    CREATE TRIGGER IF NOT EXISTS epics_history_update AFTER UPDATE ON epics BEGIN
+      INSERT INTO events(action, entity_type, entity_id, changes, created_at)
+      SELECT 'update', 'epic', NEW.id,
+        json_group_object(key, json_object('from', json_extract(old_json, '$.' || key), 'to', json_extract(new_json, '$.' || key))),
+        CAST(strftime('%s', 'now') AS INTEGER) * 1000
+      FROM (
+        SELECT
+          json_object('title', OLD.title, 'description', OLD.description, 'status', OLD.status,
+            'priority', OLD.priority, 'fields', OLD.fields, 'start_at', OLD.start_at,
+            'due_at', OLD.due_at, 'deleted_at', OLD.deleted_at) as old_json,
+          json_object('title', NEW.title, 'description', NEW.description, 'status', NEW.status,
+            'priority', NEW.priority, 'fields', NEW.fields, 'start_at', NEW.start_at,
+            'due_at', NEW.due_at, 'deleted_at', NEW.deleted_at) as new_json
+      ), json_each(json_object('title', 1, 'description', 1, 'status', 1, 'priority', 1, 'fields', 1,
+          'start_at', 1, 'due_at', 1, 'deleted_at', 1))
+      WHERE json_extract(old_json, '$.' || key) IS NOT json_extract(new_json, '$.' || key)
+      HAVING COUNT(*) > 0;
+    END
+  `,
+  tasks_history_insert: `
+    CREATE TRIGGER IF NOT EXISTS tasks_history_insert AFTER INSERT ON tasks BEGIN
+      INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+      VALUES ('create', IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'), NEW.id,
+        json_object('id', NEW.id, 'title', NEW.title, 'description', NEW.description,
+          'status', NEW.status, 'priority', NEW.priority, 'epic_id', NEW.epic_id,
+          'parent_task_id', NEW.parent_task_id, 'tags', NEW.tags, 'assignee', NEW.assignee,
+          'claim_expires_at', NEW.claim_expires_at, 'fields', NEW.fields,
+          'start_at', NEW.start_at, 'due_at', NEW.due_at, 'estimate', NEW.estimate),
+        CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+    END
+  `,
+  tasks_history_delete: `
+    CREATE TRIGGER IF NOT EXISTS tasks_history_delete BEFORE DELETE ON tasks BEGIN
+      INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+      VALUES ('delete', IIF(OLD.parent_task_id IS NULL, 'task', 'subtask'), OLD.id,
+        json_object('id', OLD.id, 'title', OLD.title, 'description', OLD.description,
+          'status', OLD.status, 'priority', OLD.priority, 'epic_id', OLD.epic_id,
+          'parent_task_id', OLD.parent_task_id, 'tags', OLD.tags, 'assignee', OLD.assignee,
+          'claim_expires_at', OLD.claim_expires_at, 'fields', OLD.fields,
+          'start_at', OLD.start_at, 'due_at', OLD.due_at, 'estimate', OLD.estimate),
+        CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+    END
+  `,
+  tasks_history_cascade: `
+    CREATE TRIGGER IF NOT EXISTS tasks_history_cascade AFTER DELETE ON tasks BEGIN
+      UPDATE events
+      SET cascade_of = (SELECT MAX(id) FROM events WHERE entity_id = OLD.id AND action = 'delete')
+      WHERE cascade_of IS NULL
+        AND id > (SELECT MAX(id) FROM events WHERE entity_id = OLD.id AND action = 'delete');
+    END
+  `,
+  tasks_history_update: `
+    CREATE TRIGGER IF NOT EXISTS tasks_history_update AFTER UPDATE ON tasks BEGIN
+      INSERT INTO events(action, entity_type, entity_id, changes, created_at)
+      SELECT 'update', IIF(NEW.parent_task_id IS NULL, 'task', 'subtask'), NEW.id,
+        json_group_object(key, json_object('from', json_extract(old_json, '$.' || key), 'to', json_extract(new_json, '$.' || key))),
+        CAST(strftime('%s', 'now') AS INTEGER) * 1000
+      FROM (
+        SELECT
+          json_object('title', OLD.title, 'description', OLD.description, 'status', OLD.status,
+            'priority', OLD.priority, 'epic_id', OLD.epic_id, 'tags', OLD.tags,
+            'assignee', OLD.assignee, 'fields', OLD.fields, 'start_at', OLD.start_at,
+            'due_at', OLD.due_at, 'estimate', OLD.estimate, 'deleted_at', OLD.deleted_at) as old_json,
+          json_object('title', NEW.title, 'description', NEW.description, 'status', NEW.status,
+            'priority', NEW.priority, 'epic_id', NEW.epic_id, 'tags', NEW.tags,
+            'assignee', NEW.assignee, 'fields', NEW.fields, 'start_at', NEW.start_at,
+            'due_at', NEW.due_at, 'estimate', NEW.estimate, 'deleted_at', NEW.deleted_at) as new_json
+      ), json_each(json_object('title', 1, 'description', 1, 'status', 1, 'priority', 1, 'epic_id', 1, 'tags', 1, 'assignee', 1, 'fields', 1,
+          'start_at', 1, 'due_at', 1, 'estimate', 1, 'deleted_at', 1))
+      WHERE json_extract(old_json, '$.' || key) IS NOT json_extract(new_json, '$.' || key)
+      HAVING COUNT(*) > 0;
+    END
+  `,
+  comments_history_insert: `
+    CREATE TRIGGER IF NOT EXISTS comments_history_insert AFTER INSERT ON comments BEGIN
+      INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+      VALUES ('create', 'comment', NEW.id,
+        json_object('id', NEW.id, 'task_id', NEW.task_id, 'author', NEW.author, 'content', NEW.content),
+        CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+    END
+  `,
+  comments_history_delete: `
+    CREATE TRIGGER IF NOT EXISTS comments_history_delete AFTER DELETE ON comments BEGIN
+      INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+      VALUES ('delete', 'comment', OLD.id,
+        json_object('id', OLD.id, 'task_id', OLD.task_id, 'author', OLD.author, 'content', OLD.content),
+        CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+    END
+  `,
+  comments_history_update: `
+    CREATE TRIGGER IF NOT EXISTS comments_history_update AFTER UPDATE ON comments BEGIN
+      INSERT INTO events(action, entity_type, entity_id, changes, created_at)
+      SELECT 'update', 'comment', NEW.id,
+        json_group_object(key, json_object('from', json_extract(old_json, '$.' || key), 'to', json_extract(new_json, '$.' || key))),
+        CAST(strftime('%s', 'now') AS INTEGER) * 1000
+      FROM (
+        SELECT
+          json_object('content', OLD.content, 'deleted_at', OLD.deleted_at) as old_json,
+          json_object('content', NEW.content, 'deleted_at', NEW.deleted_at) as new_json
+      ), json_each(json_object('content', 1, 'deleted_at', 1))
+      WHERE json_extract(old_json, '$.' || key) IS NOT json_extract(new_json, '$.' || key)
+      HAVING COUNT(*) > 0;
+    END
+  `,
+  deps_history_insert: `
+    CREATE TRIGGER IF NOT EXISTS deps_history_insert AFTER INSERT ON dependencies BEGIN
+      INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+      VALUES ('create', 'dependency', NEW.id,
+        json_object('id', NEW.id, 'task_id', NEW.task_id, 'depends_on_id', NEW.depends_on_id),
+        CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+    END
+  `,
+  deps_history_delete: `
+    CREATE TRIGGER IF NOT EXISTS deps_history_delete AFTER DELETE ON dependencies BEGIN
+      INSERT INTO events(action, entity_type, entity_id, snapshot, created_at)
+      VALUES ('delete', 'dependency', OLD.id,
+        json_object('id', OLD.id, 'task_id', OLD.task_id, 'depends_on_id', OLD.depends_on_id),
+        CAST(strftime('%s', 'now') AS INTEGER) * 1000);
+    END
+  `,
+};
+
+export const VERSION_TRIGGERS: Readonly<Record<string, string>> = {
+  epics_version: `
+    CREATE TRIGGER IF NOT EXISTS epics_version AFTER UPDATE ON epics
+    WHEN NEW.version = OLD.version BEGIN
+      UPDATE epics SET version = OLD.version + 1 WHERE id = NEW.id;
+    END
+  `,
+  tasks_version: `
+    CREATE TRIGGER IF NOT EXISTS tasks_version AFTER UPDATE ON tasks
+    WHEN NEW.version = OLD.version BEGIN
+      UPDATE tasks SET version = OLD.version + 1 WHERE id = NEW.id;
+    END
+  `,
+  comments_version: `
+    CREATE TRIGGER IF NOT EXISTS comments_version AFTER UPDATE ON comments
+    WHEN NEW.version = OLD.version BEGIN
+      UPDATE comments SET version = OLD.version + 1 WHERE id = NEW.id;
+    END
+  `,
+};
+
+// Splits a comma-separated tags value into a JSON array, or an empty one if it cannot be
+function splitTags(column: string): string {
+  const array = `'["' || REPLACE(REPLACE(REPLACE(${column}, '\\', '\\\\'), '"', '\\"'), ',', '","') || '"]'`;
+  return `IIF(json_valid(${array}), ${array}, '[]')`;
+}
+
+function linkTags(tags: string): string {
+  return `
+    INSERT OR IGNORE INTO tags (name, created_at)
+    SELECT TRIM(value), CAST(strftime('%s', 'now') AS INTEGER)
+    FROM json_each(${splitTags(tags)}) WHERE TRIM(value) != '';
+    INSERT OR IGNORE INTO task_tags (task_id, tag_id)
+    SELECT NEW.id, g.id FROM json_each(${splitTags(tags)}) j JOIN tags g ON g.name = TRIM(j.value);
+  `;
+}
+
+export const TAG_TRIGGERS: Readonly<Record<string, string>> = {
+  tasks_tags_insert: `
+    CREATE TRIGGER IF NOT EXISTS tasks_tags_insert AFTER INSERT ON tasks
+    WHEN NEW.tags IS NOT NULL BEGIN
+      ${linkTags('NEW.tags')}
+    END
+  `,
+  tasks_tags_update: `
+    CREATE TRIGGER IF NOT EXISTS tasks_tags_update AFTER UPDATE OF tags ON tasks BEGIN
+      DELETE FROM task_tags WHERE task_id = NEW.id;
+      ${linkTags("COALESCE(NEW.tags, '')")}
+    END
+  `,
+};
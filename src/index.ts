@@ -11,10 +11,29 @@ import { quickstartCommand } from './commands/quickstart';
 import { seedCommand } from './commands/seed';
 import { searchCommand } from './commands/search';
 import { historyCommand } from './commands/history';
+import { undoCommand } from './commands/undo';
+import { restoreCommand } from './commands/restore';
+import { trashCommand } from './commands/trash';
+import { snapshotCommand } from './commands/snapshot';
 import { listCommand } from './commands/list';
+import { viewCommand } from './commands/view';
+import { tagCommand } from './commands/tag';
+import { fieldCommand } from './commands/field';
+import { workflowCommand } from './commands/workflow';
 import { readyCommand } from './commands/ready';
+import { nextCommand } from './commands/next';
+import { contextCommand } from './commands/context';
 import { configCommand } from './commands/config';
-import { setToonMode } from './utils/output';
+import { migrateCommand } from './commands/migrate';
+import { doctorCommand } from './commands/doctor';
+import { exportCommand } from './commands/export';
+import { importCommand } from './commands/import';
+import { syncCommand } from './commands/sync';
+import { mergeCommand } from './commands/merge';
+import { batchCommand } from './commands/batch';
+import { setBusyTimeout } from './db/client';
+import { handleCommandError, setToonMode } from './utils/output';
+import { parsePositiveInteger } from './utils/validator';
 import pkg from '../package.json';
 import type { ProgramOptions } from './types/options';
 
@@ -25,11 +44,19 @@ program
   .description('CLI-based issue tracker for coding agents')
   .version(pkg.version)
   .option('--toon', 'Output in TOON format')
+  .option('--busy-timeout <ms>', 'How long to wait for a locked database (default: 5000)')
   .hook('preAction', (thisCommand) => {
     const opts = thisCommand.opts<ProgramOptions>();
     if (opts.toon) {
       setToonMode(true);
     }
+    if (opts.busyTimeout !== undefined) {
+      try {
+        setBusyTimeout(parsePositiveInteger(opts.busyTimeout, 'busy timeout'));
+      } catch (err) {
+        handleCommandError(err);
+      }
+    }
   });
 
 // Add commands
@@ -40,13 +67,30 @@ program.addCommand(taskCommand);
 program.addCommand(subtaskCommand);
 program.addCommand(commentCommand);
 program.addCommand(depCommand);
+program.addCommand(tagCommand);
+program.addCommand(fieldCommand);
+program.addCommand(workflowCommand);
 program.addCommand(quickstartCommand);
 program.addCommand(seedCommand);
 program.addCommand(searchCommand);
 program.addCommand(historyCommand);
+program.addCommand(undoCommand);
+program.addCommand(restoreCommand);
+program.addCommand(trashCommand);
+program.addCommand(snapshotCommand);
 program.addCommand(listCommand);
+program.addCommand(viewCommand);
 program.addCommand(readyCommand);
+program.addCommand(nextCommand);
+program.addCommand(contextCommand);
 program.addCommand(configCommand);
+program.addCommand(migrateCommand);
+program.addCommand(doctorCommand);
+program.addCommand(exportCommand);
+program.addCommand(importCommand);
+program.addCommand(syncCommand);
+program.addCommand(mergeCommand);
+program.addCommand(batchCommand);
 
 // Parse and execute
 program.parse();
@@ -0,0 +1,325 @@
+import { requireSqliteInstance } from '../db/client';
+import { withTransaction } from '../db/transaction';
+import { RADIX_DECIMAL } from '../utils/constants';
+import { ConflictError } from '../utils/errors';
+import {
+  parseEpicStatus,
+  parseEstimate,
+  parsePriority,
+  parseScheduleOptions,
+} from '../utils/validator';
+import type { CustomFieldChanges, Priority, ScheduleInput } from '../types';
+import { createComment } from './comment';
+import { addDependency } from './dependency';
+import { createEpic, updateEpic } from './epic';
+import { refreshMirror } from './mirror';
+import { createTask, updateTask } from './task';
+import { parseTaskStatus } from './workflow';
+
+export const BATCH_OPS = [
+  'epic.create',
+  'epic.update',
+  'task.create',
+  'task.update',
+  'dep.add',
+  'comment.add',
+] as const;
+
+export type BatchOpName = (typeof BATCH_OPS)[number];
+
+export interface BatchOperation {
+  op: BatchOpName;
+  [field: string]: unknown;
+}
+
+export interface BatchOpResult {
+  op: BatchOpName;
+  id: string;
+}
+
+export interface BatchResult {
+  applied: number;
+  results: BatchOpResult[];
+}
+
+const BATCH_OP_SET: ReadonlySet<string> = new Set(BATCH_OPS);
+const REFERENCE_PATTERN = /^\$(\d+)$/;
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isBatchOperation(value: unknown): value is BatchOperation {
+  return isRecord(value) && typeof value.op === 'string' && BATCH_OP_SET.has(value.op);
+}
+
+function parseJson(text: string, what: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`${what} is not valid JSON.`);
+  }
+}
+
+/**
+ * Reads a batch given either as a JSON array of operations or as NDJSON (one
+ * operation per line). Blank lines in NDJSON are skipped.
+ */
+export function parseBatchOperations(content: string): BatchOperation[] {
+  let items: unknown[];
+  if (content.trimStart().startsWith('[')) {
+    const value = parseJson(content, 'Batch');
+    if (!Array.isArray(value)) {
+      throw new TypeError('Batch must be a JSON array or one JSON object per line.');
+    }
+    items = value;
+  } else {
+    items = content
+      .split('\n')
+      .map((line, index) => ({ line: line.trim(), index }))
+      .filter(({ line }) => line !== '')
+      .map(({ line, index }) => parseJson(line, `Line ${index + 1}`));
+  }
+
+  if (items.length === 0) {
+    throw new Error('Batch contains no operations.');
+  }
+
+  return items.map((item, index) => {
+    if (!isBatchOperation(item)) {
+      throw new Error(
+        `Operation ${index + 1}: expected an object with "op" set to one of ${BATCH_OPS.join(', ')}.`
+      );
+    }
+    return item;
+  });
+}
+
+function readString(op: BatchOperation, field: string): string | undefined {
+  const value = op[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new TypeError(`"${field}" must be a string.`);
+  }
+  return value;
+}
+
+function readRequiredString(op: BatchOperation, field: string): string {
+  const value = readString(op, field);
+  if (value === undefined || value === '') {
+    throw new Error(`"${field}" is required.`);
+  }
+  return value;
+}
+
+function readNullableString(op: BatchOperation, field: string): string | null | undefined {
+  if (op[field] === null) {
+    return null;
+  }
+  return readString(op, field);
+}
+
+// Custom field values by name; null clears a field
+function readFields(op: BatchOperation): CustomFieldChanges | undefined {
+  const value = op.fields;
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isRecord(value)) {
+    throw new TypeError('"fields" must be an object of field names and values.');
+  }
+  const changes: CustomFieldChanges = {};
+  for (const [name, fieldValue] of Object.entries(value)) {
+    if (fieldValue !== null && typeof fieldValue !== 'string' && typeof fieldValue !== 'number') {
+      throw new TypeError(`"fields.${name}" must be a string, a number or null.`);
+    }
+    changes[name] = fieldValue;
+  }
+  return changes;
+}
+
+// `start` and `due` take the same forms as --start and --due; null clears one
+function readSchedule(op: BatchOperation): ScheduleInput {
+  const readDate = (field: string): string | false | undefined => {
+    const value = readNullableString(op, field);
+    if (value === null) {
+      return false;
+    }
+    return value;
+  };
+  return parseScheduleOptions({ start: readDate('start'), due: readDate('due') });
+}
+
+function readPriority(op: BatchOperation): Priority | undefined {
+  if (op.priority === undefined) {
+    return undefined;
+  }
+  if (typeof op.priority !== 'number' && typeof op.priority !== 'string') {
+    throw new TypeError('"priority" must be a number.');
+  }
+  return parsePriority(String(op.priority));
+}
+
+// null clears the estimate
+function readEstimate(op: BatchOperation): number | null | undefined {
+  if (op.estimate === undefined || op.estimate === null) {
+    return op.estimate;
+  }
+  if (typeof op.estimate !== 'number' && typeof op.estimate !== 'string') {
+    throw new TypeError('"estimate" must be a number.');
+  }
+  return parseEstimate(String(op.estimate));
+}
+
+function readVersion(op: BatchOperation): number | undefined {
+  const value = op.ifVersion;
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new Error('"ifVersion" must be a positive whole number.');
+  }
+  return value;
+}
+
+// `$N` stands for the ID created by operation N of the same batch
+function resolveReference(value: string, createdIds: (string | undefined)[]): string {
+  const match = REFERENCE_PATTERN.exec(value);
+  if (!match) {
+    return value;
+  }
+  const id = createdIds.at(Number.parseInt(match[1], RADIX_DECIMAL) - 1);
+  if (id === undefined) {
+    throw new Error(`${value} does not refer to an earlier create operation in this batch.`);
+  }
+  return id;
+}
+
+function applyOperation(op: BatchOperation, createdIds: (string | undefined)[]): string {
+  const id = (field: string): string | undefined => {
+    const value = readString(op, field);
+    if (value === undefined) {
+      return undefined;
+    }
+    return resolveReference(value, createdIds);
+  };
+  const requiredId = (field: string): string =>
+    resolveReference(readRequiredString(op, field), createdIds);
+  const nullableId = (field: string): string | null | undefined => {
+    if (op[field] === null) {
+      return null;
+    }
+    return id(field);
+  };
+
+  switch (op.op) {
+    case 'epic.create':
+      return createEpic({
+        title: readRequiredString(op, 'title'),
+        description: readString(op, 'description'),
+        priority: readPriority(op),
+        status: parseEpicStatus(readString(op, 'status')),
+        fields: readFields(op),
+        ...readSchedule(op),
+      }).id;
+    case 'epic.update':
+      return updateEpic(
+        requiredId('id'),
+        {
+          title: readString(op, 'title'),
+          description: readString(op, 'description'),
+          priority: readPriority(op),
+          status: parseEpicStatus(readString(op, 'status')),
+          fields: readFields(op),
+          ...readSchedule(op),
+        },
+        { ifVersion: readVersion(op) }
+      ).id;
+    case 'task.create':
+      return createTask({
+        title: readRequiredString(op, 'title'),
+        description: readString(op, 'description'),
+        priority: readPriority(op),
+        status: parseTaskStatus(readString(op, 'status')),
+        tags: readString(op, 'tags'),
+        assignee: readString(op, 'assignee'),
+        epicId: id('epic'),
+        parentTaskId: id('parent'),
+        fields: readFields(op),
+        ...readSchedule(op),
+        estimate: readEstimate(op) ?? undefined,
+      }).id;
+    case 'task.update':
+      return updateTask(
+        requiredId('id'),
+        {
+          title: readString(op, 'title'),
+          description: readString(op, 'description'),
+          priority: readPriority(op),
+          status: parseTaskStatus(readString(op, 'status')),
+          tags: readString(op, 'tags'),
+          assignee: readNullableString(op, 'assignee'),
+          epicId: nullableId('epic'),
+          fields: readFields(op),
+          ...readSchedule(op),
+          estimate: readEstimate(op),
+        },
+        { ifVersion: readVersion(op) }
+      ).id;
+    case 'dep.add':
+      return addDependency(requiredId('task'), requiredId('dependsOn')).taskId;
+    case 'comment.add':
+      return createComment({
+        taskId: requiredId('task'),
+        author: readRequiredString(op, 'author'),
+        content: readRequiredString(op, 'content'),
+      }).id;
+  }
+}
+
+// Names the failing operation; a version conflict keeps its own error class and exit code
+function operationError(op: BatchOperation, index: number, err: unknown): Error {
+  let reason = String(err);
+  if (err instanceof Error) {
+    reason = err.message;
+  }
+  const message = `Operation ${index + 1} (${op.op}) failed, nothing was applied: ${reason}`;
+  if (err instanceof ConflictError) {
+    return new ConflictError(message);
+  }
+  return new Error(message);
+}
+
+/**
+ * Applies every operation in one write transaction: either the whole batch
+ * lands or, if any operation fails, none of it does.
+ */
+export function runBatch(operations: BatchOperation[]): BatchResult {
+  const results = withTransaction(
+    requireSqliteInstance(),
+    () => {
+      const createdIds: (string | undefined)[] = [];
+      return operations.map((op, index) => {
+        let id: string;
+        try {
+          id = applyOperation(op, createdIds);
+        } catch (err) {
+          throw operationError(op, index, err);
+        }
+        // Only creates can be referenced; the others hold a slot so `$N` keeps counting operations
+        if (op.op.endsWith('.create')) {
+          createdIds.push(id);
+        } else {
+          createdIds.push(undefined);
+        }
+        return { op: op.op, id };
+      });
+    },
+    'immediate'
+  );
+
+  refreshMirror();
+  return { applied: results.length, results };
+}
@@ -0,0 +1,123 @@
+import { requireSqliteInstance } from '../db/client';
+import { withTransaction } from '../db/transaction';
+import type { ListEntityType, UpdateEpicInput, UpdateTaskInput } from '../types';
+import { deleteEpic, updateEpic } from './epic';
+import { listAllMatching } from './list';
+import type { ListItem } from './list';
+import { refreshMirror } from './mirror';
+import { joinQuery, parseQuery } from './query';
+import { deleteTask, updateTask } from './task';
+import { isTrashEnabled } from './trash';
+
+export type BulkAction = 'update' | 'delete' | 'trash';
+
+export interface BulkResult {
+  type: ListEntityType;
+  action: BulkAction;
+  dryRun: boolean;
+  matched: number;
+  items: Pick<ListItem, 'id' | 'title' | 'status'>[];
+}
+
+/**
+ * Finds the items of one type that a `--where` query selects. The command decides the
+ * type, so the query may not name one itself.
+ */
+export function findBulkTargets(type: ListEntityType, where: string): ListItem[] {
+  const terms = parseQuery(where);
+  if (terms.length === 0) {
+    throw new Error('Filter is empty. Give at least one query term.');
+  }
+  if (terms.some((term) => term.kind === 'filter' && term.field === 'type')) {
+    throw new Error(`Leave type: out of --where; this command only changes ${type}s.`);
+  }
+  return listAllMatching(joinQuery(where, `type:${type}`));
+}
+
+export function getBulkDeleteAction(): BulkAction {
+  if (isTrashEnabled()) {
+    return 'trash';
+  }
+  return 'delete';
+}
+
+function toResult(
+  type: ListEntityType,
+  action: BulkAction,
+  items: ListItem[],
+  dryRun: boolean
+): BulkResult {
+  return {
+    type,
+    action,
+    dryRun,
+    matched: items.length,
+    items: items.map(({ id, title, status }) => ({ id, title, status })),
+  };
+}
+
+export function previewBulk(
+  type: ListEntityType,
+  action: BulkAction,
+  items: ListItem[]
+): BulkResult {
+  return toResult(type, action, items, true);
+}
+
+/**
+ * Applies the same update to every item in one transaction, so a failure on any item
+ * leaves all of them unchanged.
+ */
+export function bulkUpdateTasks(
+  type: 'task' | 'subtask',
+  items: ListItem[],
+  input: UpdateTaskInput
+): BulkResult {
+  withTransaction(
+    requireSqliteInstance(),
+    () => {
+      for (const item of items) {
+        updateTask(item.id, input);
+      }
+    },
+    'immediate'
+  );
+
+  refreshMirror();
+  return toResult(type, 'update', items, false);
+}
+
+export function bulkUpdateEpics(items: ListItem[], input: UpdateEpicInput): BulkResult {
+  withTransaction(
+    requireSqliteInstance(),
+    () => {
+      for (const item of items) {
+        updateEpic(item.id, input);
+      }
+    },
+    'immediate'
+  );
+
+  refreshMirror();
+  return toResult('epic', 'update', items, false);
+}
+
+export function bulkDelete(type: ListEntityType, items: ListItem[]): BulkResult {
+  const action = getBulkDeleteAction();
+  withTransaction(
+    requireSqliteInstance(),
+    () => {
+      for (const item of items) {
+        if (type === 'epic') {
+          deleteEpic(item.id);
+        } else {
+          deleteTask(item.id);
+        }
+      }
+    },
+    'immediate'
+  );
+
+  refreshMirror();
+  return toResult(type, action, items, false);
+}
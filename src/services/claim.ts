@@ -0,0 +1,110 @@
+import { requireSqliteInstance } from '../db/client';
+import type { Task } from '../types';
+import { MS_PER_SECOND } from '../utils/constants';
+import { refreshMirror } from './mirror';
+import { getTask } from './task';
+import { assertNotTrashed } from './trash';
+
+function toSeconds(date: Date): number {
+  return Math.floor(date.getTime() / MS_PER_SECOND);
+}
+
+function requireTask(id: string): Task {
+  const task = getTask(id);
+  if (!task) {
+    throw new Error(`Task not found: ${id}`);
+  }
+  assertNotTrashed('Task', task);
+  return task;
+}
+
+function hasActiveClaim(task: Task, now: Date): boolean {
+  return task.assignee !== null && task.claimExpiresAt !== null && task.claimExpiresAt > now;
+}
+
+function claimedError(task: Task): Error {
+  let until = '';
+  if (task.claimExpiresAt) {
+    until = ` until ${task.claimExpiresAt.toISOString()}`;
+  }
+  return new Error(`Task ${task.id} is claimed by ${task.assignee ?? 'nobody'}${until}.`);
+}
+
+function notClaimedError(id: string, agent: string): Error {
+  const task = requireTask(id);
+  if (task.assignee !== agent && hasActiveClaim(task, new Date())) {
+    return claimedError(task);
+  }
+  return new Error(`Task ${id} is not claimed by ${agent}.`);
+}
+
+function reload(id: string): Task {
+  const task = getTask(id);
+  if (!task) {
+    throw new Error(`Task not found: ${id}`);
+  }
+  refreshMirror();
+  return task;
+}
+
+/**
+ * Assigns a task to `agent` for `ttlMs`. Fails while another agent holds a claim that
+ * has not yet expired; claiming again as the same agent renews the claim.
+ */
+export function claimTask(id: string, agent: string, ttlMs: number): Task {
+  requireTask(id);
+
+  const now = new Date();
+  const expiresAt = toSeconds(new Date(now.getTime() + ttlMs));
+
+  // A single conditional UPDATE, so two agents racing for the same task cannot both win
+  const { changes } = requireSqliteInstance()
+    .query(
+      `UPDATE tasks SET assignee = ?1, claim_expires_at = ?2, updated_at = ?3
+       WHERE id = ?4
+         AND (assignee IS NULL OR assignee = ?1 OR claim_expires_at IS NULL OR claim_expires_at <= ?3)`
+    )
+    .run(agent, expiresAt, toSeconds(now), id);
+
+  if (changes === 0) {
+    throw claimedError(requireTask(id));
+  }
+  return reload(id);
+}
+
+/**
+ * Extends the claim `agent` holds on a task by `ttlMs` from now. A claim that has
+ * expired can still be renewed as long as no other agent has taken the task since.
+ */
+export function heartbeatTask(id: string, agent: string, ttlMs: number): Task {
+  requireTask(id);
+
+  const expiresAt = toSeconds(new Date(Date.now() + ttlMs));
+  const { changes } = requireSqliteInstance()
+    .query(
+      `UPDATE tasks SET claim_expires_at = ?
+       WHERE id = ? AND assignee = ? AND claim_expires_at IS NOT NULL`
+    )
+    .run(expiresAt, id, agent);
+
+  if (changes === 0) {
+    throw notClaimedError(id, agent);
+  }
+  return reload(id);
+}
+
+export function releaseTask(id: string, agent: string): Task {
+  requireTask(id);
+
+  const { changes } = requireSqliteInstance()
+    .query(
+      `UPDATE tasks SET assignee = NULL, claim_expires_at = NULL, updated_at = ?
+       WHERE id = ? AND assignee = ? AND claim_expires_at IS NOT NULL`
+    )
+    .run(toSeconds(new Date()), id, agent);
+
+  if (changes === 0) {
+    throw notClaimedError(id, agent);
+  }
+  return reload(id);
+}
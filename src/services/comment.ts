@@ -1,9 +1,15 @@
-import { eq, desc, sql } from 'drizzle-orm';
-import { getDb } from '../db/client';
+import { and, eq, desc, isNull, sql } from 'drizzle-orm';
+import { getDb, requireSqliteInstance } from '../db/client';
+import { withTransaction } from '../db/transaction';
 import { comments, tasks } from '../db/schema';
 import { generateId } from '../utils/id-generator';
 import type { Comment, CreateCommentInput, UpdateCommentInput, PaginatedResponse } from '../types';
 import { PAGINATION_DEFAULTS } from '../types';
+import { refreshMirror } from './mirror';
+import { assertNotTrashed, isTrashEnabled, trashComment } from './trash';
+import type { DeleteOutcome } from './trash';
+import { assertUnchanged } from './conflict';
+import type { WriteExpectation } from './conflict';
 
 export function createComment(input: CreateCommentInput): Comment {
   const db = getDb();
@@ -13,6 +19,7 @@ export function createComment(input: CreateCommentInput): Comment {
   if (!task) {
     throw new Error(`Task not found: ${input.taskId}`);
   }
+  assertNotTrashed('Task', task);
 
   const id = generateId('comment');
   const now = new Date();
@@ -24,10 +31,13 @@ export function createComment(input: CreateCommentInput): Comment {
     content: input.content,
     createdAt: now,
     updatedAt: now,
+    deletedAt: null,
+    version: 1,
   };
 
   db.insert(comments).values(comment).run();
 
+  refreshMirror();
   return comment;
 }
 
@@ -39,6 +49,7 @@ function getComment(id: string): Comment | undefined {
 export function listComments(
   taskId: string,
   options?: {
+    includeDeleted?: boolean;
     limit?: number;
     page?: number;
   }
@@ -55,7 +66,11 @@ export function listComments(
     throw new Error(`Task not found: ${taskId}`);
   }
 
-  const where = eq(comments.taskId, taskId);
+  const conditions = [eq(comments.taskId, taskId)];
+  if (!options?.includeDeleted) {
+    conditions.push(isNull(comments.deletedAt));
+  }
+  const where = and(...conditions);
 
   const countRow = db
     .select({ count: sql<number>`count(*)` })
@@ -68,7 +83,8 @@ export function listComments(
     .select()
     .from(comments)
     .where(where)
-    .orderBy(desc(comments.createdAt))
+    // Comments added within the same second keep the order they were added in
+    .orderBy(desc(comments.createdAt), desc(sql`rowid`))
     .limit(limit)
     .offset(offset)
     .all();
@@ -76,30 +92,46 @@ export function listComments(
   return { total, page, limit, items };
 }
 
-export function updateComment(id: string, input: UpdateCommentInput): Comment {
+export function updateComment(
+  id: string,
+  input: UpdateCommentInput,
+  expected?: WriteExpectation
+): Comment {
   const db = getDb();
 
-  const existing = getComment(id);
-  if (!existing) {
-    throw new Error(`Comment not found: ${id}`);
-  }
-
-  db.update(comments)
-    .set({
-      content: input.content,
-      updatedAt: new Date(),
-    })
-    .where(eq(comments.id, id))
-    .run();
-
-  const updated = getComment(id);
-  if (!updated) {
-    throw new Error(`Comment not found after update: ${id}`);
-  }
+  // The precondition check and the write share one transaction so nothing can slip in between
+  const updated = withTransaction(
+    requireSqliteInstance(),
+    () => {
+      const existing = getComment(id);
+      if (!existing) {
+        throw new Error(`Comment not found: ${id}`);
+      }
+      assertNotTrashed('Comment', existing);
+      assertUnchanged('Comment', existing, expected);
+
+      db.update(comments)
+        .set({
+          content: input.content,
+          updatedAt: new Date(),
+        })
+        .where(eq(comments.id, id))
+        .run();
+
+      const row = getComment(id);
+      if (!row) {
+        throw new Error(`Comment not found after update: ${id}`);
+      }
+      return row;
+    },
+    'immediate'
+  );
+
+  refreshMirror();
   return updated;
 }
 
-export function deleteComment(id: string): void {
+export function deleteComment(id: string): DeleteOutcome {
   const db = getDb();
 
   const existing = getComment(id);
@@ -107,5 +139,17 @@ export function deleteComment(id: string): void {
     throw new Error(`Comment not found: ${id}`);
   }
 
+  if (isTrashEnabled()) {
+    if (existing.deletedAt) {
+      throw new Error(`Comment is already in the trash: ${id}`);
+    }
+    trashComment(id);
+    refreshMirror();
+    return 'trashed';
+  }
+
   db.delete(comments).where(eq(comments.id, id)).run();
+
+  refreshMirror();
+  return 'deleted';
 }
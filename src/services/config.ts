@@ -2,15 +2,20 @@ import { eq } from 'drizzle-orm';
 import { getDb } from '../db/client';
 import { projectConfig } from '../db/schema';
 import {
+  type EstimateUnit,
   type ProjectConfig,
   type ProjectConfigEntry,
   type ProjectConfigKey,
+  ESTIMATE_UNITS,
+  PREFIX_CONFIG_KEYS,
   PROJECT_CONFIG_DEFAULTS,
   PROJECT_CONFIG_KEYS,
 } from '../types';
+import { refreshMirror } from './mirror';
 
 const PROJECT_CONFIG_KEY_SET: ReadonlySet<string> = new Set(PROJECT_CONFIG_KEYS);
 const PREFIX_PATTERN = /^[A-Z][A-Z0-9]*$/;
+const ESTIMATE_UNIT_SET: ReadonlySet<string> = new Set(ESTIMATE_UNITS);
 
 export function assertProjectConfigKey(key: string): asserts key is ProjectConfigKey {
   if (!PROJECT_CONFIG_KEY_SET.has(key)) {
@@ -36,10 +41,31 @@ function normalizePrefixValue(value: string): string {
   return normalized;
 }
 
+function isEstimateUnit(value: string): value is EstimateUnit {
+  return ESTIMATE_UNIT_SET.has(value);
+}
+
+function normalizeEstimateUnit(value: string): EstimateUnit {
+  const normalized = value.trim().toLowerCase();
+
+  if (!isEstimateUnit(normalized)) {
+    throw new Error(`Invalid estimate unit: ${value}. Valid values: ${ESTIMATE_UNITS.join(', ')}`);
+  }
+
+  return normalized;
+}
+
+function normalizeConfigValue(key: ProjectConfigKey, value: string): string {
+  if (key === 'estimate_unit') {
+    return normalizeEstimateUnit(value);
+  }
+  return normalizePrefixValue(value);
+}
+
 function validateUniquePrefixes(config: ProjectConfig): void {
   const seen = new Map<string, ProjectConfigKey>();
 
-  for (const key of PROJECT_CONFIG_KEYS) {
+  for (const key of PREFIX_CONFIG_KEYS) {
     const prefix = config[key];
     const existingKey = seen.get(prefix);
     if (existingKey) {
@@ -64,7 +90,7 @@ export function resolveProjectConfig(
       if (rawValue === undefined) {
         continue;
       }
-      normalizedUpdates[rawKey] = normalizePrefixValue(rawValue);
+      normalizedUpdates[rawKey] = normalizeConfigValue(rawKey, rawValue);
     }
   }
 
@@ -105,6 +131,14 @@ export function getProjectConfigValue(key: ProjectConfigKey): string {
   return listProjectConfig()[key];
 }
 
+export function getEstimateUnit(): EstimateUnit {
+  const unit = getProjectConfigValue('estimate_unit');
+  if (isEstimateUnit(unit)) {
+    return unit;
+  }
+  return 'points';
+}
+
 function upsertProjectConfigValue(key: ProjectConfigKey, value: string): void {
   const db = getDb();
   const existing = db.select().from(projectConfig).where(eq(projectConfig.key, key)).get();
@@ -130,6 +164,7 @@ export function setProjectConfigValues(
     }
   }
 
+  refreshMirror();
   return nextConfig;
 }
 
@@ -0,0 +1,28 @@
+import { ConflictError } from '../utils/errors';
+
+export interface WriteExpectation {
+  ifUnmodifiedSince?: Date;
+  ifVersion?: number;
+}
+
+/**
+ * Checks an update's preconditions against the row as it is now. Call this inside the
+ * write transaction so no one can change the row between the check and the update.
+ */
+export function assertUnchanged(
+  entityType: string,
+  item: { id: string; updatedAt: Date; version: number },
+  expected?: WriteExpectation
+): void {
+  if (expected?.ifVersion !== undefined && item.version !== expected.ifVersion) {
+    throw new ConflictError(
+      `${entityType} ${item.id} is at version ${item.version}, not ${expected.ifVersion}. It was changed by someone else; reload it and try again.`
+    );
+  }
+
+  if (expected?.ifUnmodifiedSince && item.updatedAt > expected.ifUnmodifiedSince) {
+    throw new ConflictError(
+      `${entityType} ${item.id} was modified at ${item.updatedAt.toISOString()}, after ${expected.ifUnmodifiedSince.toISOString()}. Reload it and try again.`
+    );
+  }
+}
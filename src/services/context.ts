@@ -0,0 +1,275 @@
+import type { Comment, EpicStatus, TaskStatus } from '../types';
+import { CHARS_PER_TOKEN } from '../utils/constants';
+import { listComments } from './comment';
+import { getDependencies } from './dependency';
+import { getEpic } from './epic';
+import { getHistory } from './history';
+import { listAll } from './list';
+import { joinQuery } from './query';
+import { getReadyTasks } from './ready';
+import { getTaskDetails } from './task-context';
+import type { RelatedTask } from './task-context';
+import { listStatuses } from './workflow';
+
+export interface ContextTask {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  priority: number;
+}
+
+export interface ContextComment {
+  author: string;
+  content: string;
+  createdAt: Date;
+}
+
+export interface ContextActiveTask extends ContextTask {
+  // The latest comments, newest first, out of commentCount
+  comments: ContextComment[];
+  commentCount: number;
+}
+
+export interface ContextFocus extends ContextActiveTask {
+  description: string | null;
+  subtasks: ContextTask[];
+  dependsOn: RelatedTask[];
+  blocks: RelatedTask[];
+}
+
+export interface ContextBlockedTask extends ContextTask {
+  // The dependencies that are not done yet
+  waitingOn: RelatedTask[];
+}
+
+export interface ContextCompletedTask extends ContextTask {
+  completedAt: Date;
+}
+
+export interface ContextPack {
+  epic: { id: string; title: string; status: EpicStatus } | null;
+  focus: ContextFocus | null;
+  inProgress: ContextActiveTask[];
+  blocked: ContextBlockedTask[];
+  ready: ContextTask[];
+  recentlyCompleted: ContextCompletedTask[];
+  // How many items of each section were left out to fit the budget
+  omitted: {
+    inProgress: number;
+    blocked: number;
+    ready: number;
+    recentlyCompleted: number;
+  };
+}
+
+export interface ContextPackOptions {
+  epicId?: string;
+  taskId?: string;
+}
+
+const SECTION_LIMIT = 10;
+const RECENTLY_COMPLETED_LIMIT = 5;
+const COMMENTS_PER_TASK = 3;
+// How many task updates to look through for recent completions
+const HISTORY_SCAN_LIMIT = 200;
+
+function toContextTask(item: ContextTask): ContextTask {
+  return { id: item.id, title: item.title, status: item.status, priority: item.priority };
+}
+
+function toContextComment(comment: Comment): ContextComment {
+  return { author: comment.author, content: comment.content, createdAt: comment.createdAt };
+}
+
+function statusNames(category: 'active' | 'done'): string {
+  return listStatuses()
+    .filter((status) => status.category === category)
+    .map((status) => status.name)
+    .join(',');
+}
+
+function activeTasks(scope: string, excludeId: string | undefined): ContextActiveTask[] {
+  const items = listAll({
+    query: joinQuery(scope, 'type:task,subtask', `status:${statusNames('active')}`),
+    sort: [{ field: 'updated', direction: 'desc' }],
+    limit: SECTION_LIMIT,
+  }).items.filter((item) => item.id !== excludeId);
+
+  return items.map((item) => {
+    const comments = listComments(item.id, { limit: COMMENTS_PER_TASK });
+    return {
+      ...toContextTask(item),
+      comments: comments.items.map(toContextComment),
+      commentCount: comments.total,
+    };
+  });
+}
+
+function blockedTasks(scope: string, done: string): ContextBlockedTask[] {
+  const items = listAll({
+    query: joinQuery(scope, 'type:task,subtask', 'blocked', `status!=${done}`),
+    sort: [
+      { field: 'priority', direction: 'asc' },
+      { field: 'created', direction: 'asc' },
+    ],
+    limit: SECTION_LIMIT,
+  }).items;
+
+  return items.map((item) => {
+    const ids = getDependencies(item.id).dependsOn.map((d) => d.dependsOnId);
+    // The `blocked` term guarantees at least one open dependency
+    const waitingOn = listAll({
+      query: joinQuery(`id:${ids.join(',')}`, `status!=${done}`),
+      sort: [{ field: 'created', direction: 'asc' }],
+      limit: ids.length,
+    }).items.map((blocker) => ({ id: blocker.id, title: blocker.title, status: blocker.status }));
+    return { ...toContextTask(item), waitingOn };
+  });
+}
+
+/**
+ * Finds the tasks whose latest status change moved them to a done status, newest first.
+ * A change that was undone does not count, nor does a task that is no longer done.
+ */
+function recentlyCompletedTasks(scope: string, done: string): ContextCompletedTask[] {
+  const doneSet = new Set(done.split(','));
+  const completedAt = new Map<string, Date>();
+  const seen = new Set<string>();
+
+  const events = getHistory({
+    types: ['task', 'subtask'],
+    actions: ['update'],
+    limit: HISTORY_SCAN_LIMIT,
+  }).events;
+  for (const event of events) {
+    if (!event.changes || !('status' in event.changes) || event.revertedAt) {
+      continue;
+    }
+    if (seen.has(event.entityId)) {
+      continue;
+    }
+    seen.add(event.entityId);
+    const status = event.changes.status.to;
+    if (typeof status === 'string' && doneSet.has(status)) {
+      completedAt.set(event.entityId, event.timestamp);
+    }
+  }
+  if (completedAt.size === 0) {
+    return [];
+  }
+
+  const items = listAll({
+    query: joinQuery(scope, `id:${[...completedAt.keys()].join(',')}`, `status:${done}`),
+    limit: completedAt.size,
+  }).items;
+
+  return items
+    .map((item) => ({
+      ...toContextTask(item),
+      completedAt: completedAt.get(item.id) ?? item.updatedAt,
+    }))
+    .sort((a, b) => b.completedAt.getTime() - a.completedAt.getTime())
+    .slice(0, RECENTLY_COMPLETED_LIMIT);
+}
+
+/**
+ * Gathers a briefing for an agent starting a session: the task in focus, what is in
+ * progress with its latest comments, blocked tasks and what they wait on, the ready
+ * queue and recently completed work. With a task, the other sections cover its epic.
+ */
+export function getContextPack(options: ContextPackOptions = {}): ContextPack {
+  if (options.epicId !== undefined && options.taskId !== undefined) {
+    throw new Error('--epic and --task cannot be combined.');
+  }
+
+  let focus: ContextFocus | null = null;
+  let epicId = options.epicId;
+  if (options.taskId !== undefined) {
+    const details = getTaskDetails(options.taskId, { comments: COMMENTS_PER_TASK, history: 0 });
+    focus = {
+      ...toContextTask(details.task),
+      description: details.task.description,
+      comments: details.comments.map(toContextComment),
+      commentCount: details.commentCount,
+      subtasks: details.subtasks.map(toContextTask),
+      dependsOn: details.dependsOn,
+      blocks: details.blocks,
+    };
+    epicId = details.epic?.id;
+  }
+
+  let epic: ContextPack['epic'] = null;
+  let scope = '';
+  if (epicId !== undefined) {
+    const found = getEpic(epicId);
+    if (!found) {
+      throw new Error(`Epic not found: ${epicId}`);
+    }
+    epic = { id: found.id, title: found.title, status: found.status };
+    scope = `epic:${found.id}`;
+  }
+
+  const done = statusNames('done');
+  const ready = getReadyTasks({ query: scope, limit: SECTION_LIMIT + 1 }).items;
+
+  return {
+    epic,
+    focus,
+    inProgress: activeTasks(scope, options.taskId),
+    blocked: blockedTasks(scope, done).filter((task) => task.id !== options.taskId),
+    ready: ready
+      .filter((task) => task.id !== options.taskId)
+      .slice(0, SECTION_LIMIT)
+      .map(toContextTask),
+    recentlyCompleted: recentlyCompletedTasks(scope, done),
+    omitted: { inProgress: 0, blocked: 0, ready: 0, recentlyCompleted: 0 },
+  };
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+// Drops the least important item left; returns false once only the focus task remains
+function dropLeastImportant(pack: ContextPack): boolean {
+  if (pack.recentlyCompleted.pop()) {
+    pack.omitted.recentlyCompleted += 1;
+    return true;
+  }
+  if (pack.ready.pop()) {
+    pack.omitted.ready += 1;
+    return true;
+  }
+  if (pack.blocked.pop()) {
+    pack.omitted.blocked += 1;
+    return true;
+  }
+  const commented = [...pack.inProgress].reverse().find((task) => task.comments.length > 0);
+  if (commented) {
+    commented.comments.pop();
+    return true;
+  }
+  if (pack.inProgress.pop()) {
+    pack.omitted.inProgress += 1;
+    return true;
+  }
+  return pack.focus?.comments.pop() !== undefined;
+}
+
+/**
+ * Trims a briefing until `measure` puts it within the token budget, dropping recently
+ * completed work first, then the ready queue, blocked tasks, comments on in-progress
+ * tasks, in-progress tasks and finally comments on the task in focus, which itself is
+ * always kept.
+ */
+export function fitContextPack(
+  pack: ContextPack,
+  budget: number,
+  measure: (pack: ContextPack) => number
+): ContextPack {
+  let fits = measure(pack) <= budget;
+  while (!fits && dropLeastImportant(pack)) {
+    fits = measure(pack) <= budget;
+  }
+  return pack;
+}
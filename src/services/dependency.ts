@@ -3,6 +3,8 @@ import { getDb } from '../db/client';
 import { dependencies, tasks } from '../db/schema';
 import { generateUuid } from '../utils/id-generator';
 import type { Dependency } from '../types';
+import { refreshMirror } from './mirror';
+import { assertNotTrashed } from './trash';
 
 export function addDependency(taskId: string, dependsOnId: string): Dependency {
   const db = getDb();
@@ -12,11 +14,13 @@ export function addDependency(taskId: string, dependsOnId: string): Dependency {
   if (!task) {
     throw new Error(`Task not found: ${taskId}`);
   }
+  assertNotTrashed('Task', task);
 
   const dependsOnTask = db.select().from(tasks).where(eq(tasks.id, dependsOnId)).get();
   if (!dependsOnTask) {
     throw new Error(`Task not found: ${dependsOnId}`);
   }
+  assertNotTrashed('Task', dependsOnTask);
 
   // Can't depend on itself
   if (taskId === dependsOnId) {
@@ -54,6 +58,7 @@ export function addDependency(taskId: string, dependsOnId: string): Dependency {
 
   db.insert(dependencies).values(dependency).run();
 
+  refreshMirror();
   return dependency;
 }
 
@@ -72,6 +77,8 @@ export function removeDependency(taskId: string, dependsOnId: string): void {
   }
 
   db.delete(dependencies).where(eq(dependencies.id, existing.id)).run();
+
+  refreshMirror();
 }
 
 export function getDependencies(taskId: string): {
@@ -0,0 +1,377 @@
+import type { Database } from 'bun:sqlite';
+import { requireSqliteInstance, rebuildSearchIndex } from '../db/client';
+import { withTransaction } from '../db/transaction';
+import {
+  SEARCH_TRIGGERS,
+  HISTORY_TRIGGERS,
+  VERSION_TRIGGERS,
+  TAG_TRIGGERS,
+  searchContent,
+} from '../db/triggers';
+import { getHighestIdSuffix, raiseIdCounter } from '../utils/id-generator';
+import { refreshMirror } from './mirror';
+import type { EntityType } from '../types';
+
+export type DoctorCheck = 'orphans' | 'cycles' | 'triggers' | 'id_counters' | 'search_index';
+
+export interface DoctorFinding {
+  check: DoctorCheck;
+  problem: string;
+  details: string[];
+  fixed: boolean;
+  // What fixing changed, when that is not simply the details put right
+  repairs?: string[];
+}
+
+export interface DoctorReport {
+  healthy: boolean;
+  checks: DoctorCheck[];
+  findings: DoctorFinding[];
+}
+
+interface IdRow {
+  id: string;
+}
+
+interface EdgeRow {
+  task_id: string;
+  depends_on_id: string;
+}
+
+interface NameRow {
+  name: string;
+}
+
+interface CounterRow {
+  counter: number;
+}
+
+interface SearchMismatchRow {
+  entity_type: string;
+  entity_id: string;
+}
+
+type CheckRunner = (sqlite: Database, fix: boolean) => DoctorFinding[];
+
+const ID_ENTITY_TYPES: EntityType[] = ['task', 'epic', 'comment'];
+
+function selectIds(sqlite: Database, query: string): string[] {
+  return sqlite
+    .query<IdRow, []>(query)
+    .all()
+    .map((row) => row.id);
+}
+
+function checkOrphans(sqlite: Database, fix: boolean): DoctorFinding[] {
+  const findings: DoctorFinding[] = [];
+
+  const orphanChecks = [
+    {
+      problem: 'Subtasks whose parent task no longer exists',
+      select: `SELECT id FROM tasks
+        WHERE parent_task_id IS NOT NULL AND parent_task_id NOT IN (SELECT id FROM tasks)`,
+      repair: `DELETE FROM tasks
+        WHERE parent_task_id IS NOT NULL AND parent_task_id NOT IN (SELECT id FROM tasks)`,
+    },
+    {
+      problem: 'Comments whose task no longer exists',
+      select: 'SELECT id FROM comments WHERE task_id NOT IN (SELECT id FROM tasks)',
+      repair: 'DELETE FROM comments WHERE task_id NOT IN (SELECT id FROM tasks)',
+    },
+    {
+      problem: 'Dependencies with a missing endpoint',
+      select: `SELECT task_id || ' -> ' || depends_on_id AS id FROM dependencies
+        WHERE task_id NOT IN (SELECT id FROM tasks) OR depends_on_id NOT IN (SELECT id FROM tasks)`,
+      repair: `DELETE FROM dependencies
+        WHERE task_id NOT IN (SELECT id FROM tasks) OR depends_on_id NOT IN (SELECT id FROM tasks)`,
+    },
+    {
+      problem: 'Tasks assigned to an epic that no longer exists',
+      select: `SELECT id FROM tasks
+        WHERE epic_id IS NOT NULL AND epic_id NOT IN (SELECT id FROM epics)`,
+      repair: `UPDATE tasks SET epic_id = NULL
+        WHERE epic_id IS NOT NULL AND epic_id NOT IN (SELECT id FROM epics)`,
+    },
+  ];
+
+  for (const orphanCheck of orphanChecks) {
+    const ids = selectIds(sqlite, orphanCheck.select);
+    if (ids.length === 0) {
+      continue;
+    }
+
+    if (fix) {
+      // Removing an orphaned subtask can orphan its own children, so repeat until stable
+      withTransaction(sqlite, () => {
+        while (selectIds(sqlite, orphanCheck.select).length > 0) {
+          sqlite.run(orphanCheck.repair);
+        }
+      });
+    }
+
+    findings.push({ check: 'orphans', problem: orphanCheck.problem, details: ids, fixed: fix });
+  }
+
+  return findings;
+}
+
+interface DependencyCycle {
+  path: string[];
+  closingEdge: EdgeRow;
+}
+
+/**
+ * Finds dependency cycles with a depth-first search, remembering for each one the
+ * edge that closed the loop so it can be removed.
+ */
+function findDependencyCycles(edges: EdgeRow[]): DependencyCycle[] {
+  const graph = new Map<string, string[]>();
+  for (const edge of edges) {
+    const targets = graph.get(edge.task_id) ?? [];
+    targets.push(edge.depends_on_id);
+    graph.set(edge.task_id, targets);
+  }
+
+  const cycles: DependencyCycle[] = [];
+  const done = new Set<string>();
+  const path: string[] = [];
+  const onPath = new Set<string>();
+
+  function visit(node: string): void {
+    path.push(node);
+    onPath.add(node);
+
+    for (const next of graph.get(node) ?? []) {
+      if (onPath.has(next)) {
+        cycles.push({
+          path: [...path.slice(path.indexOf(next)), next],
+          closingEdge: { task_id: node, depends_on_id: next },
+        });
+      } else if (!done.has(next)) {
+        visit(next);
+      }
+    }
+
+    path.pop();
+    onPath.delete(node);
+    done.add(node);
+  }
+
+  for (const node of graph.keys()) {
+    if (!done.has(node)) {
+      visit(node);
+    }
+  }
+
+  return cycles;
+}
+
+function checkCycles(sqlite: Database, fix: boolean): DoctorFinding[] {
+  const loadEdges = (): EdgeRow[] =>
+    sqlite.query<EdgeRow, []>('SELECT task_id, depends_on_id FROM dependencies').all();
+
+  const cycles = findDependencyCycles(loadEdges());
+  if (cycles.length === 0) {
+    return [];
+  }
+
+  const removed: string[] = [];
+  if (fix) {
+    // Break one closing edge at a time and re-scan, since edges can be shared between cycles
+    withTransaction(sqlite, () => {
+      for (;;) {
+        const cycle = findDependencyCycles(loadEdges()).at(0);
+        if (!cycle) {
+          break;
+        }
+        const edge = cycle.closingEdge;
+        sqlite
+          .query('DELETE FROM dependencies WHERE task_id = ? AND depends_on_id = ?')
+          .run(edge.task_id, edge.depends_on_id);
+        removed.push(`removed ${edge.task_id} -> ${edge.depends_on_id}`);
+      }
+    });
+  }
+
+  const finding: DoctorFinding = {
+    check: 'cycles',
+    problem: 'Dependency cycles',
+    details: cycles.map((cycle) => cycle.path.join(' -> ')),
+    fixed: fix,
+  };
+  if (fix) {
+    finding.repairs = removed;
+  }
+  return [finding];
+}
+
+function checkTriggers(sqlite: Database, fix: boolean): DoctorFinding[] {
+  const existing = new Set(
+    sqlite
+      .query<NameRow, []>("SELECT name FROM sqlite_master WHERE type = 'trigger'")
+      .all()
+      .map((row) => row.name)
+  );
+
+  const findings: DoctorFinding[] = [];
+  const groups = [
+    { problem: 'Missing history triggers', triggers: HISTORY_TRIGGERS },
+    { problem: 'Missing search index triggers', triggers: SEARCH_TRIGGERS },
+    { problem: 'Missing row version triggers', triggers: VERSION_TRIGGERS },
+    { problem: 'Missing tag triggers', triggers: TAG_TRIGGERS },
+  ];
+
+  for (const group of groups) {
+    const missing = Object.keys(group.triggers).filter((name) => !existing.has(name));
+    if (missing.length === 0) {
+      continue;
+    }
+
+    if (fix) {
+      withTransaction(sqlite, () => {
+        for (const name of missing) {
+          sqlite.run(group.triggers[name]);
+        }
+      });
+    }
+
+    findings.push({ check: 'triggers', problem: group.problem, details: missing, fixed: fix });
+  }
+
+  return findings;
+}
+
+function checkIdCounters(sqlite: Database, fix: boolean): DoctorFinding[] {
+  const details: string[] = [];
+
+  for (const entityType of ID_ENTITY_TYPES) {
+    const maxSuffix = getHighestIdSuffix(entityType);
+    const counterRow = sqlite
+      .query<CounterRow, [string]>('SELECT counter FROM id_counters WHERE entity_type = ?')
+      .get(entityType);
+
+    if (counterRow && counterRow.counter >= maxSuffix) {
+      continue;
+    }
+
+    if (counterRow) {
+      details.push(`${entityType}: counter is ${counterRow.counter}, highest ID is ${maxSuffix}`);
+    } else {
+      details.push(`${entityType}: counter is missing, highest ID is ${maxSuffix}`);
+    }
+
+    if (fix) {
+      raiseIdCounter(entityType, maxSuffix);
+    }
+  }
+
+  if (details.length === 0) {
+    return [];
+  }
+
+  return [
+    {
+      check: 'id_counters',
+      problem: 'ID counters behind existing IDs (new IDs would collide)',
+      details,
+      fixed: fix,
+    },
+  ];
+}
+
+function checkSearchIndex(sqlite: Database, fix: boolean): DoctorFinding[] {
+  const expected = `
+    SELECT id AS entity_id, 'epic' AS entity_type, title, ${searchContent('epics')} AS content, status
+    FROM epics
+    UNION ALL
+    SELECT id, IIF(parent_task_id IS NULL, 'task', 'subtask'), title, ${searchContent('tasks')}, status
+    FROM tasks
+    UNION ALL
+    SELECT id, 'comment', '', content, '' FROM comments
+  `;
+
+  const mismatchQueries = [
+    {
+      label: 'missing',
+      query: `SELECT e.entity_type, e.entity_id FROM (${expected}) e
+        WHERE NOT EXISTS (
+          SELECT 1 FROM search_index s
+          WHERE s.entity_id = e.entity_id AND s.entity_type = e.entity_type
+        )`,
+    },
+    {
+      label: 'stale',
+      query: `SELECT s.entity_type, s.entity_id FROM search_index s
+        WHERE NOT EXISTS (
+          SELECT 1 FROM (${expected}) e
+          WHERE e.entity_id = s.entity_id AND e.entity_type = s.entity_type
+        )`,
+    },
+    {
+      label: 'outdated',
+      query: `SELECT e.entity_type, e.entity_id FROM (${expected}) e
+        JOIN search_index s ON s.entity_id = e.entity_id AND s.entity_type = e.entity_type
+        WHERE s.title IS NOT e.title OR s.content IS NOT e.content OR s.status IS NOT e.status`,
+    },
+    {
+      label: 'duplicate',
+      query: `SELECT entity_type, entity_id FROM search_index
+        GROUP BY entity_type, entity_id HAVING COUNT(*) > 1`,
+    },
+  ];
+
+  const details: string[] = [];
+  for (const mismatch of mismatchQueries) {
+    const rows = sqlite.query<SearchMismatchRow, []>(mismatch.query).all();
+    for (const row of rows) {
+      details.push(`${mismatch.label}: ${row.entity_type} ${row.entity_id}`);
+    }
+  }
+
+  if (details.length === 0) {
+    return [];
+  }
+
+  if (fix) {
+    rebuildSearchIndex();
+  }
+
+  return [
+    {
+      check: 'search_index',
+      problem: 'Search index out of sync with epics, tasks and comments',
+      details,
+      fixed: fix,
+    },
+  ];
+}
+
+// Order matters when fixing: restoring triggers and removing orphans first means the
+// search index is checked against the repaired data.
+const CHECKS: [DoctorCheck, CheckRunner][] = [
+  ['orphans', checkOrphans],
+  ['cycles', checkCycles],
+  ['triggers', checkTriggers],
+  ['id_counters', checkIdCounters],
+  ['search_index', checkSearchIndex],
+];
+
+export function runDoctor(options?: { fix?: boolean }): DoctorReport {
+  const sqlite = requireSqliteInstance();
+  const fix = options?.fix ?? false;
+
+  const findings: DoctorFinding[] = [];
+  for (const [, runCheck] of CHECKS) {
+    findings.push(...runCheck(sqlite, fix));
+  }
+
+  if (fix && findings.length > 0) {
+    refreshMirror();
+  }
+
+  return {
+    healthy: findings.every((f) => f.fixed),
+    checks: CHECKS.map(([name]) => name),
+    findings,
+  };
+}
@@ -0,0 +1,157 @@
+import { requireSqliteInstance } from '../db/client';
+import type { Epic, Priority, TaskStatus } from '../types';
+import { PERCENT } from '../utils/constants';
+import { getEpic } from './epic';
+import { getReadyTasks } from './ready';
+import { statusesInCategorySql } from './workflow';
+
+export interface EpicTreeNode {
+  id: string;
+  title: string;
+  status: TaskStatus;
+  priority: Priority;
+  estimate: number | null;
+  done: boolean;
+  dependsOn: string[];
+  // The dependencies that are not done yet
+  blockedBy: string[];
+  subtasks: EpicTreeNode[];
+}
+
+export interface EpicProgress {
+  tasks: number;
+  done: number;
+  percent: number;
+  blocked: number;
+}
+
+export interface EpicTree {
+  epic: Epic;
+  progress: EpicProgress;
+  next: { id: string; title: string; priority: number } | null;
+  tasks: EpicTreeNode[];
+}
+
+interface TreeRow {
+  id: string;
+  parent_task_id: string | null;
+  title: string;
+  status: string;
+  priority: Priority;
+  estimate: number | null;
+  done: number;
+}
+
+interface DependencyRow {
+  task_id: string;
+  depends_on_id: string;
+  done: number;
+}
+
+/**
+ * Gathers an epic with its tasks, their subtasks and dependencies, how far along it is
+ * and the task to pick up next. Trashed tasks are left out, and a trashed blocker no
+ * longer blocks, as in `ready`.
+ */
+export function getEpicTree(epicId: string): EpicTree {
+  const epic = getEpic(epicId);
+  if (!epic) {
+    throw new Error(`Epic not found: ${epicId}`);
+  }
+
+  const sqlite = requireSqliteInstance();
+  const done = statusesInCategorySql('done');
+
+  // Subtasks created before their parent joined the epic take the epic from the parent
+  const rows = sqlite
+    .query<TreeRow, [string]>(
+      `
+      SELECT t.id, t.parent_task_id, t.title, t.status, t.priority, t.estimate,
+             t.status IN ${done} AS done
+      FROM tasks t
+      LEFT JOIN tasks p ON p.id = t.parent_task_id
+      WHERE COALESCE(t.epic_id, p.epic_id) = ? AND t.deleted_at IS NULL
+      ORDER BY t.created_at, t.rowid
+    `
+    )
+    .all(epicId);
+
+  const dependencies = sqlite
+    .query<DependencyRow, [string]>(
+      `
+      SELECT d.task_id, d.depends_on_id, dt.status IN ${done} AS done
+      FROM dependencies d
+      JOIN tasks t ON t.id = d.task_id
+      LEFT JOIN tasks p ON p.id = t.parent_task_id
+      JOIN tasks dt ON dt.id = d.depends_on_id
+      WHERE COALESCE(t.epic_id, p.epic_id) = ? AND dt.deleted_at IS NULL
+      ORDER BY d.rowid
+    `
+    )
+    .all(epicId);
+
+  const nodes = new Map<string, EpicTreeNode>();
+  for (const row of rows) {
+    nodes.set(row.id, {
+      id: row.id,
+      title: row.title,
+      status: row.status,
+      priority: row.priority,
+      estimate: row.estimate,
+      done: row.done === 1,
+      dependsOn: [],
+      blockedBy: [],
+      subtasks: [],
+    });
+  }
+  for (const dependency of dependencies) {
+    const node = nodes.get(dependency.task_id);
+    node?.dependsOn.push(dependency.depends_on_id);
+    if (dependency.done !== 1) {
+      node?.blockedBy.push(dependency.depends_on_id);
+    }
+  }
+
+  // A subtask whose parent moved to another epic is shown at the top level
+  const tasks: EpicTreeNode[] = [];
+  for (const row of rows) {
+    const node = nodes.get(row.id);
+    if (!node) {
+      continue;
+    }
+    let parent: EpicTreeNode | undefined;
+    if (row.parent_task_id) {
+      parent = nodes.get(row.parent_task_id);
+    }
+    if (parent) {
+      parent.subtasks.push(node);
+    } else {
+      tasks.push(node);
+    }
+  }
+
+  const all = [...nodes.values()];
+  const doneCount = all.filter((node) => node.done).length;
+  let percent = 0;
+  if (all.length > 0) {
+    percent = Math.round((doneCount * PERCENT) / all.length);
+  }
+
+  let next: EpicTree['next'] = null;
+  const ready = getReadyTasks({ query: `epic:${epicId}`, limit: 1 }).items.at(0);
+  if (ready) {
+    next = { id: ready.id, title: ready.title, priority: ready.priority };
+  }
+
+  return {
+    epic,
+    progress: {
+      tasks: all.length,
+      done: doneCount,
+      percent,
+      blocked: all.filter((node) => !node.done && node.blockedBy.length > 0).length,
+    },
+    next,
+    tasks,
+  };
+}
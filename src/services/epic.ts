@@ -1,15 +1,34 @@
 import { eq, and, isNull, desc, sql } from 'drizzle-orm';
-import { getDb } from '../db/client';
+import { getDb, requireSqliteInstance } from '../db/client';
+import { withTransaction } from '../db/transaction';
 import { epics, projects, tasks } from '../db/schema';
 import { generateId } from '../utils/id-generator';
 import type {
   Epic,
   CreateEpicInput,
   UpdateEpicInput,
+  EpicRollup,
   EpicStatus,
   PaginatedResponse,
 } from '../types';
 import { DEFAULT_PRIORITY, DEFAULT_EPIC_STATUS, PAGINATION_DEFAULTS } from '../types';
+import { validateSchedule } from '../utils/validator';
+import { refreshMirror } from './mirror';
+import { applyFieldChanges } from './field';
+import { assertNotTrashed, isTrashEnabled, trashEpic } from './trash';
+import type { DeleteOutcome } from './trash';
+import { assertUnchanged } from './conflict';
+import type { WriteExpectation } from './conflict';
+import { getEstimateUnit } from './config';
+import { statusesInCategorySql } from './workflow';
+
+interface RollupRow {
+  status: string;
+  done: number;
+  count: number;
+  estimate: number;
+  unestimated: number;
+}
 
 export function createEpic(input: CreateEpicInput): Epic {
   const db = getDb();
@@ -19,6 +38,10 @@ export function createEpic(input: CreateEpicInput): Epic {
     throw new Error("Project not found. Run 'trekker init' first.");
   }
 
+  const startAt = input.startAt ?? null;
+  const dueAt = input.dueAt ?? null;
+  validateSchedule(startAt, dueAt);
+
   const id = generateId('epic');
   const now = new Date();
 
@@ -29,12 +52,18 @@ export function createEpic(input: CreateEpicInput): Epic {
     description: input.description ?? null,
     status: input.status ?? DEFAULT_EPIC_STATUS,
     priority: input.priority ?? DEFAULT_PRIORITY,
+    fields: applyFieldChanges(null, input.fields ?? {}),
+    startAt,
+    dueAt,
     createdAt: now,
     updatedAt: now,
+    deletedAt: null,
+    version: 1,
   };
 
   db.insert(epics).values(epic).run();
 
+  refreshMirror();
   return epic;
 }
 
@@ -43,8 +72,56 @@ export function getEpic(id: string): Epic | undefined {
   return db.select().from(epics).where(eq(epics.id, id)).get();
 }
 
+/**
+ * Sums up the tasks and subtasks of an epic: how many there are in each status and how
+ * much of their estimated effort is done. Statuses are listed in workflow order.
+ */
+export function getEpicRollup(epicId: string): EpicRollup {
+  const sqlite = requireSqliteInstance();
+
+  // Subtasks created before their parent joined the epic take the epic from the parent
+  const rows = sqlite
+    .query<RollupRow, [string]>(
+      `
+      SELECT t.status, t.status IN ${statusesInCategorySql('done')} AS done, COUNT(*) AS count,
+             COALESCE(SUM(t.estimate), 0) AS estimate, SUM(t.estimate IS NULL) AS unestimated
+      FROM tasks t
+      LEFT JOIN tasks p ON p.id = t.parent_task_id
+      LEFT JOIN workflow_statuses w ON w.name = t.status
+      WHERE COALESCE(t.epic_id, p.epic_id) = ? AND t.deleted_at IS NULL
+      GROUP BY t.status
+      ORDER BY w.position IS NULL, w.position, t.status
+    `
+    )
+    .all(epicId);
+
+  const rollup: EpicRollup = {
+    unit: getEstimateUnit(),
+    total: 0,
+    completed: 0,
+    remaining: 0,
+    unestimated: 0,
+    tasks: 0,
+    byStatus: {},
+  };
+  for (const row of rows) {
+    rollup.tasks += row.count;
+    rollup.byStatus[row.status] = row.count;
+    rollup.total += row.estimate;
+    if (row.done) {
+      rollup.completed += row.estimate;
+    } else {
+      rollup.unestimated += row.unestimated;
+    }
+  }
+  rollup.remaining = rollup.total - rollup.completed;
+
+  return rollup;
+}
+
 export function listEpics(options?: {
   status?: EpicStatus;
+  includeDeleted?: boolean;
   limit?: number;
   page?: number;
 }): PaginatedResponse<Epic> {
@@ -54,9 +131,17 @@ export function listEpics(options?: {
   const page = options?.page ?? PAGINATION_DEFAULTS.DEFAULT_PAGE;
   const offset = (page - 1) * limit;
 
-  let where;
+  const conditions = [];
   if (options?.status) {
-    where = eq(epics.status, options.status);
+    conditions.push(eq(epics.status, options.status));
+  }
+  if (!options?.includeDeleted) {
+    conditions.push(isNull(epics.deletedAt));
+  }
+
+  let where;
+  if (conditions.length > 0) {
+    where = and(...conditions);
   }
 
   const countRow = db
@@ -78,41 +163,68 @@ export function listEpics(options?: {
   return { total, page, limit, items };
 }
 
-export function updateEpic(id: string, input: UpdateEpicInput): Epic {
+export function updateEpic(id: string, input: UpdateEpicInput, expected?: WriteExpectation): Epic {
   const db = getDb();
 
-  const existing = getEpic(id);
-  if (!existing) {
-    throw new Error(`Epic not found: ${id}`);
-  }
+  // The precondition check and the write share one transaction so nothing can slip in between
+  const updated = withTransaction(
+    requireSqliteInstance(),
+    () => {
+      const existing = getEpic(id);
+      if (!existing) {
+        throw new Error(`Epic not found: ${id}`);
+      }
+      assertNotTrashed('Epic', existing);
+      assertUnchanged('Epic', existing, expected);
 
-  const updates: Record<string, unknown> = {
-    updatedAt: new Date(),
-  };
+      const updates: Record<string, unknown> = {
+        updatedAt: new Date(),
+      };
 
-  if (input.title !== undefined) {
-    updates.title = input.title;
-  }
-  if (input.description !== undefined) {
-    updates.description = input.description;
-  }
-  if (input.status !== undefined) {
-    updates.status = input.status;
-  }
-  if (input.priority !== undefined) {
-    updates.priority = input.priority;
-  }
+      if (input.title !== undefined) {
+        updates.title = input.title;
+      }
+      if (input.description !== undefined) {
+        updates.description = input.description;
+      }
+      if (input.status !== undefined) {
+        updates.status = input.status;
+      }
+      if (input.priority !== undefined) {
+        updates.priority = input.priority;
+      }
+      if (input.fields !== undefined) {
+        updates.fields = applyFieldChanges(existing.fields, input.fields);
+      }
+      let { startAt, dueAt } = existing;
+      if (input.startAt !== undefined) {
+        startAt = input.startAt;
+        updates.startAt = startAt;
+      }
+      if (input.dueAt !== undefined) {
+        dueAt = input.dueAt;
+        updates.dueAt = dueAt;
+      }
+      if (input.startAt !== undefined || input.dueAt !== undefined) {
+        validateSchedule(startAt, dueAt);
+      }
 
-  db.update(epics).set(updates).where(eq(epics.id, id)).run();
+      db.update(epics).set(updates).where(eq(epics.id, id)).run();
 
-  const updated = getEpic(id);
-  if (!updated) {
-    throw new Error(`Epic not found after update: ${id}`);
-  }
+      const row = getEpic(id);
+      if (!row) {
+        throw new Error(`Epic not found after update: ${id}`);
+      }
+      return row;
+    },
+    'immediate'
+  );
+
+  refreshMirror();
   return updated;
 }
 
-export function deleteEpic(id: string): void {
+export function deleteEpic(id: string): DeleteOutcome {
   const db = getDb();
 
   const existing = getEpic(id);
@@ -120,7 +232,19 @@ export function deleteEpic(id: string): void {
     throw new Error(`Epic not found: ${id}`);
   }
 
+  if (isTrashEnabled()) {
+    if (existing.deletedAt) {
+      throw new Error(`Epic is already in the trash: ${id}`);
+    }
+    trashEpic(id);
+    refreshMirror();
+    return 'trashed';
+  }
+
   db.delete(epics).where(eq(epics.id, id)).run();
+
+  refreshMirror();
+  return 'deleted';
 }
 
 interface CompleteEpicResult {
@@ -140,6 +264,8 @@ export function completeEpic(id: string): CompleteEpicResult {
     throw new Error(`Epic not found: ${id}`);
   }
 
+  assertNotTrashed('Epic', existing);
+
   if (existing.status === 'completed') {
     throw new Error(`Epic is already completed: ${id}`);
   }
@@ -183,6 +309,7 @@ export function completeEpic(id: string): CompleteEpicResult {
     .where(eq(epics.id, id))
     .run();
 
+  refreshMirror();
   return {
     epic: id,
     status: 'completed',
@@ -0,0 +1,106 @@
+import type { Database } from 'bun:sqlite';
+import { requireSqliteInstance } from '../db/client';
+import { getSchemaVersion } from '../db/migrator';
+import { withTransaction } from '../db/transaction';
+
+export const EXPORT_FORMAT = 'trekker-export';
+export const EXPORT_FORMAT_VERSION = 1;
+
+// Listed parents first, so rows can be restored in this order
+export const EXPORT_TABLES = [
+  'projects',
+  'project_config',
+  'epics',
+  'tasks',
+  'comments',
+  'dependencies',
+  'id_counters',
+] as const;
+
+export type ExportTable = (typeof EXPORT_TABLES)[number];
+
+// Rows hold raw column values exactly as stored, including timestamps
+export type ExportRow = Record<string, string | number | null>;
+
+// Saved views and custom fields are left out of documents written before they existed,
+// history on request
+export type ExportTables = Record<ExportTable, ExportRow[]> & {
+  saved_views?: ExportRow[];
+  custom_fields?: ExportRow[];
+  workflow_statuses?: ExportRow[];
+  events?: ExportRow[];
+};
+
+export interface ExportDocument {
+  format: typeof EXPORT_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: string;
+  tables: ExportTables;
+}
+
+function hasTable(sqlite: Database, table: string): boolean {
+  return (
+    sqlite
+      .query<
+        { name: string },
+        [string]
+      >("SELECT name FROM sqlite_master WHERE type = 'table' AND name = ?")
+      .get(table) !== null
+  );
+}
+
+function selectRows(sqlite: Database, table: string, orderBy: string): ExportRow[] {
+  return sqlite.query<ExportRow, []>(`SELECT * FROM ${table} ORDER BY ${orderBy}`).all();
+}
+
+/**
+ * Reads a whole database into an export document. Works on any connection, so it
+ * can also read databases other than the current project's.
+ */
+export function readExportDocument(
+  sqlite: Database,
+  options?: { includeHistory?: boolean }
+): ExportDocument {
+  // Read every table in one transaction so the snapshot is consistent
+  const tables = withTransaction(sqlite, () => {
+    const snapshot: ExportTables = {
+      projects: selectRows(sqlite, 'projects', 'rowid'),
+      project_config: selectRows(sqlite, 'project_config', 'key'),
+      epics: selectRows(sqlite, 'epics', 'rowid'),
+      tasks: selectRows(sqlite, 'tasks', 'rowid'),
+      comments: selectRows(sqlite, 'comments', 'rowid'),
+      dependencies: selectRows(sqlite, 'dependencies', 'rowid'),
+      id_counters: selectRows(sqlite, 'id_counters', 'entity_type'),
+    };
+
+    // A database that has not been migrated yet has no views, custom fields or workflow
+    if (hasTable(sqlite, 'saved_views')) {
+      snapshot.saved_views = selectRows(sqlite, 'saved_views', 'name');
+    }
+    if (hasTable(sqlite, 'custom_fields')) {
+      snapshot.custom_fields = selectRows(sqlite, 'custom_fields', 'name');
+    }
+    if (hasTable(sqlite, 'workflow_statuses')) {
+      snapshot.workflow_statuses = selectRows(sqlite, 'workflow_statuses', 'position');
+    }
+
+    if (options?.includeHistory) {
+      snapshot.events = selectRows(sqlite, 'events', 'id');
+    }
+
+    return snapshot;
+  });
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    schemaVersion: getSchemaVersion(sqlite),
+    exportedAt: new Date().toISOString(),
+    tables,
+  };
+}
+
+export function exportProject(options?: { includeHistory?: boolean }): ExportDocument {
+  return readExportDocument(requireSqliteInstance(), options);
+}
@@ -0,0 +1,322 @@
+import { asc, eq } from 'drizzle-orm';
+import dayjs from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
+import { getDb, requireSqliteInstance } from '../db/client';
+import { withTransaction } from '../db/transaction';
+import { customFields } from '../db/schema';
+import { CUSTOM_FIELD_TYPES, VALID_SORT_FIELDS } from '../types';
+import type {
+  CustomField,
+  CustomFieldChanges,
+  CustomFieldType,
+  CustomFieldValue,
+  CustomFieldValues,
+  DefineFieldInput,
+} from '../types';
+import { MS_PER_SECOND } from '../utils/constants';
+import { refreshMirror } from './mirror';
+
+dayjs.extend(customParseFormat);
+
+export interface FieldDeleteResult {
+  field: string;
+  cleared: number;
+}
+
+interface FieldValueRow {
+  id: string;
+  value: CustomFieldValue;
+}
+
+// Lowercase so a name is also a valid query field (`component:api`) and JSON path
+const FIELD_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+// Built-in query fields, flags and sort fields take precedence, so custom fields cannot use them
+const RESERVED_FIELD_NAMES: ReadonlySet<string> = new Set([
+  'type',
+  'status',
+  'priority',
+  'tag',
+  'epic',
+  'parent',
+  'assignee',
+  'id',
+  'created',
+  'updated',
+  'since',
+  'until',
+  'blocked',
+  'claimed',
+  'overdue',
+  ...VALID_SORT_FIELDS,
+]);
+
+const CUSTOM_FIELD_TYPE_SET: ReadonlySet<string> = new Set(CUSTOM_FIELD_TYPES);
+
+const FIELD_TABLES = ['epics', 'tasks'] as const;
+
+function isCustomFieldType(type: string): type is CustomFieldType {
+  return CUSTOM_FIELD_TYPE_SET.has(type);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function parseFieldType(type: string): CustomFieldType {
+  if (!isCustomFieldType(type)) {
+    throw new Error(`Invalid field type: ${type}. Valid types: ${CUSTOM_FIELD_TYPES.join(', ')}`);
+  }
+  return type;
+}
+
+function validateFieldName(name: string): void {
+  if (!FIELD_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `Invalid field name: ${name}. Use lowercase letters, numbers and _, starting with a letter.`
+    );
+  }
+  if (RESERVED_FIELD_NAMES.has(name)) {
+    throw new Error(`Invalid field name: ${name} is a built-in field.`);
+  }
+}
+
+export function getField(name: string): CustomField | undefined {
+  const db = getDb();
+  return db.select().from(customFields).where(eq(customFields.name, name)).get();
+}
+
+function requireField(name: string): CustomField {
+  const field = getField(name);
+  if (!field) {
+    throw new Error(`Field not found: ${name}`);
+  }
+  return field;
+}
+
+export function listFields(): CustomField[] {
+  const db = getDb();
+  return db.select().from(customFields).orderBy(asc(customFields.name)).all();
+}
+
+/**
+ * Describes the values a field takes, for error messages: "a number", "one of a, b".
+ */
+export function describeFieldType(field: CustomField): string {
+  switch (field.type) {
+    case 'string':
+      return 'text';
+    case 'number':
+      return 'a number';
+    case 'date':
+      return 'a date (YYYY-MM-DD)';
+    case 'enum':
+      return `one of ${(field.allowedValues ?? []).join(', ')}`;
+  }
+}
+
+/**
+ * Converts a value to what the field stores, or returns undefined if the field does
+ * not take it. Numbers may be given as text.
+ */
+export function coerceFieldValue(
+  field: CustomField,
+  value: CustomFieldValue
+): CustomFieldValue | undefined {
+  const text = String(value).trim();
+  if (text === '') {
+    return undefined;
+  }
+
+  switch (field.type) {
+    case 'string':
+      return text;
+    case 'number': {
+      const number = Number(text);
+      if (!Number.isFinite(number)) {
+        return undefined;
+      }
+      return number;
+    }
+    case 'date':
+      if (!dayjs(text, 'YYYY-MM-DD', true).isValid()) {
+        return undefined;
+      }
+      return text;
+    case 'enum':
+      if (!(field.allowedValues ?? []).includes(text)) {
+        return undefined;
+      }
+      return text;
+  }
+}
+
+/**
+ * Applies field changes to the values an epic or task has. Each field must be
+ * defined and each value fit its type; null clears a field. No values at all is
+ * stored as null.
+ */
+export function applyFieldChanges(
+  current: CustomFieldValues | null,
+  changes: CustomFieldChanges
+): CustomFieldValues | null {
+  const values = new Map(Object.entries(current ?? {}));
+
+  for (const [name, value] of Object.entries(changes)) {
+    const field = getField(name);
+    if (!field) {
+      throw new Error(
+        `Unknown field: ${name}. Define it first with 'trekker field define ${name} --type <type>'.`
+      );
+    }
+    if (value === null) {
+      values.delete(name);
+      continue;
+    }
+    const coerced = coerceFieldValue(field, value);
+    if (coerced === undefined) {
+      throw new Error(
+        `Invalid value for field ${name}: "${value}". Expected ${describeFieldType(field)}.`
+      );
+    }
+    values.set(name, coerced);
+  }
+
+  if (values.size === 0) {
+    return null;
+  }
+  return Object.fromEntries(values);
+}
+
+/**
+ * Reads the `fields` JSON of an epic or task as recorded in the history log. Anything
+ * that is not an object of strings and numbers counts as no values.
+ */
+export function parseFieldValues(json: string | null): CustomFieldValues | null {
+  if (json === null) {
+    return null;
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  if (!isRecord(value)) {
+    return null;
+  }
+
+  const values: CustomFieldValues = {};
+  for (const [name, fieldValue] of Object.entries(value)) {
+    if (typeof fieldValue === 'string' || typeof fieldValue === 'number') {
+      values[name] = fieldValue;
+    }
+  }
+  return values;
+}
+
+function findFieldValues(name: string): FieldValueRow[] {
+  const sqlite = requireSqliteInstance();
+  return FIELD_TABLES.flatMap((table) =>
+    sqlite
+      .query<FieldValueRow, []>(
+        `SELECT id, json_extract(fields, '$.${name}') AS value FROM ${table}
+         WHERE json_extract(fields, '$.${name}') IS NOT NULL
+         ORDER BY rowid`
+      )
+      .all()
+  );
+}
+
+/**
+ * Defines a field, or changes the type or values of an existing one. A change that
+ * values already set would not fit is refused.
+ */
+export function defineField(name: string, input: DefineFieldInput): CustomField {
+  validateFieldName(name);
+
+  let allowedValues: string[] | null = null;
+  if (input.type === 'enum') {
+    allowedValues = [...new Set((input.allowedValues ?? []).filter((value) => value !== ''))];
+    if (allowedValues.length === 0) {
+      throw new Error(`An enum field needs its values, e.g. --values low,medium,high.`);
+    }
+  } else if (input.allowedValues !== undefined) {
+    throw new Error(`--values only applies to enum fields.`);
+  }
+
+  const db = getDb();
+  const now = new Date();
+
+  const field = withTransaction(
+    requireSqliteInstance(),
+    () => {
+      const existing = getField(name);
+      const defined: CustomField = {
+        name,
+        type: input.type,
+        allowedValues,
+        createdAt: existing?.createdAt ?? now,
+        updatedAt: now,
+      };
+
+      if (!existing) {
+        db.insert(customFields).values(defined).run();
+        return defined;
+      }
+
+      const misfits = findFieldValues(name).filter(
+        (row) => coerceFieldValue(defined, row.value) === undefined
+      );
+      if (misfits.length > 0) {
+        throw new Error(
+          `Cannot redefine field ${name}: the values of ${misfits.map((row) => row.id).join(', ')} would not be ${describeFieldType(defined)}.`
+        );
+      }
+
+      db.update(customFields)
+        .set({ type: defined.type, allowedValues: defined.allowedValues, updatedAt: now })
+        .where(eq(customFields.name, name))
+        .run();
+      return defined;
+    },
+    'immediate'
+  );
+
+  refreshMirror();
+  return field;
+}
+
+/**
+ * Deletes a field along with its values. Clearing the values is an update to each
+ * epic or task that had one, so it shows in their history.
+ */
+export function deleteField(name: string): FieldDeleteResult {
+  const sqlite = requireSqliteInstance();
+
+  const result = withTransaction(
+    sqlite,
+    () => {
+      requireField(name);
+      const now = Math.floor(Date.now() / MS_PER_SECOND);
+      let cleared = 0;
+      // Counted from RETURNING, since the changes SQLite reports include the history rows
+      for (const table of FIELD_TABLES) {
+        cleared += sqlite
+          .query<{ id: string }, [number]>(
+            `UPDATE ${table}
+             SET fields = NULLIF(json_remove(fields, '$.${name}'), '{}'), updated_at = ?
+             WHERE json_extract(fields, '$.${name}') IS NOT NULL
+             RETURNING id`
+          )
+          .all(now).length;
+      }
+      sqlite.query('DELETE FROM custom_fields WHERE name = ?').run(name);
+      return { field: name, cleared };
+    },
+    'immediate'
+  );
+
+  refreshMirror();
+  return result;
+}
@@ -22,6 +22,8 @@ export interface HistoryEvent {
   snapshot: Record<string, unknown> | null;
   changes: Record<string, { from: unknown; to: unknown }> | null;
   timestamp: Date;
+  revertedAt: Date | null;
+  revertOf: number | null;
 }
 
 export interface HistoryResponse {
@@ -43,6 +45,8 @@ interface HistoryRow {
   snapshot: string | null;
   changes: string | null;
   created_at: number;
+  reverted_at: number | null;
+  revert_of: number | null;
 }
 
 const parseJsonRecord: (json: string) => Record<string, unknown> = JSON.parse;
@@ -99,7 +103,7 @@ export function getHistory(options?: HistoryOptions): HistoryResponse {
 
   // Get paginated results (newest first)
   const selectQuery = `
-    SELECT id, action, entity_type, entity_id, snapshot, changes, created_at
+    SELECT id, action, entity_type, entity_id, snapshot, changes, created_at, reverted_at, revert_of
     FROM events
     ${whereClause}
     ORDER BY created_at DESC, id DESC
@@ -125,6 +129,11 @@ export function getHistory(options?: HistoryOptions): HistoryResponse {
         changes = parseJsonChanges(row.changes);
       }
 
+      let revertedAt: Date | null = null;
+      if (row.reverted_at !== null) {
+        revertedAt = new Date(row.reverted_at);
+      }
+
       return {
         id: row.id,
         action: row.action,
@@ -133,6 +142,8 @@ export function getHistory(options?: HistoryOptions): HistoryResponse {
         snapshot,
         changes,
         timestamp: new Date(row.created_at),
+        revertedAt,
+        revertOf: row.revert_of,
       };
     }),
   };
@@ -0,0 +1,506 @@
+import type { Database } from 'bun:sqlite';
+import {
+  createDb,
+  getDb,
+  isTrekkerInitialized,
+  removeDbFile,
+  requireSqliteInstance,
+} from '../db/client';
+import { LATEST_SCHEMA_VERSION } from '../db/migrator';
+import { withTransaction } from '../db/transaction';
+import { generateId, getHighestIdSuffix, getIdSuffix, raiseIdCounter } from '../utils/id-generator';
+import { refreshMirror } from './mirror';
+import { EXPORT_FORMAT, EXPORT_FORMAT_VERSION, EXPORT_TABLES } from './export';
+import type { ExportDocument, ExportRow } from './export';
+import type { EntityType, ImportConflictMode } from '../types';
+
+export interface ImportResult {
+  mode: ImportConflictMode;
+  createdDatabase: boolean;
+  imported: {
+    epics: number;
+    tasks: number;
+    comments: number;
+    dependencies: number;
+    events: number;
+  };
+  skipped: string[];
+  overwritten: string[];
+  renumbered: { from: string; to: string }[];
+}
+
+interface NameRow {
+  name: string;
+}
+
+interface IdRow {
+  id: string;
+}
+
+interface MaxIdRow {
+  max_id: number | null;
+}
+
+interface PositionRow {
+  position: number | null;
+}
+
+interface ForeignKeyViolationRow {
+  table: string;
+  rowid: number;
+  parent: string;
+}
+
+type EntityTable = 'epics' | 'tasks' | 'comments';
+
+const ENTITY_TABLES: [EntityTable, EntityType][] = [
+  ['epics', 'epic'],
+  ['tasks', 'task'],
+  ['comments', 'comment'],
+];
+
+// Columns (in rows and history snapshots) that hold epic, task or comment IDs
+const REFERENCE_COLUMNS = ['id', 'epic_id', 'parent_task_id', 'task_id', 'depends_on_id'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isColumnValue(value: unknown): value is string | number | null {
+  return value === null || typeof value === 'string' || typeof value === 'number';
+}
+
+function isRowArray(value: unknown): value is ExportRow[] {
+  return (
+    Array.isArray(value) &&
+    value.every((row) => isRecord(row) && Object.values(row).every(isColumnValue))
+  );
+}
+
+function isExportDocument(value: unknown): value is ExportDocument {
+  if (!isRecord(value) || value.format !== EXPORT_FORMAT || !isRecord(value.tables)) {
+    return false;
+  }
+  if (typeof value.version !== 'number' || typeof value.schemaVersion !== 'number') {
+    return false;
+  }
+
+  const tables = value.tables;
+  for (const optional of [
+    tables.saved_views,
+    tables.custom_fields,
+    tables.workflow_statuses,
+    tables.events,
+  ]) {
+    if (optional !== undefined && !isRowArray(optional)) {
+      return false;
+    }
+  }
+  return EXPORT_TABLES.every((table) => isRowArray(tables[table]));
+}
+
+/**
+ * Parses and validates an export document, rejecting files written by a newer
+ * version of trekker than this one.
+ */
+export function parseExportDocument(json: string): ExportDocument {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error('Import file is not valid JSON.');
+  }
+
+  return validateExportDocument(value);
+}
+
+export function validateExportDocument(value: unknown): ExportDocument {
+  if (!isExportDocument(value)) {
+    throw new Error('Import file is not a trekker export document.');
+  }
+  if (value.version > EXPORT_FORMAT_VERSION) {
+    throw new Error(
+      `Export format version ${value.version} is newer than this version of trekker supports (${EXPORT_FORMAT_VERSION}). Please upgrade trekker.`
+    );
+  }
+  if (value.schemaVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `Export was written with database schema version ${value.schemaVersion}, which is newer than this version of trekker supports (${LATEST_SCHEMA_VERSION}). Please upgrade trekker.`
+    );
+  }
+
+  return value;
+}
+
+export function getColumns(sqlite: Database, table: string): Set<string> {
+  return new Set(
+    sqlite
+      .query<NameRow, [string]>('SELECT name FROM pragma_table_info(?)')
+      .all(table)
+      .map((row) => row.name)
+  );
+}
+
+function getIds(sqlite: Database, table: string): Set<string> {
+  return new Set(
+    sqlite
+      .query<IdRow, []>(`SELECT id FROM ${table}`)
+      .all()
+      .map((row) => row.id)
+  );
+}
+
+function getString(row: ExportRow, column: string): string {
+  const value = row[column];
+  if (typeof value !== 'string') {
+    throw new TypeError(`Import file has a row without a valid ${column}.`);
+  }
+  return value;
+}
+
+/**
+ * Writes one row, keeping only the columns the target schema has. With a
+ * conflict column the row replaces an existing one in place (an UPDATE, so
+ * cascades on dependent rows are not triggered).
+ */
+export function writeRow(
+  sqlite: Database,
+  table: string,
+  row: ExportRow,
+  targetColumns: Set<string>,
+  conflictColumn?: string
+): void {
+  const columns = Object.keys(row).filter((column) => targetColumns.has(column));
+  const placeholders = columns.map(() => '?').join(', ');
+
+  let upsert = '';
+  if (conflictColumn) {
+    const updates = columns
+      .filter((column) => column !== conflictColumn)
+      .map((column) => `${column} = excluded.${column}`)
+      .join(', ');
+    upsert = ` ON CONFLICT(${conflictColumn}) DO UPDATE SET ${updates}`;
+  }
+
+  sqlite
+    .query(`INSERT INTO ${table} (${columns.join(', ')}) VALUES (${placeholders})${upsert}`)
+    .run(...columns.map((column) => row[column]));
+}
+
+export function remapIds(row: ExportRow, idMap: Map<string, string>): ExportRow {
+  const mapped: ExportRow = { ...row };
+  for (const column of REFERENCE_COLUMNS) {
+    const value = mapped[column];
+    if (typeof value === 'string') {
+      mapped[column] = idMap.get(value) ?? value;
+    }
+  }
+  return mapped;
+}
+
+function remapJson(json: string | number | null, idMap: Map<string, string>): string | null {
+  if (typeof json !== 'string') {
+    return null;
+  }
+
+  const parsed: unknown = JSON.parse(json);
+  if (!isRecord(parsed)) {
+    return json;
+  }
+
+  for (const column of REFERENCE_COLUMNS) {
+    const value = parsed[column];
+    if (typeof value === 'string') {
+      parsed[column] = idMap.get(value) ?? value;
+    } else if (isRecord(value)) {
+      // Update events store changed columns as { from, to }
+      for (const side of ['from', 'to']) {
+        const id = value[side];
+        if (typeof id === 'string') {
+          value[side] = idMap.get(id) ?? id;
+        }
+      }
+    }
+  }
+  return JSON.stringify(parsed);
+}
+
+/**
+ * Raises each ID counter past the exported counters, the exported IDs and the IDs
+ * already in the target, so IDs generated afterwards (including renumbered ones)
+ * cannot collide with any imported row.
+ */
+function raiseCounters(doc: ExportDocument): void {
+  for (const row of doc.tables.id_counters) {
+    const entityType = row.entity_type;
+    const counter = row.counter;
+    if (
+      (entityType === 'task' || entityType === 'epic' || entityType === 'comment') &&
+      typeof counter === 'number'
+    ) {
+      raiseIdCounter(entityType, counter);
+    }
+  }
+
+  for (const [table, entityType] of ENTITY_TABLES) {
+    const highest = doc.tables[table].reduce(
+      (max, row) => Math.max(max, getIdSuffix(getString(row, 'id'))),
+      getHighestIdSuffix(entityType)
+    );
+    raiseIdCounter(entityType, highest);
+  }
+}
+
+/**
+ * Adds the definitions the database lacks, by name, and leaves the ones it has as they
+ * are, so imported or merged rows have the definitions their values refer to. Added
+ * statuses go after the ones the workflow already has.
+ */
+export function addMissingDefinitions(sqlite: Database, table: string, rows: ExportRow[]): void {
+  const columns = getColumns(sqlite, table);
+  const existing = sqlite.query<NameRow, [string]>(`SELECT name FROM ${table} WHERE name = ?`);
+  for (const row of rows) {
+    if (existing.get(getString(row, 'name'))) {
+      continue;
+    }
+    const added: ExportRow = { ...row };
+    if (columns.has('position')) {
+      const last = sqlite
+        .query<PositionRow, []>(`SELECT MAX(position) AS position FROM ${table}`)
+        .get();
+      added.position = (last?.position ?? -1) + 1;
+    }
+    writeRow(sqlite, table, added, columns);
+  }
+}
+
+function importRows(
+  sqlite: Database,
+  doc: ExportDocument,
+  mode: ImportConflictMode,
+  freshTarget: boolean
+): ImportResult {
+  const result: ImportResult = {
+    mode,
+    createdDatabase: freshTarget,
+    imported: { epics: 0, tasks: 0, comments: 0, dependencies: 0, events: 0 },
+    skipped: [],
+    overwritten: [],
+    renumbered: [],
+  };
+
+  // Find conflicts before writing anything
+  const conflicts = new Set<string>();
+  for (const [table] of ENTITY_TABLES) {
+    const existing = getIds(sqlite, table);
+    for (const row of doc.tables[table]) {
+      const id = getString(row, 'id');
+      if (existing.has(id)) {
+        conflicts.add(id);
+      }
+    }
+  }
+
+  if (mode === 'fail' && conflicts.size > 0) {
+    throw new Error(
+      `Import conflicts with existing IDs: ${[...conflicts].join(', ')}. Use --mode skip, overwrite or renumber.`
+    );
+  }
+
+  const maxEventRow = sqlite.query<MaxIdRow, []>('SELECT MAX(id) AS max_id FROM events').get();
+  const maxEventIdBefore = maxEventRow?.max_id ?? 0;
+
+  // A fresh database takes the exported project as is; otherwise rows join the existing project
+  const existingProject = sqlite.query<IdRow, []>('SELECT id FROM projects LIMIT 1').get();
+  let projectId: string | null = null;
+  if (existingProject) {
+    projectId = existingProject.id;
+  } else {
+    const projectColumns = getColumns(sqlite, 'projects');
+    for (const row of doc.tables.projects) {
+      writeRow(sqlite, 'projects', row, projectColumns);
+    }
+  }
+
+  if (!existingProject || mode === 'overwrite') {
+    const configColumns = getColumns(sqlite, 'project_config');
+    for (const row of doc.tables.project_config) {
+      writeRow(sqlite, 'project_config', row, configColumns, 'key');
+    }
+    const viewColumns = getColumns(sqlite, 'saved_views');
+    for (const row of doc.tables.saved_views ?? []) {
+      writeRow(sqlite, 'saved_views', row, viewColumns, 'name');
+    }
+    const fieldColumns = getColumns(sqlite, 'custom_fields');
+    for (const row of doc.tables.custom_fields ?? []) {
+      writeRow(sqlite, 'custom_fields', row, fieldColumns, 'name');
+    }
+    const statusColumns = getColumns(sqlite, 'workflow_statuses');
+    for (const row of doc.tables.workflow_statuses ?? []) {
+      writeRow(sqlite, 'workflow_statuses', row, statusColumns, 'name');
+    }
+  } else {
+    addMissingDefinitions(sqlite, 'custom_fields', doc.tables.custom_fields ?? []);
+    addMissingDefinitions(sqlite, 'workflow_statuses', doc.tables.workflow_statuses ?? []);
+  }
+
+  raiseCounters(doc);
+
+  const idMap = new Map<string, string>();
+  if (mode === 'renumber') {
+    for (const [table, entityType] of ENTITY_TABLES) {
+      const ids = doc.tables[table]
+        .map((row) => getString(row, 'id'))
+        .filter((id) => conflicts.has(id))
+        .sort((a, b) => getIdSuffix(a) - getIdSuffix(b));
+      for (const id of ids) {
+        const newId = generateId(entityType);
+        idMap.set(id, newId);
+        result.renumbered.push({ from: id, to: newId });
+      }
+    }
+  }
+
+  const skipped = new Set<string>();
+  for (const [table] of ENTITY_TABLES) {
+    const columns = getColumns(sqlite, table);
+    for (const row of doc.tables[table]) {
+      const id = getString(row, 'id');
+      const mapped = remapIds(row, idMap);
+      if (projectId && 'project_id' in mapped) {
+        mapped.project_id = projectId;
+      }
+
+      if (conflicts.has(id) && mode === 'skip') {
+        skipped.add(id);
+        continue;
+      }
+
+      if (conflicts.has(id) && mode === 'overwrite') {
+        // The exported history replaces the existing history of overwritten rows
+        if (doc.tables.events) {
+          sqlite.query('DELETE FROM events WHERE entity_id = ?').run(id);
+        }
+        writeRow(sqlite, table, mapped, columns, 'id');
+        result.overwritten.push(id);
+      } else {
+        writeRow(sqlite, table, mapped, columns);
+      }
+      result.imported[table]++;
+    }
+  }
+  result.skipped = [...skipped];
+
+  // Dependencies have no user-visible ID; one that already exists is left alone
+  const dependencyColumns = getColumns(sqlite, 'dependencies');
+  const existingDependencies = sqlite.query<IdRow, [string, string, string]>(
+    'SELECT id FROM dependencies WHERE id = ? OR (task_id = ? AND depends_on_id = ?)'
+  );
+  for (const row of doc.tables.dependencies) {
+    const mapped = remapIds(row, idMap);
+    const existing = existingDependencies.get(
+      getString(mapped, 'id'),
+      getString(mapped, 'task_id'),
+      getString(mapped, 'depends_on_id')
+    );
+    if (!existing) {
+      writeRow(sqlite, 'dependencies', mapped, dependencyColumns);
+      result.imported.dependencies++;
+    }
+  }
+
+  if (doc.tables.events) {
+    // Drop the create events the triggers just wrote and restore the exported history instead
+    sqlite.query('DELETE FROM events WHERE id > ?').run(maxEventIdBefore);
+
+    const insertEvent = sqlite.query(
+      'INSERT INTO events (action, entity_type, entity_id, snapshot, changes, created_at, reverted_at, revert_of) VALUES (?, ?, ?, ?, ?, ?, ?, ?)'
+    );
+    const linkCascade = sqlite.query('UPDATE events SET cascade_of = ? WHERE id = ?');
+    // Event IDs are reassigned, so links from revert events to what they reverted follow along
+    const eventIdMap = new Map<number, number | bigint>();
+    const cascades: { id: number | bigint; cascadeOf: number }[] = [];
+    for (const event of doc.tables.events) {
+      const entityId = getString(event, 'entity_id');
+      if (skipped.has(entityId)) {
+        continue;
+      }
+      let revertOf = null;
+      if (typeof event.revert_of === 'number') {
+        revertOf = eventIdMap.get(event.revert_of) ?? null;
+      }
+      const inserted = insertEvent.run(
+        event.action,
+        event.entity_type,
+        idMap.get(entityId) ?? entityId,
+        remapJson(event.snapshot, idMap),
+        remapJson(event.changes, idMap),
+        event.created_at,
+        event.reverted_at ?? null,
+        revertOf
+      );
+      if (typeof event.id === 'number') {
+        eventIdMap.set(event.id, inserted.lastInsertRowid);
+      }
+      if (typeof event.cascade_of === 'number') {
+        cascades.push({ id: inserted.lastInsertRowid, cascadeOf: event.cascade_of });
+      }
+      result.imported.events++;
+    }
+    // Older histories list a cascade before the delete that caused it
+    for (const cascade of cascades) {
+      linkCascade.run(eventIdMap.get(cascade.cascadeOf) ?? null, cascade.id);
+    }
+  }
+
+  const violation = sqlite.query<ForeignKeyViolationRow, []>('PRAGMA foreign_key_check').get();
+  if (violation) {
+    throw new Error(
+      `Import file references missing rows (${violation.table} row ${violation.rowid} -> ${violation.parent}).`
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Restores an export document into the current directory, creating the database
+ * when trekker is not initialized yet. Everything is written in one transaction,
+ * so a failed import leaves the target unchanged.
+ */
+export function importProject(
+  doc: ExportDocument,
+  options?: { mode?: ImportConflictMode; cwd?: string }
+): ImportResult {
+  const cwd = options?.cwd ?? process.cwd();
+  const mode = options?.mode ?? 'fail';
+
+  const freshTarget = !isTrekkerInitialized(cwd);
+  if (freshTarget) {
+    createDb(cwd);
+  } else {
+    getDb(cwd);
+  }
+  const sqlite = requireSqliteInstance();
+
+  let result: ImportResult;
+  try {
+    result = withTransaction(
+      sqlite,
+      () => {
+        // Rows reference each other in both directions, so check foreign keys at commit
+        sqlite.run('PRAGMA defer_foreign_keys = ON');
+        return importRows(sqlite, doc, mode, freshTarget);
+      },
+      'immediate'
+    );
+  } catch (err) {
+    if (freshTarget) {
+      removeDbFile(cwd);
+    }
+    throw err;
+  }
+
+  refreshMirror(cwd);
+  return result;
+}
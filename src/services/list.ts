@@ -1,21 +1,43 @@
 import { requireSqliteInstance } from '../db/client';
 import { VALID_SORT_FIELDS, PAGINATION_DEFAULTS } from '../types';
-import type { ListEntityType } from '../types';
+import type { CustomFieldValues, ListEntityType } from '../types';
 import { MS_PER_SECOND } from '../utils/constants';
+import {
+  compileQuery,
+  customFieldColumn,
+  joinQuery,
+  optionTerm,
+  parseQuery,
+  queryItemsSql,
+} from './query';
+import type { QueryParam } from './query';
+import { getProjectSnapshot } from './snapshot';
+import { getField } from './field';
 
 const VALID_SORT_FIELD_SET: ReadonlySet<string> = new Set(VALID_SORT_FIELDS);
 
 export type { ListEntityType };
 
 interface ListOptions {
-  types?: ListEntityType[];
-  statuses?: string[];
-  priorities?: number[];
-  since?: Date;
-  until?: Date;
+  query?: string;
   sort?: { field: string; direction: 'asc' | 'desc' }[];
   limit?: number;
   page?: number;
+  at?: Date;
+  includeDeleted?: boolean;
+}
+
+// The filter options of `list` (and `view save`), as given on the command line
+export interface ListFilterInput {
+  type?: string;
+  status?: string;
+  priority?: string;
+  tag?: string;
+  tags?: string;
+  epic?: string;
+  since?: string;
+  until?: string;
+  overdue?: boolean;
 }
 
 export interface ListItem {
@@ -25,6 +47,7 @@ export interface ListItem {
   status: string;
   priority: number;
   parentId: string | null;
+  dueAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -47,53 +70,121 @@ interface ListRow {
   status: string;
   priority: number;
   parent_id: string | null;
+  description: string | null;
+  epic_id: string | null;
+  tags: string | null;
+  assignee: string | null;
+  claim_expires_at: number | null;
+  fields: string | null;
+  start_at: number | null;
+  due_at: number | null;
+  estimate: number | null;
   created_at: number;
   updated_at: number;
+  deleted_at: number | null;
 }
 
-export function listAll(options?: ListOptions): ListResponse {
-  const sqlite = requireSqliteInstance();
-
-  const limit = options?.limit ?? PAGINATION_DEFAULTS.LIST_PAGE_SIZE;
-  const page = options?.page ?? PAGINATION_DEFAULTS.DEFAULT_PAGE;
-  const offset = (page - 1) * limit;
+interface ListQuery {
+  baseQuery: string;
+  whereClause: string;
+  params: QueryParam[];
+}
 
-  // Build filter conditions
-  const conditions: string[] = [];
-  const params: (string | number)[] = [];
+function buildListQuery(options?: ListOptions): ListQuery {
+  const { conditions, params } = compileQuery(parseQuery(options?.query ?? ''));
 
-  if (options?.types && options.types.length > 0) {
-    const placeholders = options.types.map(() => '?').join(', ');
-    conditions.push(`type IN (${placeholders})`);
-    params.push(...options.types);
+  if (!options?.includeDeleted) {
+    conditions.push('q.deleted_at IS NULL');
   }
 
-  if (options?.statuses && options.statuses.length > 0) {
-    const placeholders = options.statuses.map(() => '?').join(', ');
-    conditions.push(`status IN (${placeholders})`);
-    params.push(...options.statuses);
-  }
+  let baseQuery = queryItemsSql();
 
-  if (options?.priorities && options.priorities.length > 0) {
-    const placeholders = options.priorities.map(() => '?').join(', ');
-    conditions.push(`priority IN (${placeholders})`);
-    params.push(...options.priorities);
+  // A past state is passed in as JSON so the filtering and sorting below apply unchanged
+  if (options?.at) {
+    baseQuery = `
+      SELECT
+        json_extract(value, '$.type') as type, json_extract(value, '$.id') as id,
+        json_extract(value, '$.title') as title, json_extract(value, '$.description') as description,
+        json_extract(value, '$.status') as status, json_extract(value, '$.priority') as priority,
+        json_extract(value, '$.parent_id') as parent_id, json_extract(value, '$.epic_id') as epic_id,
+        json_extract(value, '$.tags') as tags, json_extract(value, '$.assignee') as assignee,
+        json_extract(value, '$.claim_expires_at') as claim_expires_at,
+        json_extract(value, '$.fields') as fields,
+        json_extract(value, '$.start_at') as start_at, json_extract(value, '$.due_at') as due_at,
+        json_extract(value, '$.estimate') as estimate,
+        json_extract(value, '$.created_at') as created_at, json_extract(value, '$.updated_at') as updated_at,
+        json_extract(value, '$.deleted_at') as deleted_at
+      FROM json_each(?)
+    `;
+    params.unshift(JSON.stringify(snapshotRows(options.at)));
   }
 
-  if (options?.since) {
-    conditions.push('created_at >= ?');
-    params.push(Math.floor(options.since.getTime() / MS_PER_SECOND));
+  let whereClause = '';
+  if (conditions.length > 0) {
+    whereClause = `WHERE ${conditions.join(' AND ')}`;
   }
 
-  if (options?.until) {
-    conditions.push('created_at <= ?');
-    params.push(Math.floor(options.until.getTime() / MS_PER_SECOND));
+  return {
+    baseQuery,
+    whereClause,
+    params,
+  };
+}
+
+function overdueTerm(overdue: boolean | undefined): string | undefined {
+  if (!overdue) {
+    return undefined;
   }
+  return 'overdue';
+}
 
-  let whereClause = '';
-  if (conditions.length > 0) {
-    whereClause = `WHERE ${conditions.join(' AND ')}`;
+/**
+ * Adds the filter options to a query as the terms they stand for.
+ */
+export function listFilterQuery(query: string | undefined, filters: ListFilterInput): string {
+  return joinQuery(
+    query,
+    optionTerm('type', ':', filters.type),
+    optionTerm('status', ':', filters.status),
+    optionTerm('priority', ':', filters.priority),
+    optionTerm('tag', ':', filters.tag),
+    optionTerm('tag', ':', filters.tags),
+    optionTerm('epic', ':', filters.epic),
+    optionTerm('created', '>=', filters.since),
+    optionTerm('created', '<=', filters.until),
+    overdueTerm(filters.overdue)
+  );
+}
+
+function fromSecondsOrNull(seconds: number | null): Date | null {
+  if (seconds === null) {
+    return null;
   }
+  return new Date(seconds * MS_PER_SECOND);
+}
+
+function toListItem(row: ListRow): ListItem {
+  return {
+    type: row.type,
+    id: row.id,
+    title: row.title,
+    status: row.status,
+    priority: row.priority,
+    parentId: row.parent_id,
+    dueAt: fromSecondsOrNull(row.due_at),
+    createdAt: new Date(row.created_at * MS_PER_SECOND),
+    updatedAt: new Date(row.updated_at * MS_PER_SECOND),
+  };
+}
+
+export function listAll(options?: ListOptions): ListResponse {
+  const sqlite = requireSqliteInstance();
+
+  const limit = options?.limit ?? PAGINATION_DEFAULTS.LIST_PAGE_SIZE;
+  const page = options?.page ?? PAGINATION_DEFAULTS.DEFAULT_PAGE;
+  const offset = (page - 1) * limit;
+
+  const { baseQuery, whereClause, params } = buildListQuery(options);
 
   // Build sort clause
   let orderClause = 'ORDER BY created_at DESC';
@@ -104,53 +195,124 @@ export function listAll(options?: ListOptions): ListResponse {
         field = 'created_at';
       } else if (s.field === 'updated') {
         field = 'updated_at';
+      } else if (s.field === 'start' || s.field === 'due') {
+        // Items without the date go last either way
+        const column = `${s.field}_at`;
+        return `${column} IS NULL, ${column} ${s.direction.toUpperCase()}`;
+      } else if (s.field === 'estimate') {
+        return `estimate IS NULL, estimate ${s.direction.toUpperCase()}`;
+      } else if (!VALID_SORT_FIELD_SET.has(s.field)) {
+        // A custom field; items without a value go last either way
+        const column = customFieldColumn(s.field);
+        return `${column} IS NULL, ${column} ${s.direction.toUpperCase()}`;
       }
       return `${field} ${s.direction.toUpperCase()}`;
     });
     orderClause = `ORDER BY ${sortParts.join(', ')}`;
   }
 
-  // Base query using UNION ALL
-  const baseQuery = `
-    SELECT 'epic' as type, id, title, status, priority, NULL as parent_id, created_at, updated_at FROM epics
-    UNION ALL
-    SELECT 'task' as type, id, title, status, priority, epic_id as parent_id, created_at, updated_at FROM tasks WHERE parent_task_id IS NULL
-    UNION ALL
-    SELECT 'subtask' as type, id, title, status, priority, parent_task_id as parent_id, created_at, updated_at FROM tasks WHERE parent_task_id IS NOT NULL
-  `;
-
   // Count total results
-  const countQuery = `SELECT COUNT(*) as total FROM (${baseQuery}) ${whereClause}`;
-  const countResult = sqlite.query<ListCountRow, (string | number)[]>(countQuery).get(...params);
+  const countQuery = `SELECT COUNT(*) as total FROM (${baseQuery}) q ${whereClause}`;
+  const countResult = sqlite.query<ListCountRow, QueryParam[]>(countQuery).get(...params);
   const total = countResult?.total ?? 0;
 
   // Get paginated results
   const selectQuery = `
-    SELECT * FROM (${baseQuery})
+    SELECT * FROM (${baseQuery}) q
     ${whereClause}
     ${orderClause}
     LIMIT ? OFFSET ?
   `;
 
-  const results = sqlite
-    .query<ListRow, (string | number)[]>(selectQuery)
-    .all(...params, limit, offset);
+  const results = sqlite.query<ListRow, QueryParam[]>(selectQuery).all(...params, limit, offset);
 
-  return {
-    total,
-    page,
-    limit,
-    items: results.map((row) => ({
-      type: row.type,
-      id: row.id,
-      title: row.title,
-      status: row.status,
-      priority: row.priority,
-      parentId: row.parent_id,
-      createdAt: new Date(row.created_at * MS_PER_SECOND),
-      updatedAt: new Date(row.updated_at * MS_PER_SECOND),
-    })),
+  return { total, page, limit, items: results.map(toListItem) };
+}
+
+/**
+ * Returns every current item matching a query, oldest first. Used to pick the targets
+ * of bulk updates and deletes.
+ */
+export function listAllMatching(query: string): ListItem[] {
+  const sqlite = requireSqliteInstance();
+  const { baseQuery, whereClause, params } = buildListQuery({ query });
+
+  return sqlite
+    .query<ListRow, QueryParam[]>(
+      `SELECT * FROM (${baseQuery}) q ${whereClause} ORDER BY created_at, id`
+    )
+    .all(...params)
+    .map(toListItem);
+}
+
+function serializeFields(fields: CustomFieldValues | null): string | null {
+  if (!fields) {
+    return null;
+  }
+  return JSON.stringify(fields);
+}
+
+function snapshotRows(at: Date): ListRow[] {
+  const snapshot = getProjectSnapshot(at);
+  const toSeconds = (date: Date): number => Math.floor(date.getTime() / MS_PER_SECOND);
+  const toSecondsOrNull = (date: Date | null): number | null => {
+    if (!date) {
+      return null;
+    }
+    return toSeconds(date);
   };
+
+  const epicRows: ListRow[] = snapshot.epics.map((epic) => ({
+    type: 'epic',
+    id: epic.id,
+    title: epic.title,
+    description: epic.description,
+    status: epic.status,
+    priority: epic.priority,
+    parent_id: null,
+    epic_id: null,
+    tags: null,
+    assignee: null,
+    claim_expires_at: null,
+    fields: serializeFields(epic.fields),
+    start_at: toSecondsOrNull(epic.startAt),
+    due_at: toSecondsOrNull(epic.dueAt),
+    estimate: null,
+    created_at: toSeconds(epic.createdAt),
+    updated_at: toSeconds(epic.updatedAt),
+    deleted_at: null,
+  }));
+  const epicByTask = new Map(snapshot.tasks.map((task) => [task.id, task.epicId]));
+  const taskRows: ListRow[] = snapshot.tasks.map((task) => {
+    let type: ListEntityType = 'task';
+    let epicId = task.epicId;
+    if (task.parentTaskId) {
+      type = 'subtask';
+      epicId ??= epicByTask.get(task.parentTaskId) ?? null;
+    }
+    return {
+      type,
+      id: task.id,
+      title: task.title,
+      description: task.description,
+      status: task.status,
+      priority: task.priority,
+      parent_id: task.parentTaskId ?? task.epicId,
+      epic_id: epicId,
+      tags: task.tags,
+      assignee: task.assignee,
+      claim_expires_at: toSecondsOrNull(task.claimExpiresAt),
+      fields: serializeFields(task.fields),
+      start_at: toSecondsOrNull(task.startAt),
+      due_at: toSecondsOrNull(task.dueAt),
+      estimate: task.estimate,
+      created_at: toSeconds(task.createdAt),
+      updated_at: toSeconds(task.updatedAt),
+      deleted_at: null,
+    };
+  });
+
+  return [...epicRows, ...taskRows];
 }
 
 export function parseSort(sortStr: string): { field: string; direction: 'asc' | 'desc' }[] {
@@ -160,9 +322,9 @@ export function parseSort(sortStr: string): { field: string; direction: 'asc' |
   for (const part of parts) {
     const [field, dir] = part.split(':').map((s) => s.trim().toLowerCase());
 
-    if (!VALID_SORT_FIELD_SET.has(field)) {
+    if (!VALID_SORT_FIELD_SET.has(field) && !getField(field)) {
       throw new Error(
-        `Invalid sort field: ${field}. Valid fields: ${VALID_SORT_FIELDS.join(', ')}`
+        `Invalid sort field: ${field}. Valid fields: ${VALID_SORT_FIELDS.join(', ')} or a custom field`
       );
     }
 
@@ -0,0 +1,487 @@
+import { Database } from 'bun:sqlite';
+import { copyFileSync, existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { requireSqliteInstance } from '../db/client';
+import { runMigrations } from '../db/migrator';
+import { withTransaction } from '../db/transaction';
+import { generateId, getHighestIdSuffix, getIdSuffix, raiseIdCounter } from '../utils/id-generator';
+import { exportProject, readExportDocument } from './export';
+import type { ExportDocument, ExportRow } from './export';
+import {
+  addMissingDefinitions,
+  getColumns,
+  parseExportDocument,
+  remapIds,
+  writeRow,
+} from './import';
+import { refreshMirror } from './mirror';
+import type { EntityType } from '../types';
+
+export type MergeEntityType = EntityType | 'dependency';
+
+export interface MergeChange {
+  entityType: MergeEntityType;
+  entityId: string;
+  action: 'added' | 'updated' | 'deleted';
+  fields: string[];
+}
+
+export interface MergeConflict {
+  entityType: MergeEntityType;
+  entityId: string;
+  field: string | null;
+  reason: string;
+  ours: string | number | null;
+  theirs: string | number | null;
+}
+
+export interface MergeResult {
+  source: string;
+  dryRun: boolean;
+  historyAvailable: boolean;
+  changes: MergeChange[];
+  renumbered: { from: string; to: string }[];
+  conflicts: MergeConflict[];
+}
+
+interface IdRow {
+  id: string;
+}
+
+interface ForeignKeyViolationRow {
+  table: string;
+  rowid: number;
+  parent: string;
+}
+
+type EntityTable = 'epics' | 'tasks' | 'comments';
+
+// Parents first, so deletions can run in reverse
+const MERGED_TABLES: [EntityTable, EntityType][] = [
+  ['epics', 'epic'],
+  ['tasks', 'task'],
+  ['comments', 'comment'],
+];
+
+// Bookkeeping columns that are never merged field by field
+const UNMERGED_COLUMNS: ReadonlySet<string> = new Set([
+  'id',
+  'project_id',
+  'created_at',
+  'updated_at',
+  'version',
+]);
+
+const SQLITE_HEADER = 'SQLite format 3\0';
+
+function rowString(row: ExportRow, column: string): string {
+  const value = row[column];
+  if (typeof value === 'string') {
+    return value;
+  }
+  return '';
+}
+
+function rowNumber(row: ExportRow, column: string): number {
+  const value = row[column];
+  if (typeof value === 'number') {
+    return value;
+  }
+  return 0;
+}
+
+function indexById(rows: ExportRow[]): Map<string, ExportRow> {
+  return new Map(rows.map((row) => [rowString(row, 'id'), row]));
+}
+
+function groupEvents(events: ExportRow[] | undefined): Map<string, ExportRow[]> {
+  const grouped = new Map<string, ExportRow[]>();
+  for (const event of events ?? []) {
+    const entityId = rowString(event, 'entity_id');
+    const list = grouped.get(entityId) ?? [];
+    list.push(event);
+    grouped.set(entityId, list);
+  }
+  return grouped;
+}
+
+function eventKey(event: ExportRow): string {
+  return JSON.stringify([event.action, event.created_at, event.snapshot, event.changes]);
+}
+
+/**
+ * Both copies share every event up to the point they diverged, so the length of
+ * the common prefix marks the merge base of an entity.
+ */
+function commonPrefixLength(ours: ExportRow[], theirs: ExportRow[]): number {
+  let length = 0;
+  while (
+    length < ours.length &&
+    length < theirs.length &&
+    eventKey(ours[length]) === eventKey(theirs[length])
+  ) {
+    length++;
+  }
+  return length;
+}
+
+function changedFields(events: ExportRow[]): Set<string> {
+  const fields = new Set<string>();
+  for (const event of events) {
+    if (event.action !== 'update' || typeof event.changes !== 'string') {
+      continue;
+    }
+    const changes: unknown = JSON.parse(event.changes);
+    if (typeof changes === 'object' && changes !== null) {
+      for (const field of Object.keys(changes)) {
+        fields.add(field);
+      }
+    }
+  }
+  return fields;
+}
+
+function hasUpdates(events: ExportRow[]): boolean {
+  return events.some((event) => event.action === 'update');
+}
+
+function endsDeleted(events: ExportRow[]): boolean {
+  return events.at(-1)?.action === 'delete';
+}
+
+/**
+ * Loads the other side of the merge from an export file or a trekker database.
+ * Databases are copied and migrated first so both sides share the same schema.
+ */
+function loadSource(path: string): ExportDocument {
+  const content = readFileSync(path);
+  if (content.subarray(0, SQLITE_HEADER.length).toString('latin1') !== SQLITE_HEADER) {
+    return parseExportDocument(content.toString('utf-8'));
+  }
+
+  const tempDir = mkdtempSync(join(tmpdir(), 'trekker-merge-'));
+  const copyPath = join(tempDir, 'source.db');
+  copyFileSync(path, copyPath);
+  // Recent writes to a database in WAL mode may still sit in the -wal file
+  if (existsSync(`${path}-wal`)) {
+    copyFileSync(`${path}-wal`, `${copyPath}-wal`);
+  }
+
+  const sqlite = new Database(copyPath);
+  try {
+    runMigrations(sqlite);
+    return readExportDocument(sqlite, { includeHistory: true });
+  } finally {
+    sqlite.close();
+    rmSync(tempDir, { recursive: true, force: true });
+  }
+}
+
+interface MergeState {
+  sqlite: Database;
+  ours: ExportDocument;
+  theirs: ExportDocument;
+  oursEvents: Map<string, ExportRow[]>;
+  theirsEvents: Map<string, ExportRow[]>;
+  idMap: Map<string, string>;
+  result: MergeResult;
+}
+
+function getHistory(
+  state: MergeState,
+  id: string
+): { ours: ExportRow[]; theirs: ExportRow[]; common: number } {
+  const ours = state.oursEvents.get(id) ?? [];
+  const theirs = state.theirsEvents.get(id) ?? [];
+  return { ours, theirs, common: commonPrefixLength(ours, theirs) };
+}
+
+/**
+ * Two rows with the same ID are the same entity only if they share history (or,
+ * without history, the same creation time). Otherwise both copies generated the
+ * ID independently from their own counters.
+ */
+function isSameEntity(state: MergeState, id: string, ours: ExportRow, theirs: ExportRow): boolean {
+  const history = getHistory(state, id);
+  if (history.ours.length > 0 && history.theirs.length > 0) {
+    return history.common > 0;
+  }
+  return ours.created_at === theirs.created_at;
+}
+
+function renumberCollisions(state: MergeState): void {
+  for (const [table, entityType] of MERGED_TABLES) {
+    const oursRows = indexById(state.ours.tables[table]);
+
+    // Keep generated IDs clear of every ID the other copy used
+    const highest = state.theirs.tables[table].reduce(
+      (max, row) => Math.max(max, getIdSuffix(rowString(row, 'id'))),
+      getHighestIdSuffix(entityType)
+    );
+    raiseIdCounter(entityType, highest);
+
+    for (const theirsRow of state.theirs.tables[table]) {
+      const id = rowString(theirsRow, 'id');
+      const oursRow = oursRows.get(id);
+      if (oursRow && !isSameEntity(state, id, oursRow, theirsRow)) {
+        const newId = generateId(entityType);
+        state.idMap.set(id, newId);
+        state.result.renumbered.push({ from: id, to: newId });
+      }
+    }
+  }
+}
+
+function addConflict(
+  state: MergeState,
+  conflict: Omit<MergeConflict, 'ours' | 'theirs'>,
+  ours?: ExportRow,
+  theirs?: ExportRow
+): void {
+  let oursValue: string | number | null = null;
+  let theirsValue: string | number | null = null;
+  if (conflict.field) {
+    oursValue = ours?.[conflict.field] ?? null;
+    theirsValue = theirs?.[conflict.field] ?? null;
+  }
+  state.result.conflicts.push({ ...conflict, ours: oursValue, theirs: theirsValue });
+}
+
+function mergeFields(
+  state: MergeState,
+  table: EntityTable,
+  entityType: EntityType,
+  oursRow: ExportRow,
+  theirsRow: ExportRow
+): void {
+  const id = rowString(oursRow, 'id');
+  const history = getHistory(state, id);
+  const withHistory = history.ours.length > 0 && history.theirs.length > 0;
+  const oursChanged = changedFields(history.ours.slice(history.common));
+  const theirsChanged = changedFields(history.theirs.slice(history.common));
+  const theirsIsNewer = rowNumber(theirsRow, 'updated_at') > rowNumber(oursRow, 'updated_at');
+
+  const updates: Record<string, string | number | null> = {};
+  for (const column of Object.keys(theirsRow)) {
+    if (UNMERGED_COLUMNS.has(column) || !(column in oursRow)) {
+      continue;
+    }
+    if (oursRow[column] === theirsRow[column]) {
+      continue;
+    }
+
+    const changedHere = withHistory && oursChanged.has(column);
+    const changedThere = withHistory && theirsChanged.has(column);
+    if (changedHere && changedThere) {
+      addConflict(
+        state,
+        { entityType, entityId: id, field: column, reason: 'changed on both sides' },
+        oursRow,
+        theirsRow
+      );
+    } else if (changedThere || (!changedHere && theirsIsNewer)) {
+      // Without a recorded change on either side, the newer row wins
+      updates[column] = theirsRow[column];
+    }
+  }
+
+  const columns = Object.keys(updates);
+  if (columns.length === 0) {
+    return;
+  }
+
+  const assignments = columns.map((column) => `${column} = ?`).join(', ');
+  state.sqlite
+    .query(`UPDATE ${table} SET ${assignments}, updated_at = MAX(updated_at, ?) WHERE id = ?`)
+    .run(...columns.map((column) => updates[column]), rowNumber(theirsRow, 'updated_at'), id);
+  state.result.changes.push({ entityType, entityId: id, action: 'updated', fields: columns });
+}
+
+function mergeEntities(state: MergeState, projectId: string | null): void {
+  for (const [table, entityType] of MERGED_TABLES) {
+    const columns = getColumns(state.sqlite, table);
+    const oursRows = indexById(state.ours.tables[table]);
+
+    for (const originalRow of state.theirs.tables[table]) {
+      const originalId = rowString(originalRow, 'id');
+      const theirsRow = remapIds(originalRow, state.idMap);
+      if (projectId && 'project_id' in theirsRow) {
+        theirsRow.project_id = projectId;
+      }
+      const id = rowString(theirsRow, 'id');
+
+      const oursRow = oursRows.get(id);
+      if (oursRow) {
+        mergeFields(state, table, entityType, oursRow, theirsRow);
+        continue;
+      }
+
+      // Deleted here after the copies diverged: stays deleted unless the source changed it
+      const history = getHistory(state, originalId);
+      if (!state.idMap.has(originalId) && history.common > 0 && endsDeleted(history.ours)) {
+        if (hasUpdates(history.theirs.slice(history.common))) {
+          addConflict(state, {
+            entityType,
+            entityId: id,
+            field: null,
+            reason: 'deleted here, changed in source',
+          });
+        }
+        continue;
+      }
+
+      writeRow(state.sqlite, table, theirsRow, columns);
+      state.result.changes.push({ entityType, entityId: id, action: 'added', fields: [] });
+    }
+  }
+}
+
+function mergeDependencies(state: MergeState): void {
+  const pairKey = (row: ExportRow): string =>
+    `${rowString(row, 'task_id')} -> ${rowString(row, 'depends_on_id')}`;
+  const oursPairs = new Map(state.ours.tables.dependencies.map((row) => [pairKey(row), row]));
+  const theirsPairs = new Map(
+    state.theirs.tables.dependencies
+      .map((row) => remapIds(row, state.idMap))
+      .map((row) => [pairKey(row), row])
+  );
+  const columns = getColumns(state.sqlite, 'dependencies');
+  const taskExists = state.sqlite.query<IdRow, [string]>('SELECT id FROM tasks WHERE id = ?');
+
+  for (const [key, row] of theirsPairs) {
+    const removedHere = endsDeleted(state.oursEvents.get(rowString(row, 'id')) ?? []);
+    if (oursPairs.has(key) || removedHere) {
+      continue;
+    }
+    if (
+      taskExists.get(rowString(row, 'task_id')) &&
+      taskExists.get(rowString(row, 'depends_on_id'))
+    ) {
+      writeRow(state.sqlite, 'dependencies', row, columns);
+      state.result.changes.push({
+        entityType: 'dependency',
+        entityId: key,
+        action: 'added',
+        fields: [],
+      });
+    }
+  }
+
+  for (const [key, row] of oursPairs) {
+    const removedThere = endsDeleted(state.theirsEvents.get(rowString(row, 'id')) ?? []);
+    if (theirsPairs.has(key) || !removedThere) {
+      continue;
+    }
+    state.sqlite.query('DELETE FROM dependencies WHERE id = ?').run(rowString(row, 'id'));
+    state.result.changes.push({
+      entityType: 'dependency',
+      entityId: key,
+      action: 'deleted',
+      fields: [],
+    });
+  }
+}
+
+function mergeDeletions(state: MergeState): void {
+  // Children first, so a row removed by its parent's cascade is not reported twice
+  for (const [table, entityType] of [...MERGED_TABLES].reverse()) {
+    const theirsRows = indexById(state.theirs.tables[table]);
+
+    for (const oursRow of state.ours.tables[table]) {
+      const id = rowString(oursRow, 'id');
+      const history = getHistory(state, id);
+      if (theirsRows.has(id) || history.common === 0 || !endsDeleted(history.theirs)) {
+        continue;
+      }
+
+      if (hasUpdates(history.ours.slice(history.common))) {
+        addConflict(state, {
+          entityType,
+          entityId: id,
+          field: null,
+          reason: 'changed here, deleted in source',
+        });
+        continue;
+      }
+
+      state.sqlite.query(`DELETE FROM ${table} WHERE id = ?`).run(id);
+      state.result.changes.push({ entityType, entityId: id, action: 'deleted', fields: [] });
+    }
+  }
+}
+
+function mergeRows(state: MergeState): void {
+  const project = state.sqlite.query<IdRow, []>('SELECT id FROM projects LIMIT 1').get();
+
+  // Tasks from the source may use statuses and fields only defined there
+  addMissingDefinitions(state.sqlite, 'custom_fields', state.theirs.tables.custom_fields ?? []);
+  addMissingDefinitions(
+    state.sqlite,
+    'workflow_statuses',
+    state.theirs.tables.workflow_statuses ?? []
+  );
+  renumberCollisions(state);
+  mergeEntities(state, project?.id ?? null);
+  mergeDependencies(state);
+  mergeDeletions(state);
+
+  const violation = state.sqlite
+    .query<ForeignKeyViolationRow, []>('PRAGMA foreign_key_check')
+    .get();
+  if (violation) {
+    throw new Error(
+      `Merge would leave ${violation.table} row ${violation.rowid} pointing at a missing ${violation.parent} row.`
+    );
+  }
+}
+
+/**
+ * Merges another copy of the project (a trekker database or an export file) into
+ * the current one. Entities are matched by ID and history; each field changed on
+ * only one side since the copies diverged is taken from that side, fields changed
+ * on both are reported as conflicts and keep the local value.
+ */
+export function mergeProject(source: string, options?: { dryRun?: boolean }): MergeResult {
+  const theirs = loadSource(source);
+  const ours = exportProject({ includeHistory: true });
+  const sqlite = requireSqliteInstance();
+  const dryRun = options?.dryRun ?? false;
+
+  const result: MergeResult = {
+    source,
+    dryRun,
+    historyAvailable: theirs.tables.events !== undefined,
+    changes: [],
+    renumbered: [],
+    conflicts: [],
+  };
+
+  withTransaction(
+    sqlite,
+    () => {
+      // Rows are merged table by table, so check foreign keys at commit
+      sqlite.run('PRAGMA defer_foreign_keys = ON');
+      sqlite.run('SAVEPOINT merge_preview');
+      mergeRows({
+        sqlite,
+        ours,
+        theirs,
+        oursEvents: groupEvents(ours.tables.events),
+        theirsEvents: groupEvents(theirs.tables.events),
+        idMap: new Map(),
+        result,
+      });
+      if (dryRun) {
+        // Undo every write but still report what the merge would do
+        sqlite.run('ROLLBACK TO merge_preview');
+      }
+    },
+    'immediate'
+  );
+
+  if (!dryRun) {
+    refreshMirror();
+  }
+  return result;
+}
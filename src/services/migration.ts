@@ -0,0 +1,18 @@
+import { openSqliteInstance, getBackupDir } from '../db/client';
+import { getMigrationStatus as readMigrationStatus, runMigrations } from '../db/migrator';
+import type { MigrationStatus, MigrationRunResult } from '../db/migrator';
+
+export type { MigrationStatus, MigrationRunResult };
+
+export function getMigrationStatus(): MigrationStatus {
+  return readMigrationStatus(openSqliteInstance());
+}
+
+export function applyMigrations(options?: { backup?: boolean }): MigrationRunResult {
+  let backupDir: string | undefined;
+  if (options?.backup !== false) {
+    backupDir = getBackupDir();
+  }
+
+  return runMigrations(openSqliteInstance(), { backupDir });
+}
@@ -0,0 +1,280 @@
+import { existsSync, mkdirSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { getMirrorDir, requireSqliteInstance } from '../db/client';
+import { getIdSuffix } from '../utils/id-generator';
+import { exportProject, EXPORT_FORMAT, EXPORT_FORMAT_VERSION, EXPORT_TABLES } from './export';
+import type { ExportDocument, ExportRow, ExportTable } from './export';
+
+const MIRROR_FORMAT = 'trekker-mirror';
+const MIRROR_FORMAT_VERSION = 1;
+const MIRROR_EXTENSION = '.jsonl';
+const PROJECT_FILE = `project${MIRROR_EXTENSION}`;
+const EPICS_DIR = 'epics';
+const TASKS_DIR = 'tasks';
+
+export interface MirrorWriteResult {
+  directory: string;
+  files: number;
+  written: number;
+  removed: number;
+}
+
+interface MirrorHeader {
+  format: typeof MIRROR_FORMAT;
+  version: number;
+  schemaVersion: number;
+}
+
+type MirrorTable = ExportTable | 'saved_views' | 'custom_fields' | 'workflow_statuses';
+
+interface MirrorRecord {
+  table: MirrorTable;
+  row: ExportRow;
+}
+
+const MIRROR_TABLES: readonly MirrorTable[] = [
+  ...EXPORT_TABLES,
+  'saved_views',
+  'custom_fields',
+  'workflow_statuses',
+];
+const MIRROR_TABLE_SET: ReadonlySet<string> = new Set(MIRROR_TABLES);
+
+function isMirrorTable(table: unknown): table is MirrorTable {
+  return typeof table === 'string' && MIRROR_TABLE_SET.has(table);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Orders IDs numerically (TREK-2 before TREK-10) so files never reshuffle
+function compareIds(a: string, b: string): number {
+  return getIdSuffix(a) - getIdSuffix(b) || a.localeCompare(b);
+}
+
+function rowString(row: ExportRow, column: string): string {
+  const value = row[column];
+  if (typeof value === 'string') {
+    return value;
+  }
+  return '';
+}
+
+function compareRows(column: string): (a: ExportRow, b: ExportRow) => number {
+  return (a, b) => compareIds(rowString(a, column), rowString(b, column));
+}
+
+function serialize(lines: (MirrorHeader | MirrorRecord)[]): string {
+  return lines.map((line) => `${JSON.stringify(line)}\n`).join('');
+}
+
+/**
+ * Lays the export out as one file per epic and per top-level task. A task file
+ * holds the task, its subtasks, their comments and the dependencies they declare,
+ * so a change to a task only ever touches that task's file.
+ */
+function buildMirrorFiles(doc: ExportDocument): Map<string, string> {
+  const { tables } = doc;
+  const files = new Map<string, string>();
+
+  const header: MirrorHeader = {
+    format: MIRROR_FORMAT,
+    version: MIRROR_FORMAT_VERSION,
+    schemaVersion: doc.schemaVersion,
+  };
+  const projectRecords: MirrorRecord[] = [];
+  for (const table of ['projects', 'project_config', 'id_counters'] as const) {
+    for (const row of tables[table]) {
+      projectRecords.push({ table, row });
+    }
+  }
+  for (const row of tables.saved_views ?? []) {
+    projectRecords.push({ table: 'saved_views', row });
+  }
+  for (const row of tables.custom_fields ?? []) {
+    projectRecords.push({ table: 'custom_fields', row });
+  }
+  for (const row of tables.workflow_statuses ?? []) {
+    projectRecords.push({ table: 'workflow_statuses', row });
+  }
+  files.set(PROJECT_FILE, serialize([header, ...projectRecords]));
+
+  for (const row of [...tables.epics].sort(compareRows('id'))) {
+    const id = rowString(row, 'id');
+    files.set(`${EPICS_DIR}/${id}${MIRROR_EXTENSION}`, serialize([{ table: 'epics', row }]));
+  }
+
+  const parents = new Map<string, string>();
+  for (const row of tables.tasks) {
+    parents.set(rowString(row, 'id'), rowString(row, 'parent_task_id'));
+  }
+  const rootOf = (taskId: string): string => {
+    let current = taskId;
+    const seen = new Set<string>();
+    while (parents.get(current) && !seen.has(current)) {
+      seen.add(current);
+      current = parents.get(current) ?? current;
+    }
+    return current;
+  };
+
+  const groups = new Map<string, MirrorRecord[]>();
+  const addToGroup = (taskId: string, record: MirrorRecord): void => {
+    const root = rootOf(taskId);
+    const group = groups.get(root) ?? [];
+    group.push(record);
+    groups.set(root, group);
+  };
+
+  // The root task sorts first within its own group, ahead of its subtasks
+  const sortedTasks = [...tables.tasks].sort(
+    (a, b) =>
+      Number(Boolean(a.parent_task_id)) - Number(Boolean(b.parent_task_id)) ||
+      compareRows('id')(a, b)
+  );
+  for (const row of sortedTasks) {
+    addToGroup(rowString(row, 'id'), { table: 'tasks', row });
+  }
+  for (const row of [...tables.comments].sort(compareRows('id'))) {
+    addToGroup(rowString(row, 'task_id'), { table: 'comments', row });
+  }
+  const sortedDependencies = [...tables.dependencies].sort(
+    (a, b) => compareRows('task_id')(a, b) || compareRows('depends_on_id')(a, b)
+  );
+  for (const row of sortedDependencies) {
+    addToGroup(rowString(row, 'task_id'), { table: 'dependencies', row });
+  }
+
+  for (const [root, records] of groups) {
+    files.set(`${TASKS_DIR}/${root}${MIRROR_EXTENSION}`, serialize(records));
+  }
+
+  return files;
+}
+
+export function isMirrorEnabled(cwd: string = process.cwd()): boolean {
+  return existsSync(getMirrorDir(cwd));
+}
+
+/**
+ * Writes the database to the mirror directory, creating it (and so enabling
+ * mirroring) if needed. Files whose content is unchanged are left untouched and
+ * files for deleted epics and tasks are removed.
+ */
+export function writeMirror(cwd: string = process.cwd()): MirrorWriteResult {
+  const directory = getMirrorDir(cwd);
+  const files = buildMirrorFiles(exportProject());
+
+  for (const subdir of [EPICS_DIR, TASKS_DIR]) {
+    mkdirSync(join(directory, subdir), { recursive: true });
+  }
+
+  let written = 0;
+  for (const [path, content] of files) {
+    const fullPath = join(directory, path);
+    if (existsSync(fullPath) && readFileSync(fullPath, 'utf-8') === content) {
+      continue;
+    }
+    writeFileSync(fullPath, content);
+    written++;
+  }
+
+  let removed = 0;
+  for (const subdir of [EPICS_DIR, TASKS_DIR]) {
+    for (const name of readdirSync(join(directory, subdir))) {
+      if (name.endsWith(MIRROR_EXTENSION) && !files.has(`${subdir}/${name}`)) {
+        rmSync(join(directory, subdir, name));
+        removed++;
+      }
+    }
+  }
+
+  return { directory, files: files.size, written, removed };
+}
+
+/**
+ * Keeps the mirror current after a mutation. Does nothing unless mirroring is enabled,
+ * or while a transaction is still open: that one may yet roll back, and whoever opened
+ * it refreshes the mirror after committing.
+ */
+export function refreshMirror(cwd: string = process.cwd()): void {
+  if (requireSqliteInstance().inTransaction) {
+    return;
+  }
+  if (isMirrorEnabled(cwd)) {
+    writeMirror(cwd);
+  }
+}
+
+export function disableMirror(cwd: string = process.cwd()): void {
+  if (!isMirrorEnabled(cwd)) {
+    throw new Error('Mirror is not enabled.');
+  }
+  rmSync(getMirrorDir(cwd), { recursive: true, force: true });
+}
+
+function listMirrorFiles(directory: string): string[] {
+  const paths = [PROJECT_FILE];
+  for (const subdir of [EPICS_DIR, TASKS_DIR]) {
+    const dir = join(directory, subdir);
+    if (!existsSync(dir)) {
+      continue;
+    }
+    const names = readdirSync(dir)
+      .filter((name) => name.endsWith(MIRROR_EXTENSION))
+      .sort(compareIds);
+    paths.push(...names.map((name) => `${subdir}/${name}`));
+  }
+  return paths;
+}
+
+/**
+ * Reads the mirror files back into an export document (without history).
+ * The result still needs validating before it is imported.
+ */
+export function readMirror(cwd: string = process.cwd()): unknown {
+  const directory = getMirrorDir(cwd);
+  if (!existsSync(join(directory, PROJECT_FILE))) {
+    throw new Error(`No mirror found at ${directory}. Run 'trekker sync' first.`);
+  }
+
+  const tables: Record<string, unknown[]> = {};
+  for (const table of MIRROR_TABLES) {
+    tables[table] = [];
+  }
+  let schemaVersion: unknown = null;
+
+  for (const path of listMirrorFiles(directory)) {
+    const lines = readFileSync(join(directory, path), 'utf-8').split('\n');
+    for (const [index, line] of lines.entries()) {
+      if (!line.trim()) {
+        continue;
+      }
+
+      const location = `${path}:${index + 1}`;
+      let value: unknown;
+      try {
+        value = JSON.parse(line);
+      } catch {
+        throw new Error(`Invalid JSON in mirror file ${location}`);
+      }
+
+      if (isRecord(value) && value.format === MIRROR_FORMAT) {
+        schemaVersion = value.schemaVersion;
+      } else if (isRecord(value) && isMirrorTable(value.table)) {
+        tables[value.table].push(value.row);
+      } else {
+        throw new Error(`Unrecognized record in mirror file ${location}`);
+      }
+    }
+  }
+
+  return {
+    format: EXPORT_FORMAT,
+    version: EXPORT_FORMAT_VERSION,
+    schemaVersion,
+    exportedAt: new Date().toISOString(),
+    tables,
+  };
+}
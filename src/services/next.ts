@@ -0,0 +1,58 @@
+import { requireSqliteInstance } from '../db/client';
+import { withTransaction } from '../db/transaction';
+import { MS_PER_SECOND } from '../utils/constants';
+import { refreshMirror } from './mirror';
+import { getReadyTasks } from './ready';
+import type { ReadyTaskFilters } from './ready';
+import { getTaskContext } from './task-context';
+import type { TaskContext } from './task-context';
+import { joinQuery } from './query';
+import { statusesAllowedTo } from './workflow';
+
+export type NextTaskFilters = Pick<ReadyTaskFilters, 'query'>;
+
+/**
+ * Picks the highest-ranked ready task the workflow lets move to in_progress, moves it
+ * there and claims it for `agent` for `ttlMs`. Selecting and starting happen in one
+ * write transaction, so two agents asking at the same time never get the same task.
+ */
+export function startNextTask(
+  agent: string,
+  ttlMs: number,
+  filters?: NextTaskFilters
+): TaskContext {
+  const sqlite = requireSqliteInstance();
+
+  const taskId = withTransaction(
+    sqlite,
+    () => {
+      const startable = `status:${statusesAllowedTo('in_progress').join(',')}`;
+      const next = getReadyTasks({
+        query: joinQuery(filters?.query, startable),
+        limit: 1,
+        page: 1,
+      }).items.at(0);
+      if (!next) {
+        throw new Error('No ready task matches.');
+      }
+
+      const now = Date.now();
+      sqlite
+        .query(
+          `UPDATE tasks SET status = 'in_progress', assignee = ?, claim_expires_at = ?, updated_at = ?
+           WHERE id = ?`
+        )
+        .run(
+          agent,
+          Math.floor((now + ttlMs) / MS_PER_SECOND),
+          Math.floor(now / MS_PER_SECOND),
+          next.id
+        );
+      return next.id;
+    },
+    'immediate'
+  );
+
+  refreshMirror();
+  return getTaskContext(taskId);
+}
@@ -0,0 +1,552 @@
+import dayjs from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
+import { EPIC_STATUSES, SEARCH_ENTITY_TYPES } from '../types';
+import { MAX_PRIORITY, MS_PER_SECOND, RADIX_DECIMAL } from '../utils/constants';
+import { parseAge, parseRelativeDay, parseTimestamp } from '../utils/validator';
+import type { CustomField, CustomFieldValue } from '../types';
+import { coerceFieldValue, describeFieldType, getField, listFields } from './field';
+import { listStatuses, statusesInCategorySql } from './workflow';
+
+dayjs.extend(customParseFormat);
+
+export const QUERY_OPERATORS = ['<=', '>=', '!=', ':', '=', '<', '>'] as const;
+export type QueryOperator = (typeof QUERY_OPERATORS)[number];
+
+const QUERY_FLAGS = ['blocked', 'claimed', 'overdue'] as const;
+type QueryFlag = (typeof QUERY_FLAGS)[number];
+
+/**
+ * One parsed term of a query. Field terms and flags are compiled to SQL while parsing;
+ * text terms are kept as words because `list` matches them with LIKE and `search`
+ * hands them to the full-text index.
+ */
+export type QueryTerm =
+  | { kind: 'filter'; field: string; negated: boolean; sql: string; params: QueryParam[] }
+  | { kind: 'text'; text: string; phrase: boolean; prefix: boolean; negated: boolean };
+
+export type QueryParam = string | number;
+
+export interface CompiledQuery {
+  conditions: string[];
+  params: QueryParam[];
+}
+
+interface QueryToken {
+  text: string;
+  startsQuoted: boolean;
+  negated: boolean;
+  source: string;
+}
+
+interface FieldSpec {
+  operators: readonly QueryOperator[];
+  compile: (
+    operator: QueryOperator,
+    value: string,
+    source: string
+  ) => { sql: string; params: QueryParam[] };
+}
+
+/**
+ * The rows every query runs against: epics, tasks, subtasks and (for search) comments
+ * with the same columns. Compiled conditions refer to it as `q`.
+ */
+export function queryItemsSql(options?: { includeComments?: boolean }): string {
+  let sql = `
+    SELECT 'epic' AS type, id, title, description, status, priority,
+           NULL AS parent_id, NULL AS epic_id, NULL AS tags, NULL AS assignee,
+           NULL AS claim_expires_at, fields, start_at, due_at, NULL AS estimate,
+           created_at, updated_at, deleted_at
+    FROM epics
+    UNION ALL
+    SELECT IIF(t.parent_task_id IS NULL, 'task', 'subtask'), t.id, t.title, t.description,
+           t.status, t.priority, COALESCE(t.parent_task_id, t.epic_id),
+           COALESCE(t.epic_id, p.epic_id), t.tags, t.assignee, t.claim_expires_at, t.fields,
+           t.start_at, t.due_at, t.estimate, t.created_at, t.updated_at, t.deleted_at
+    FROM tasks t LEFT JOIN tasks p ON p.id = t.parent_task_id
+  `;
+  if (options?.includeComments) {
+    sql += `
+    UNION ALL
+    SELECT 'comment', c.id, NULL, c.content, NULL, NULL, c.task_id,
+           COALESCE(t.epic_id, p.epic_id), NULL, c.author, NULL, NULL, NULL, NULL, NULL,
+           c.created_at, c.updated_at, c.deleted_at
+    FROM comments c
+    JOIN tasks t ON t.id = c.task_id
+    LEFT JOIN tasks p ON p.id = t.parent_task_id
+    `;
+  }
+  return sql;
+}
+
+function queryError(source: string, reason: string): Error {
+  return new Error(`Invalid query term "${source}": ${reason}`);
+}
+
+function placeholders(values: readonly unknown[]): string {
+  return values.map(() => '?').join(', ');
+}
+
+function splitValues(value: string, source: string): string[] {
+  const values = value
+    .split(',')
+    .map((v) => v.trim())
+    .filter((v) => v !== '');
+  if (values.length === 0) {
+    throw queryError(source, 'missing value.');
+  }
+  return values;
+}
+
+// `:` and `=` match any of the comma-separated values, `!=` none of them
+function listSpec(column: string, allowed?: readonly string[]): FieldSpec {
+  const allowedSet: ReadonlySet<string> | undefined = allowed && new Set(allowed);
+  return {
+    operators: [':', '=', '!='],
+    compile: (operator, value, source) => {
+      const values = splitValues(value, source);
+      for (const v of values) {
+        if (allowedSet && !allowedSet.has(v)) {
+          throw queryError(
+            source,
+            `unknown value ${v}. Valid values: ${[...allowedSet].join(', ')}.`
+          );
+        }
+      }
+      if (operator === '!=') {
+        return { sql: `COALESCE(${column}, '') NOT IN (${placeholders(values)})`, params: values };
+      }
+      return { sql: `${column} IN (${placeholders(values)})`, params: values };
+    },
+  };
+}
+
+function parsePriorityValue(value: string, source: string): number {
+  const priority = Number.parseInt(value, RADIX_DECIMAL);
+  if (String(priority) !== value || priority < 0 || priority > MAX_PRIORITY) {
+    throw queryError(
+      source,
+      `priority must be a whole number from 0 to ${MAX_PRIORITY}, got ${value}.`
+    );
+  }
+  return priority;
+}
+
+const prioritySpec: FieldSpec = {
+  operators: QUERY_OPERATORS,
+  compile: (operator, value, source) => {
+    const values = splitValues(value, source).map((v) => parsePriorityValue(v, source));
+    if (operator === ':' || operator === '=') {
+      return { sql: `q.priority IN (${placeholders(values)})`, params: values };
+    }
+    if (operator === '!=') {
+      return { sql: `q.priority NOT IN (${placeholders(values)})`, params: values };
+    }
+    if (values.length > 1) {
+      throw queryError(source, `${operator} takes a single priority.`);
+    }
+    return { sql: `q.priority ${operator} ?`, params: values };
+  },
+};
+
+// Every listed tag must be present, in any case: tag names compare without case
+const tagSpec: FieldSpec = {
+  operators: [':', '='],
+  compile: (_operator, value, source) => {
+    const tags = splitValues(value, source);
+    return {
+      sql: tags
+        .map(
+          () =>
+            'q.id IN (SELECT tt.task_id FROM task_tags tt JOIN tags g ON g.id = tt.tag_id WHERE g.name = ?)'
+        )
+        .join(' AND '),
+      params: tags,
+    };
+  },
+};
+
+const RELATIVE_AGE_PATTERN = /^\d+[a-z]$/;
+
+/**
+ * Reads a date value as the range of time it covers: a day (`2025-06-02`, `today`,
+ * `friday`, `+3d`) covers the whole day, a timestamp or an age such as `7d` (that long
+ * ago) a single moment.
+ */
+function parseDateValue(value: string, field: string, source: string): { start: Date; end: Date } {
+  let day = parseRelativeDay(value);
+  const date = dayjs(value, 'YYYY-MM-DD', true);
+  if (date.isValid()) {
+    day = date;
+  }
+  if (day) {
+    return { start: day.startOf('day').toDate(), end: day.endOf('day').toDate() };
+  }
+  try {
+    let moment: Date;
+    if (RELATIVE_AGE_PATTERN.test(value)) {
+      moment = parseAge(value);
+    } else {
+      moment = parseTimestamp(value);
+    }
+    return { start: moment, end: moment };
+  } catch {
+    throw queryError(
+      source,
+      `${field} takes a date (YYYY-MM-DD), a timestamp or an age such as 7d, or a day such as today, friday or +3d, got ${value}.`
+    );
+  }
+}
+
+function toSeconds(date: Date): number {
+  return Math.floor(date.getTime() / MS_PER_SECOND);
+}
+
+function dateSpec(field: string, column: string, fixedOperator?: QueryOperator): FieldSpec {
+  return {
+    operators: [':', '=', '<', '<=', '>', '>='],
+    compile: (givenOperator, value, source) => {
+      const operator = fixedOperator ?? givenOperator;
+      const { start, end } = parseDateValue(value, field, source);
+      switch (operator) {
+        case '<':
+          return { sql: `${column} < ?`, params: [toSeconds(start)] };
+        case '<=':
+          return { sql: `${column} <= ?`, params: [toSeconds(end)] };
+        case '>':
+          return { sql: `${column} > ?`, params: [toSeconds(end)] };
+        case '>=':
+          return { sql: `${column} >= ?`, params: [toSeconds(start)] };
+        case ':':
+        case '=':
+        case '!=':
+          return {
+            sql: `${column} BETWEEN ? AND ?`,
+            params: [toSeconds(start), toSeconds(end)],
+          };
+      }
+    },
+  };
+}
+
+/**
+ * The SQL for a custom field's value on `q`. Field names are restricted to
+ * lowercase letters, digits and _, so they are safe in the JSON path.
+ */
+export function customFieldColumn(name: string): string {
+  return `json_extract(q.fields, '$.${name}')`;
+}
+
+// Numbers and dates compare in order; `:` and `=` match any of the comma-separated values
+function orderedSpec(
+  column: string,
+  parse: (value: string, source: string) => CustomFieldValue
+): FieldSpec {
+  return {
+    operators: QUERY_OPERATORS,
+    compile: (operator, value, source) => {
+      const values = splitValues(value, source).map((v) => parse(v, source));
+      if (operator === ':' || operator === '=') {
+        return { sql: `${column} IN (${placeholders(values)})`, params: values };
+      }
+      if (operator === '!=') {
+        return {
+          sql: `${column} IS NULL OR ${column} NOT IN (${placeholders(values)})`,
+          params: values,
+        };
+      }
+      if (values.length > 1) {
+        throw queryError(source, `${operator} takes a single value.`);
+      }
+      return { sql: `${column} ${operator} ?`, params: values };
+    },
+  };
+}
+
+function orderedFieldSpec(field: CustomField): FieldSpec {
+  return orderedSpec(customFieldColumn(field.name), (value, source) => {
+    const coerced = coerceFieldValue(field, value);
+    if (coerced === undefined) {
+      throw queryError(source, `${field.name} takes ${describeFieldType(field)}, got ${value}.`);
+    }
+    return coerced;
+  });
+}
+
+const estimateSpec = orderedSpec('q.estimate', (value, source) => {
+  const estimate = Number(value);
+  if (!Number.isFinite(estimate)) {
+    throw queryError(source, `estimate takes a number, got ${value}.`);
+  }
+  return estimate;
+});
+
+// Task statuses come from the project's workflow, so the valid values are read per query
+const statusSpec: FieldSpec = {
+  operators: [':', '=', '!='],
+  compile: (operator, value, source) => {
+    const statuses = new Set([...listStatuses().map((status) => status.name), ...EPIC_STATUSES]);
+    return listSpec('q.status', [...statuses]).compile(operator, value, source);
+  },
+};
+
+function customFieldSpec(field: CustomField): FieldSpec {
+  switch (field.type) {
+    case 'string':
+      return listSpec(customFieldColumn(field.name));
+    case 'enum':
+      return listSpec(customFieldColumn(field.name), field.allowedValues ?? []);
+    case 'number':
+    case 'date':
+      return orderedFieldSpec(field);
+  }
+}
+
+const FIELDS: ReadonlyMap<string, FieldSpec> = new Map([
+  ['type', listSpec('q.type', SEARCH_ENTITY_TYPES)],
+  ['status', statusSpec],
+  ['priority', prioritySpec],
+  ['tag', tagSpec],
+  ['epic', listSpec('q.epic_id')],
+  ['parent', listSpec('q.parent_id')],
+  ['assignee', listSpec('q.assignee')],
+  ['id', listSpec('q.id')],
+  ['created', dateSpec('created', 'q.created_at')],
+  ['updated', dateSpec('updated', 'q.updated_at')],
+  ['start', dateSpec('start', 'q.start_at')],
+  ['due', dateSpec('due', 'q.due_at')],
+  ['estimate', estimateSpec],
+  ['since', dateSpec('since', 'q.created_at', '>=')],
+  ['until', dateSpec('until', 'q.created_at', '<=')],
+]);
+
+const FLAG_SQL: Readonly<Record<QueryFlag, string>> = {
+  // Same rule as `ready`: an open, untrashed dependency blocks
+  blocked: `EXISTS (
+    SELECT 1 FROM dependencies d
+    JOIN tasks dt ON dt.id = d.depends_on_id
+    WHERE d.task_id = q.id
+      AND dt.deleted_at IS NULL
+      AND dt.status NOT IN ${statusesInCategorySql('done')}
+  )`,
+  claimed:
+    "(q.claim_expires_at IS NOT NULL AND q.claim_expires_at > CAST(strftime('%s', 'now') AS INTEGER))",
+  // Past its due date and not done yet
+  overdue: `(q.due_at < CAST(strftime('%s', 'now') AS INTEGER)
+    AND q.status NOT IN ${statusesInCategorySql('done')})`,
+};
+
+const QUERY_FLAG_SET: ReadonlySet<string> = new Set(QUERY_FLAGS);
+const QUERY_OPERATOR_SET: ReadonlySet<string> = new Set(QUERY_OPERATORS);
+
+function isQueryOperator(operator: string): operator is QueryOperator {
+  return QUERY_OPERATOR_SET.has(operator);
+}
+
+function isQueryFlag(word: string): word is QueryFlag {
+  return QUERY_FLAG_SET.has(word);
+}
+
+function tokenize(input: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let current: QueryToken | null = null;
+  let inQuote = false;
+
+  for (const char of input) {
+    if (!inQuote && /\s/.test(char)) {
+      if (current) {
+        tokens.push(current);
+        current = null;
+      }
+      continue;
+    }
+
+    current ??= { text: '', startsQuoted: false, negated: false, source: '' };
+    current.source += char;
+    if (char === '"') {
+      if (current.text === '' && !inQuote) {
+        current.startsQuoted = true;
+      }
+      inQuote = !inQuote;
+    } else if (char === '-' && !inQuote && current.source === '-') {
+      current.negated = true;
+    } else {
+      current.text += char;
+    }
+  }
+
+  if (inQuote) {
+    throw new Error('Invalid query: a quote is not closed.');
+  }
+  if (current) {
+    tokens.push(current);
+  }
+  return tokens;
+}
+
+const FIELD_TERM_PATTERN = /^([a-z][a-z0-9_]*)(<=|>=|!=|:|=|<|>)(.*)$/s;
+
+// Built-in fields first; any other name must be a custom field of the project
+function findFieldSpec(field: string): FieldSpec | undefined {
+  const spec = FIELDS.get(field);
+  if (spec) {
+    return spec;
+  }
+  const customField = getField(field);
+  if (customField) {
+    return customFieldSpec(customField);
+  }
+  return undefined;
+}
+
+function parseToken(token: QueryToken): QueryTerm {
+  const { text, negated, source } = token;
+  if (text === '') {
+    throw queryError(source, 'nothing to match.');
+  }
+
+  if (token.startsQuoted) {
+    return { kind: 'text', text, phrase: true, prefix: false, negated };
+  }
+
+  const match = FIELD_TERM_PATTERN.exec(text);
+  if (match) {
+    const [, field, operator, value] = match;
+    const spec = findFieldSpec(field);
+    if (!spec) {
+      const fields = [...FIELDS.keys(), ...listFields().map((f) => f.name)];
+      throw queryError(
+        source,
+        `unknown field ${field}. Fields: ${fields.join(', ')}. Put text containing : or = in quotes.`
+      );
+    }
+    if (!isQueryOperator(operator) || !spec.operators.includes(operator)) {
+      throw queryError(source, `${field} supports ${spec.operators.join(' ')}, not ${operator}.`);
+    }
+    const { sql, params } = spec.compile(operator, value, source);
+    return { kind: 'filter', field, negated, sql, params };
+  }
+
+  if (isQueryFlag(text)) {
+    return { kind: 'filter', field: text, negated, sql: FLAG_SQL[text], params: [] };
+  }
+
+  let word = text;
+  let prefix = false;
+  if (word.endsWith('*')) {
+    word = word.slice(0, -1);
+    prefix = true;
+  }
+  return { kind: 'text', text: word, phrase: false, prefix, negated };
+}
+
+/**
+ * Parses a query such as `status:todo priority<=1 tag:backend epic:EPIC-3 updated>7d
+ * -blocked "login"`. Terms are separated by spaces and all of them must match:
+ *
+ * - `field:value` (or `=`, `!=`, `<`, `<=`, `>`, `>=`); `:` takes comma-separated alternatives.
+ *   Custom fields of the project are queried by name, e.g. `component:api size>3`
+ * - `blocked`, `claimed` and `overdue` flags
+ * - words and "quoted phrases" matched against titles and descriptions
+ * - a leading `-` negates any term
+ */
+export function parseQuery(input: string): QueryTerm[] {
+  return tokenize(input).map(parseToken);
+}
+
+function negate(sql: string, negated: boolean): string {
+  if (!negated) {
+    return `(${sql})`;
+  }
+  // NULL columns (an epic has no tags) count as not matching, so the negation holds
+  return `NOT COALESCE((${sql}), 0)`;
+}
+
+function escapeLike(text: string): string {
+  return text.replaceAll(/[\\%_]/g, (char) => `\\${char}`);
+}
+
+/**
+ * Turns parsed terms into SQL conditions on `q`. Text terms become LIKE matches on the
+ * title and description unless `skipText` is set (search matches them itself).
+ */
+export function compileQuery(terms: QueryTerm[], options?: { skipText?: boolean }): CompiledQuery {
+  const conditions: string[] = [];
+  const params: QueryParam[] = [];
+
+  for (const term of terms) {
+    if (term.kind === 'filter') {
+      conditions.push(negate(term.sql, term.negated));
+      params.push(...term.params);
+    } else if (!options?.skipText) {
+      // A substring match already covers `word*`
+      const pattern = `%${escapeLike(term.text)}%`;
+      conditions.push(
+        negate(
+          "COALESCE(q.title, '') LIKE ? ESCAPE '\\' OR COALESCE(q.description, '') LIKE ? ESCAPE '\\'",
+          term.negated
+        )
+      );
+      params.push(pattern, pattern);
+    }
+  }
+
+  return { conditions, params };
+}
+
+function ftsString(text: string): string {
+  return `"${text.replaceAll('"', '""')}"`;
+}
+
+/**
+ * Builds the FTS5 match expression for the text terms of a query. Returns undefined
+ * when the query has no words to look for.
+ */
+export function toFtsMatch(terms: QueryTerm[]): string | undefined {
+  const include: string[] = [];
+  const exclude: string[] = [];
+  for (const term of terms) {
+    if (term.kind !== 'text') {
+      continue;
+    }
+    let expression = ftsString(term.text);
+    if (term.prefix) {
+      expression += '*';
+    }
+    if (term.negated) {
+      exclude.push(expression);
+    } else {
+      include.push(expression);
+    }
+  }
+
+  if (include.length === 0) {
+    if (exclude.length > 0) {
+      throw new Error('Invalid query: a search needs at least one word to look for besides -word.');
+    }
+    return undefined;
+  }
+  return [include.join(' '), ...exclude].join(' NOT ');
+}
+
+/**
+ * Builds a query term from a command option, quoting the value when it contains spaces.
+ * Returns undefined for an option that was not given.
+ */
+export function optionTerm(
+  field: string,
+  operator: QueryOperator,
+  value: string | undefined
+): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (/[\s"]/.test(value)) {
+    return `${field}${operator}"${value.replaceAll('"', '')}"`;
+  }
+  return `${field}${operator}${value}`;
+}
+
+export function joinQuery(...parts: (string | undefined)[]): string {
+  return parts.filter((part) => part !== undefined && part.trim() !== '').join(' ');
+}
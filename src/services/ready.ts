@@ -2,6 +2,9 @@ import { requireSqliteInstance } from '../db/client';
 import { PAGINATION_DEFAULTS } from '../types';
 import type { PaginatedResponse } from '../types';
 import { MS_PER_SECOND } from '../utils/constants';
+import { compileQuery, parseQuery, queryItemsSql } from './query';
+import type { QueryParam } from './query';
+import { statusesInCategorySql } from './workflow';
 
 export interface ReadyTask {
   id: string;
@@ -11,6 +14,8 @@ export interface ReadyTask {
   status: string;
   epicId: string | null;
   tags: string | null;
+  assignee: string | null;
+  dueAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
   dependents: ReadyTaskDependent[];
@@ -31,6 +36,8 @@ interface ReadyTaskRow {
   status: string;
   epic_id: string | null;
   tags: string | null;
+  assignee: string | null;
+  due_at: number | null;
   created_at: number;
   updated_at: number;
 }
@@ -39,46 +46,91 @@ interface ReadyCountRow {
   total: number;
 }
 
-export function getReadyTasks(options?: {
-  limit?: number;
-  page?: number;
-}): PaginatedResponse<ReadyTask> {
+export interface ReadyTaskFilters {
+  query?: string;
+  includeDeleted?: boolean;
+  includeClaimed?: boolean;
+}
+
+function toDateOrNull(seconds: number | null): Date | null {
+  if (seconds === null) {
+    return null;
+  }
+  return new Date(seconds * MS_PER_SECOND);
+}
+
+export function getReadyTasks(
+  options?: ReadyTaskFilters & {
+    limit?: number;
+    page?: number;
+  }
+): PaginatedResponse<ReadyTask> {
   const sqlite = requireSqliteInstance();
 
   const limit = options?.limit ?? PAGINATION_DEFAULTS.LIST_PAGE_SIZE;
   const page = options?.page ?? PAGINATION_DEFAULTS.DEFAULT_PAGE;
   const offset = (page - 1) * limit;
 
-  const baseWhere = `
-    WHERE t.status = 'todo'
-      AND t.parent_task_id IS NULL
-      AND NOT EXISTS (
-        SELECT 1 FROM dependencies d
-        JOIN tasks dt ON dt.id = d.depends_on_id
-        WHERE d.task_id = t.id
-          AND dt.status NOT IN ('completed', 'wont_fix', 'archived')
-      )
-  `;
+  // Find todo tasks (not subtasks) that have no incomplete dependencies.
+  // A trashed blocker no longer blocks, just as a deleted one would not.
+  const conditions: string[] = [
+    `t.status IN ${statusesInCategorySql('todo')}`,
+    't.parent_task_id IS NULL',
+    `NOT EXISTS (
+      SELECT 1 FROM dependencies d
+      JOIN tasks dt ON dt.id = d.depends_on_id
+      WHERE d.task_id = t.id
+        AND dt.deleted_at IS NULL
+        AND dt.status NOT IN ${statusesInCategorySql('done')}
+    )`,
+  ];
+  const params: QueryParam[] = [];
+
+  if (!options?.includeDeleted) {
+    conditions.push('t.deleted_at IS NULL');
+  }
+
+  // Tasks another agent is working on are left out until their claim expires
+  if (!options?.includeClaimed) {
+    conditions.push(
+      "(t.claim_expires_at IS NULL OR t.claim_expires_at <= CAST(strftime('%s', 'now') AS INTEGER))"
+    );
+  }
+
+  const filters = compileQuery(parseQuery(options?.query ?? ''));
+  if (filters.conditions.length > 0) {
+    conditions.push(`t.id IN (
+      SELECT q.id FROM (${queryItemsSql()}) q
+      WHERE ${filters.conditions.join(' AND ')}
+    )`);
+    params.push(...filters.params);
+  }
+
+  const baseWhere = `WHERE ${conditions.join(' AND ')}`;
 
   // Count total ready tasks
   const countResult = sqlite
-    .query<ReadyCountRow, []>(`SELECT COUNT(*) as total FROM tasks t ${baseWhere}`)
-    .get();
+    .query<ReadyCountRow, QueryParam[]>(`SELECT COUNT(*) as total FROM tasks t ${baseWhere}`)
+    .get(...params);
   const total = countResult?.total ?? 0;
 
-  // Find todo tasks (not subtasks) that have no incomplete dependencies
   const readyRows = sqlite
-    .query<ReadyTaskRow, [number, number]>(
+    .query<ReadyTaskRow, QueryParam[]>(
       `
       SELECT t.id, t.title, t.description, t.priority, t.status,
-             t.epic_id, t.tags, t.created_at, t.updated_at
+             t.epic_id, t.tags, t.assignee, t.due_at, t.created_at, t.updated_at
       FROM tasks t
       ${baseWhere}
       ORDER BY t.priority ASC, t.created_at ASC
       LIMIT ? OFFSET ?
     `
     )
-    .all(limit, offset);
+    .all(...params, limit, offset);
+
+  let dependentsFilter = 'AND t.deleted_at IS NULL';
+  if (options?.includeDeleted) {
+    dependentsFilter = '';
+  }
 
   // For each ready task, find its downstream dependents
   const dependentsQuery = sqlite.query<ReadyTaskDependent, [string]>(
@@ -87,6 +139,7 @@ export function getReadyTasks(options?: {
     FROM dependencies d
     JOIN tasks t ON t.id = d.task_id
     WHERE d.depends_on_id = ?
+      ${dependentsFilter}
     ORDER BY t.priority ASC
   `
   );
@@ -99,6 +152,8 @@ export function getReadyTasks(options?: {
     status: row.status,
     epicId: row.epic_id,
     tags: row.tags,
+    assignee: row.assignee,
+    dueAt: toDateOrNull(row.due_at),
     createdAt: new Date(row.created_at * MS_PER_SECOND),
     updatedAt: new Date(row.updated_at * MS_PER_SECOND),
     dependents: dependentsQuery.all(row.id).map((d) => ({
@@ -0,0 +1,429 @@
+import type { Database } from 'bun:sqlite';
+import { requireSqliteInstance } from '../db/client';
+import { withTransaction } from '../db/transaction';
+import { getColumns, writeRow } from './import';
+import type { ExportRow } from './export';
+import { refreshMirror } from './mirror';
+import { MS_PER_SECOND } from '../utils/constants';
+import type { HistoryAction, HistoryEntityType } from './history';
+
+export interface RevertedEvent {
+  eventId: number;
+  action: HistoryAction;
+  entityType: HistoryEntityType;
+  entityId: string;
+}
+
+export interface RevertResult {
+  reverted: RevertedEvent[];
+}
+
+export interface RestoreResult {
+  entityId: string;
+  restored: RevertedEvent[];
+  skipped: RevertedEvent[];
+}
+
+interface EventRow {
+  id: number;
+  action: HistoryAction;
+  entity_type: HistoryEntityType;
+  entity_id: string;
+  snapshot: string | null;
+  changes: string | null;
+  created_at: number;
+  reverted_at: number | null;
+  cascade_of: number | null;
+}
+
+interface IdRow {
+  id: string;
+}
+
+interface MaxIdRow {
+  max_id: number | null;
+}
+
+interface DeletedAtRow {
+  deleted_at: number | null;
+}
+
+type FieldChanges = Record<string, { from: string | number | null; to: string | number | null }>;
+
+const ENTITY_TABLES: Record<HistoryEntityType, string> = {
+  epic: 'epics',
+  task: 'tasks',
+  subtask: 'tasks',
+  comment: 'comments',
+  dependency: 'dependencies',
+};
+
+// Rows that would be removed or detached along with a row of each table
+const DEPENDENT_QUERIES: Record<string, string[]> = {
+  epics: ['SELECT id FROM tasks WHERE epic_id = ?'],
+  tasks: [
+    'SELECT id FROM tasks WHERE parent_task_id = ?',
+    'SELECT id FROM comments WHERE task_id = ?',
+    'SELECT id FROM dependencies WHERE task_id = ?1 OR depends_on_id = ?1',
+  ],
+  comments: [],
+  dependencies: [],
+};
+
+// Snapshot columns that must point at an existing row for it to be re-inserted
+const REFERENCE_TABLES: Record<string, string> = {
+  epic_id: 'epics',
+  parent_task_id: 'tasks',
+  task_id: 'tasks',
+  depends_on_id: 'tasks',
+};
+
+const parseSnapshot: (json: string) => ExportRow = JSON.parse;
+const parseChanges: (json: string) => FieldChanges = JSON.parse;
+
+function describe(event: EventRow): string {
+  return `event ${event.id} (${event.action} ${event.entity_type} ${event.entity_id})`;
+}
+
+function getEvent(sqlite: Database, id: number): EventRow {
+  const event = sqlite.query<EventRow, [number]>('SELECT * FROM events WHERE id = ?').get(id);
+  if (!event) {
+    throw new Error(`Event not found: ${id}`);
+  }
+  return event;
+}
+
+/**
+ * Deleting a task removes its subtasks, comments and dependencies, and deleting an
+ * epic detaches its tasks. SQLite records those cascaded changes as separate events
+ * linked to the parent's own, so reverting the parent takes them along. Parents come
+ * before their children.
+ */
+function collectCascade(sqlite: Database, event: EventRow): EventRow[] {
+  const children = sqlite.query<EventRow, [number]>(
+    'SELECT * FROM events WHERE cascade_of = ? AND reverted_at IS NULL ORDER BY id'
+  );
+
+  // Members are appended while iterating, so their own cascades are visited too
+  const group = [event];
+  for (const member of group) {
+    group.push(...children.all(member.id));
+  }
+  return group;
+}
+
+function rowExists(sqlite: Database, table: string, id: string): boolean {
+  return sqlite.query<IdRow, [string]>(`SELECT id FROM ${table} WHERE id = ?`).get(id) !== null;
+}
+
+function findMissingReference(sqlite: Database, row: ExportRow): string | undefined {
+  for (const [column, table] of Object.entries(REFERENCE_TABLES)) {
+    const value = row[column];
+    if (typeof value === 'string' && !rowExists(sqlite, table, value)) {
+      return value;
+    }
+  }
+  return undefined;
+}
+
+function revertCreate(sqlite: Database, event: EventRow): void {
+  const table = ENTITY_TABLES[event.entity_type];
+  if (!rowExists(sqlite, table, event.entity_id)) {
+    throw new Error(`Cannot revert ${describe(event)}: ${event.entity_id} no longer exists.`);
+  }
+
+  // Deleting would cascade to rows added afterwards, so those must be reverted first
+  const dependent = DEPENDENT_QUERIES[table]
+    .map((query) => sqlite.query<IdRow, [string]>(query).get(event.entity_id))
+    .find((row) => row !== null);
+  if (dependent) {
+    throw new Error(
+      `Cannot revert ${describe(event)}: ${dependent.id} was added to it later. Revert that first.`
+    );
+  }
+
+  sqlite.query(`DELETE FROM ${table} WHERE id = ?`).run(event.entity_id);
+}
+
+function revertDelete(sqlite: Database, event: EventRow): void {
+  const table = ENTITY_TABLES[event.entity_type];
+  if (!event.snapshot) {
+    throw new Error(`Cannot revert ${describe(event)}: no snapshot was recorded.`);
+  }
+  if (rowExists(sqlite, table, event.entity_id)) {
+    throw new Error(`Cannot revert ${describe(event)}: ${event.entity_id} already exists.`);
+  }
+
+  const row: ExportRow = { ...parseSnapshot(event.snapshot) };
+  const missing = findMissingReference(sqlite, row);
+  if (missing !== undefined) {
+    throw new Error(
+      `Cannot revert ${describe(event)}: ${missing} no longer exists. Restore it first.`
+    );
+  }
+  const columns = getColumns(sqlite, table);
+  const nowSeconds = Math.floor(Date.now() / MS_PER_SECOND);
+
+  // Snapshots hold the user-visible fields only; bookkeeping columns are filled in
+  if (columns.has('project_id')) {
+    const project = sqlite.query<IdRow, []>('SELECT id FROM projects LIMIT 1').get();
+    row.project_id = project?.id ?? null;
+  }
+  const created = sqlite
+    .query<
+      { created_at: number },
+      [string]
+    >("SELECT created_at FROM events WHERE entity_id = ? AND action = 'create' ORDER BY id LIMIT 1")
+    .get(event.entity_id);
+  let createdAt = nowSeconds;
+  if (created) {
+    createdAt = Math.floor(created.created_at / MS_PER_SECOND);
+  }
+  row.created_at = createdAt;
+  if (columns.has('updated_at')) {
+    row.updated_at = nowSeconds;
+  }
+
+  writeRow(sqlite, table, row, columns);
+}
+
+function revertUpdate(sqlite: Database, event: EventRow): void {
+  const table = ENTITY_TABLES[event.entity_type];
+  if (!event.changes) {
+    throw new Error(`Cannot revert ${describe(event)}: no changes were recorded.`);
+  }
+
+  const current = sqlite
+    .query<ExportRow, [string]>(`SELECT * FROM ${table} WHERE id = ?`)
+    .get(event.entity_id);
+  if (!current) {
+    throw new Error(`Cannot revert ${describe(event)}: ${event.entity_id} no longer exists.`);
+  }
+
+  const changes = parseChanges(event.changes);
+  const fields = Object.keys(changes);
+  if (typeof current.deleted_at === 'number' && !fields.includes('deleted_at')) {
+    throw new Error(
+      `Cannot revert ${describe(event)}: ${event.entity_id} is in the trash. Restore it first.`
+    );
+  }
+  for (const field of fields) {
+    if (current[field] !== changes[field].to) {
+      throw new Error(
+        `Cannot revert ${describe(event)}: ${event.entity_id} ${field} has changed since. Revert the later change first.`
+      );
+    }
+  }
+  if (fields.length === 0) {
+    return;
+  }
+
+  const assignments = fields.map((field) => `${field} = ?`).join(', ');
+  const values = fields.map((field) => changes[field].from);
+  sqlite
+    .query(`UPDATE ${table} SET ${assignments}, updated_at = ? WHERE id = ?`)
+    .run(...values, Math.floor(Date.now() / MS_PER_SECOND), event.entity_id);
+}
+
+function revertMember(sqlite: Database, member: EventRow): void {
+  if (member.action === 'create') {
+    revertCreate(sqlite, member);
+  } else if (member.action === 'delete') {
+    revertDelete(sqlite, member);
+  } else {
+    revertUpdate(sqlite, member);
+  }
+}
+
+/**
+ * A cascaded change is stale when reverting it no longer makes sense on its own: a
+ * dependency whose other task is gone, or a task that has since left the epic.
+ */
+function isStale(sqlite: Database, member: EventRow): boolean {
+  if (member.action === 'delete' && member.entity_type === 'dependency' && member.snapshot) {
+    const snapshot = parseSnapshot(member.snapshot);
+    const existing = sqlite
+      .query<
+        IdRow,
+        [string, string]
+      >('SELECT id FROM dependencies WHERE task_id = ? AND depends_on_id = ?')
+      .get(String(snapshot.task_id), String(snapshot.depends_on_id));
+    return existing !== null || findMissingReference(sqlite, snapshot) !== undefined;
+  }
+
+  if (member.action === 'update' && member.changes && 'epic_id' in parseChanges(member.changes)) {
+    const task = sqlite
+      .query<{ epic_id: string | null }, [string]>('SELECT epic_id FROM tasks WHERE id = ?')
+      .get(member.entity_id);
+    return task?.epic_id !== null;
+  }
+
+  return false;
+}
+
+function toRevertedEvent(member: EventRow): RevertedEvent {
+  return {
+    eventId: member.id,
+    action: member.action,
+    entityType: member.entity_type,
+    entityId: member.entity_id,
+  };
+}
+
+/**
+ * Reverses an event and the cascade that came with it, then links the events the
+ * revert itself produced back to it, so `undo` never undoes its own changes. When
+ * `skipped` is given, stale cascaded changes are left out and collected there
+ * instead of failing the whole revert.
+ */
+function revertEventGroup(
+  sqlite: Database,
+  event: EventRow,
+  skipped?: RevertedEvent[]
+): RevertedEvent[] {
+  if (event.reverted_at !== null) {
+    throw new Error(`Event ${event.id} has already been reverted.`);
+  }
+
+  const maxBefore = sqlite.query<MaxIdRow, []>('SELECT MAX(id) AS max_id FROM events').get();
+  const group = collectCascade(sqlite, event);
+
+  // Parents already come before their children; dependencies go last because
+  // they can link two tasks restored by the same revert
+  const ordered = [
+    ...group.filter((member) => member.entity_type !== 'dependency'),
+    ...group.filter((member) => member.entity_type === 'dependency'),
+  ];
+  const applied: EventRow[] = [];
+  for (const member of ordered) {
+    if (skipped && member !== event && isStale(sqlite, member)) {
+      skipped.push(toRevertedEvent(member));
+      continue;
+    }
+    revertMember(sqlite, member);
+    applied.push(member);
+  }
+
+  const now = Date.now();
+  sqlite
+    .query('UPDATE events SET revert_of = ? WHERE id > ?')
+    .run(event.id, maxBefore?.max_id ?? 0);
+  for (const member of applied) {
+    sqlite.query('UPDATE events SET reverted_at = ? WHERE id = ?').run(now, member.id);
+  }
+
+  return applied.map(toRevertedEvent);
+}
+
+function inTransaction(sqlite: Database, fn: () => RevertedEvent[]): RevertResult {
+  const reverted = withTransaction(
+    sqlite,
+    () => {
+      sqlite.run('PRAGMA defer_foreign_keys = ON');
+      return fn();
+    },
+    'immediate'
+  );
+
+  refreshMirror();
+  return { reverted };
+}
+
+export function revertEvent(eventId: number): RevertResult {
+  const sqlite = requireSqliteInstance();
+  return inTransaction(sqlite, () => revertEventGroup(sqlite, getEvent(sqlite, eventId)));
+}
+
+/**
+ * Reverts the most recent changes, newest first. Each step takes the latest event
+ * that has not been reverted and was not written by a revert. Cascaded changes go
+ * with the event that caused them.
+ */
+export function undo(count = 1): RevertResult {
+  const sqlite = requireSqliteInstance();
+  const latest = sqlite.query<EventRow, []>(
+    'SELECT * FROM events WHERE reverted_at IS NULL AND revert_of IS NULL AND cascade_of IS NULL ORDER BY id DESC LIMIT 1'
+  );
+
+  return inTransaction(sqlite, () => {
+    const reverted: RevertedEvent[] = [];
+    for (let step = 0; step < count; step++) {
+      const event = latest.get();
+      if (!event) {
+        if (reverted.length === 0) {
+          throw new Error('Nothing to undo.');
+        }
+        break;
+      }
+      reverted.push(...revertEventGroup(sqlite, event));
+    }
+    return reverted;
+  });
+}
+
+// The latest change that moved an item to the trash, if the item is still there
+function findTrashing(sqlite: Database, entityId: string): EventRow | null {
+  const event = sqlite
+    .query<
+      EventRow,
+      [string]
+    >("SELECT * FROM events WHERE entity_id = ? AND action = 'update' AND reverted_at IS NULL AND json_extract(changes, '$.deleted_at.to') IS NOT NULL ORDER BY id DESC LIMIT 1")
+    .get(entityId);
+  if (!event) {
+    return null;
+  }
+
+  const row = sqlite
+    .query<
+      DeletedAtRow,
+      [string]
+    >(`SELECT deleted_at FROM ${ENTITY_TABLES[event.entity_type]} WHERE id = ?`)
+    .get(event.entity_id);
+  if (typeof row?.deleted_at !== 'number') {
+    return null;
+  }
+  return event;
+}
+
+/**
+ * Brings back a deleted epic, task, subtask or comment under its original ID, along
+ * with everything its deletion removed. Dependencies on tasks that are still gone
+ * and tasks that have since moved to another epic are skipped. An item in the trash
+ * comes back with what was trashed along with it.
+ */
+export function restoreEntity(entityId: string): RestoreResult {
+  const sqlite = requireSqliteInstance();
+  const skipped: RevertedEvent[] = [];
+
+  const result = inTransaction(sqlite, () => {
+    const trashing = findTrashing(sqlite, entityId);
+    if (trashing) {
+      if (trashing.cascade_of !== null) {
+        const parent = getEvent(sqlite, trashing.cascade_of);
+        throw new Error(
+          `${entityId} is in the trash because ${parent.entity_id} is. Restore ${parent.entity_id} instead.`
+        );
+      }
+      return revertEventGroup(sqlite, trashing, skipped);
+    }
+
+    const deletion = sqlite
+      .query<
+        EventRow,
+        [string]
+      >("SELECT * FROM events WHERE entity_id = ? AND action = 'delete' AND reverted_at IS NULL ORDER BY id DESC LIMIT 1")
+      .get(entityId);
+    if (!deletion || rowExists(sqlite, ENTITY_TABLES[deletion.entity_type], entityId)) {
+      const known = sqlite
+        .query<{ id: number }, [string]>('SELECT id FROM events WHERE entity_id = ? LIMIT 1')
+        .get(entityId);
+      if (known) {
+        throw new Error(`${entityId} is not deleted.`);
+      }
+      throw new Error(`No deleted item found with ID ${entityId}.`);
+    }
+    return revertEventGroup(sqlite, deletion, skipped);
+  });
+
+  return { entityId, restored: result.reverted, skipped };
+}
@@ -1,10 +1,11 @@
 import { requireSqliteInstance, rebuildSearchIndex } from '../db/client';
 import { PAGINATION_DEFAULTS } from '../types';
 import type { SearchEntityType } from '../types';
+import { compileQuery, parseQuery, queryItemsSql, toFtsMatch } from './query';
+import type { QueryParam } from './query';
 
 interface SearchOptions {
-  types?: SearchEntityType[];
-  status?: string;
+  includeDeleted?: boolean;
   limit?: number;
   page?: number;
 }
@@ -48,18 +49,26 @@ export function search(query: string, options?: SearchOptions): SearchResponse {
   const page = options?.page ?? PAGINATION_DEFAULTS.DEFAULT_PAGE;
   const offset = (page - 1) * limit;
 
+  // Words and phrases go to the full-text index; the other terms filter what it finds
+  const terms = parseQuery(query);
+  const match = toFtsMatch(terms);
+  if (match === undefined) {
+    throw new Error('Invalid query: give at least one word to search for.');
+  }
+
   const conditions: string[] = ['search_index MATCH ?'];
-  const params: (string | number)[] = [query];
+  const params: QueryParam[] = [match];
 
-  if (options?.types && options.types.length > 0) {
-    const placeholders = options.types.map(() => '?').join(', ');
-    conditions.push(`entity_type IN (${placeholders})`);
-    params.push(...options.types);
+  const filters = compileQuery(terms, { skipText: true });
+  if (!options?.includeDeleted) {
+    filters.conditions.push('q.deleted_at IS NULL');
   }
-
-  if (options?.status) {
-    conditions.push('status = ?');
-    params.push(options.status);
+  if (filters.conditions.length > 0) {
+    conditions.push(`entity_id IN (
+      SELECT q.id FROM (${queryItemsSql({ includeComments: true })}) q
+      WHERE ${filters.conditions.join(' AND ')}
+    )`);
+    params.push(...filters.params);
   }
 
   const whereClause = conditions.join(' AND ');
@@ -69,7 +78,7 @@ export function search(query: string, options?: SearchOptions): SearchResponse {
     FROM search_index
     WHERE ${whereClause}
   `;
-  const countResult = sqlite.query<SearchCountRow, (string | number)[]>(countQuery).get(...params);
+  const countResult = sqlite.query<SearchCountRow, QueryParam[]>(countQuery).get(...params);
   const total = countResult?.total ?? 0;
 
   const searchQuery = `
@@ -87,9 +96,7 @@ export function search(query: string, options?: SearchOptions): SearchResponse {
     LIMIT ? OFFSET ?
   `;
 
-  const results = sqlite
-    .query<SearchRow, (string | number)[]>(searchQuery)
-    .all(...params, limit, offset);
+  const results = sqlite.query<SearchRow, QueryParam[]>(searchQuery).all(...params, limit, offset);
 
   return {
     query,
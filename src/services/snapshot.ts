@@ -0,0 +1,209 @@
+import { getDb } from '../db/client';
+import { projects } from '../db/schema';
+import type { Comment, Dependency, Epic, Task } from '../types';
+import { DEFAULT_EPIC_STATUS, DEFAULT_PRIORITY, DEFAULT_TASK_STATUS } from '../types';
+import { parseEpicStatus, parsePriority } from '../utils/validator';
+import { MS_PER_SECOND } from '../utils/constants';
+import { parseFieldValues } from './field';
+import { getHistory } from './history';
+import type { HistoryEntityType, HistoryEvent } from './history';
+
+const REPLAY_PAGE_SIZE = 500;
+
+export interface ProjectSnapshot {
+  at: Date;
+  epics: Epic[];
+  tasks: Task[];
+  comments: Comment[];
+  dependencies: Dependency[];
+}
+
+interface ReplayedEntity {
+  entityType: HistoryEntityType;
+  fields: Record<string, unknown>;
+  createdAt: Date;
+  updatedAt: Date;
+  // Approximate: only updates to fields the history log tracks are counted
+  version: number;
+}
+
+// getHistory pages newest first; replaying needs the oldest first
+function loadEvents(until: Date): HistoryEvent[] {
+  const events: HistoryEvent[] = [];
+  let page = 1;
+  let total = 0;
+  do {
+    const response = getHistory({ until, limit: REPLAY_PAGE_SIZE, page });
+    if (response.events.length === 0) {
+      break;
+    }
+    events.push(...response.events);
+    total = response.total;
+    page++;
+  } while (events.length < total);
+
+  return events.reverse();
+}
+
+function replay(events: HistoryEvent[]): Map<string, ReplayedEntity> {
+  const entities = new Map<string, ReplayedEntity>();
+
+  for (const event of events) {
+    if (event.action === 'create') {
+      entities.set(event.entityId, {
+        entityType: event.entityType,
+        fields: { ...event.snapshot },
+        createdAt: event.timestamp,
+        updatedAt: event.timestamp,
+        version: 1,
+      });
+      continue;
+    }
+
+    if (event.action === 'delete') {
+      entities.delete(event.entityId);
+      continue;
+    }
+
+    // Updates to entities created before history was recorded have nothing to apply to
+    const entity = entities.get(event.entityId);
+    if (!entity) {
+      continue;
+    }
+    for (const [field, change] of Object.entries(event.changes ?? {})) {
+      entity.fields[field] = change.to;
+    }
+    entity.updatedAt = event.timestamp;
+    entity.version++;
+  }
+
+  return entities;
+}
+
+function text(fields: Record<string, unknown>, key: string): string {
+  const value = fields[key];
+  if (typeof value === 'string') {
+    return value;
+  }
+  return '';
+}
+
+function optionalText(fields: Record<string, unknown>, key: string): string | null {
+  const value = fields[key];
+  if (typeof value === 'string') {
+    return value;
+  }
+  return null;
+}
+
+function optionalNumber(fields: Record<string, unknown>, key: string): number | null {
+  const value = fields[key];
+  if (typeof value === 'number') {
+    return value;
+  }
+  return null;
+}
+
+// Dates are recorded in seconds, like the columns they come from
+function optionalDate(fields: Record<string, unknown>, key: string): Date | null {
+  const value = fields[key];
+  if (typeof value === 'number') {
+    return new Date(value * MS_PER_SECOND);
+  }
+  return null;
+}
+
+function toEpic(id: string, entity: ReplayedEntity, projectId: string): Epic {
+  const { fields } = entity;
+  return {
+    id,
+    projectId,
+    title: text(fields, 'title'),
+    description: optionalText(fields, 'description'),
+    status: parseEpicStatus(text(fields, 'status')) ?? DEFAULT_EPIC_STATUS,
+    priority: parsePriority(String(fields.priority)) ?? DEFAULT_PRIORITY,
+    fields: parseFieldValues(optionalText(fields, 'fields')),
+    startAt: optionalDate(fields, 'start_at'),
+    dueAt: optionalDate(fields, 'due_at'),
+    createdAt: entity.createdAt,
+    updatedAt: entity.updatedAt,
+    deletedAt: null,
+    version: entity.version,
+  };
+}
+
+function toTask(id: string, entity: ReplayedEntity, projectId: string): Task {
+  const { fields } = entity;
+  return {
+    id,
+    projectId,
+    epicId: optionalText(fields, 'epic_id'),
+    parentTaskId: optionalText(fields, 'parent_task_id'),
+    title: text(fields, 'title'),
+    description: optionalText(fields, 'description'),
+    priority: parsePriority(String(fields.priority)) ?? DEFAULT_PRIORITY,
+    status: optionalText(fields, 'status') ?? DEFAULT_TASK_STATUS,
+    tags: optionalText(fields, 'tags'),
+    assignee: optionalText(fields, 'assignee'),
+    claimExpiresAt: null,
+    fields: parseFieldValues(optionalText(fields, 'fields')),
+    startAt: optionalDate(fields, 'start_at'),
+    dueAt: optionalDate(fields, 'due_at'),
+    estimate: optionalNumber(fields, 'estimate'),
+    createdAt: entity.createdAt,
+    updatedAt: entity.updatedAt,
+    deletedAt: null,
+    version: entity.version,
+  };
+}
+
+/**
+ * Reconstructs the project as it stood at `at` by replaying the history log up to
+ * that moment. Items that predate the history log (imported without it) are absent.
+ */
+export function getProjectSnapshot(at: Date): ProjectSnapshot {
+  const project = getDb().select().from(projects).get();
+  const projectId = project?.id ?? '';
+  const snapshot: ProjectSnapshot = { at, epics: [], tasks: [], comments: [], dependencies: [] };
+
+  for (const [id, entity] of replay(loadEvents(at))) {
+    const { fields } = entity;
+    // Like the live lists, the snapshot leaves out what was in the trash
+    if (typeof fields.deleted_at === 'number') {
+      continue;
+    }
+    if (entity.entityType === 'epic') {
+      snapshot.epics.push(toEpic(id, entity, projectId));
+    } else if (entity.entityType === 'task' || entity.entityType === 'subtask') {
+      snapshot.tasks.push(toTask(id, entity, projectId));
+    } else if (entity.entityType === 'comment') {
+      snapshot.comments.push({
+        id,
+        taskId: text(fields, 'task_id'),
+        author: text(fields, 'author'),
+        content: text(fields, 'content'),
+        createdAt: entity.createdAt,
+        updatedAt: entity.updatedAt,
+        deletedAt: null,
+        version: entity.version,
+      });
+    } else {
+      snapshot.dependencies.push({
+        id,
+        taskId: text(fields, 'task_id'),
+        dependsOnId: text(fields, 'depends_on_id'),
+        createdAt: entity.createdAt,
+      });
+    }
+  }
+
+  return snapshot;
+}
+
+export function getTaskAt(id: string, at: Date): Task | undefined {
+  return getProjectSnapshot(at).tasks.find((task) => task.id === id);
+}
+
+export function getEpicAt(id: string, at: Date): Epic | undefined {
+  return getProjectSnapshot(at).epics.find((epic) => epic.id === id);
+}
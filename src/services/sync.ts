@@ -0,0 +1,34 @@
+import { getBackupDir, isTrekkerInitialized, openSqliteInstance, removeDbFile } from '../db/client';
+import { backupDatabase } from '../db/backup';
+import { importProject, validateExportDocument } from './import';
+import type { ImportResult } from './import';
+import { readMirror } from './mirror';
+
+export interface SyncFromFilesResult extends ImportResult {
+  backupPath: string | null;
+}
+
+/**
+ * Replaces the database with the contents of the mirror files. The existing
+ * database, if any, is backed up first. History is not part of the mirror, so
+ * the rebuilt database starts with a create event per row.
+ */
+export function syncFromFiles(cwd: string = process.cwd()): SyncFromFilesResult {
+  // Validate the files before touching the database
+  const doc = validateExportDocument(readMirror(cwd));
+
+  let backupPath: string | null = null;
+  if (isTrekkerInitialized(cwd)) {
+    backupPath = backupDatabase(openSqliteInstance(cwd), getBackupDir(cwd), 'trekker-pre-sync');
+    removeDbFile(cwd);
+  }
+
+  try {
+    return { ...importProject(doc, { cwd }), backupPath };
+  } catch (err) {
+    if (backupPath && err instanceof Error) {
+      throw new Error(`${err.message} The previous database was saved to ${backupPath}.`);
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,220 @@
+import { requireSqliteInstance } from '../db/client';
+import { withTransaction } from '../db/transaction';
+import { MS_PER_SECOND } from '../utils/constants';
+import { refreshMirror } from './mirror';
+
+export interface TagUsage {
+  name: string;
+  count: number;
+}
+
+export interface TagChangeResult {
+  tag: string;
+  tasks: number;
+}
+
+interface TagRow {
+  id: number;
+  name: string;
+}
+
+interface TaskTagsRow {
+  id: string;
+  tags: string | null;
+}
+
+function splitTags(tags: string | null): string[] {
+  if (!tags) {
+    return [];
+  }
+  return tags
+    .split(',')
+    .map((tag) => tag.trim())
+    .filter((tag) => tag !== '');
+}
+
+function sameTag(a: string, b: string): boolean {
+  return a.toLowerCase() === b.toLowerCase();
+}
+
+function findTag(name: string): TagRow | undefined {
+  return (
+    requireSqliteInstance()
+      .query<TagRow, [string]>('SELECT id, name FROM tags WHERE name = ?')
+      .get(name) ?? undefined
+  );
+}
+
+function requireTag(name: string): TagRow {
+  const tag = findTag(name);
+  if (!tag) {
+    throw new Error(`Tag not found: ${name}`);
+  }
+  return tag;
+}
+
+function validateTagName(name: string): string {
+  const trimmed = name.trim();
+  if (trimmed === '' || trimmed.includes(',')) {
+    throw new Error(`Invalid tag name: "${name}". A tag cannot be empty or contain a comma.`);
+  }
+  return trimmed;
+}
+
+/**
+ * Cleans up a comma-separated tag list before it is stored: drops blanks and
+ * duplicates, and spells each tag the way the project already does, so `Backend`
+ * and `backend ` both become the existing `backend`. An empty list is stored as null.
+ */
+export function normalizeTags(tags: string | null | undefined): string | null | undefined {
+  if (tags === undefined || tags === null) {
+    return tags;
+  }
+
+  const normalized: string[] = [];
+  for (const tag of splitTags(tags)) {
+    if (normalized.some((existing) => sameTag(existing, tag))) {
+      continue;
+    }
+    normalized.push(findTag(tag)?.name ?? tag);
+  }
+
+  if (normalized.length === 0) {
+    return null;
+  }
+  return normalized.join(',');
+}
+
+export function listTags(): TagUsage[] {
+  return requireSqliteInstance()
+    .query<TagUsage, []>(
+      `SELECT g.name, COUNT(t.id) AS count
+       FROM tags g
+       LEFT JOIN task_tags tt ON tt.tag_id = g.id
+       LEFT JOIN tasks t ON t.id = tt.task_id AND t.deleted_at IS NULL
+       GROUP BY g.id
+       ORDER BY g.name`
+    )
+    .all();
+}
+
+/**
+ * Rewrites the tags of every task carrying `tag`, trashed ones included. The update
+ * triggers record each change in the history and relink the task's tags.
+ */
+function rewriteTaskTags(tag: TagRow, rewrite: (tags: string[]) => string[]): number {
+  const sqlite = requireSqliteInstance();
+  const rows = sqlite
+    .query<TaskTagsRow, [number]>(
+      `SELECT t.id, t.tags FROM tasks t
+       JOIN task_tags tt ON tt.task_id = t.id
+       WHERE tt.tag_id = ?
+       ORDER BY t.rowid`
+    )
+    .all(tag.id);
+
+  const update = sqlite.query('UPDATE tasks SET tags = ?, updated_at = ? WHERE id = ?');
+  const now = Math.floor(Date.now() / MS_PER_SECOND);
+  for (const row of rows) {
+    const rewritten: string[] = [];
+    for (const name of rewrite(splitTags(row.tags))) {
+      if (!rewritten.some((existing) => sameTag(existing, name))) {
+        rewritten.push(name);
+      }
+    }
+    let tags: string | null = null;
+    if (rewritten.length > 0) {
+      tags = rewritten.join(',');
+    }
+    update.run(tags, now, row.id);
+  }
+  return rows.length;
+}
+
+function replaceTag(tags: string[], from: TagRow, to: string | null): string[] {
+  return tags.flatMap((name) => {
+    if (!sameTag(name, from.name)) {
+      return [name];
+    }
+    if (to === null) {
+      return [];
+    }
+    return [to];
+  });
+}
+
+/**
+ * Renames a tag on every task that carries it. Renaming onto another existing tag is
+ * refused; `mergeTags` does that on purpose.
+ */
+export function renameTag(from: string, to: string): TagChangeResult {
+  const sqlite = requireSqliteInstance();
+  const newName = validateTagName(to);
+
+  const result = withTransaction(
+    sqlite,
+    () => {
+      const tag = requireTag(from);
+      const existing = findTag(newName);
+      if (existing && existing.id !== tag.id) {
+        throw new Error(
+          `Tag already exists: ${existing.name}. Use 'trekker tag merge ${tag.name} ${existing.name}' to combine them.`
+        );
+      }
+
+      sqlite.query('UPDATE tags SET name = ? WHERE id = ?').run(newName, tag.id);
+      const tasks = rewriteTaskTags(tag, (tags) => replaceTag(tags, tag, newName));
+      return { tag: newName, tasks };
+    },
+    'immediate'
+  );
+
+  refreshMirror();
+  return result;
+}
+
+/**
+ * Moves every task tagged `source` over to `target` and removes `source`. The target
+ * tag is created if it does not exist yet.
+ */
+export function mergeTags(source: string, target: string): TagChangeResult {
+  const sqlite = requireSqliteInstance();
+  const targetName = validateTagName(target);
+
+  const result = withTransaction(
+    sqlite,
+    () => {
+      const tag = requireTag(source);
+      if (sameTag(tag.name, targetName)) {
+        throw new Error(`Cannot merge tag ${tag.name} into itself.`);
+      }
+      const name = findTag(targetName)?.name ?? targetName;
+
+      const tasks = rewriteTaskTags(tag, (tags) => replaceTag(tags, tag, name));
+      sqlite.query('DELETE FROM tags WHERE id = ?').run(tag.id);
+      return { tag: name, tasks };
+    },
+    'immediate'
+  );
+
+  refreshMirror();
+  return result;
+}
+
+export function deleteTag(name: string): TagChangeResult {
+  const sqlite = requireSqliteInstance();
+
+  const result = withTransaction(
+    sqlite,
+    () => {
+      const tag = requireTag(name);
+      const tasks = rewriteTaskTags(tag, (tags) => replaceTag(tags, tag, null));
+      sqlite.query('DELETE FROM tags WHERE id = ?').run(tag.id);
+      return { tag: tag.name, tasks };
+    },
+    'immediate'
+  );
+
+  refreshMirror();
+  return result;
+}
@@ -0,0 +1,131 @@
+import { eq } from 'drizzle-orm';
+import { getDb } from '../db/client';
+import { dependencies, tasks } from '../db/schema';
+import type { Comment, Epic, EpicStatus, Task, TaskStatus } from '../types';
+import { listComments } from './comment';
+import { getDependencies } from './dependency';
+import { getEpic } from './epic';
+import { getHistory } from './history';
+import type { HistoryEvent } from './history';
+import { getTask, listSubtasks } from './task';
+
+export interface TaskContext {
+  task: Task;
+  epic: Epic | null;
+  subtasks: Task[];
+  comments: Comment[];
+  dependsOn: { taskId: string; dependsOnId: string }[];
+  blocks: { taskId: string; dependsOnId: string }[];
+}
+
+export interface RelatedTask {
+  id: string;
+  title: string;
+  status: TaskStatus;
+}
+
+export interface TaskDetails {
+  task: Task;
+  epic: { id: string; title: string; status: EpicStatus } | null;
+  subtasks: Task[];
+  // The latest comments and history events, newest first, out of their totals
+  comments: Comment[];
+  commentCount: number;
+  dependsOn: RelatedTask[];
+  blocks: RelatedTask[];
+  history: HistoryEvent[];
+  historyCount: number;
+}
+
+export interface TaskDetailsOptions {
+  comments: number;
+  history: number;
+}
+
+export const TASK_DETAILS_DEFAULTS: TaskDetailsOptions = {
+  comments: 5,
+  history: 10,
+};
+
+// Large enough to load every subtask and comment of a task in one page
+const CONTEXT_PAGE_SIZE = 1000;
+
+/**
+ * Gathers what an agent needs to start on a task: the task, its epic, subtasks,
+ * comments and dependencies.
+ */
+export function getTaskContext(id: string): TaskContext {
+  const task = getTask(id);
+  if (!task) {
+    throw new Error(`Task not found: ${id}`);
+  }
+
+  let epic: Epic | null = null;
+  if (task.epicId) {
+    epic = getEpic(task.epicId) ?? null;
+  }
+
+  const { dependsOn, blocks } = getDependencies(id);
+
+  return {
+    task,
+    epic,
+    subtasks: listSubtasks(id, { limit: CONTEXT_PAGE_SIZE }).items,
+    comments: listComments(id, { limit: CONTEXT_PAGE_SIZE }).items,
+    dependsOn,
+    blocks,
+  };
+}
+
+/**
+ * Gathers everything `task show --full` prints: the task, a summary of its epic, its
+ * subtasks, the latest comments and history events, and the tasks it depends on or
+ * blocks with their current status.
+ */
+export function getTaskDetails(
+  id: string,
+  options: TaskDetailsOptions = TASK_DETAILS_DEFAULTS
+): TaskDetails {
+  const task = getTask(id);
+  if (!task) {
+    throw new Error(`Task not found: ${id}`);
+  }
+
+  let epic: TaskDetails['epic'] = null;
+  if (task.epicId) {
+    const found = getEpic(task.epicId);
+    if (found) {
+      epic = { id: found.id, title: found.title, status: found.status };
+    }
+  }
+
+  const db = getDb();
+  const related = { id: tasks.id, title: tasks.title, status: tasks.status };
+  const dependsOn = db
+    .select(related)
+    .from(dependencies)
+    .innerJoin(tasks, eq(tasks.id, dependencies.dependsOnId))
+    .where(eq(dependencies.taskId, id))
+    .all();
+  const blocks = db
+    .select(related)
+    .from(dependencies)
+    .innerJoin(tasks, eq(tasks.id, dependencies.taskId))
+    .where(eq(dependencies.dependsOnId, id))
+    .all();
+
+  const comments = listComments(id, { limit: options.comments });
+  const history = getHistory({ entityId: id, limit: options.history });
+
+  return {
+    task,
+    epic,
+    subtasks: listSubtasks(id, { limit: CONTEXT_PAGE_SIZE }).items,
+    comments: comments.items,
+    commentCount: comments.total,
+    dependsOn,
+    blocks,
+    history: history.events,
+    historyCount: history.total,
+  };
+}
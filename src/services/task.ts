@@ -1,6 +1,7 @@
-import { eq, and, isNull, desc, sql } from 'drizzle-orm';
-import { getDb } from '../db/client';
-import { tasks, projects, epics } from '../db/schema';
+import { eq, and, inArray, isNull, desc, sql } from 'drizzle-orm';
+import { getDb, requireSqliteInstance } from '../db/client';
+import { withTransaction } from '../db/transaction';
+import { tasks, projects, epics, tags, taskTags } from '../db/schema';
 import { generateId } from '../utils/id-generator';
 import type {
   Task,
@@ -10,6 +11,15 @@ import type {
   PaginatedResponse,
 } from '../types';
 import { DEFAULT_PRIORITY, DEFAULT_TASK_STATUS, PAGINATION_DEFAULTS } from '../types';
+import { validateSchedule } from '../utils/validator';
+import { refreshMirror } from './mirror';
+import { normalizeTags } from './tag';
+import { applyFieldChanges } from './field';
+import { assertTransition } from './workflow';
+import { assertNotTrashed, isTrashEnabled, trashTask } from './trash';
+import type { DeleteOutcome } from './trash';
+import { assertUnchanged } from './conflict';
+import type { WriteExpectation } from './conflict';
 
 export function createTask(input: CreateTaskInput): Task {
   const db = getDb();
@@ -25,6 +35,7 @@ export function createTask(input: CreateTaskInput): Task {
     if (!epic) {
       throw new Error(`Epic not found: ${input.epicId}`);
     }
+    assertNotTrashed('Epic', epic);
   }
 
   // Validate parent task exists if provided
@@ -33,8 +44,13 @@ export function createTask(input: CreateTaskInput): Task {
     if (!parent) {
       throw new Error(`Parent task not found: ${input.parentTaskId}`);
     }
+    assertNotTrashed('Task', parent);
   }
 
+  const startAt = input.startAt ?? null;
+  const dueAt = input.dueAt ?? null;
+  validateSchedule(startAt, dueAt);
+
   const id = generateId('task');
   const now = new Date();
 
@@ -47,13 +63,22 @@ export function createTask(input: CreateTaskInput): Task {
     description: input.description ?? null,
     priority: input.priority ?? DEFAULT_PRIORITY,
     status: input.status ?? DEFAULT_TASK_STATUS,
-    tags: input.tags ?? null,
+    tags: normalizeTags(input.tags) ?? null,
+    assignee: input.assignee ?? null,
+    claimExpiresAt: null,
+    fields: applyFieldChanges(null, input.fields ?? {}),
+    startAt,
+    dueAt,
+    estimate: input.estimate ?? null,
     createdAt: now,
     updatedAt: now,
+    deletedAt: null,
+    version: 1,
   };
 
   db.insert(tasks).values(task).run();
 
+  refreshMirror();
   return task;
 }
 
@@ -65,7 +90,10 @@ export function getTask(id: string): Task | undefined {
 export function listTasks(options?: {
   status?: TaskStatus;
   epicId?: string;
+  tags?: string[];
   parentTaskId?: string | null;
+  assignee?: string;
+  includeDeleted?: boolean;
   limit?: number;
   page?: number;
 }): PaginatedResponse<Task> {
@@ -85,6 +113,20 @@ export function listTasks(options?: {
     conditions.push(eq(tasks.epicId, options.epicId));
   }
 
+  // Every given tag must be present
+  for (const tag of options?.tags ?? []) {
+    conditions.push(
+      inArray(
+        tasks.id,
+        db
+          .select({ taskId: taskTags.taskId })
+          .from(taskTags)
+          .innerJoin(tags, eq(tags.id, taskTags.tagId))
+          .where(eq(tags.name, tag))
+      )
+    );
+  }
+
   // If parentTaskId is explicitly null, list only top-level tasks
   if (options?.parentTaskId === null) {
     conditions.push(isNull(tasks.parentTaskId));
@@ -92,6 +134,14 @@ export function listTasks(options?: {
     conditions.push(eq(tasks.parentTaskId, options.parentTaskId));
   }
 
+  if (options?.assignee) {
+    conditions.push(eq(tasks.assignee, options.assignee));
+  }
+
+  if (!options?.includeDeleted) {
+    conditions.push(isNull(tasks.deletedAt));
+  }
+
   let where;
   if (conditions.length > 0) {
     where = and(...conditions);
@@ -119,6 +169,7 @@ export function listTasks(options?: {
 export function listSubtasks(
   parentTaskId: string,
   options?: {
+    includeDeleted?: boolean;
     limit?: number;
     page?: number;
   }
@@ -129,7 +180,11 @@ export function listSubtasks(
   const page = options?.page ?? PAGINATION_DEFAULTS.DEFAULT_PAGE;
   const offset = (page - 1) * limit;
 
-  const where = eq(tasks.parentTaskId, parentTaskId);
+  const conditions = [eq(tasks.parentTaskId, parentTaskId)];
+  if (!options?.includeDeleted) {
+    conditions.push(isNull(tasks.deletedAt));
+  }
+  const where = and(...conditions);
 
   const countRow = db
     .select({ count: sql<number>`count(*)` })
@@ -150,55 +205,92 @@ export function listSubtasks(
   return { total, page, limit, items };
 }
 
-export function updateTask(id: string, input: UpdateTaskInput): Task {
+export function updateTask(id: string, input: UpdateTaskInput, expected?: WriteExpectation): Task {
   const db = getDb();
 
-  const existing = getTask(id);
-  if (!existing) {
-    throw new Error(`Task not found: ${id}`);
-  }
-
-  // Validate epic exists if provided
-  if (input.epicId) {
-    const epic = db.select().from(epics).where(eq(epics.id, input.epicId)).get();
-    if (!epic) {
-      throw new Error(`Epic not found: ${input.epicId}`);
-    }
-  }
-
-  const updates: Record<string, unknown> = {
-    updatedAt: new Date(),
-  };
-
-  if (input.title !== undefined) {
-    updates.title = input.title;
-  }
-  if (input.description !== undefined) {
-    updates.description = input.description;
-  }
-  if (input.priority !== undefined) {
-    updates.priority = input.priority;
-  }
-  if (input.status !== undefined) {
-    updates.status = input.status;
-  }
-  if (input.tags !== undefined) {
-    updates.tags = input.tags;
-  }
-  if (input.epicId !== undefined) {
-    updates.epicId = input.epicId;
-  }
-
-  db.update(tasks).set(updates).where(eq(tasks.id, id)).run();
-
-  const updated = getTask(id);
-  if (!updated) {
-    throw new Error(`Task not found after update: ${id}`);
-  }
+  // The precondition check and the write share one transaction so nothing can slip in between
+  const updated = withTransaction(
+    requireSqliteInstance(),
+    () => {
+      const existing = getTask(id);
+      if (!existing) {
+        throw new Error(`Task not found: ${id}`);
+      }
+      assertNotTrashed('Task', existing);
+      assertUnchanged('Task', existing, expected);
+
+      // Validate epic exists if provided
+      if (input.epicId) {
+        const epic = db.select().from(epics).where(eq(epics.id, input.epicId)).get();
+        if (!epic) {
+          throw new Error(`Epic not found: ${input.epicId}`);
+        }
+        assertNotTrashed('Epic', epic);
+      }
+
+      const updates: Record<string, unknown> = {
+        updatedAt: new Date(),
+      };
+
+      if (input.title !== undefined) {
+        updates.title = input.title;
+      }
+      if (input.description !== undefined) {
+        updates.description = input.description;
+      }
+      if (input.priority !== undefined) {
+        updates.priority = input.priority;
+      }
+      if (input.status !== undefined) {
+        assertTransition(id, existing.status, input.status);
+        updates.status = input.status;
+      }
+      if (input.tags !== undefined) {
+        updates.tags = normalizeTags(input.tags);
+      }
+      if (input.epicId !== undefined) {
+        updates.epicId = input.epicId;
+      }
+      if (input.fields !== undefined) {
+        updates.fields = applyFieldChanges(existing.fields, input.fields);
+      }
+      let { startAt, dueAt } = existing;
+      if (input.startAt !== undefined) {
+        startAt = input.startAt;
+        updates.startAt = startAt;
+      }
+      if (input.dueAt !== undefined) {
+        dueAt = input.dueAt;
+        updates.dueAt = dueAt;
+      }
+      if (input.startAt !== undefined || input.dueAt !== undefined) {
+        validateSchedule(startAt, dueAt);
+      }
+      if (input.estimate !== undefined) {
+        updates.estimate = input.estimate;
+      }
+      // Assigning by hand replaces any agent's claim
+      if (input.assignee !== undefined) {
+        updates.assignee = input.assignee;
+        updates.claimExpiresAt = null;
+      }
+
+      db.update(tasks).set(updates).where(eq(tasks.id, id)).run();
+
+      const row = getTask(id);
+      if (!row) {
+        throw new Error(`Task not found after update: ${id}`);
+      }
+      return row;
+    },
+    'immediate'
+  );
+
+  refreshMirror();
   return updated;
 }
 
-export function deleteTask(id: string): void {
+export function deleteTask(id: string): DeleteOutcome {
   const db = getDb();
 
   const existing = getTask(id);
@@ -206,6 +298,18 @@ export function deleteTask(id: string): void {
     throw new Error(`Task not found: ${id}`);
   }
 
-  // Note: Subtasks and comments will be cascade deleted by SQLite
+  if (isTrashEnabled()) {
+    if (existing.deletedAt) {
+      throw new Error(`Task is already in the trash: ${id}`);
+    }
+    trashTask(id);
+    refreshMirror();
+    return 'trashed';
+  }
+
+  // Subtasks, comments and dependencies are cascade deleted by SQLite
   db.delete(tasks).where(eq(tasks.id, id)).run();
+
+  refreshMirror();
+  return 'deleted';
 }
@@ -0,0 +1,378 @@
+import type { Database } from 'bun:sqlite';
+import { eq } from 'drizzle-orm';
+import { getDb, requireSqliteInstance } from '../db/client';
+import { projectConfig } from '../db/schema';
+import { withTransaction } from '../db/transaction';
+import { MS_PER_SECOND } from '../utils/constants';
+import { refreshMirror } from './mirror';
+
+// Stored alongside the ID prefixes, but not a prefix, so `config` does not list it
+const DELETE_MODE_KEY = 'delete_mode';
+const DELETE_MODE_TRASH = 'trash';
+const DELETE_MODE_PERMANENT = 'permanent';
+
+export type DeleteOutcome = 'trashed' | 'deleted';
+
+export type TrashItemType = 'epic' | 'task' | 'subtask' | 'comment';
+
+export interface TrashItem {
+  type: TrashItemType;
+  id: string;
+  title: string;
+  parentId: string | null;
+  deletedAt: Date;
+}
+
+export interface TrashListResponse {
+  enabled: boolean;
+  items: TrashItem[];
+}
+
+export interface TrashRestoreResult {
+  id: string;
+  restored: number;
+}
+
+export interface TrashPurgeResult {
+  epics: number;
+  tasks: number;
+  comments: number;
+}
+
+interface TrashRow {
+  type: TrashItemType;
+  id: string;
+  title: string;
+  parent_id: string | null;
+  deleted_at: number;
+}
+
+interface TrashedRef {
+  deleted_at: number | null;
+  parent_deleted_at: number | null;
+}
+
+interface ParentRow {
+  parent_task_id: string | null;
+  deleted_at: number | null;
+}
+
+interface CountRow {
+  total: number;
+}
+
+interface IdRow {
+  id: string;
+}
+
+interface MaxIdRow {
+  max_id: number | null;
+}
+
+const TRASH_QUERY = `
+  SELECT 'epic' as type, id, title, NULL as parent_id, deleted_at FROM epics WHERE deleted_at IS NOT NULL
+  UNION ALL
+  SELECT IIF(parent_task_id IS NULL, 'task', 'subtask') as type, id, title,
+    COALESCE(parent_task_id, epic_id) as parent_id, deleted_at
+  FROM tasks WHERE deleted_at IS NOT NULL
+  UNION ALL
+  SELECT 'comment' as type, id, content as title, task_id as parent_id, deleted_at FROM comments WHERE deleted_at IS NOT NULL
+`;
+
+// A task and every subtask beneath it
+const TASK_TREE = `
+  WITH RECURSIVE tree(id) AS (
+    SELECT ?1
+    UNION ALL
+    SELECT tasks.id FROM tasks JOIN tree ON tasks.parent_task_id = tree.id
+  )
+`;
+
+function nowSeconds(): number {
+  return Math.floor(Date.now() / MS_PER_SECOND);
+}
+
+/**
+ * Runs `cascade` once the item itself has changed and links the history events it
+ * records to the item's own, so undo and restore take them along with it.
+ */
+function linkCascade(sqlite: Database, cascade: () => void): void {
+  const parent = sqlite.query<MaxIdRow, []>('SELECT MAX(id) AS max_id FROM events').get();
+  cascade();
+  if (parent?.max_id) {
+    sqlite
+      .query('UPDATE events SET cascade_of = ?1 WHERE id > ?1 AND cascade_of IS NULL')
+      .run(parent.max_id);
+  }
+}
+
+export function isTrashEnabled(): boolean {
+  const row = getDb()
+    .select()
+    .from(projectConfig)
+    .where(eq(projectConfig.key, DELETE_MODE_KEY))
+    .get();
+  return row?.value === DELETE_MODE_TRASH;
+}
+
+export function setTrashEnabled(enabled: boolean): void {
+  let value = DELETE_MODE_PERMANENT;
+  if (enabled) {
+    value = DELETE_MODE_TRASH;
+  }
+
+  getDb()
+    .insert(projectConfig)
+    .values({ key: DELETE_MODE_KEY, value })
+    .onConflictDoUpdate({ target: projectConfig.key, set: { value } })
+    .run();
+
+  refreshMirror();
+}
+
+// The topmost trashed task at or above `taskId`, whose restore brings back what lies beneath
+function findTrashedAncestor(sqlite: Database, taskId: string | null): string | null {
+  const parentOf = sqlite.query<ParentRow, [string]>(
+    'SELECT parent_task_id, deleted_at FROM tasks WHERE id = ?'
+  );
+
+  let found: string | null = null;
+  let current = taskId;
+  while (current !== null) {
+    const row = parentOf.get(current);
+    if (!row?.deleted_at) {
+      break;
+    }
+    found = current;
+    current = row.parent_task_id;
+  }
+  return found;
+}
+
+/**
+ * Throws when an item is in the trash. For a subtask or comment trashed along with
+ * its task, the message names the task, since only restoring that brings it back.
+ */
+export function assertNotTrashed(
+  entityType: string,
+  item: { id: string; deletedAt: Date | null; taskId?: string; parentTaskId?: string | null }
+): void {
+  if (!item.deletedAt) {
+    return;
+  }
+
+  const parentId = item.taskId ?? item.parentTaskId ?? null;
+  const restoreId = findTrashedAncestor(requireSqliteInstance(), parentId) ?? item.id;
+  let because = '';
+  if (restoreId !== item.id) {
+    because = ` because ${restoreId} is`;
+  }
+  throw new Error(
+    `${entityType} ${item.id} is in the trash${because}. Run 'trekker trash restore ${restoreId}' first.`
+  );
+}
+
+/**
+ * Moves a task to the trash together with its subtasks and their comments. They
+ * share one deleted_at so that restoring the task brings back exactly this group.
+ */
+export function trashTask(id: string): void {
+  const sqlite = requireSqliteInstance();
+  const now = nowSeconds();
+
+  withTransaction(sqlite, () => {
+    sqlite.query('UPDATE tasks SET deleted_at = ?2, updated_at = ?2 WHERE id = ?1').run(id, now);
+    linkCascade(sqlite, () => {
+      sqlite
+        .query(
+          `${TASK_TREE} UPDATE comments SET deleted_at = ?2, updated_at = ?2
+           WHERE task_id IN tree AND deleted_at IS NULL`
+        )
+        .run(id, now);
+      sqlite
+        .query(
+          `${TASK_TREE} UPDATE tasks SET deleted_at = ?2, updated_at = ?2
+           WHERE id IN tree AND deleted_at IS NULL`
+        )
+        .run(id, now);
+    });
+  });
+}
+
+// Tasks in a trashed epic stay where they are; they are detached only if it is purged
+export function trashEpic(id: string): void {
+  const now = nowSeconds();
+  requireSqliteInstance()
+    .query('UPDATE epics SET deleted_at = ?, updated_at = ? WHERE id = ?')
+    .run(now, now, id);
+}
+
+export function trashComment(id: string): void {
+  const now = nowSeconds();
+  requireSqliteInstance()
+    .query('UPDATE comments SET deleted_at = ?, updated_at = ? WHERE id = ?')
+    .run(now, now, id);
+}
+
+export function listTrash(): TrashListResponse {
+  const rows = requireSqliteInstance()
+    .query<TrashRow, []>(`SELECT * FROM (${TRASH_QUERY}) ORDER BY deleted_at DESC, id`)
+    .all();
+
+  return {
+    enabled: isTrashEnabled(),
+    items: rows.map((row) => ({
+      type: row.type,
+      id: row.id,
+      title: row.title,
+      parentId: row.parent_id,
+      deletedAt: new Date(row.deleted_at * MS_PER_SECOND),
+    })),
+  };
+}
+
+function findTrashed(sqlite: Database, id: string): TrashRow {
+  const row = sqlite
+    .query<TrashRow, [string]>(`SELECT * FROM (${TRASH_QUERY}) WHERE id = ?`)
+    .get(id);
+  if (!row) {
+    throw new Error(`Not in the trash: ${id}`);
+  }
+  return row;
+}
+
+export function restoreFromTrash(id: string): TrashRestoreResult {
+  const sqlite = requireSqliteInstance();
+
+  const restored = withTransaction(sqlite, () => {
+    const item = findTrashed(sqlite, id);
+    const now = nowSeconds();
+
+    // Restored rows are counted from RETURNING, since the changes SQLite reports
+    // include the rows the history triggers write
+    if (item.type === 'epic') {
+      return sqlite
+        .query<
+          IdRow,
+          [number, string]
+        >('UPDATE epics SET deleted_at = NULL, updated_at = ? WHERE id = ? RETURNING id')
+        .all(now, id).length;
+    }
+
+    // A subtask or comment trashed along with its task comes back with the task
+    let parentQuery = 'SELECT deleted_at, NULL as parent_deleted_at FROM tasks WHERE id = ?';
+    if (item.type === 'subtask') {
+      parentQuery = `SELECT t.deleted_at, p.deleted_at as parent_deleted_at
+        FROM tasks t JOIN tasks p ON p.id = t.parent_task_id WHERE t.id = ?`;
+    } else if (item.type === 'comment') {
+      parentQuery = `SELECT c.deleted_at, t.deleted_at as parent_deleted_at
+        FROM comments c JOIN tasks t ON t.id = c.task_id WHERE c.id = ?`;
+    }
+    const ref = sqlite.query<TrashedRef, [string]>(parentQuery).get(id);
+    if (ref?.parent_deleted_at && item.parent_id) {
+      throw new Error(
+        `${id} is in the trash because ${item.parent_id} is. Restore ${item.parent_id} instead.`
+      );
+    }
+
+    if (item.type === 'comment') {
+      return sqlite
+        .query<
+          IdRow,
+          [number, string]
+        >('UPDATE comments SET deleted_at = NULL, updated_at = ? WHERE id = ? RETURNING id')
+        .all(now, id).length;
+    }
+
+    sqlite.query('UPDATE tasks SET deleted_at = NULL, updated_at = ?2 WHERE id = ?1').run(id, now);
+    let restored = 1;
+    linkCascade(sqlite, () => {
+      restored += sqlite
+        .query<IdRow, [string, number, number]>(
+          `${TASK_TREE} UPDATE comments SET deleted_at = NULL, updated_at = ?2
+           WHERE task_id IN tree AND deleted_at = ?3 RETURNING id`
+        )
+        .all(id, now, item.deleted_at).length;
+      restored += sqlite
+        .query<IdRow, [string, number, number]>(
+          `${TASK_TREE} UPDATE tasks SET deleted_at = NULL, updated_at = ?2
+           WHERE id IN tree AND deleted_at = ?3 RETURNING id`
+        )
+        .all(id, now, item.deleted_at).length;
+    });
+    return restored;
+  });
+
+  refreshMirror();
+  return { id, restored };
+}
+
+function countTrashed(sqlite: Database, table: string, cutoff: number): number {
+  const row = sqlite
+    .query<
+      CountRow,
+      [number]
+    >(`SELECT COUNT(*) as total FROM ${table} WHERE deleted_at IS NOT NULL AND deleted_at <= ?`)
+    .get(cutoff);
+  return row?.total ?? 0;
+}
+
+/**
+ * Permanently deletes trashed items, either one item (and what was trashed with it)
+ * or everything trashed at or before `olderThan`. Deleting goes through the regular
+ * cascades, so the history log still records each removal.
+ */
+export function purgeTrash(options?: { id?: string; olderThan?: Date }): TrashPurgeResult {
+  const sqlite = requireSqliteInstance();
+
+  const result = withTransaction(
+    sqlite,
+    () => {
+      if (options?.id) {
+        const item = findTrashed(sqlite, options.id);
+        const counts: TrashPurgeResult = { epics: 0, tasks: 0, comments: 0 };
+        if (item.type === 'epic') {
+          sqlite.query('DELETE FROM epics WHERE id = ?').run(item.id);
+          counts.epics = 1;
+        } else if (item.type === 'comment') {
+          sqlite.query('DELETE FROM comments WHERE id = ?').run(item.id);
+          counts.comments = 1;
+        } else {
+          counts.comments =
+            sqlite
+              .query<
+                CountRow,
+                [string]
+              >(`${TASK_TREE} SELECT COUNT(*) as total FROM comments WHERE task_id IN tree`)
+              .get(item.id)?.total ?? 0;
+          counts.tasks =
+            sqlite
+              .query<CountRow, [string]>(`${TASK_TREE} SELECT COUNT(*) as total FROM tree`)
+              .get(item.id)?.total ?? 0;
+          sqlite.query('DELETE FROM tasks WHERE id = ?').run(item.id);
+        }
+        return counts;
+      }
+
+      let cutoff = nowSeconds();
+      if (options?.olderThan) {
+        cutoff = Math.floor(options.olderThan.getTime() / MS_PER_SECOND);
+      }
+      const counts: TrashPurgeResult = {
+        epics: countTrashed(sqlite, 'epics', cutoff),
+        tasks: countTrashed(sqlite, 'tasks', cutoff),
+        comments: countTrashed(sqlite, 'comments', cutoff),
+      };
+      for (const table of ['comments', 'tasks', 'epics']) {
+        sqlite
+          .query(`DELETE FROM ${table} WHERE deleted_at IS NOT NULL AND deleted_at <= ?`)
+          .run(cutoff);
+      }
+      return counts;
+    },
+    'immediate'
+  );
+
+  refreshMirror();
+  return result;
+}
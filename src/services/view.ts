@@ -0,0 +1,90 @@
+import { asc, eq } from 'drizzle-orm';
+import { getDb } from '../db/client';
+import { savedViews } from '../db/schema';
+import type { SavedView, SaveViewInput } from '../types';
+import { listAll, parseSort } from './list';
+import type { ListResponse } from './list';
+import { refreshMirror } from './mirror';
+import { parseQuery } from './query';
+
+const VIEW_NAME_PATTERN = /^[A-Za-z0-9][\w-]*$/;
+
+function validateViewName(name: string): void {
+  if (!VIEW_NAME_PATTERN.test(name)) {
+    throw new Error(
+      `Invalid view name: ${name}. Use letters, numbers, - and _, starting with a letter or number.`
+    );
+  }
+}
+
+export function getView(name: string): SavedView | undefined {
+  const db = getDb();
+  return db.select().from(savedViews).where(eq(savedViews.name, name)).get();
+}
+
+function requireView(name: string): SavedView {
+  const view = getView(name);
+  if (!view) {
+    throw new Error(`View not found: ${name}`);
+  }
+  return view;
+}
+
+export function listViews(): SavedView[] {
+  const db = getDb();
+  return db.select().from(savedViews).orderBy(asc(savedViews.name)).all();
+}
+
+/**
+ * Saves a list query and sort order under a name, replacing any view already saved
+ * under it. Both are checked now so that a broken view cannot be saved.
+ */
+export function saveView(name: string, input: SaveViewInput): SavedView {
+  validateViewName(name);
+  parseQuery(input.query);
+  parseSort(input.sort);
+
+  const db = getDb();
+  const now = new Date();
+  const existing = getView(name);
+
+  const view: SavedView = {
+    name,
+    query: input.query,
+    sort: input.sort,
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+
+  if (existing) {
+    db.update(savedViews)
+      .set({ query: view.query, sort: view.sort, updatedAt: now })
+      .where(eq(savedViews.name, name))
+      .run();
+  } else {
+    db.insert(savedViews).values(view).run();
+  }
+
+  refreshMirror();
+  return view;
+}
+
+export function deleteView(name: string): void {
+  requireView(name);
+
+  const db = getDb();
+  db.delete(savedViews).where(eq(savedViews.name, name)).run();
+
+  refreshMirror();
+}
+
+// Relative dates in the query (`updated>7d`) are resolved each time the view runs
+export function runView(name: string, options?: { limit?: number; page?: number }): ListResponse {
+  const view = requireView(name);
+  return listAll({
+    query: view.query,
+    sort: parseSort(view.sort),
+    limit: options?.limit,
+    page: options?.page,
+  });
+}
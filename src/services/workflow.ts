@@ -0,0 +1,252 @@
+import { asc, eq } from 'drizzle-orm';
+import { getDb, requireSqliteInstance } from '../db/client';
+import { withTransaction } from '../db/transaction';
+import { workflowStatuses } from '../db/schema';
+import { STATUS_CATEGORIES, TASK_STATUSES } from '../types';
+import type { StatusCategory, TaskStatus, WorkflowStatus, WorkflowStatusInput } from '../types';
+import { normalizeStatus } from '../utils/validator';
+import { refreshMirror } from './mirror';
+
+interface TaskIdRow {
+  id: string;
+}
+
+// Same shape as built-in statuses, so custom ones work as query values (`status:in_review`)
+const STATUS_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+const STATUS_CATEGORY_SET: ReadonlySet<string> = new Set(STATUS_CATEGORIES);
+const BUILTIN_STATUS_SET: ReadonlySet<string> = new Set(TASK_STATUSES);
+
+function isStatusCategory(category: string): category is StatusCategory {
+  return STATUS_CATEGORY_SET.has(category);
+}
+
+export function parseStatusCategory(category: string): StatusCategory {
+  const normalized = category.toLowerCase();
+  if (!isStatusCategory(normalized)) {
+    throw new Error(
+      `Invalid status category: ${category}. Valid categories: ${STATUS_CATEGORIES.join(', ')}`
+    );
+  }
+  return normalized;
+}
+
+/**
+ * Built-in statuses cannot be removed or change category: trekker itself sets them
+ * (`todo` on new tasks, `in_progress` from `next`, `archived` from `epic complete`).
+ */
+export function isBuiltinStatus(name: string): boolean {
+  return BUILTIN_STATUS_SET.has(name);
+}
+
+export function listStatuses(): WorkflowStatus[] {
+  const db = getDb();
+  return db.select().from(workflowStatuses).orderBy(asc(workflowStatuses.position)).all();
+}
+
+export function getStatus(name: string): WorkflowStatus | undefined {
+  const db = getDb();
+  return db.select().from(workflowStatuses).where(eq(workflowStatuses.name, name)).get();
+}
+
+function requireStatus(name: string): WorkflowStatus {
+  const status = getStatus(name);
+  if (!status) {
+    throw new Error(`Status not found: ${name}`);
+  }
+  return status;
+}
+
+/**
+ * Parses a task status given on the command line or in a batch, accepting any status
+ * of the project's workflow.
+ */
+export function parseTaskStatus(status: string | undefined): TaskStatus | undefined {
+  if (!status) {
+    return undefined;
+  }
+
+  const normalizedStatus = normalizeStatus(status);
+  if (!getStatus(normalizedStatus)) {
+    const names = listStatuses().map((s) => s.name);
+    throw new Error(`Invalid task status: ${status}. Valid values: ${names.join(', ')}`);
+  }
+  return normalizedStatus;
+}
+
+/**
+ * The SQL for the statuses of a category, for use as `status IN (...)`.
+ */
+export function statusesInCategorySql(category: StatusCategory): string {
+  return `(SELECT name FROM workflow_statuses WHERE category = '${category}')`;
+}
+
+/**
+ * Throws unless the workflow lets a task move from one status to another. Staying in
+ * the same status is always allowed, as is any move from a status without transitions.
+ */
+export function assertTransition(taskId: string, from: TaskStatus, to: TaskStatus): void {
+  if (from === to) {
+    return;
+  }
+  const transitions = getStatus(from)?.transitions;
+  if (!transitions || transitions.includes(to)) {
+    return;
+  }
+
+  let allowed = 'no other status';
+  if (transitions.length > 0) {
+    allowed = transitions.join(', ');
+  }
+  throw new Error(`Cannot move ${taskId} from ${from} to ${to}. Allowed from ${from}: ${allowed}.`);
+}
+
+/**
+ * The statuses the workflow lets a task move to `to` from, including `to` itself.
+ */
+export function statusesAllowedTo(to: TaskStatus): TaskStatus[] {
+  return listStatuses()
+    .filter(
+      (status) => status.name === to || !status.transitions || status.transitions.includes(to)
+    )
+    .map((status) => status.name);
+}
+
+function resolveTransitions(name: string, transitions: string[]): string[] {
+  const resolved = new Set<string>();
+  for (const target of transitions.filter((t) => t !== '')) {
+    const normalized = normalizeStatus(target);
+    requireStatus(normalized);
+    if (normalized !== name) {
+      resolved.add(normalized);
+    }
+  }
+  return [...resolved];
+}
+
+/**
+ * Adds a task status to the workflow. Its transitions may only name existing statuses.
+ */
+export function addStatus(
+  name: string,
+  input: WorkflowStatusInput & { category: StatusCategory }
+): WorkflowStatus {
+  const normalized = normalizeStatus(name);
+  if (!STATUS_NAME_PATTERN.test(normalized)) {
+    throw new Error(
+      `Invalid status name: ${name}. Use lowercase letters, numbers and _, starting with a letter.`
+    );
+  }
+
+  const db = getDb();
+  const now = new Date();
+
+  const status = withTransaction(
+    requireSqliteInstance(),
+    () => {
+      if (getStatus(normalized)) {
+        throw new Error(`Status already exists: ${normalized}`);
+      }
+
+      let transitions: string[] | null = null;
+      if (input.transitions) {
+        transitions = resolveTransitions(normalized, input.transitions);
+      }
+      const last = listStatuses().at(-1);
+      const added: WorkflowStatus = {
+        name: normalized,
+        category: input.category,
+        transitions,
+        position: (last?.position ?? -1) + 1,
+        createdAt: now,
+        updatedAt: now,
+      };
+      db.insert(workflowStatuses).values(added).run();
+      return added;
+    },
+    'immediate'
+  );
+
+  refreshMirror();
+  return status;
+}
+
+/**
+ * Changes the category or the allowed transitions of a status.
+ */
+export function updateStatus(name: string, input: WorkflowStatusInput): WorkflowStatus {
+  const normalized = normalizeStatus(name);
+  const db = getDb();
+
+  const status = withTransaction(
+    requireSqliteInstance(),
+    () => {
+      const existing = requireStatus(normalized);
+      const updates: Partial<WorkflowStatus> = { updatedAt: new Date() };
+
+      if (input.category !== undefined && input.category !== existing.category) {
+        if (isBuiltinStatus(normalized)) {
+          throw new Error(`Cannot change the category of built-in status ${normalized}.`);
+        }
+        updates.category = input.category;
+      }
+      if (input.transitions === null) {
+        updates.transitions = null;
+      } else if (input.transitions !== undefined) {
+        updates.transitions = resolveTransitions(normalized, input.transitions);
+      }
+
+      db.update(workflowStatuses).set(updates).where(eq(workflowStatuses.name, normalized)).run();
+      return requireStatus(normalized);
+    },
+    'immediate'
+  );
+
+  refreshMirror();
+  return status;
+}
+
+/**
+ * Removes a status the project added. Refused while tasks (including trashed ones)
+ * have it or other statuses list it as a transition.
+ */
+export function removeStatus(name: string): WorkflowStatus {
+  const normalized = normalizeStatus(name);
+  const sqlite = requireSqliteInstance();
+
+  const status = withTransaction(
+    sqlite,
+    () => {
+      const existing = requireStatus(normalized);
+      if (isBuiltinStatus(normalized)) {
+        throw new Error(`Cannot remove built-in status ${normalized}.`);
+      }
+
+      const taskIds = sqlite
+        .query<TaskIdRow, [string]>('SELECT id FROM tasks WHERE status = ? ORDER BY rowid')
+        .all(normalized)
+        .map((row) => row.id);
+      if (taskIds.length > 0) {
+        throw new Error(
+          `Cannot remove status ${normalized}: ${taskIds.join(', ')} still have it. Move them to another status first.`
+        );
+      }
+
+      const sources = listStatuses()
+        .filter((s) => s.transitions?.includes(normalized))
+        .map((s) => s.name);
+      if (sources.length > 0) {
+        throw new Error(
+          `Cannot remove status ${normalized}: ${sources.join(', ')} can move to it. Change their transitions first.`
+        );
+      }
+
+      sqlite.query('DELETE FROM workflow_statuses WHERE name = ?').run(normalized);
+      return existing;
+    },
+    'immediate'
+  );
+
+  refreshMirror();
+  return status;
+}
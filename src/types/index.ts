@@ -1,12 +1,45 @@
 // Status types
+// The task statuses every project starts with; its workflow can add more
 export const TASK_STATUSES = ['todo', 'in_progress', 'completed', 'wont_fix', 'archived'] as const;
 
-export type TaskStatus = (typeof TASK_STATUSES)[number];
+export type BuiltinTaskStatus = (typeof TASK_STATUSES)[number];
+
+// A status of the project's workflow: a built-in one or one the project added
+export type TaskStatus = string;
 
 export const EPIC_STATUSES = ['todo', 'in_progress', 'completed', 'archived'] as const;
 
 export type EpicStatus = (typeof EPIC_STATUSES)[number];
 
+// What a status means to trekker: `ready` picks todo tasks, and done tasks no longer block
+export const STATUS_CATEGORIES = ['todo', 'active', 'done'] as const;
+
+export type StatusCategory = (typeof STATUS_CATEGORIES)[number];
+
+export const BUILTIN_STATUS_CATEGORIES: Readonly<Record<BuiltinTaskStatus, StatusCategory>> = {
+  todo: 'todo',
+  in_progress: 'active',
+  completed: 'done',
+  wont_fix: 'done',
+  archived: 'done',
+};
+
+export interface WorkflowStatus {
+  name: string;
+  category: StatusCategory;
+  // The statuses a task may move to from this one; null allows any
+  transitions: string[] | null;
+  position: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface WorkflowStatusInput {
+  category?: StatusCategory;
+  // Replaces the allowed transitions; null allows any
+  transitions?: string[] | null;
+}
+
 // Priority type (0-5, where 0 is highest priority)
 export type Priority = 0 | 1 | 2 | 3 | 4 | 5;
 
@@ -32,7 +65,16 @@ export interface PaginatedResponse<T> {
 }
 
 // Valid sort fields for list operations
-export const VALID_SORT_FIELDS = ['created', 'updated', 'title', 'priority', 'status'] as const;
+export const VALID_SORT_FIELDS = [
+  'created',
+  'updated',
+  'title',
+  'priority',
+  'status',
+  'start',
+  'due',
+  'estimate',
+] as const;
 
 // Valid entity types for list/search operations
 export const LIST_ENTITY_TYPES = ['epic', 'task', 'subtask'] as const;
@@ -41,6 +83,32 @@ export const SEARCH_ENTITY_TYPES = ['epic', 'task', 'subtask', 'comment'] as con
 export type ListEntityType = (typeof LIST_ENTITY_TYPES)[number];
 export type SearchEntityType = (typeof SEARCH_ENTITY_TYPES)[number];
 
+// Custom fields
+export const CUSTOM_FIELD_TYPES = ['string', 'number', 'date', 'enum'] as const;
+
+export type CustomFieldType = (typeof CUSTOM_FIELD_TYPES)[number];
+
+// Values are stored as given, except numbers; dates are YYYY-MM-DD strings
+export type CustomFieldValue = string | number;
+
+export type CustomFieldValues = Record<string, CustomFieldValue>;
+
+// Values to set on an epic or task, by field name; null clears a field
+export type CustomFieldChanges = Record<string, CustomFieldValue | null>;
+
+export interface CustomField {
+  name: string;
+  type: CustomFieldType;
+  allowedValues: string[] | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface DefineFieldInput {
+  type: CustomFieldType;
+  allowedValues?: string[];
+}
+
 // Entity types
 export interface Epic {
   id: string;
@@ -49,8 +117,13 @@ export interface Epic {
   description: string | null;
   status: EpicStatus;
   priority: Priority;
+  fields: CustomFieldValues | null;
+  startAt: Date | null;
+  dueAt: Date | null;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt: Date | null;
+  version: number;
 }
 
 export interface Task {
@@ -63,8 +136,16 @@ export interface Task {
   priority: Priority;
   status: TaskStatus;
   tags: string | null;
+  assignee: string | null;
+  claimExpiresAt: Date | null;
+  fields: CustomFieldValues | null;
+  startAt: Date | null;
+  dueAt: Date | null;
+  estimate: number | null;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt: Date | null;
+  version: number;
 }
 
 export interface Comment {
@@ -74,6 +155,24 @@ export interface Comment {
   content: string;
   createdAt: Date;
   updatedAt: Date;
+  deletedAt: Date | null;
+  version: number;
+}
+
+// How far along an epic is, over its tasks and subtasks (trashed ones left out)
+export interface EpicRollup {
+  unit: EstimateUnit;
+  total: number;
+  completed: number;
+  remaining: number;
+  // Tasks and subtasks not done yet that have no estimate, so remaining is a lower bound
+  unestimated: number;
+  tasks: number;
+  byStatus: Record<TaskStatus, number>;
+}
+
+export interface EpicWithRollup extends Epic {
+  rollup: EpicRollup;
 }
 
 export interface Dependency {
@@ -84,37 +183,52 @@ export interface Dependency {
 }
 
 // Input types for creating/updating entities
-export interface CreateEpicInput {
+
+// Start and due dates to set on an epic or task; null clears one
+export interface ScheduleInput {
+  startAt?: Date | null;
+  dueAt?: Date | null;
+}
+
+export interface CreateEpicInput extends ScheduleInput {
   title: string;
   description?: string;
   status?: EpicStatus;
   priority?: Priority;
+  fields?: CustomFieldChanges;
 }
 
-export interface UpdateEpicInput {
+export interface UpdateEpicInput extends ScheduleInput {
   title?: string;
   description?: string;
   status?: EpicStatus;
   priority?: Priority;
+  fields?: CustomFieldChanges;
 }
 
-export interface CreateTaskInput {
+export interface CreateTaskInput extends ScheduleInput {
   title: string;
   description?: string;
   priority?: Priority;
   status?: TaskStatus;
   tags?: string;
+  assignee?: string;
   epicId?: string;
   parentTaskId?: string;
+  fields?: CustomFieldChanges;
+  estimate?: number;
 }
 
-export interface UpdateTaskInput {
+export interface UpdateTaskInput extends ScheduleInput {
   title?: string;
   description?: string;
   priority?: Priority;
   status?: TaskStatus;
   tags?: string;
+  assignee?: string | null;
   epicId?: string | null;
+  fields?: CustomFieldChanges;
+  estimate?: number | null;
 }
 
 export interface CreateCommentInput {
@@ -127,10 +241,17 @@ export interface UpdateCommentInput {
   content: string;
 }
 
-export const PROJECT_CONFIG_KEYS = ['issue_prefix', 'epic_prefix', 'comment_prefix'] as const;
+export const PREFIX_CONFIG_KEYS = ['issue_prefix', 'epic_prefix', 'comment_prefix'] as const;
+export const PROJECT_CONFIG_KEYS = [...PREFIX_CONFIG_KEYS, 'estimate_unit'] as const;
 
+export type PrefixConfigKey = (typeof PREFIX_CONFIG_KEYS)[number];
 export type ProjectConfigKey = (typeof PROJECT_CONFIG_KEYS)[number];
 
+// What task estimates count, set per project with `estimate_unit`
+export const ESTIMATE_UNITS = ['points', 'hours'] as const;
+
+export type EstimateUnit = (typeof ESTIMATE_UNITS)[number];
+
 export interface ProjectConfigEntry {
   key: ProjectConfigKey;
   value: string;
@@ -142,13 +263,33 @@ export const PROJECT_CONFIG_DEFAULTS: ProjectConfig = {
   issue_prefix: 'TREK',
   epic_prefix: 'EPIC',
   comment_prefix: 'CMT',
+  estimate_unit: 'points',
 };
 
+// Saved views
+export interface SavedView {
+  name: string;
+  query: string;
+  sort: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface SaveViewInput {
+  query: string;
+  sort: string;
+}
+
 // ID generation types
 export type EntityType = 'task' | 'epic' | 'comment';
 
-export const ENTITY_CONFIG_KEY_MAP: Record<EntityType, ProjectConfigKey> = {
+export const ENTITY_CONFIG_KEY_MAP: Record<EntityType, PrefixConfigKey> = {
   task: 'issue_prefix',
   epic: 'epic_prefix',
   comment: 'comment_prefix',
 };
+
+// Import conflict handling
+export const IMPORT_CONFLICT_MODES = ['fail', 'skip', 'overwrite', 'renumber'] as const;
+
+export type ImportConflictMode = (typeof IMPORT_CONFLICT_MODES)[number];
@@ -3,30 +3,76 @@ export interface PaginationOptions {
   page: string;
 }
 
-export interface TaskCreateOptions {
+export interface BulkCommandOptions {
+  where?: string;
+  dryRun?: boolean;
+  yes?: boolean;
+}
+
+export interface WriteCheckOptions {
+  ifUnmodifiedSince?: string;
+  ifVersion?: string;
+}
+
+// Custom field values given with the repeatable --set field=value
+export interface FieldSetOptions {
+  set: string[];
+}
+
+// `--due`/`--start`, or false from `--no-due`/`--no-start`
+export interface ScheduleOptions {
+  due?: string | false;
+  start?: string | false;
+}
+
+export interface TaskCreateOptions extends FieldSetOptions, ScheduleOptions {
   title: string;
   description?: string;
   priority?: string;
   status?: string;
   tags?: string;
   epic?: string;
+  assignee?: string;
+  estimate?: string;
 }
 
 export interface TaskListOptions extends PaginationOptions {
   status?: string;
   epic?: string;
+  tag?: string;
+  assignee?: string;
+  includeDeleted?: boolean;
+}
+
+export interface TaskShowOptions {
+  at?: string;
+  full?: boolean;
+  comments?: string;
+  history?: string;
 }
 
-export interface TaskUpdateOptions {
+export interface TaskUpdateOptions
+  extends WriteCheckOptions, BulkCommandOptions, FieldSetOptions, ScheduleOptions {
   title?: string;
   description?: string;
   priority?: string;
   status?: string;
   tags?: string;
   epic?: string | false;
+  assignee?: string | false;
+  estimate?: string | false;
+}
+
+export interface TaskClaimOptions {
+  as: string;
+  ttl: string;
+}
+
+export interface TaskReleaseOptions {
+  as: string;
 }
 
-export interface EpicCreateOptions {
+export interface EpicCreateOptions extends FieldSetOptions, ScheduleOptions {
   title: string;
   description?: string;
   priority?: string;
@@ -35,27 +81,41 @@ export interface EpicCreateOptions {
 
 export interface EpicListOptions extends PaginationOptions {
   status?: string;
+  includeDeleted?: boolean;
+}
+
+export interface EpicShowOptions {
+  at?: string;
+  tree?: boolean;
 }
 
-export interface EpicUpdateOptions {
+export interface EpicUpdateOptions
+  extends WriteCheckOptions, BulkCommandOptions, FieldSetOptions, ScheduleOptions {
   title?: string;
   description?: string;
   priority?: string;
   status?: string;
 }
 
-export interface SubtaskCreateOptions {
+export interface SubtaskCreateOptions extends FieldSetOptions, ScheduleOptions {
   title: string;
   description?: string;
   priority?: string;
   status?: string;
+  estimate?: string;
+}
+
+export interface SubtaskListOptions extends PaginationOptions {
+  includeDeleted?: boolean;
 }
 
-export interface SubtaskUpdateOptions {
+export interface SubtaskUpdateOptions
+  extends WriteCheckOptions, BulkCommandOptions, FieldSetOptions, ScheduleOptions {
   title?: string;
   description?: string;
   priority?: string;
   status?: string;
+  estimate?: string | false;
 }
 
 export interface CommentAddOptions {
@@ -63,14 +123,20 @@ export interface CommentAddOptions {
   content: string;
 }
 
-export interface CommentUpdateOptions {
+export interface CommentListOptions extends PaginationOptions {
+  includeDeleted?: boolean;
+}
+
+export interface CommentUpdateOptions extends WriteCheckOptions {
   content: string;
 }
 
 export interface SearchCommandOptions extends PaginationOptions {
   type?: string;
   status?: string;
+  tag?: string;
   rebuildIndex?: boolean;
+  includeDeleted?: boolean;
 }
 
 export interface HistoryCommandOptions extends PaginationOptions {
@@ -81,16 +147,55 @@ export interface HistoryCommandOptions extends PaginationOptions {
   until?: string;
 }
 
-export interface ListCommandOptions extends PaginationOptions {
+export interface SnapshotCommandOptions {
+  at: string;
+}
+
+export interface UndoCommandOptions {
+  count: string;
+}
+
+export interface ListFilterOptions {
   type?: string;
   status?: string;
   priority?: string;
+  tag?: string;
+  tags?: string;
+  epic?: string;
   since?: string;
   until?: string;
+  overdue?: boolean;
+}
+
+export interface ListCommandOptions extends PaginationOptions, ListFilterOptions {
+  sort: string;
+  at?: string;
+  includeDeleted?: boolean;
+}
+
+export interface ViewSaveOptions extends ListFilterOptions {
   sort: string;
 }
 
-export type ReadyCommandOptions = PaginationOptions;
+export type ViewRunOptions = PaginationOptions;
+
+export interface ReadyCommandOptions extends PaginationOptions {
+  epic?: string;
+  tag?: string;
+  tags?: string;
+  maxPriority?: string;
+  includeDeleted?: boolean;
+  includeClaimed?: boolean;
+}
+
+export interface NextCommandOptions {
+  as: string;
+  ttl: string;
+  epic?: string;
+  tag?: string;
+  tags?: string;
+  maxPriority?: string;
+}
 
 export interface SeedCommandOptions {
   force?: boolean;
@@ -102,6 +207,7 @@ export interface WipeCommandOptions {
 
 export interface ProgramOptions {
   toon?: boolean;
+  busyTimeout?: string;
 }
 
 export interface InitCommandOptions {
@@ -109,3 +215,56 @@ export interface InitCommandOptions {
   epicPrefix?: string;
   commentPrefix?: string;
 }
+
+export interface MigrateUpOptions {
+  backup: boolean;
+}
+
+export interface DoctorCommandOptions {
+  fix?: boolean;
+  json?: boolean;
+}
+
+export interface ExportCommandOptions {
+  output?: string;
+  includeHistory?: boolean;
+}
+
+export interface ImportCommandOptions {
+  mode: string;
+}
+
+export interface SyncCommandOptions {
+  fromFiles?: boolean;
+  disable?: boolean;
+}
+
+export interface TrashPurgeOptions {
+  olderThan?: string;
+}
+
+export interface MergeCommandOptions {
+  dryRun?: boolean;
+}
+
+export interface FieldDefineOptions {
+  type: string;
+  values?: string;
+}
+
+export interface WorkflowAddOptions {
+  category: string;
+  to?: string;
+}
+
+export interface WorkflowUpdateOptions {
+  category?: string;
+  to?: string;
+  any?: boolean;
+}
+
+export interface ContextCommandOptions {
+  epic?: string;
+  task?: string;
+  budget: string;
+}
@@ -9,3 +9,8 @@ export const TRUNCATE_OFFSET = 3;
 export const TIMESTAMP_SLICE_END = 19;
 export const TRUNCATE_DEFAULT = 40;
 export const TRUNCATE_CONTENT = 60;
+export const VERSION_PAD_WIDTH = 4;
+export const DEFAULT_CLAIM_TTL = '30m';
+export const EXIT_CODE_CONFLICT = 3;
+export const PERCENT = 100;
+export const CHARS_PER_TOKEN = 4;
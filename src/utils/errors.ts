@@ -0,0 +1,10 @@
+/**
+ * Thrown when a conditional write finds that the row changed after the caller read it.
+ * Commands exit with EXIT_CODE_CONFLICT so scripts can tell it apart from other failures.
+ */
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
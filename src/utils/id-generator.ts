@@ -1,24 +1,23 @@
-import { getDb } from '../db/client';
+import { getDb, requireSqliteInstance } from '../db/client';
 import { idCounters } from '../db/schema';
 import { eq, sql } from 'drizzle-orm';
 import { type EntityType, ENTITY_CONFIG_KEY_MAP } from '../types';
 import { getProjectConfigValue } from '../services/config';
+import { RADIX_DECIMAL } from './constants';
 
 export function generateId(entityType: EntityType): string {
   const db = getDb();
   const prefix = getProjectConfigValue(ENTITY_CONFIG_KEY_MAP[entityType]);
 
-  // Atomically increment the counter and return the new value
-  db.update(idCounters)
-    .set({ counter: sql`${idCounters.counter} + 1` })
-    .where(eq(idCounters.entityType, entityType))
-    .run();
-
+  // One statement increments the counter and returns the new value, so two processes
+  // creating items at the same time cannot both read the same count
   const result = db
-    .select({ counter: idCounters.counter })
-    .from(idCounters)
+    .update(idCounters)
+    .set({ counter: sql`${idCounters.counter} + 1` })
     .where(eq(idCounters.entityType, entityType))
-    .get();
+    .returning({ counter: idCounters.counter })
+    .all()
+    .at(0);
 
   if (!result) {
     throw new Error(`Counter not found for entity type: ${entityType}`);
@@ -27,6 +26,56 @@ export function generateId(entityType: EntityType): string {
   return `${prefix}-${result.counter}`;
 }
 
+const ENTITY_TABLES: Record<EntityType, string> = {
+  task: 'tasks',
+  epic: 'epics',
+  comment: 'comments',
+};
+
+interface MaxSuffixRow {
+  max_suffix: number | null;
+}
+
+/**
+ * Returns the numeric part of an ID (7 for TREK-7), or 0 if it has none.
+ */
+export function getIdSuffix(id: string): number {
+  const suffix = Number.parseInt(id.slice(id.indexOf('-') + 1), RADIX_DECIMAL);
+  if (Number.isNaN(suffix)) {
+    return 0;
+  }
+  return suffix;
+}
+
+/**
+ * Returns the highest numeric ID suffix in use for an entity type, regardless of prefix.
+ * Prefixes cannot contain '-', so the suffix is everything after the first one.
+ */
+export function getHighestIdSuffix(entityType: EntityType): number {
+  const sqlite = requireSqliteInstance();
+  const row = sqlite
+    .query<
+      MaxSuffixRow,
+      []
+    >(`SELECT MAX(CAST(substr(id, instr(id, '-') + 1) AS INTEGER)) AS max_suffix FROM ${ENTITY_TABLES[entityType]}`)
+    .get();
+  return row?.max_suffix ?? 0;
+}
+
+/**
+ * Raises an ID counter to at least `minimum` (creating it if missing) so that newly
+ * generated IDs cannot collide with rows inserted with explicit IDs.
+ */
+export function raiseIdCounter(entityType: EntityType, minimum: number): void {
+  const sqlite = requireSqliteInstance();
+  sqlite
+    .query(
+      `INSERT INTO id_counters (entity_type, counter) VALUES (?, ?)
+       ON CONFLICT(entity_type) DO UPDATE SET counter = MAX(counter, excluded.counter)`
+    )
+    .run(entityType, minimum);
+}
+
 export function generateUuid(): string {
   return crypto.randomUUID();
 }
@@ -1,6 +1,43 @@
 import { encode } from '@toon-format/toon';
-import type { Epic, Task, Comment, PaginatedResponse, ProjectConfigEntry } from '../types';
-import { STATUS_PAD_WIDTH, JSON_INDENT } from './constants';
+import dayjs from 'dayjs';
+import type {
+  Epic,
+  EpicWithRollup,
+  EstimateUnit,
+  Task,
+  Comment,
+  PaginatedResponse,
+  ProjectConfigEntry,
+  SavedView,
+  CustomField,
+  CustomFieldValues,
+  WorkflowStatus,
+} from '../types';
+import type { RevertResult } from '../services/revert';
+import type { RelatedTask, TaskContext, TaskDetails } from '../services/task-context';
+import type {
+  ContextActiveTask,
+  ContextComment,
+  ContextPack,
+  ContextTask,
+} from '../services/context';
+import type { HistoryEvent } from '../services/history';
+import type { EpicTree, EpicTreeNode } from '../services/epic-tree';
+import type { BulkResult } from '../services/bulk';
+import type { ListItem, ListResponse } from '../services/list';
+import type { TagUsage } from '../services/tag';
+import {
+  ACTION_PAD_WIDTH,
+  EXIT_CODE_CONFLICT,
+  JSON_INDENT,
+  STATUS_PAD_WIDTH,
+  TIMESTAMP_SLICE_END,
+  TRUNCATE_CONTENT,
+  TRUNCATE_DEFAULT,
+  TRUNCATE_OFFSET,
+  TYPE_PAD_WIDTH,
+} from './constants';
+import { ConflictError } from './errors';
 
 let toonMode = false;
 
@@ -45,7 +82,8 @@ export function error(message: string, details?: unknown): void {
 }
 
 /**
- * Handles command errors with consistent formatting and exits with code 1.
+ * Handles command errors with consistent formatting and exits with code 1, or with
+ * EXIT_CODE_CONFLICT when a conditional update lost out to a concurrent change.
  * Use in catch blocks to replace duplicate error handling patterns.
  */
 export function handleCommandError(err: unknown): never {
@@ -54,6 +92,9 @@ export function handleCommandError(err: unknown): never {
   } else {
     error(String(err));
   }
+  if (err instanceof ConflictError) {
+    process.exit(EXIT_CODE_CONFLICT);
+  }
   process.exit(1);
 }
 
@@ -90,6 +131,32 @@ export function info(message: string): void {
   }
 }
 
+export function formatDay(date: Date): string {
+  return dayjs(date).format('YYYY-MM-DD');
+}
+
+// A start or due date with how far off it is: "2025-06-02 (in 3 days)"
+function formatScheduleDate(date: Date): string {
+  const days = dayjs(date).startOf('day').diff(dayjs().startOf('day'), 'day');
+  let distance = `in ${days} days`;
+  if (days === 0) {
+    distance = 'today';
+  } else if (days === 1) {
+    distance = 'tomorrow';
+  } else if (days === -1) {
+    distance = 'yesterday';
+  } else if (days < 0) {
+    distance = `${-days} days ago`;
+  }
+  return `${formatDay(date)} (${distance})`;
+}
+
+function formatFieldValues(fields: CustomFieldValues): string {
+  return Object.entries(fields)
+    .map(([name, value]) => `${name}=${value}`)
+    .join(', ');
+}
+
 export function formatTask(task: Task): string {
   const lines = [
     `ID:          ${task.id}`,
@@ -110,8 +177,30 @@ export function formatTask(task: Task): string {
   if (task.tags) {
     lines.push(`Tags:        ${task.tags}`);
   }
+  if (task.assignee) {
+    let claim = '';
+    if (task.claimExpiresAt) {
+      claim = ` (claimed until ${task.claimExpiresAt.toISOString()})`;
+    }
+    lines.push(`Assignee:    ${task.assignee}${claim}`);
+  }
+  if (task.fields) {
+    lines.push(`Fields:      ${formatFieldValues(task.fields)}`);
+  }
+  if (task.startAt) {
+    lines.push(`Start:       ${formatScheduleDate(task.startAt)}`);
+  }
+  if (task.dueAt) {
+    lines.push(`Due:         ${formatScheduleDate(task.dueAt)}`);
+  }
+  if (task.estimate !== null) {
+    lines.push(`Estimate:    ${task.estimate}`);
+  }
   lines.push(`Created:     ${task.createdAt.toISOString()}`);
   lines.push(`Updated:     ${task.updatedAt.toISOString()}`);
+  if (task.deletedAt) {
+    lines.push(`Deleted:     ${task.deletedAt.toISOString()} (in trash)`);
+  }
 
   return lines.join('\n');
 }
@@ -127,8 +216,55 @@ export function formatEpic(epic: Epic): string {
   if (epic.description) {
     lines.push(`Description: ${epic.description}`);
   }
+  if (epic.fields) {
+    lines.push(`Fields:      ${formatFieldValues(epic.fields)}`);
+  }
+  if (epic.startAt) {
+    lines.push(`Start:       ${formatScheduleDate(epic.startAt)}`);
+  }
+  if (epic.dueAt) {
+    lines.push(`Due:         ${formatScheduleDate(epic.dueAt)}`);
+  }
   lines.push(`Created:     ${epic.createdAt.toISOString()}`);
   lines.push(`Updated:     ${epic.updatedAt.toISOString()}`);
+  if (epic.deletedAt) {
+    lines.push(`Deleted:     ${epic.deletedAt.toISOString()} (in trash)`);
+  }
+
+  return lines.join('\n');
+}
+
+// "1 point", "2.5 hours"
+function formatEffort(amount: number, unit: EstimateUnit): string {
+  if (amount === 1) {
+    return `1 ${unit.slice(0, -1)}`;
+  }
+  return `${amount} ${unit}`;
+}
+
+export function formatEpicWithRollup(epic: EpicWithRollup): string {
+  const { rollup } = epic;
+  const lines = [formatEpic(epic)];
+
+  if (rollup.tasks === 0) {
+    lines.push('Tasks:       none');
+    return lines.join('\n');
+  }
+
+  const counts = Object.entries(rollup.byStatus)
+    .map(([status, count]) => `${status} ${count}`)
+    .join(', ');
+  lines.push(`Tasks:       ${rollup.tasks} (${counts})`);
+  lines.push(
+    `Effort:      ${formatEffort(rollup.total, rollup.unit)}, ${rollup.completed} completed, ${rollup.remaining} remaining`
+  );
+  if (rollup.unestimated > 0) {
+    let noun = 'tasks';
+    if (rollup.unestimated === 1) {
+      noun = 'task';
+    }
+    lines.push(`Unestimated: ${rollup.unestimated} open ${noun} without an estimate`);
+  }
 
   return lines.join('\n');
 }
@@ -161,6 +297,307 @@ export function formatDependencyList(
   return dependencies.map((d) => `  → blocks ${d.taskId}`).join('\n');
 }
 
+export function formatTaskContext(context: TaskContext): string {
+  const lines = [formatTask(context.task)];
+
+  if (context.epic) {
+    lines.push('', `Epic: ${context.epic.id} | ${context.epic.status} | ${context.epic.title}`);
+  }
+
+  if (context.subtasks.length > 0) {
+    lines.push('', `Subtasks (${context.subtasks.length}):`);
+    for (const subtask of context.subtasks) {
+      lines.push(`  ${subtask.id} | ${subtask.status.padEnd(STATUS_PAD_WIDTH)} | ${subtask.title}`);
+    }
+  }
+
+  if (context.dependsOn.length > 0 || context.blocks.length > 0) {
+    lines.push('', 'Dependencies:');
+    lines.push(formatDependencyList(context.dependsOn, 'depends_on'));
+    lines.push(formatDependencyList(context.blocks, 'blocks'));
+  }
+
+  if (context.comments.length > 0) {
+    lines.push('', `Comments (${context.comments.length}):`);
+    for (const comment of context.comments) {
+      lines.push(`  [${comment.author}] ${comment.content}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+// "[blocked by TREK-5; after TREK-1]" for the dependencies of a task in the tree
+function formatDependencyMarker(node: EpicTreeNode): string {
+  const open = new Set(node.blockedBy);
+  const parts: string[] = [];
+  if (node.blockedBy.length > 0) {
+    parts.push(`blocked by ${node.blockedBy.join(', ')}`);
+  }
+  const after = node.dependsOn.filter((id) => !open.has(id));
+  if (after.length > 0) {
+    parts.push(`after ${after.join(', ')}`);
+  }
+  if (parts.length === 0) {
+    return '';
+  }
+  return ` [${parts.join('; ')}]`;
+}
+
+function formatTreeNodes(nodes: EpicTreeNode[], indent: string, lines: string[]): void {
+  for (const [index, node] of nodes.entries()) {
+    let branch = '├── ';
+    let childIndent = `${indent}│   `;
+    if (index === nodes.length - 1) {
+      branch = '└── ';
+      childIndent = `${indent}    `;
+    }
+    lines.push(
+      `${indent}${branch}${node.id} | ${node.status.padEnd(STATUS_PAD_WIDTH)} | P${node.priority} | ${node.title}${formatDependencyMarker(node)}`
+    );
+    formatTreeNodes(node.subtasks, childIndent, lines);
+  }
+}
+
+export function formatEpicTree(tree: EpicTree): string {
+  const { epic, progress, next } = tree;
+  const lines = [
+    `${epic.id} | ${epic.status.padEnd(STATUS_PAD_WIDTH)} | P${epic.priority} | ${epic.title}`,
+  ];
+
+  if (tree.tasks.length === 0) {
+    lines.push('└── (no tasks)');
+  }
+  formatTreeNodes(tree.tasks, '', lines);
+
+  lines.push(
+    '',
+    `Progress: ${progress.percent}% done (${progress.done} of ${progress.tasks}), ${progress.blocked} blocked`
+  );
+  if (next) {
+    lines.push(`Next:     ${next.id} | P${next.priority} | ${next.title}`);
+  } else {
+    lines.push('Next:     no ready task');
+  }
+
+  return lines.join('\n');
+}
+
+function formatRelatedTask(task: RelatedTask): string {
+  return `  ${task.id} | ${task.status.padEnd(STATUS_PAD_WIDTH)} | ${task.title}`;
+}
+
+// "Comments (5 of 12, newest first):", or without the total when all are shown
+function formatLatestHeading(label: string, shown: number, total: number): string {
+  if (shown < total) {
+    return `${label} (${shown} of ${total}, newest first):`;
+  }
+  return `${label} (${total}, newest first):`;
+}
+
+export function formatTaskDetails(details: TaskDetails): string {
+  const lines = [formatTask(details.task)];
+
+  if (details.epic) {
+    lines.push('', `Epic: ${details.epic.id} | ${details.epic.status} | ${details.epic.title}`);
+  }
+
+  if (details.subtasks.length > 0) {
+    lines.push('', `Subtasks (${details.subtasks.length}):`);
+    for (const subtask of details.subtasks) {
+      lines.push(`  ${subtask.id} | ${subtask.status.padEnd(STATUS_PAD_WIDTH)} | ${subtask.title}`);
+    }
+  }
+
+  if (details.dependsOn.length > 0) {
+    lines.push('', `Depends on (${details.dependsOn.length}):`);
+    lines.push(...details.dependsOn.map(formatRelatedTask));
+  }
+  if (details.blocks.length > 0) {
+    lines.push('', `Blocks (${details.blocks.length}):`);
+    lines.push(...details.blocks.map(formatRelatedTask));
+  }
+
+  if (details.comments.length > 0) {
+    lines.push('', formatLatestHeading('Comments', details.comments.length, details.commentCount));
+    for (const comment of details.comments) {
+      lines.push(`  [${comment.author}] ${comment.content}`);
+    }
+  }
+
+  if (details.history.length > 0) {
+    lines.push('', formatLatestHeading('History', details.history.length, details.historyCount));
+    for (const event of details.history) {
+      lines.push(
+        formatHistoryEvent(event)
+          .split('\n')
+          .map((line) => `  ${line}`)
+          .join('\n')
+      );
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatContextTask(task: ContextTask): string {
+  return `${task.id} ${task.title} (${task.status}, P${task.priority})`;
+}
+
+function formatContextRelated(tasks: RelatedTask[]): string {
+  return tasks.map((task) => `${task.id} ${task.title} (${task.status})`).join(', ');
+}
+
+// Comments go on one line each, so they stay inside their list item
+function formatContextComments(comments: ContextComment[], indent: string): string[] {
+  return comments.map(
+    (comment) => `${indent}- [${comment.author}] ${comment.content.replaceAll(/\s+/g, ' ')}`
+  );
+}
+
+function formatContextSection<T>(
+  heading: string,
+  items: T[],
+  formatItem: (item: T) => string[]
+): string[] {
+  const lines = ['', `## ${heading} (${items.length})`];
+  if (items.length === 0) {
+    lines.push('None.');
+  }
+  for (const item of items) {
+    lines.push(...formatItem(item));
+  }
+  return lines;
+}
+
+function formatActiveTask(task: ContextActiveTask): string[] {
+  return [`- ${formatContextTask(task)}`, ...formatContextComments(task.comments, '  ')];
+}
+
+/**
+ * Renders a `context` briefing as Markdown, one section per kind of work.
+ */
+export function formatContextPack(pack: ContextPack): string {
+  let title = '# Context';
+  if (pack.epic) {
+    title = `# Context: ${pack.epic.id} ${pack.epic.title} (${pack.epic.status})`;
+  }
+  const lines = [title];
+
+  if (pack.focus) {
+    const focus = pack.focus;
+    lines.push('', `## Focus: ${formatContextTask(focus)}`);
+    if (focus.description) {
+      lines.push(focus.description);
+    }
+    if (focus.subtasks.length > 0) {
+      lines.push(`- Subtasks: ${formatContextRelated(focus.subtasks)}`);
+    }
+    if (focus.dependsOn.length > 0) {
+      lines.push(`- Depends on: ${formatContextRelated(focus.dependsOn)}`);
+    }
+    if (focus.blocks.length > 0) {
+      lines.push(`- Blocks: ${formatContextRelated(focus.blocks)}`);
+    }
+    if (focus.comments.length > 0) {
+      lines.push(formatLatestHeading('- Comments', focus.comments.length, focus.commentCount));
+      lines.push(...formatContextComments(focus.comments, '  '));
+    }
+  }
+
+  lines.push(...formatContextSection('In progress', pack.inProgress, formatActiveTask));
+  lines.push(
+    ...formatContextSection('Blocked', pack.blocked, (task) => [
+      `- ${formatContextTask(task)}, waiting on ${formatContextRelated(task.waitingOn)}`,
+    ])
+  );
+  lines.push(
+    ...formatContextSection('Ready', pack.ready, (task) => [`- ${formatContextTask(task)}`])
+  );
+  lines.push(
+    ...formatContextSection('Recently completed', pack.recentlyCompleted, (task) => [
+      `- ${task.id} ${task.title} (${task.status} ${formatDay(task.completedAt)})`,
+    ])
+  );
+
+  const omitted = [
+    { count: pack.omitted.inProgress, label: 'in progress' },
+    { count: pack.omitted.blocked, label: 'blocked' },
+    { count: pack.omitted.ready, label: 'ready' },
+    { count: pack.omitted.recentlyCompleted, label: 'recently completed' },
+  ]
+    .filter((section) => section.count > 0)
+    .map((section) => `${section.count} ${section.label}`);
+  if (omitted.length > 0) {
+    lines.push('', `_Left out to fit the budget: ${omitted.join(', ')}._`);
+  }
+
+  return lines.join('\n');
+}
+
+const BULK_ACTION_LABELS = {
+  update: 'updated',
+  delete: 'deleted',
+  trash: 'moved to trash',
+} as const;
+
+export function formatBulkResult(result: BulkResult): string {
+  if (result.matched === 0) {
+    return `No ${result.type}s match.`;
+  }
+
+  let heading = `${result.matched} ${result.type}(s) ${BULK_ACTION_LABELS[result.action]}:`;
+  if (result.dryRun) {
+    heading = `${result.matched} ${result.type}(s) would be ${BULK_ACTION_LABELS[result.action]}:`;
+  }
+  const lines = [heading];
+  for (const item of result.items) {
+    lines.push(`  ${item.id} | ${item.status.padEnd(STATUS_PAD_WIDTH)} | ${item.title}`);
+  }
+  return lines.join('\n');
+}
+
+export function formatListResults(result: ListResponse): string {
+  const lines: string[] = [];
+
+  lines.push(`Found ${result.total} items (page ${result.page}, ${result.limit} per page)`);
+  lines.push('');
+
+  if (result.items.length === 0) {
+    lines.push('No items found.');
+    return lines.join('\n');
+  }
+
+  for (const item of result.items) {
+    lines.push(formatListItem(item));
+  }
+
+  const totalPages = Math.ceil(result.total / result.limit);
+  if (totalPages > 1) {
+    lines.push('');
+    lines.push(`Page ${result.page} of ${totalPages}`);
+  }
+
+  return lines.join('\n');
+}
+
+function formatListItem(item: ListItem): string {
+  const typeLabel = item.type.toUpperCase().padEnd(TYPE_PAD_WIDTH);
+  const statusLabel = item.status.padEnd(STATUS_PAD_WIDTH);
+  const priorityLabel = `P${item.priority}`;
+  let parentLabel = '';
+  if (item.parentId) {
+    parentLabel = ` (${item.parentId})`;
+  }
+
+  let dueLabel = '';
+  if (item.dueAt) {
+    dueLabel = ` | due ${formatDay(item.dueAt)}`;
+  }
+
+  return `${typeLabel} ${item.id} | ${statusLabel} | ${priorityLabel} | ${item.title}${parentLabel}${dueLabel}`;
+}
+
 function formatPaginationFooter(total: number, page: number, limit: number): string {
   const totalPages = Math.ceil(total / limit);
   if (totalPages > 1) {
@@ -239,3 +676,128 @@ export function formatProjectConfigList(entries: ProjectConfigEntry[]): string {
 
   return entries.map((entry) => `${entry.key}=${entry.value}`).join('\n');
 }
+
+export function formatTagList(tags: TagUsage[]): string {
+  if (tags.length === 0) {
+    return 'No tags found.';
+  }
+
+  const width = Math.max(...tags.map((tag) => tag.name.length));
+  return tags.map((tag) => `${tag.name.padEnd(width)} | ${tag.count} task(s)`).join('\n');
+}
+
+export function formatCustomField(field: CustomField): string {
+  if (field.allowedValues) {
+    return `${field.name}: ${field.type} (${field.allowedValues.join(', ')})`;
+  }
+  return `${field.name}: ${field.type}`;
+}
+
+export function formatCustomFieldList(fields: CustomField[]): string {
+  if (fields.length === 0) {
+    return 'No custom fields defined.';
+  }
+
+  return fields.map(formatCustomField).join('\n');
+}
+
+export function formatWorkflowStatus(status: WorkflowStatus): string {
+  let transitions = 'any status';
+  if (status.transitions) {
+    transitions = status.transitions.join(', ') || 'no other status';
+  }
+  return `${status.name.padEnd(STATUS_PAD_WIDTH)} | ${status.category.padEnd(STATUS_PAD_WIDTH)} | to ${transitions}`;
+}
+
+export function formatWorkflow(statuses: WorkflowStatus[]): string {
+  return statuses.map(formatWorkflowStatus).join('\n');
+}
+
+function describeView(view: SavedView): string {
+  let query = view.query;
+  if (!query) {
+    query = '(everything)';
+  }
+  return `${query} | sort ${view.sort}`;
+}
+
+export function formatSavedView(view: SavedView): string {
+  return `${view.name}: ${describeView(view)}`;
+}
+
+export function formatSavedViewList(views: SavedView[]): string {
+  if (views.length === 0) {
+    return 'No saved views.';
+  }
+
+  return views.map(formatSavedView).join('\n');
+}
+
+export function formatRevertResult(result: RevertResult): string {
+  return result.reverted
+    .map(
+      (event) => `Reverted #${event.eventId}: ${event.action} ${event.entityType} ${event.entityId}`
+    )
+    .join('\n');
+}
+
+export function formatHistoryEvent(event: HistoryEvent): string {
+  const lines: string[] = [];
+  const timestamp = event.timestamp.toISOString().replace('T', ' ').slice(0, TIMESTAMP_SLICE_END);
+  const actionLabel = event.action.toUpperCase().padEnd(ACTION_PAD_WIDTH);
+  const typeLabel = event.entityType.toUpperCase();
+
+  let header = `[${timestamp}] #${event.id} ${actionLabel} ${typeLabel} ${event.entityId}`;
+  if (event.revertOf !== null) {
+    header += ` (revert of #${event.revertOf})`;
+  }
+  if (event.revertedAt) {
+    header += ' (reverted)';
+  }
+  lines.push(header);
+
+  if (event.action === 'update' && event.changes) {
+    for (const [field, change] of Object.entries(event.changes)) {
+      const from = formatChangeValue(change.from);
+      const to = formatChangeValue(change.to);
+      lines.push(`  ${field}: ${from} -> ${to}`);
+    }
+  } else if (event.snapshot) {
+    // For create/delete, show key fields
+    const snap = event.snapshot;
+    if (typeof snap.title === 'string') {
+      lines.push(`  title: ${snap.title}`);
+    }
+    if (typeof snap.content === 'string') {
+      lines.push(`  content: ${truncate(snap.content, TRUNCATE_CONTENT)}`);
+    }
+    if (typeof snap.status === 'string') {
+      lines.push(`  status: ${snap.status}`);
+    }
+  }
+
+  return lines.join('\n');
+}
+
+function formatChangeValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '(none)';
+  }
+  if (typeof value === 'string') {
+    return truncate(value, TRUNCATE_DEFAULT);
+  }
+  if (typeof value === 'number') {
+    return `${value}`;
+  }
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+  return JSON.stringify(value);
+}
+
+function truncate(str: string, maxLen: number): string {
+  if (str.length <= maxLen) {
+    return str;
+  }
+  return `${str.slice(0, Math.max(0, maxLen - TRUNCATE_OFFSET))}...`;
+}
@@ -0,0 +1,55 @@
+import * as readline from 'node:readline';
+import type { BulkResult } from '../services/bulk';
+import type { BulkCommandOptions } from '../types/options';
+import { formatBulkResult, info, outputResult } from './output';
+
+const BULK_ACTION_PROMPTS = {
+  update: 'Update',
+  delete: 'Permanently delete',
+  trash: 'Move to trash',
+} as const;
+
+export function confirm(prompt: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const rl = readline.createInterface({
+      input: process.stdin,
+      output: process.stdout,
+    });
+
+    rl.question(prompt, (answer) => {
+      rl.close();
+      resolve(answer.toLowerCase() === 'y' || answer.toLowerCase() === 'yes');
+    });
+    // Without a terminal (stdin closed) there is no answer; treat that as a no
+    rl.on('close', () => {
+      resolve(false);
+    });
+  });
+}
+
+/**
+ * Shows what a `--where` command is about to change and asks before going ahead.
+ * Returns false, after printing the preview, on a dry run, when nothing matches or
+ * when the user declines; `--yes` skips the question.
+ */
+export async function confirmBulk(
+  preview: BulkResult,
+  options: BulkCommandOptions
+): Promise<boolean> {
+  if (options.dryRun || preview.matched === 0) {
+    outputResult(preview, formatBulkResult);
+    return false;
+  }
+  if (options.yes) {
+    return true;
+  }
+
+  info(formatBulkResult(preview));
+  const confirmed = await confirm(
+    `${BULK_ACTION_PROMPTS[preview.action]} ${preview.matched} ${preview.type}(s)? (y/N): `
+  );
+  if (!confirmed) {
+    info('Aborted.');
+  }
+  return confirmed;
+}
@@ -1,15 +1,28 @@
-import { TASK_STATUSES, EPIC_STATUSES, LIST_ENTITY_TYPES, SEARCH_ENTITY_TYPES } from '../types';
-import type { TaskStatus, EpicStatus, Priority, ListEntityType, SearchEntityType } from '../types';
+import dayjs from 'dayjs';
+import type { ManipulateType } from 'dayjs';
+import customParseFormat from 'dayjs/plugin/customParseFormat';
+import { EPIC_STATUSES, IMPORT_CONFLICT_MODES } from '../types';
+import type { WriteExpectation } from '../services/conflict';
+import type {
+  EpicStatus,
+  Priority,
+  ImportConflictMode,
+  CustomFieldChanges,
+  ScheduleInput,
+} from '../types';
 import { MAX_PRIORITY, RADIX_DECIMAL } from './constants';
 
-const TASK_STATUS_SET: ReadonlySet<string> = new Set(TASK_STATUSES);
-const EPIC_STATUS_SET: ReadonlySet<string> = new Set(EPIC_STATUSES);
-const LIST_ENTITY_TYPE_SET: ReadonlySet<string> = new Set(LIST_ENTITY_TYPES);
-const SEARCH_ENTITY_TYPE_SET: ReadonlySet<string> = new Set(SEARCH_ENTITY_TYPES);
+dayjs.extend(customParseFormat);
 
-function isValidTaskStatus(status: string): status is TaskStatus {
-  return TASK_STATUS_SET.has(status);
-}
+const TIMESTAMP_FORMATS = [
+  'YYYY-MM-DD HH:mm:ss',
+  'YYYY-MM-DD HH:mm',
+  'YYYY-MM-DDTHH:mm:ss',
+  'YYYY-MM-DDTHH:mm',
+];
+
+const EPIC_STATUS_SET: ReadonlySet<string> = new Set(EPIC_STATUSES);
+const IMPORT_CONFLICT_MODE_SET: ReadonlySet<string> = new Set(IMPORT_CONFLICT_MODES);
 
 function isValidEpicStatus(status: string): status is EpicStatus {
   return EPIC_STATUS_SET.has(status);
@@ -19,25 +32,20 @@ function isValidPriority(priority: number): priority is Priority {
   return Number.isInteger(priority) && priority >= 0 && priority <= MAX_PRIORITY;
 }
 
-export function parseStatus(status: string | undefined, type: 'task'): TaskStatus | undefined;
-export function parseStatus(status: string | undefined, type: 'epic'): EpicStatus | undefined;
-export function parseStatus(
-  status: string | undefined,
-  type: 'task' | 'epic'
-): TaskStatus | EpicStatus | undefined {
+/**
+ * Lowercases a status and turns dashes into underscores, so `In-Progress` reads as
+ * `in_progress`.
+ */
+export function normalizeStatus(status: string): string {
+  return status.toLowerCase().replace(/-/g, '_');
+}
+
+export function parseEpicStatus(status: string | undefined): EpicStatus | undefined {
   if (!status) {
     return undefined;
   }
 
-  const normalizedStatus = status.toLowerCase().replace(/-/g, '_');
-
-  if (type === 'task') {
-    if (!isValidTaskStatus(normalizedStatus)) {
-      throw new Error(`Invalid task status: ${status}. Valid values: ${TASK_STATUSES.join(', ')}`);
-    }
-    return normalizedStatus;
-  }
-
+  const normalizedStatus = normalizeStatus(status);
   if (!isValidEpicStatus(normalizedStatus)) {
     throw new Error(`Invalid epic status: ${status}. Valid values: ${EPIC_STATUSES.join(', ')}`);
   }
@@ -56,6 +64,235 @@ export function parsePriority(priority: string | undefined): Priority | undefine
   return num;
 }
 
+/**
+ * Parses a task estimate: a number of points or hours, fractions allowed.
+ */
+export function parseEstimate(estimate: string | undefined): number | undefined {
+  if (estimate === undefined) {
+    return undefined;
+  }
+
+  const num = Number(estimate.trim());
+  if (estimate.trim() === '' || !Number.isFinite(num) || num < 0) {
+    throw new Error(`Invalid estimate: ${estimate}. Must be a number of 0 or more.`);
+  }
+  return num;
+}
+
+export function parsePositiveInteger(value: string, fieldName: string): number {
+  const num = Number.parseInt(value, RADIX_DECIMAL);
+  if (Number.isNaN(num) || num < 1 || String(num) !== value.trim()) {
+    throw new Error(`Invalid ${fieldName}: ${value}. Must be a positive whole number.`);
+  }
+  return num;
+}
+
+/**
+ * Parses a point in time given as a local date (taken as the end of that day), a local
+ * date and time, or an ISO 8601 timestamp.
+ */
+export function parseTimestamp(value: string): Date {
+  const date = dayjs(value, 'YYYY-MM-DD', true);
+  if (date.isValid()) {
+    return date.endOf('day').toDate();
+  }
+
+  const dateTime = dayjs(value, TIMESTAMP_FORMATS, true);
+  if (dateTime.isValid()) {
+    return dateTime.toDate();
+  }
+
+  const iso = new Date(value);
+  if (/^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(iso.getTime())) {
+    return iso;
+  }
+
+  throw new Error(
+    `Invalid timestamp: ${value}. Use YYYY-MM-DD, "YYYY-MM-DD HH:mm" or an ISO 8601 timestamp.`
+  );
+}
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+const DAYS_PER_WEEK = 7;
+
+const DAY_OFFSET_UNITS: ReadonlyMap<string, ManipulateType> = new Map([
+  ['d', 'day'],
+  ['w', 'week'],
+]);
+
+/**
+ * Resolves `today`, `tomorrow`, an offset such as `+3d` or `+2w` and weekday names (the
+ * next one to come, never today) to a day. Returns undefined for anything else.
+ */
+export function parseRelativeDay(value: string): dayjs.Dayjs | undefined {
+  const today = dayjs().startOf('day');
+  const word = value.toLowerCase();
+  if (word === 'today') {
+    return today;
+  }
+  if (word === 'tomorrow') {
+    return today.add(1, 'day');
+  }
+
+  const offset = /^\+(\d+)([a-z])$/.exec(word);
+  const unit = DAY_OFFSET_UNITS.get(offset?.[2] ?? '');
+  if (offset && unit) {
+    return today.add(Number.parseInt(offset[1], RADIX_DECIMAL), unit);
+  }
+
+  const weekday = WEEKDAYS.indexOf(word);
+  if (weekday >= 0) {
+    const days = (weekday - today.day() + DAYS_PER_WEEK) % DAYS_PER_WEEK || DAYS_PER_WEEK;
+    return today.add(days, 'day');
+  }
+  return undefined;
+}
+
+/**
+ * Parses a due or start date: a date (YYYY-MM-DD), a date and time, `today`, `tomorrow`,
+ * a weekday such as `friday` or an offset from today such as `+3d` or `+2w`. A day
+ * without a time means its start for a start date and its end for a due date, so a task
+ * is only overdue once its due day has passed.
+ */
+export function parseScheduleDate(value: string, kind: 'due' | 'start'): Date {
+  const trimmed = value.trim();
+  let day = parseRelativeDay(trimmed);
+  const date = dayjs(trimmed, 'YYYY-MM-DD', true);
+  if (date.isValid()) {
+    day = date;
+  }
+  if (day) {
+    if (kind === 'due') {
+      return day.endOf('day').startOf('second').toDate();
+    }
+    return day.startOf('day').toDate();
+  }
+
+  try {
+    return parseTimestamp(trimmed);
+  } catch {
+    throw new Error(
+      `Invalid ${kind} date: ${value}. Use YYYY-MM-DD, today, tomorrow, a weekday such as friday, or +3d / +2w.`
+    );
+  }
+}
+
+/**
+ * Turns the `--due`/`--start` options of a create or update command into the dates to
+ * set; `--no-due` and `--no-start` clear them.
+ */
+export function parseScheduleOptions(options: {
+  due?: string | false;
+  start?: string | false;
+}): ScheduleInput {
+  const schedule: ScheduleInput = {};
+  if (options.due === false) {
+    schedule.dueAt = null;
+  } else if (options.due !== undefined) {
+    schedule.dueAt = parseScheduleDate(options.due, 'due');
+  }
+  if (options.start === false) {
+    schedule.startAt = null;
+  } else if (options.start !== undefined) {
+    schedule.startAt = parseScheduleDate(options.start, 'start');
+  }
+  return schedule;
+}
+
+/**
+ * Checks that a start date does not come after the due date.
+ */
+export function validateSchedule(startAt: Date | null, dueAt: Date | null): void {
+  if (startAt && dueAt && startAt > dueAt) {
+    throw new Error(
+      `The start date (${dayjs(startAt).format('YYYY-MM-DD')}) is after the due date (${dayjs(dueAt).format('YYYY-MM-DD')}).`
+    );
+  }
+}
+
+const DURATION_UNITS: ReadonlyMap<string, ManipulateType> = new Map([
+  ['m', 'minute'],
+  ['h', 'hour'],
+  ['d', 'day'],
+  ['w', 'week'],
+]);
+
+/**
+ * Parses a duration such as `30m`, `12h`, `30d` or `2w` into milliseconds.
+ */
+export function parseDuration(value: string, fieldName: string): number {
+  const match = /^(\d+)([a-z])$/.exec(value.trim());
+  const unit = DURATION_UNITS.get(match?.[2] ?? '');
+  if (!match || !unit) {
+    throw new Error(
+      `Invalid ${fieldName}: ${value}. Use a number followed by m, h, d or w (for example 30d).`
+    );
+  }
+  const now = dayjs();
+  return now.add(Number.parseInt(match[1], RADIX_DECIMAL), unit).diff(now);
+}
+
+/**
+ * Parses an age such as `30d` and returns the moment that lies that far in the past.
+ */
+export function parseAge(value: string): Date {
+  return new Date(Date.now() - parseDuration(value, 'age'));
+}
+
+/**
+ * Turns the `--if-unmodified-since` and `--if-version` options of an update command into
+ * the precondition the service checks before writing.
+ */
+export function parseWriteExpectation(options: {
+  ifUnmodifiedSince?: string;
+  ifVersion?: string;
+}): WriteExpectation {
+  const expected: WriteExpectation = {};
+  if (options.ifUnmodifiedSince !== undefined) {
+    expected.ifUnmodifiedSince = parseTimestamp(options.ifUnmodifiedSince);
+  }
+  if (options.ifVersion !== undefined) {
+    expected.ifVersion = parsePositiveInteger(options.ifVersion, 'version');
+  }
+  return expected;
+}
+
+/**
+ * Checks that an update or delete command got either one ID or a `--where` filter, and
+ * that options meant for only one of the two are not mixed in.
+ */
+export function validateTargetOptions(
+  id: string | undefined,
+  options: {
+    where?: string;
+    dryRun?: boolean;
+    yes?: boolean;
+    ifUnmodifiedSince?: string;
+    ifVersion?: string;
+  },
+  entityType: string
+): void {
+  if (options.where === undefined) {
+    if (options.dryRun || options.yes) {
+      throw new Error('--dry-run and --yes only apply together with --where.');
+    }
+    return;
+  }
+  if (id !== undefined) {
+    throw new Error(`Give either a ${entityType.toLowerCase()} ID or --where, not both.`);
+  }
+  if (options.ifVersion !== undefined || options.ifUnmodifiedSince !== undefined) {
+    throw new Error('--if-version and --if-unmodified-since only apply to a single ID.');
+  }
+}
+
+export function validateUpdateInput(input: object): void {
+  if (!Object.values(input).some((value) => value !== undefined)) {
+    throw new Error('Nothing to update. Give at least one field to change.');
+  }
+}
+
 export function validateRequired(value: unknown, fieldName: string): asserts value is string {
   if (value === undefined || value === null || value === '') {
     throw new Error(`${fieldName} is required`);
@@ -81,27 +318,9 @@ export function parsePaginationOptions(opts: { limit: string; page: string }): {
   return { limit, page };
 }
 
-export function validateListEntityTypes(types: string[]): asserts types is ListEntityType[] {
-  for (const t of types) {
-    if (!LIST_ENTITY_TYPE_SET.has(t)) {
-      throw new Error(`Invalid type: ${t}. Valid types: ${LIST_ENTITY_TYPES.join(', ')}`);
-    }
-  }
-}
-
-export function validateSearchEntityTypes(types: string[]): asserts types is SearchEntityType[] {
-  for (const t of types) {
-    if (!SEARCH_ENTITY_TYPE_SET.has(t)) {
-      throw new Error(`Invalid type: ${t}. Valid types: ${SEARCH_ENTITY_TYPES.join(', ')}`);
-    }
-  }
-}
-
-export function validatePriorities(priorities: number[]): void {
-  for (const p of priorities) {
-    if (Number.isNaN(p) || p < 0 || p > MAX_PRIORITY) {
-      throw new Error(`Invalid priority: ${p}. Valid priorities: 0-5`);
-    }
+export function validateImportMode(mode: string): asserts mode is ImportConflictMode {
+  if (!IMPORT_CONFLICT_MODE_SET.has(mode)) {
+    throw new Error(`Invalid mode: ${mode}. Valid modes: ${IMPORT_CONFLICT_MODES.join(', ')}`);
   }
 }
 
@@ -141,3 +360,34 @@ export function parseCommaSeparated(input: string | undefined): string[] | undef
   }
   return input.split(',').map((s) => s.trim());
 }
+
+// Commander argument parser for options that may be given more than once
+export function collectValues(value: string, previous: string[]): string[] {
+  return [...previous, value];
+}
+
+/**
+ * Parses `--set field=value` options into custom field changes. An empty value
+ * (`--set field=`) clears the field. Values are checked against the field definitions
+ * when they are applied.
+ */
+export function parseFieldAssignments(assignments: string[]): CustomFieldChanges | undefined {
+  if (assignments.length === 0) {
+    return undefined;
+  }
+
+  const changes: CustomFieldChanges = {};
+  for (const assignment of assignments) {
+    const separator = assignment.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid field assignment: ${assignment}. Use --set field=value.`);
+    }
+    const value = assignment.slice(separator + 1).trim();
+    let change: string | null = value;
+    if (value === '') {
+      change = null;
+    }
+    changes[assignment.slice(0, separator).trim()] = change;
+  }
+  return changes;
+}
@@ -0,0 +1,154 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface BatchResult {
+  applied: number;
+  results: { op: string; id: string }[];
+}
+
+interface Task {
+  id: string;
+  title: string;
+  status: string;
+  epicId: string | null;
+  parentTaskId: string | null;
+}
+
+interface Dependencies {
+  dependsOn: { dependsOnId: string }[];
+}
+
+interface PaginatedList {
+  total: number;
+  items: { id: string; content?: string }[];
+}
+
+describe('batch command', () => {
+  let ctx: TestContext;
+
+  function writeBatch(content: string): string {
+    const path = join(ctx.cwd, 'batch.json');
+    writeFileSync(path, content);
+    return path;
+  }
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should build a plan with references to earlier operations', () => {
+    const path = writeBatch(
+      JSON.stringify([
+        { op: 'epic.create', title: 'Auth' },
+        { op: 'task.create', title: 'Schema', epic: '$1', priority: 1 },
+        { op: 'task.create', title: 'Endpoints', epic: '$1' },
+        { op: 'dep.add', task: '$3', dependsOn: '$2' },
+        { op: 'task.create', title: 'Migration', parent: '$2' },
+        { op: 'comment.add', task: '$2', author: 'planner', content: 'Start here' },
+      ])
+    );
+
+    const result = ctx.runToon<BatchResult>(`batch ${path}`);
+
+    expect(result.applied).toBe(6);
+    const [epicId, schemaId, endpointsId] = result.results.map((r) => r.id);
+    expect(ctx.runToon<Task>(`task show ${schemaId}`).epicId).toBe(epicId);
+    expect(
+      ctx.runToon<Dependencies>(`dep list ${endpointsId}`).dependsOn.map((d) => d.dependsOnId)
+    ).toEqual([schemaId]);
+    expect(ctx.runToon<Task>(`task show ${result.results[4].id}`).parentTaskId).toBe(schemaId);
+    expect(ctx.runToon<PaginatedList>(`comment list ${schemaId}`).items[0].content).toBe(
+      'Start here'
+    );
+  });
+
+  it('should read NDJSON', () => {
+    const path = writeBatch(
+      [
+        '{"op":"task.create","title":"First"}',
+        '',
+        '{"op":"task.update","id":"$1","status":"in_progress"}',
+      ].join('\n')
+    );
+
+    const result = ctx.runToon<BatchResult>(`batch ${path}`);
+
+    expect(result.results.map((r) => r.op)).toEqual(['task.create', 'task.update']);
+    expect(ctx.runToon<Task>(`task show ${result.results[0].id}`).status).toBe('in_progress');
+  });
+
+  it('should apply nothing when an operation fails', () => {
+    const path = writeBatch(
+      JSON.stringify([
+        { op: 'epic.create', title: 'Epic' },
+        { op: 'task.create', title: 'Task', epic: '$1' },
+        { op: 'dep.add', task: '$2', dependsOn: 'TREK-999' },
+      ])
+    );
+
+    const error = ctx.runExpectError(`batch ${path}`);
+
+    expect(error).toContain('Operation 3 (dep.add) failed, nothing was applied');
+    expect(error).toContain('Task not found: TREK-999');
+    expect(ctx.runToon<PaginatedList>('list').total).toBe(0);
+  });
+
+  it('should reject a reference to a later or non-create operation', () => {
+    const forward = writeBatch(
+      JSON.stringify([
+        { op: 'task.create', title: 'Task', parent: '$2' },
+        { op: 'task.create', title: 'Parent' },
+      ])
+    );
+    expect(ctx.runExpectError(`batch ${forward}`)).toContain(
+      '$2 does not refer to an earlier create operation'
+    );
+
+    const toUpdate = writeBatch(
+      JSON.stringify([
+        { op: 'task.create', title: 'Task' },
+        { op: 'task.update', id: '$1', title: 'Renamed' },
+        { op: 'comment.add', task: '$2', author: 'a', content: 'c' },
+      ])
+    );
+    expect(ctx.runExpectError(`batch ${toUpdate}`)).toContain(
+      '$2 does not refer to an earlier create operation'
+    );
+  });
+
+  it('should stop with the conflict exit code on a stale version', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`task update ${task.id} -t "Changed"`);
+    const path = writeBatch(
+      JSON.stringify([{ op: 'task.update', id: task.id, status: 'completed', ifVersion: 1 }])
+    );
+
+    expect(ctx.runExitCode(`batch ${path}`)).toBe(3);
+    expect(ctx.runToon<Task>(`task show ${task.id}`).status).toBe('todo');
+  });
+
+  it('should validate operations before applying them', () => {
+    expect(ctx.runExpectError(`batch ${writeBatch('[{"op":"task.delete","id":"x"}]')}`)).toContain(
+      'Operation 1: expected an object with "op" set to one of'
+    );
+    expect(ctx.runExpectError(`batch ${writeBatch('{"op":')}`)).toContain(
+      'Line 1 is not valid JSON'
+    );
+    expect(ctx.runExpectError(`batch ${writeBatch('[]')}`)).toContain(
+      'Batch contains no operations'
+    );
+    expect(
+      ctx.runExpectError(`batch ${writeBatch('[{"op":"task.create","title":"T","priority":9}]')}`)
+    ).toContain('Invalid priority: 9');
+    expect(ctx.runExpectError(`batch ${writeBatch('[{"op":"task.create"}]')}`)).toContain(
+      '"title" is required'
+    );
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface Task {
+  id: string;
+  status: string;
+  priority: number;
+  deletedAt: string | null;
+}
+
+interface Epic {
+  id: string;
+  status: string;
+}
+
+interface BulkResult {
+  type: string;
+  action: string;
+  dryRun: boolean;
+  matched: number;
+  items: { id: string }[];
+}
+
+interface ListResponse {
+  total: number;
+  items: { id: string }[];
+}
+
+describe('bulk update and delete', () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should update every task matching the filter', () => {
+    const a = ctx.runToon<Task>('task create -t "A" --tags ui,web');
+    const b = ctx.runToon<Task>('task create -t "B" --tags "web, ui" -s in_progress');
+    const other = ctx.runToon<Task>('task create -t "Other" --tags api');
+
+    const result = ctx.runToon<BulkResult>('task update --where "tag:ui" -s archived --yes');
+
+    expect(result.action).toBe('update');
+    expect(result.items.map((item) => item.id)).toEqual([a.id, b.id]);
+    expect(ctx.runToon<Task>(`task show ${a.id}`).status).toBe('archived');
+    expect(ctx.runToon<Task>(`task show ${b.id}`).status).toBe('archived');
+    expect(ctx.runToon<Task>(`task show ${other.id}`).status).toBe('todo');
+  });
+
+  it('should combine status, priority and epic terms', () => {
+    const epic = ctx.runToon<Epic>('epic create -t "Epic"');
+    const match = ctx.runToon<Task>(`task create -t "Match" -p 1 -e ${epic.id}`);
+    ctx.run(`task create -t "Wrong priority" -p 3 -e ${epic.id}`);
+    ctx.run(`task create -t "Wrong status" -p 1 -s completed -e ${epic.id}`);
+    ctx.run('task create -t "No epic" -p 1');
+
+    const result = ctx.runToon<BulkResult>(
+      `task update --where "status:todo,in_progress priority:0,1 epic:${epic.id}" -p 0 --yes`
+    );
+
+    expect(result.items.map((item) => item.id)).toEqual([match.id]);
+    expect(ctx.runToon<Task>(`task show ${match.id}`).priority).toBe(0);
+  });
+
+  it('should only list the matches on a dry run', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+
+    const result = ctx.runToon<BulkResult>('task delete --where "status:todo" --dry-run');
+
+    expect(result.dryRun).toBe(true);
+    expect(result.matched).toBe(1);
+    expect(ctx.runToon<Task>(`task show ${task.id}`).status).toBe('todo');
+    expect(ctx.run('task delete --where "status:todo" --dry-run')).toContain(
+      '1 task(s) would be deleted:'
+    );
+  });
+
+  it('should not change anything without confirmation', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+
+    expect(ctx.run('task delete --where "status:todo"')).toContain('Aborted.');
+    expect(ctx.runToon<Task>(`task show ${task.id}`).id).toBe(task.id);
+  });
+
+  it('should delete or trash every match', () => {
+    ctx.run('task create -t "Keep" -s completed');
+    ctx.run('task create -t "Drop 1"');
+    ctx.run('task create -t "Drop 2"');
+
+    const result = ctx.runToon<BulkResult>('task delete --where "status:todo" --yes');
+    expect(result.action).toBe('delete');
+    expect(result.matched).toBe(2);
+    expect(ctx.runToon<ListResponse>('task list').total).toBe(1);
+
+    ctx.run('trash enable');
+    const trashed = ctx.runToon<BulkResult>('task delete --where "status:completed" --yes');
+    expect(trashed.action).toBe('trash');
+    expect(ctx.runToon<Task>(`task show ${trashed.items[0].id}`).deletedAt).not.toBeNull();
+  });
+
+  it('should keep tasks, subtasks and epics apart', () => {
+    const epic = ctx.runToon<Epic>('epic create -t "Epic"');
+    const task = ctx.runToon<Task>(`task create -t "Task" -e ${epic.id}`);
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Subtask"`);
+
+    const subtasks = ctx.runToon<BulkResult>(
+      `subtask update --where "epic:${epic.id}" -s completed --yes`
+    );
+    expect(subtasks.items.map((item) => item.id)).toEqual([subtask.id]);
+    expect(ctx.runToon<Task>(`task show ${task.id}`).status).toBe('todo');
+
+    const epics = ctx.runToon<BulkResult>('epic update --where "status:todo" -s in_progress --yes');
+    expect(epics.items.map((item) => item.id)).toEqual([epic.id]);
+
+    ctx.run('epic delete --where "status:in_progress" --yes');
+    expect(ctx.runExpectError(`epic show ${epic.id}`)).toContain('Epic not found');
+    expect(ctx.runToon<Task>(`task show ${task.id}`).id).toBe(task.id);
+  });
+
+  it('should report when nothing matches', () => {
+    const result = ctx.runToon<BulkResult>('task update --where "tag:none" -s archived --yes');
+
+    expect(result.matched).toBe(0);
+    expect(ctx.run('task update --where "tag:none" -s archived --yes')).toContain(
+      'No tasks match.'
+    );
+  });
+
+  it('should filter list by tags and epic', () => {
+    const epic = ctx.runToon<Epic>('epic create -t "Epic"');
+    const task = ctx.runToon<Task>(`task create -t "Task" -e ${epic.id} --tags ui`);
+    ctx.run('task create -t "Other" --tags ui');
+
+    expect(
+      ctx.runToon<ListResponse>(`list --tags ui --epic ${epic.id}`).items.map((item) => item.id)
+    ).toEqual([task.id]);
+  });
+
+  it('should reject invalid targets and filters', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+
+    expect(ctx.runExpectError('task update -s archived')).toContain('Task ID is required');
+    expect(
+      ctx.runExpectError(`task update ${task.id} --where "status:todo" -s archived`)
+    ).toContain('Give either a task ID or --where, not both');
+    expect(ctx.runExpectError('task update --where "status:todo" --yes')).toContain(
+      'Nothing to update'
+    );
+    expect(ctx.runExpectError('task update --where "state:todo" -s archived')).toContain(
+      'Invalid query term "state:todo": unknown field state'
+    );
+    expect(ctx.runExpectError('task update --where "type:epic" -s archived')).toContain(
+      'Leave type: out of --where'
+    );
+    expect(ctx.runExpectError(`task delete ${task.id} --yes`)).toContain(
+      '--dry-run and --yes only apply together with --where'
+    );
+    expect(
+      ctx.runExpectError('task update --where "status:todo" -s archived --if-version 1')
+    ).toContain('--if-version and --if-unmodified-since only apply to a single ID');
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { join } from 'node:path';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface Task {
+  id: string;
+  assignee: string | null;
+  claimExpiresAt: string | null;
+}
+
+interface ReadyList {
+  total: number;
+  items: { id: string; assignee: string | null }[];
+}
+
+interface TaskList {
+  items: { id: string }[];
+}
+
+interface HistoryResponse {
+  events: { action: string; changes: Record<string, { from: unknown; to: unknown }> | null }[];
+}
+
+const MINUTE_MS = 60 * 1000;
+
+describe('task claims', () => {
+  let ctx: TestContext;
+
+  // Lets every claim run out, as if its agent had gone away
+  function expireClaims(): void {
+    const sqlite = new Database(join(ctx.cwd, '.trekker', 'trekker.db'));
+    sqlite.run('UPDATE tasks SET claim_expires_at = claim_expires_at - 86400');
+    sqlite.close();
+  }
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should assign the task with a lease when claimed', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    const before = Date.now();
+
+    const claimed = ctx.runToon<Task>(`task claim ${task.id} --as agent-a --ttl 10m`);
+
+    expect(claimed.assignee).toBe('agent-a');
+    const expiresAt = new Date(claimed.claimExpiresAt ?? 0).getTime();
+    expect(expiresAt).toBeGreaterThan(before + 9 * MINUTE_MS);
+    expect(expiresAt).toBeLessThanOrEqual(Date.now() + 10 * MINUTE_MS);
+  });
+
+  it('should refuse a claim while another agent holds one', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`task claim ${task.id} --as agent-a`);
+
+    const error = ctx.runExpectError(`task claim ${task.id} --as agent-b`);
+
+    expect(error).toContain(`Task ${task.id} is claimed by agent-a until`);
+  });
+
+  it('should let the same agent claim again', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`task claim ${task.id} --as agent-a --ttl 5m`);
+
+    const renewed = ctx.runToon<Task>(`task claim ${task.id} --as agent-a --ttl 2h`);
+
+    expect(new Date(renewed.claimExpiresAt ?? 0).getTime()).toBeGreaterThan(
+      Date.now() + 100 * MINUTE_MS
+    );
+  });
+
+  it('should let another agent take over an expired claim', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`task claim ${task.id} --as agent-a`);
+    expireClaims();
+
+    const claimed = ctx.runToon<Task>(`task claim ${task.id} --as agent-b`);
+
+    expect(claimed.assignee).toBe('agent-b');
+    expect(ctx.runExpectError(`task heartbeat ${task.id} --as agent-a`)).toContain(
+      `Task ${task.id} is claimed by agent-b`
+    );
+  });
+
+  it('should extend a claim on heartbeat', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`task claim ${task.id} --as agent-a --ttl 1m`);
+    expireClaims();
+
+    const extended = ctx.runToon<Task>(`task heartbeat ${task.id} --as agent-a --ttl 1h`);
+
+    expect(new Date(extended.claimExpiresAt ?? 0).getTime()).toBeGreaterThan(
+      Date.now() + 50 * MINUTE_MS
+    );
+    expect(ctx.runExpectError(`task heartbeat ${task.id} --as agent-b`)).toContain(
+      `Task ${task.id} is claimed by agent-a`
+    );
+  });
+
+  it('should clear the assignee on release', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`task claim ${task.id} --as agent-a`);
+
+    expect(ctx.runExpectError(`task release ${task.id} --as agent-b`)).toContain(
+      `Task ${task.id} is claimed by agent-a`
+    );
+    const released = ctx.runToon<Task>(`task release ${task.id} --as agent-a`);
+
+    expect(released.assignee).toBeNull();
+    expect(released.claimExpiresAt).toBeNull();
+    expect(ctx.runExpectError(`task release ${task.id} --as agent-a`)).toContain(
+      `Task ${task.id} is not claimed by agent-a`
+    );
+  });
+
+  it('should leave claimed tasks out of ready unless asked', () => {
+    const claimed = ctx.runToon<Task>('task create -t "Claimed"');
+    const free = ctx.runToon<Task>('task create -t "Free"');
+    ctx.run(`task claim ${claimed.id} --as agent-a`);
+
+    expect(ctx.runToon<ReadyList>('ready').items.map((item) => item.id)).toEqual([free.id]);
+
+    const all = ctx.runToon<ReadyList>('ready --include-claimed');
+    expect(all.total).toBe(2);
+    expect(all.items.find((item) => item.id === claimed.id)?.assignee).toBe('agent-a');
+
+    expireClaims();
+    expect(ctx.runToon<ReadyList>('ready').total).toBe(2);
+  });
+
+  it('should set and clear the assignee by hand', () => {
+    const task = ctx.runToon<Task>('task create -t "Task" --assignee alice');
+    expect(task.assignee).toBe('alice');
+    ctx.runToon<Task>('task create -t "Other"');
+
+    expect(ctx.runToon<TaskList>('task list --assignee alice').items.map((t) => t.id)).toEqual([
+      task.id,
+    ]);
+
+    // A hand-set assignee holds no lease, so agents can still claim the task
+    ctx.run(`task claim ${task.id} --as agent-a`);
+    const reassigned = ctx.runToon<Task>(`task update ${task.id} --assignee bob`);
+    expect(reassigned.assignee).toBe('bob');
+    expect(reassigned.claimExpiresAt).toBeNull();
+
+    const cleared = ctx.runToon<Task>(`task update ${task.id} --no-assignee`);
+    expect(cleared.assignee).toBeNull();
+  });
+
+  it('should record assignee changes but not lease renewals in history', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`task claim ${task.id} --as agent-a`);
+    ctx.run(`task heartbeat ${task.id} --as agent-a`);
+
+    const history = ctx.runToon<HistoryResponse>(`history --entity ${task.id}`);
+
+    expect(history.events.map((event) => event.action)).toEqual(['update', 'create']);
+    expect(history.events[0].changes?.assignee).toEqual({ from: null, to: 'agent-a' });
+  });
+
+  it('should reject an invalid TTL', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+
+    expect(ctx.runExpectError(`task claim ${task.id} --as agent-a --ttl forever`)).toContain(
+      'Invalid TTL: forever'
+    );
+  });
+});
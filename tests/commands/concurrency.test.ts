@@ -0,0 +1,156 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { join } from 'node:path';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface Task {
+  id: string;
+  title: string;
+  updatedAt: string;
+  version: number;
+}
+
+interface Epic {
+  id: string;
+  version: number;
+}
+
+interface Comment {
+  id: string;
+  version: number;
+}
+
+const EXIT_CODE_CONFLICT = 3;
+
+describe('concurrent writes', () => {
+  let ctx: TestContext;
+
+  function openDb(): Database {
+    return new Database(join(ctx.cwd, '.trekker', 'trekker.db'));
+  }
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should keep the database in WAL mode', () => {
+    ctx.run('task create -t "Task"');
+
+    const sqlite = openDb();
+    const row = sqlite.query<{ journal_mode: string }, []>('PRAGMA journal_mode').get();
+    sqlite.close();
+
+    expect(row?.journal_mode).toBe('wal');
+  });
+
+  it('should bump the version on every change', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    expect(task.version).toBe(1);
+
+    ctx.run(`task update ${task.id} -t "Renamed"`);
+    ctx.run(`task claim ${task.id} --as agent-a`);
+
+    expect(ctx.runToon<Task>(`task show ${task.id}`).version).toBe(3);
+  });
+
+  it('should update when --if-version matches', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+
+    const updated = ctx.runToon<Task>(`task update ${task.id} -t "Renamed" --if-version 1`);
+
+    expect(updated.title).toBe('Renamed');
+    expect(updated.version).toBe(2);
+  });
+
+  it('should refuse a stale --if-version with the conflict exit code', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`task update ${task.id} -t "Someone else"`);
+
+    expect(ctx.runExpectError(`task update ${task.id} -t "Mine" --if-version 1`)).toContain(
+      `Task ${task.id} is at version 2, not 1`
+    );
+    expect(ctx.runExitCode(`task update ${task.id} -t "Mine" --if-version 1`)).toBe(
+      EXIT_CODE_CONFLICT
+    );
+    expect(ctx.runToon<Task>(`task show ${task.id}`).title).toBe('Someone else');
+  });
+
+  it('should refuse an update when the row changed after --if-unmodified-since', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    const sqlite = openDb();
+    sqlite.run('UPDATE tasks SET updated_at = updated_at + 60 WHERE id = ?', [task.id]);
+    sqlite.close();
+
+    expect(
+      ctx.runExitCode(`task update ${task.id} -t "Mine" --if-unmodified-since ${task.updatedAt}`)
+    ).toBe(EXIT_CODE_CONFLICT);
+    expect(
+      ctx.runExpectError(`task update ${task.id} -t "Mine" --if-unmodified-since ${task.updatedAt}`)
+    ).toContain(`after ${task.updatedAt}`);
+  });
+
+  it('should update when the row is unchanged since --if-unmodified-since', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+
+    const updated = ctx.runToon<Task>(
+      `task update ${task.id} -t "Mine" --if-unmodified-since ${task.updatedAt}`
+    );
+
+    expect(updated.title).toBe('Mine');
+  });
+
+  it('should check versions on epic, subtask and comment updates', () => {
+    const epic = ctx.runToon<Epic>('epic create -t "Epic"');
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Step"`);
+    const comment = ctx.runToon<Comment>(`comment add ${task.id} -a agent -c "Note"`);
+
+    expect(ctx.runExitCode(`epic update ${epic.id} -t "New" --if-version 2`)).toBe(
+      EXIT_CODE_CONFLICT
+    );
+    expect(ctx.runExitCode(`subtask update ${subtask.id} -t "New" --if-version 2`)).toBe(
+      EXIT_CODE_CONFLICT
+    );
+    expect(ctx.runExitCode(`comment update ${comment.id} -c "New" --if-version 2`)).toBe(
+      EXIT_CODE_CONFLICT
+    );
+    expect(
+      ctx.runToon<Comment>(`comment update ${comment.id} -c "New" --if-version 1`).version
+    ).toBe(2);
+  });
+
+  it('should exit with the usual code for other errors', () => {
+    expect(ctx.runExitCode('task update TREK-999 -t "New" --if-version 1')).toBe(1);
+    expect(ctx.runExpectError('task update TREK-1 -t "New" --if-version zero')).toContain(
+      'Invalid version: zero'
+    );
+  });
+
+  it('should give up on a locked database after the busy timeout', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    const sqlite = openDb();
+    sqlite.run('BEGIN IMMEDIATE');
+
+    const started = Date.now();
+    const error = ctx.runExpectError(`--busy-timeout 200 task update ${task.id} -t "Blocked"`);
+    const waited = Date.now() - started;
+
+    sqlite.run('ROLLBACK');
+    sqlite.close();
+    expect(error).toContain('database is locked');
+    expect(waited).toBeGreaterThanOrEqual(200);
+    expect(ctx.runToon<Task>(`task update ${task.id} -t "Unblocked"`).title).toBe('Unblocked');
+  });
+
+  it('should reject an invalid --busy-timeout', () => {
+    expect(ctx.runExpectError('--busy-timeout soon task list')).toContain(
+      'Invalid busy timeout: soon'
+    );
+    expect(ctx.runToon<{ total: number }>('--busy-timeout 100 task list').total).toBe(0);
+  });
+});
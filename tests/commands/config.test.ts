@@ -8,6 +8,7 @@ interface ConfigMap {
   issue_prefix: string;
   epic_prefix: string;
   comment_prefix: string;
+  estimate_unit: string;
 }
 
 interface SuccessResponse<T> {
@@ -53,6 +54,7 @@ describe('config command', () => {
       issue_prefix: 'TREK',
       epic_prefix: 'EPIC',
       comment_prefix: 'CMT',
+      estimate_unit: 'points',
     });
   });
 
@@ -65,6 +67,7 @@ describe('config command', () => {
       issue_prefix: 'FEAT',
       epic_prefix: 'PLAN',
       comment_prefix: 'NOTE',
+      estimate_unit: 'points',
     });
   });
 
@@ -147,7 +150,9 @@ describe('config command', () => {
     ctx.run('init');
 
     const db = new Database(join(ctx.cwd, '.trekker', 'trekker.db'));
+    // Databases from before versioned migrations have neither table
     db.run('DROP TABLE project_config');
+    db.run('DROP TABLE schema_version');
     db.close();
 
     const config = ctx.runToon<ConfigMap>('config list');
@@ -155,6 +160,7 @@ describe('config command', () => {
       issue_prefix: 'TREK',
       epic_prefix: 'EPIC',
       comment_prefix: 'CMT',
+      estimate_unit: 'points',
     });
 
     const task = ctx.runToon<Task>('task create -t "Migrated Task"');
@@ -0,0 +1,113 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface ContextTask {
+  id: string;
+  status: string;
+}
+
+interface ContextPack {
+  epic: { id: string } | null;
+  focus: (ContextTask & { comments: { content: string }[]; blocks: ContextTask[] }) | null;
+  inProgress: (ContextTask & { comments: { content: string }[]; commentCount: number })[];
+  blocked: (ContextTask & { waitingOn: ContextTask[] })[];
+  ready: ContextTask[];
+  recentlyCompleted: ContextTask[];
+  omitted: Record<string, number>;
+}
+
+const ids = (tasks: ContextTask[]): string[] => tasks.map((task) => task.id);
+
+describe('context command', () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+    ctx.run('epic create -t "Auth"');
+    ctx.run('task create -t "Schema" -e EPIC-1');
+    ctx.run('task create -t "Login form" -e EPIC-1 -p 1');
+    ctx.run('task create -t "Deploy" -e EPIC-1');
+    ctx.run('task create -t "Docs"');
+    ctx.run('dep add TREK-3 TREK-2');
+    ctx.run('task update TREK-1 -s completed');
+    ctx.run('task update TREK-2 -s in_progress');
+    ctx.run('comment add TREK-2 -a agent -c "First pass"');
+    ctx.run('comment add TREK-2 -a agent -c "Form renders"');
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should brief on in-progress, blocked, ready and recently completed work', () => {
+    const pack = ctx.runToon<ContextPack>('context');
+
+    expect(pack.epic).toBeNull();
+    expect(pack.focus).toBeNull();
+    expect(ids(pack.inProgress)).toEqual(['TREK-2']);
+    expect(pack.inProgress.at(0)?.comments.map((c) => c.content)).toEqual([
+      'Form renders',
+      'First pass',
+    ]);
+    expect(ids(pack.blocked)).toEqual(['TREK-3']);
+    expect(ids(pack.blocked.at(0)?.waitingOn ?? [])).toEqual(['TREK-2']);
+    expect(ids(pack.ready)).toEqual(['TREK-4']);
+    expect(ids(pack.recentlyCompleted)).toEqual(['TREK-1']);
+  });
+
+  it('should render the briefing as Markdown', () => {
+    const output = ctx.run('context');
+
+    expect(output).toContain('# Context');
+    expect(output).toContain('## In progress (1)\n- TREK-2 Login form (in_progress, P1)');
+    expect(output).toContain('  - [agent] Form renders');
+    expect(output).toContain('- TREK-3 Deploy (todo, P2), waiting on TREK-2 Login form');
+    expect(output).toContain('## Ready (1)\n- TREK-4 Docs (todo, P2)');
+    expect(output).toMatch(/- TREK-1 Schema \(completed \d{4}-\d{2}-\d{2}\)/);
+  });
+
+  it('should cover one epic, or start with a task and cover its epic', () => {
+    const epicPack = ctx.runToon<ContextPack>('context --epic EPIC-1');
+    expect(epicPack.epic?.id).toBe('EPIC-1');
+    expect(epicPack.ready).toEqual([]);
+
+    const taskPack = ctx.runToon<ContextPack>('context --task TREK-2');
+    expect(taskPack.epic?.id).toBe('EPIC-1');
+    expect(taskPack.focus?.id).toBe('TREK-2');
+    expect(ids(taskPack.focus?.blocks ?? [])).toEqual(['TREK-3']);
+    expect(taskPack.inProgress).toEqual([]);
+    expect(ctx.run('context --task TREK-2')).toContain('## Focus: TREK-2 Login form');
+
+    expect(ctx.runExpectError('context --epic EPIC-1 --task TREK-2')).toContain(
+      '--epic and --task cannot be combined.'
+    );
+    expect(ctx.runExpectError('context --epic EPIC-9')).toContain('Epic not found: EPIC-9');
+  });
+
+  it('should leave out recently completed work when the task reopens or the change is undone', () => {
+    ctx.run('task update TREK-1 -s in_progress');
+    expect(ctx.runToon<ContextPack>('context').recentlyCompleted).toEqual([]);
+
+    ctx.run('task update TREK-4 -s completed');
+    ctx.run('undo');
+    expect(ctx.runToon<ContextPack>('context').recentlyCompleted).toEqual([]);
+  });
+
+  it('should trim the least important sections to fit the budget', () => {
+    const pack = ctx.runToon<ContextPack>('context --budget 60');
+
+    expect(pack.recentlyCompleted).toEqual([]);
+    expect(pack.ready).toEqual([]);
+    expect(pack.omitted.recentlyCompleted).toBe(1);
+    expect(pack.omitted.ready).toBe(1);
+    expect(ids(pack.inProgress)).toEqual(['TREK-2']);
+
+    expect(ctx.run('context --budget 60')).toContain(
+      '_Left out to fit the budget: 1 blocked, 1 ready, 1 recently completed._'
+    );
+    expect(ctx.runExpectError('context --budget none')).toContain(
+      'Invalid budget: none. Must be a positive whole number.'
+    );
+  });
+});
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { join } from 'node:path';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface DoctorFinding {
+  check: string;
+  problem: string;
+  details: string[];
+  repairs?: string[];
+  fixed: boolean;
+}
+
+interface DoctorReport {
+  healthy: boolean;
+  checks: string[];
+  findings: DoctorFinding[];
+}
+
+interface Task {
+  id: string;
+}
+
+describe('doctor command', () => {
+  let ctx: TestContext;
+
+  // Writes directly to the database with foreign keys off, as an external tool might
+  function corrupt(sql: string): void {
+    const sqlite = new Database(join(ctx.cwd, '.trekker', 'trekker.db'));
+    sqlite.run(sql);
+    sqlite.close();
+  }
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should report a healthy database', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`comment add ${task.id} -a "agent" -c "Note"`);
+
+    const report = ctx.runToon<DoctorReport>('doctor');
+
+    expect(report.healthy).toBe(true);
+    expect(report.findings).toHaveLength(0);
+    expect(report.checks).toContain('search_index');
+  });
+
+  it('should detect and remove orphaned comments and subtasks', () => {
+    corrupt(`
+      INSERT INTO comments (id, task_id, author, content, created_at, updated_at)
+        VALUES ('CMT-50', 'TREK-404', 'agent', 'Lost', 0, 0);
+      INSERT INTO tasks (id, project_id, parent_task_id, title, created_at, updated_at)
+        SELECT 'TREK-60', id, 'TREK-404', 'Lost subtask', 0, 0 FROM projects;
+    `);
+
+    const report = ctx.runToon<DoctorReport>('doctor');
+    expect(report.healthy).toBe(false);
+    const orphans = report.findings.filter((f) => f.check === 'orphans');
+    expect(orphans.flatMap((f) => f.details)).toEqual(['TREK-60', 'CMT-50']);
+
+    const fixed = ctx.runToon<DoctorReport>('doctor --fix');
+    expect(fixed.healthy).toBe(true);
+    expect(fixed.findings.every((f) => f.fixed)).toBe(true);
+
+    expect(ctx.runToon<DoctorReport>('doctor').findings).toHaveLength(0);
+  });
+
+  it('should detect and break dependency cycles', () => {
+    const a = ctx.runToon<Task>('task create -t "A"');
+    const b = ctx.runToon<Task>('task create -t "B"');
+    ctx.run(`dep add ${a.id} ${b.id}`);
+    corrupt(`INSERT INTO dependencies VALUES ('cycle', '${b.id}', '${a.id}', 0)`);
+
+    const report = ctx.runToon<DoctorReport>('doctor');
+    const cycles = report.findings.find((f) => f.check === 'cycles');
+    expect(cycles?.details).toHaveLength(1);
+    expect(cycles?.details[0]).toContain(`${a.id} -> ${b.id}`);
+    expect(cycles?.repairs).toBeUndefined();
+
+    const fixed = ctx.runToon<DoctorReport>('doctor --fix');
+    const broken = fixed.findings.find((f) => f.check === 'cycles');
+    expect(broken?.details).toEqual(cycles?.details ?? []);
+    expect(broken?.repairs).toHaveLength(1);
+    expect(ctx.runToon<DoctorReport>('doctor').findings).toHaveLength(0);
+  });
+
+  it('should detect and rebuild an out-of-sync search index', () => {
+    const task = ctx.runToon<Task>('task create -t "Searchable"');
+    corrupt(`DELETE FROM search_index WHERE entity_id = '${task.id}'`);
+
+    const report = ctx.runToon<DoctorReport>('doctor');
+    const finding = report.findings.find((f) => f.check === 'search_index');
+    expect(finding?.details).toContain(`missing: task ${task.id}`);
+
+    ctx.run('doctor --fix');
+    const search = ctx.runToon<{ total: number }>('search Searchable');
+    expect(search.total).toBe(1);
+  });
+
+  it('should raise id counters that fell behind existing IDs', () => {
+    ctx.run('task create -t "One"');
+    ctx.run('task create -t "Two"');
+    corrupt("UPDATE id_counters SET counter = 0 WHERE entity_type = 'task'");
+
+    const report = ctx.runToon<DoctorReport>('doctor');
+    const finding = report.findings.find((f) => f.check === 'id_counters');
+    expect(finding?.details[0]).toContain('task: counter is 0, highest ID is 2');
+
+    ctx.run('doctor --fix');
+    const task = ctx.runToon<Task>('task create -t "Three"');
+    expect(task.id).toBe('TREK-3');
+  });
+
+  it('should restore missing history triggers', () => {
+    corrupt('DROP TRIGGER tasks_history_insert');
+
+    const report = ctx.runToon<DoctorReport>('doctor');
+    const finding = report.findings.find((f) => f.check === 'triggers');
+    expect(finding?.details).toEqual(['tasks_history_insert']);
+
+    ctx.run('doctor --fix');
+    const task = ctx.runToon<Task>('task create -t "Tracked"');
+    const history = ctx.runToon<{ total: number }>(`history --entity ${task.id}`);
+    expect(history.total).toBe(1);
+  });
+
+  it('should output JSON with --json', () => {
+    const output = ctx.run('doctor --json');
+    const report: DoctorReport = JSON.parse(output);
+
+    expect(report.healthy).toBe(true);
+  });
+
+  it('should output a text report', () => {
+    corrupt("UPDATE id_counters SET counter = -1 WHERE entity_type = 'epic'");
+    const output = ctx.run('doctor');
+
+    expect(output).toContain('✓ orphans: OK');
+    expect(output).toContain('✗ id_counters');
+    expect(output).toContain('trekker doctor --fix');
+  });
+});
@@ -11,6 +11,20 @@ interface Epic {
   updatedAt: string;
 }
 
+interface TreeNode {
+  id: string;
+  dependsOn: string[];
+  blockedBy: string[];
+  subtasks: TreeNode[];
+}
+
+interface EpicTree {
+  epic: Epic;
+  progress: { tasks: number; done: number; percent: number; blocked: number };
+  next: { id: string } | null;
+  tasks: TreeNode[];
+}
+
 interface PaginatedResponse<T> {
   total: number;
   page: number;
@@ -122,6 +136,46 @@ describe('epic command', () => {
       const error = ctx.runExpectError('epic show EPIC-999');
       expect(error.toLowerCase()).toContain('not found');
     });
+
+    it('should show the task tree with progress and the next task', () => {
+      const epic = ctx.runToon<Epic>('epic create -t "Auth" -p 1');
+      const schema = ctx.runToon<Epic>(`task create -t "Schema" -e ${epic.id} -s completed`);
+      const api = ctx.runToon<Epic>(`task create -t "Endpoints" -e ${epic.id} -p 1`);
+      const login = ctx.runToon<Epic>(`task create -t "Login form" -e ${epic.id} -p 1`);
+      const form = ctx.runToon<Epic>(`subtask create ${schema.id} -t "Form"`);
+      ctx.run('task create -t "Elsewhere"');
+      ctx.run(`dep add ${api.id} ${login.id}`);
+      ctx.run(`dep add ${login.id} ${schema.id}`);
+
+      const tree = ctx.runToon<EpicTree>(`epic show ${epic.id} --tree`);
+      expect(tree.epic.id).toBe(epic.id);
+      expect(tree.tasks.map((task) => task.id)).toEqual([schema.id, api.id, login.id]);
+      expect(tree.tasks[0].subtasks.map((task) => task.id)).toEqual([form.id]);
+      expect(tree.tasks[1].blockedBy).toEqual([login.id]);
+      expect(tree.tasks[2].dependsOn).toEqual([schema.id]);
+      expect(tree.tasks[2].blockedBy).toEqual([]);
+      expect(tree.progress).toEqual({ tasks: 4, done: 1, percent: 25, blocked: 1 });
+      expect(tree.next?.id).toBe(login.id);
+
+      const output = ctx.run(`epic show ${epic.id} --tree`);
+      expect(output).toContain(`├── ${schema.id} | completed   | P2 | Schema`);
+      expect(output).toContain(`│   └── ${form.id} | todo        | P2 | Form`);
+      expect(output).toContain(
+        `├── ${api.id} | todo        | P1 | Endpoints [blocked by ${login.id}]`
+      );
+      expect(output).toContain(
+        `└── ${login.id} | todo        | P1 | Login form [after ${schema.id}]`
+      );
+      expect(output).toContain('Progress: 25% done (1 of 4), 1 blocked');
+      expect(output).toContain(`Next:     ${login.id} | P1 | Login form`);
+    });
+
+    it('should not combine --tree with --at', () => {
+      const epic = ctx.runToon<Epic>('epic create -t "Auth"');
+      expect(ctx.runExpectError(`epic show ${epic.id} --tree --at 2025-01-01`)).toContain(
+        '--tree shows the epic as it is now and cannot be combined with --at.'
+      );
+    });
   });
 
   describe('update', () => {
@@ -194,6 +248,18 @@ describe('epic command', () => {
       expect(error.toLowerCase()).toContain('not found');
     });
 
+    it('should detach tasks from a deleted epic', () => {
+      const epic = ctx.runToon<Epic>('epic create -t "To Delete"');
+      const task = ctx.runToon<{ id: string; epicId: string | null }>(
+        `task create -t "Task" -e ${epic.id}`
+      );
+
+      ctx.run(`epic delete ${epic.id}`);
+
+      const shown = ctx.runToon<{ epicId: string | null }>(`task show ${task.id}`);
+      expect(shown.epicId).toBeNull();
+    });
+
     it('should fail for non-existent epic', () => {
       const error = ctx.runExpectError('epic delete EPIC-999');
       expect(error.toLowerCase()).toContain('not found');
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface Task {
+  id: string;
+  estimate: number | null;
+}
+
+interface EpicRollup {
+  unit: string;
+  total: number;
+  completed: number;
+  remaining: number;
+  unestimated: number;
+  tasks: number;
+  byStatus: Record<string, number>;
+}
+
+interface Epic {
+  id: string;
+  rollup: EpicRollup;
+}
+
+interface ListResponse {
+  items: { id: string }[];
+}
+
+describe('estimates', () => {
+  let ctx: TestContext;
+
+  const listIds = (args: string): string[] =>
+    ctx.runToon<ListResponse>(`list ${args}`).items.map((item) => item.id);
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should set, change and clear estimates on tasks and subtasks', () => {
+    const task = ctx.runToon<Task>('task create -t "Login" --estimate 3');
+    expect(task.estimate).toBe(3);
+    expect(ctx.run(`task show ${task.id}`)).toContain('Estimate:    3');
+
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Form" --estimate 0.5`);
+    expect(subtask.estimate).toBe(0.5);
+
+    expect(ctx.runToon<Task>(`task update ${task.id} --estimate 5`).estimate).toBe(5);
+    expect(ctx.runToon<Task>(`subtask update ${subtask.id} --no-estimate`).estimate).toBeNull();
+
+    expect(ctx.runExpectError('task create -t "A" --estimate lots')).toContain(
+      'Invalid estimate: lots. Must be a number of 0 or more.'
+    );
+  });
+
+  it('should filter and sort lists by estimate', () => {
+    const small = ctx.runToon<Task>('task create -t "Small" --estimate 1');
+    const large = ctx.runToon<Task>('task create -t "Large" --estimate 8');
+    const none = ctx.runToon<Task>('task create -t "Unsized"');
+
+    expect(listIds("'estimate>=2'")).toEqual([large.id]);
+    expect(listIds('--sort estimate:desc')).toEqual([large.id, small.id, none.id]);
+    expect(listIds('--sort estimate:asc')).toEqual([small.id, large.id, none.id]);
+    expect(ctx.runExpectError("list 'estimate>many'")).toContain(
+      'estimate takes a number, got many.'
+    );
+  });
+
+  it('should roll up effort and task counts on epic show', () => {
+    const epic = ctx.runToon<Epic>('epic create -t "Auth"');
+    const login = ctx.runToon<Task>(`task create -t "Login" -e ${epic.id} --estimate 3`);
+    ctx.run(`task create -t "Signup" -e ${epic.id} --estimate 5 -s completed`);
+    ctx.run(`task create -t "Reset" -e ${epic.id} -s in_progress`);
+    ctx.run(`task create -t "Dropped" -e ${epic.id} --estimate 2 -s wont_fix`);
+    ctx.run(`subtask create ${login.id} -t "Form" --estimate 1`);
+    ctx.run('task create -t "Elsewhere" --estimate 13');
+
+    const { rollup } = ctx.runToon<Epic>(`epic show ${epic.id}`);
+    expect(rollup).toEqual({
+      unit: 'points',
+      total: 11,
+      completed: 7,
+      remaining: 4,
+      unestimated: 1,
+      tasks: 5,
+      byStatus: { todo: 2, in_progress: 1, completed: 1, wont_fix: 1 },
+    });
+
+    ctx.run('config set estimate_unit hours');
+    const output = ctx.run(`epic show ${epic.id}`);
+    expect(output).toContain('Tasks:       5 (todo 2, in_progress 1, completed 1, wont_fix 1)');
+    expect(output).toContain('Effort:      11 hours, 7 completed, 4 remaining');
+    expect(output).toContain('Unestimated: 1 open task without an estimate');
+  });
+
+  it('should show an empty rollup for an epic without tasks', () => {
+    const epic = ctx.runToon<Epic>('epic create -t "Empty"');
+    expect(ctx.runToon<Epic>(`epic show ${epic.id}`).rollup.tasks).toBe(0);
+    expect(ctx.run(`epic show ${epic.id}`)).toContain('Tasks:       none');
+  });
+
+  it('should only accept points or hours as the estimate unit', () => {
+    expect(ctx.runExpectError('config set estimate_unit days')).toContain(
+      'Invalid estimate unit: days. Valid values: points, hours'
+    );
+  });
+});
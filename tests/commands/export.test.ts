@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { existsSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface ExportDocument {
+  format: string;
+  version: number;
+  schemaVersion: number;
+  tables: Record<string, Record<string, unknown>[] | undefined>;
+}
+
+interface Task {
+  id: string;
+}
+
+describe('export command', () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should write every table to stdout as JSON', () => {
+    const epic = ctx.runToon<Task>('epic create -t "Epic"');
+    const task = ctx.runToon<Task>(`task create -t "Task" -e ${epic.id}`);
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Subtask"`);
+    ctx.run(`comment add ${task.id} -a "agent" -c "Note"`);
+    ctx.run(`dep add ${subtask.id} ${task.id}`);
+
+    const doc: ExportDocument = JSON.parse(ctx.run('export'));
+
+    expect(doc.format).toBe('trekker-export');
+    expect(doc.version).toBe(1);
+    expect(doc.schemaVersion).toBeGreaterThan(0);
+    expect(doc.tables.projects).toHaveLength(1);
+    expect(doc.tables.project_config).toHaveLength(4);
+    expect(doc.tables.epics).toHaveLength(1);
+    expect(doc.tables.tasks?.map((t) => t.id)).toEqual([task.id, subtask.id]);
+    expect(doc.tables.comments).toHaveLength(1);
+    expect(doc.tables.dependencies).toHaveLength(1);
+    expect(doc.tables.id_counters).toHaveLength(3);
+    expect(doc.tables.events).toBeUndefined();
+  });
+
+  it('should include history with --include-history', () => {
+    ctx.run('task create -t "Task"');
+
+    const doc: ExportDocument = JSON.parse(ctx.run('export --include-history'));
+
+    expect(doc.tables.events).toHaveLength(1);
+  });
+
+  it('should write to a file with --output', () => {
+    ctx.run('task create -t "Task"');
+    const file = join(ctx.cwd, 'backup.json');
+
+    const output = ctx.run(`export --output ${file}`);
+
+    expect(output).toContain('Exported project');
+    expect(existsSync(file)).toBe(true);
+    const doc: ExportDocument = JSON.parse(readFileSync(file, 'utf-8'));
+    expect(doc.tables.tasks).toHaveLength(1);
+  });
+});
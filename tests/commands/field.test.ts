@@ -0,0 +1,143 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface Item {
+  id: string;
+  fields: Record<string, string | number> | null;
+}
+
+interface CustomField {
+  name: string;
+  type: string;
+  allowedValues: string[] | null;
+}
+
+interface ListResponse {
+  items: { id: string }[];
+}
+
+interface SearchResponse {
+  results: { id: string }[];
+}
+
+interface HistoryResponse {
+  events: { action: string; changes?: Record<string, { from: unknown; to: unknown }> }[];
+}
+
+describe('field command', () => {
+  let ctx: TestContext;
+
+  const listIds = (args: string): string[] =>
+    ctx.runToon<ListResponse>(`list ${args}`).items.map((item) => item.id);
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+    ctx.run('field define component --type enum --values api,cli,web');
+    ctx.run('field define size --type number');
+    ctx.run('field define launch --type date');
+    ctx.run('field define customer --type string');
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should define and list fields', () => {
+    const fields = ctx.runToon<CustomField[]>('field list');
+    expect(fields.map((field) => [field.name, field.type])).toEqual([
+      ['component', 'enum'],
+      ['customer', 'string'],
+      ['launch', 'date'],
+      ['size', 'number'],
+    ]);
+    expect(ctx.run('field list')).toContain('component: enum (api, cli, web)');
+  });
+
+  it('should set, change and clear values on tasks and epics', () => {
+    const task = ctx.runToon<Item>(
+      'task create -t "Login" --set component=api --set size=3 --set "customer=Acme Corp"'
+    );
+    expect(task.fields).toEqual({ component: 'api', size: 3, customer: 'Acme Corp' });
+
+    const updated = ctx.runToon<Item>(`task update ${task.id} --set size=5 --set customer=`);
+    expect(updated.fields).toEqual({ component: 'api', size: 5 });
+    expect(ctx.run(`task show ${task.id}`)).toContain('Fields:      component=api, size=5');
+
+    const epic = ctx.runToon<Item>('epic create -t "Auth" --set launch=2026-03-01');
+    expect(ctx.runToon<Item>(`epic show ${epic.id}`).fields).toEqual({ launch: '2026-03-01' });
+    expect(ctx.runToon<Item>(`epic update ${epic.id} --set launch=`).fields).toBeNull();
+  });
+
+  it('should reject unknown fields and values that do not fit', () => {
+    expect(ctx.runExpectError('task create -t "A" --set sprint=12')).toContain(
+      "Unknown field: sprint. Define it first with 'trekker field define sprint --type <type>'."
+    );
+    expect(ctx.runExpectError('task create -t "A" --set component=mobile')).toContain(
+      'Invalid value for field component: "mobile". Expected one of api, cli, web.'
+    );
+    expect(ctx.runExpectError('task create -t "A" --set size=lots')).toContain(
+      'Expected a number.'
+    );
+    expect(ctx.runExpectError('task create -t "A" --set launch=tomorrow')).toContain(
+      'Expected a date (YYYY-MM-DD).'
+    );
+    expect(ctx.runExpectError('task create -t "A" --set size')).toContain(
+      'Invalid field assignment: size. Use --set field=value.'
+    );
+    expect(ctx.runExpectError('field define status --type string')).toContain(
+      'Invalid field name: status is a built-in field.'
+    );
+    expect(ctx.runExpectError('field define sprint --type integer')).toContain(
+      'Invalid field type: integer'
+    );
+  });
+
+  it('should filter and sort lists by custom fields', () => {
+    const small = ctx.runToon<Item>('task create -t "Small" --set component=api --set size=1');
+    const large = ctx.runToon<Item>('task create -t "Large" --set component=web --set size=8');
+    const none = ctx.runToon<Item>('task create -t "Unsized" --set component=api');
+
+    expect(listIds('component:api --sort created:asc')).toEqual([small.id, none.id]);
+    expect(listIds("'size>=2'")).toEqual([large.id]);
+    expect(listIds("'size!=1' --sort created:asc")).toEqual([large.id, none.id]);
+    expect(listIds('--sort size:desc')).toEqual([large.id, small.id, none.id]);
+    expect(listIds('--sort size:asc')).toEqual([small.id, large.id, none.id]);
+
+    expect(ctx.runExpectError("list 'size>many'")).toContain('size takes a number, got many.');
+    expect(ctx.runExpectError("list 'component:mobile'")).toContain('unknown value mobile');
+  });
+
+  it('should index field values for search and record them in history', () => {
+    const task = ctx.runToon<Item>('task create -t "Invoice export" --set "customer=Globex"');
+
+    const found = ctx.runToon<SearchResponse>('search globex');
+    expect(found.results.map((result) => result.id)).toEqual([task.id]);
+
+    ctx.run(`task update ${task.id} --set customer=Initech`);
+    expect(ctx.runToon<SearchResponse>('search globex').results).toEqual([]);
+
+    const history = ctx.runToon<HistoryResponse>(`history --entity ${task.id} --action update`);
+    expect(history.events[0].changes?.fields).toEqual({
+      from: '{"customer":"Globex"}',
+      to: '{"customer":"Initech"}',
+    });
+
+    ctx.run('undo');
+    expect(ctx.runToon<Item>(`task show ${task.id}`).fields).toEqual({ customer: 'Globex' });
+  });
+
+  it('should refuse redefinitions existing values do not fit, and clear values on delete', () => {
+    const task = ctx.runToon<Item>('task create -t "A" --set component=cli');
+
+    expect(ctx.runExpectError('field define component --type enum --values api,web')).toContain(
+      `Cannot redefine field component: the values of ${task.id} would not be one of api, web.`
+    );
+    ctx.run('field define component --type enum --values api,cli,web,mobile');
+    ctx.run('task create -t "B" --set component=api');
+
+    expect(ctx.run('field delete component')).toContain('cleared on 2 item(s)');
+    expect(ctx.runToon<Item>(`task show ${task.id}`).fields).toBeNull();
+    expect(ctx.runExpectError('field delete component')).toContain('Field not found: component');
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface ImportResult {
+  createdDatabase: boolean;
+  imported: {
+    epics: number;
+    tasks: number;
+    comments: number;
+    dependencies: number;
+    events: number;
+  };
+  skipped: string[];
+  overwritten: string[];
+  renumbered: { from: string; to: string }[];
+}
+
+interface Task {
+  id: string;
+  title: string;
+  epicId: string | null;
+  parentTaskId: string | null;
+}
+
+interface Comment {
+  id: string;
+}
+
+interface CustomField {
+  name: string;
+  type: string;
+}
+
+interface WorkflowStatus {
+  name: string;
+}
+
+interface HistoryResponse {
+  total: number;
+  events: { action: string; entityId: string }[];
+}
+
+describe('import command', () => {
+  let source: TestContext;
+  let target: TestContext;
+
+  // Exports the source project into a file inside the target directory
+  function exportSource(flags = ''): string {
+    const file = join(target.cwd, 'export.json');
+    writeFileSync(file, source.run(`export ${flags}`));
+    return file;
+  }
+
+  beforeEach(() => {
+    source = createTestContext();
+    target = createTestContext();
+    initTrekker(source);
+
+    const epic = source.runToon<Task>('epic create -t "Source epic"');
+    const task = source.runToon<Task>(`task create -t "Source task" -e ${epic.id}`);
+    const subtask = source.runToon<Task>(`subtask create ${task.id} -t "Source subtask"`);
+    source.run(`comment add ${task.id} -a "agent" -c "Source comment"`);
+    source.run(`dep add ${subtask.id} ${task.id}`);
+  });
+
+  afterEach(() => {
+    source?.cleanup();
+    target?.cleanup();
+  });
+
+  it('should restore a project into an uninitialized directory', () => {
+    const file = exportSource();
+
+    const result = target.runToon<ImportResult>(`import ${file}`);
+
+    expect(result.createdDatabase).toBe(true);
+    expect(result.imported).toEqual({
+      epics: 1,
+      tasks: 2,
+      comments: 1,
+      dependencies: 1,
+      events: 0,
+    });
+    const subtask = target.runToon<Task>('task show TREK-2');
+    expect(subtask.parentTaskId).toBe('TREK-1');
+    expect(target.runToon<{ total: number }>('search Source').total).toBe(4);
+    expect(target.runToon<Task>('task create -t "Next"').id).toBe('TREK-3');
+  });
+
+  it('should keep configured prefixes and history with --include-history', () => {
+    source.run('config set issue_prefix feat');
+    source.run('task update TREK-1 -s in_progress');
+    const file = exportSource('--include-history');
+
+    target.run(`import ${file}`);
+
+    expect(target.runToon<Task>('task create -t "Next"').id).toBe('FEAT-3');
+    const history = target.runToon<HistoryResponse>('history --entity TREK-1');
+    expect(history.events.map((e) => e.action).sort()).toEqual(['create', 'update']);
+  });
+
+  it('should fail on conflicting IDs by default without changing anything', () => {
+    initTrekker(target);
+    target.run('task create -t "Existing task"');
+    const file = exportSource();
+
+    const error = target.runExpectError(`import ${file}`);
+
+    expect(error).toContain('conflicts with existing IDs: TREK-1');
+    expect(target.runToon<{ total: number }>('list').total).toBe(1);
+  });
+
+  it('should keep existing rows with --mode skip', () => {
+    initTrekker(target);
+    target.run('task create -t "Existing task"');
+    const file = exportSource();
+
+    const result = target.runToon<ImportResult>(`import ${file} --mode skip`);
+
+    expect(result.skipped).toEqual(['TREK-1']);
+    expect(target.runToon<Task>('task show TREK-1').title).toBe('Existing task');
+    expect(target.runToon<Task>('task show TREK-2').title).toBe('Source subtask');
+  });
+
+  it('should add the field definitions the target lacks and keep its own', () => {
+    source.run('field define size --type number');
+    source.run('field define component --type enum --values api,cli');
+    source.run('task update TREK-1 --set size=3');
+    initTrekker(target);
+    target.run('field define component --type string');
+    target.run('task create -t "Existing task"');
+    const file = exportSource();
+
+    const result = target.runToon<ImportResult>(`import ${file} --mode renumber`);
+
+    const fields = target.runToon<CustomField[]>('field list');
+    expect(fields.map((field) => [field.name, field.type])).toEqual([
+      ['component', 'string'],
+      ['size', 'number'],
+    ]);
+    const renumbered = result.renumbered.find((entry) => entry.from === 'TREK-1');
+    const sized = target.runToon<{ items: { id: string }[] }>('list size:3');
+    expect(sized.items.map((item) => item.id)).toEqual([renumbered?.to ?? 'TREK-1']);
+  });
+
+  it('should add the workflow statuses the target lacks after its own', () => {
+    source.run('workflow add in_review --category active');
+    source.run('task update TREK-1 -s in_review');
+    initTrekker(target);
+    target.run('workflow add triage --category todo');
+    target.run('task create -t "Existing task"');
+    const file = exportSource();
+
+    target.run(`import ${file} --mode renumber`);
+
+    const statuses = target.runToon<WorkflowStatus[]>('workflow list');
+    expect(statuses.map((status) => status.name).slice(-2)).toEqual(['triage', 'in_review']);
+    const inReview = target.runToon<{ items: { title: string }[] }>('list status:in_review');
+    expect(inReview.items.map((item) => item.title)).toEqual(['Source task']);
+  });
+
+  it('should replace existing rows with --mode overwrite', () => {
+    initTrekker(target);
+    const existing = target.runToon<Task>('task create -t "Existing task"');
+    target.run('config set comment_prefix note');
+    target.run(`comment add ${existing.id} -a "agent" -c "Kept comment"`);
+    const file = exportSource();
+
+    const result = target.runToon<ImportResult>(`import ${file} --mode overwrite`);
+
+    expect(result.overwritten).toEqual(['TREK-1']);
+    expect(target.runToon<Task>('task show TREK-1').title).toBe('Source task');
+    // Overwriting updates in place, so rows attached to the existing task survive
+    expect(target.runToon<{ total: number }>('search "Kept comment"').total).toBe(1);
+  });
+
+  it('should give conflicting rows new IDs and rewrite references with --mode renumber', () => {
+    initTrekker(target);
+    target.run('epic create -t "Existing epic"');
+    target.run('task create -t "Existing 1"');
+    target.run('task create -t "Existing 2"');
+    target.run('comment add TREK-1 -a "agent" -c "Existing comment"');
+    const file = exportSource();
+
+    const result = target.runToon<ImportResult>(`import ${file} --mode renumber`);
+
+    expect(result.renumbered).toEqual([
+      { from: 'EPIC-1', to: 'EPIC-2' },
+      { from: 'TREK-1', to: 'TREK-3' },
+      { from: 'TREK-2', to: 'TREK-4' },
+      { from: 'CMT-1', to: 'CMT-2' },
+    ]);
+
+    const task = target.runToon<Task>('task show TREK-3');
+    expect(task.title).toBe('Source task');
+    expect(task.epicId).toBe('EPIC-2');
+    expect(target.runToon<Task>('task show TREK-4').parentTaskId).toBe('TREK-3');
+    const comments = target.runToon<{ items: Comment[] }>('comment list TREK-3');
+    expect(comments.items.map((c) => c.id)).toEqual(['CMT-2']);
+    expect(target.run('dep list TREK-4')).toContain('TREK-3');
+    expect(target.runToon<Task>('task show TREK-1').title).toBe('Existing 1');
+  });
+
+  it('should reject files that are not trekker exports', () => {
+    const file = join(target.cwd, 'bad.json');
+    writeFileSync(file, JSON.stringify({ hello: 'world' }));
+
+    const error = target.runExpectError(`import ${file}`);
+
+    expect(error).toContain('not a trekker export document');
+  });
+
+  it('should reject an invalid mode', () => {
+    const file = exportSource();
+
+    const error = target.runExpectError(`import ${file} --mode merge`);
+
+    expect(error).toContain('Invalid mode: merge');
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { cpSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface Task {
+  id: string;
+  title: string;
+  status: string;
+  parentTaskId: string | null;
+}
+
+interface MergeResult {
+  dryRun: boolean;
+  changes: { entityType: string; entityId: string; action: string; fields: string[] }[];
+  renumbered: { from: string; to: string }[];
+  conflicts: { entityId: string; field: string | null; reason: string }[];
+}
+
+describe('merge command', () => {
+  let ours: TestContext;
+  let theirs: TestContext;
+
+  const theirsDb = (): string => join(theirs.cwd, '.trekker', 'trekker.db');
+
+  beforeEach(() => {
+    ours = createTestContext();
+    theirs = createTestContext();
+    initTrekker(ours);
+    ours.run('task create -t "Shared task"');
+    ours.run('task create -t "Other shared task"');
+
+    // Both copies start from the same database, as after a branch
+    cpSync(join(ours.cwd, '.trekker'), join(theirs.cwd, '.trekker'), { recursive: true });
+  });
+
+  afterEach(() => {
+    ours?.cleanup();
+    theirs?.cleanup();
+  });
+
+  it('should combine edits to different fields of the same task', () => {
+    ours.run('task update TREK-1 -s in_progress');
+    theirs.run('task update TREK-1 -t "Renamed on the other branch"');
+
+    const result = ours.runToon<MergeResult>(`merge ${theirsDb()}`);
+
+    expect(result.conflicts).toHaveLength(0);
+    const task = ours.runToon<Task>('task show TREK-1');
+    expect(task.title).toBe('Renamed on the other branch');
+    expect(task.status).toBe('in_progress');
+  });
+
+  it('should report a conflict when both sides change the same field', () => {
+    ours.run('task update TREK-1 -t "Our title"');
+    theirs.run('task update TREK-1 -t "Their title"');
+
+    const result = ours.runToon<MergeResult>(`merge ${theirsDb()}`);
+
+    expect(result.conflicts).toEqual([
+      expect.objectContaining({
+        entityId: 'TREK-1',
+        field: 'title',
+        reason: 'changed on both sides',
+      }),
+    ]);
+    expect(ours.runToon<Task>('task show TREK-1').title).toBe('Our title');
+  });
+
+  it('should renumber items created independently under the same ID', () => {
+    ours.run('task create -t "Created here"');
+    theirs.run('task create -t "Created there"');
+    theirs.run('subtask create TREK-3 -t "Subtask there"');
+
+    const result = ours.runToon<MergeResult>(`merge ${theirsDb()}`);
+
+    expect(result.renumbered).toEqual([{ from: 'TREK-3', to: 'TREK-5' }]);
+    expect(ours.runToon<Task>('task show TREK-3').title).toBe('Created here');
+    expect(ours.runToon<Task>('task show TREK-5').title).toBe('Created there');
+    const subtask = ours.runToon<Task>('task show TREK-4');
+    expect(subtask.title).toBe('Subtask there');
+    expect(subtask.parentTaskId).toBe('TREK-5');
+    expect(ours.runToon<Task>('task create -t "Next"').id).toBe('TREK-6');
+  });
+
+  it('should bring in the statuses and fields that source tasks use', () => {
+    theirs.run('workflow add in_review --category active');
+    theirs.run('field define size --type number');
+    theirs.run('task create -t "Review there" -s in_review --set size=3');
+
+    ours.run(`merge ${theirsDb()}`);
+
+    expect(ours.runToon<{ name: string }[]>('workflow list').map((s) => s.name)).toContain(
+      'in_review'
+    );
+    expect(ours.runToon<{ name: string }[]>('field list').map((f) => f.name)).toEqual(['size']);
+    const listed = ours.runToon<{ items: Task[] }>(`list 'status:in_review size>=3'`);
+    expect(listed.items.map((item) => item.title)).toEqual(['Review there']);
+    expect(ours.runToon<Task>('task update TREK-3 -s todo --set size=5').status).toBe('todo');
+  });
+
+  it('should apply deletions and new dependencies from the source', () => {
+    theirs.run('task delete TREK-2');
+    theirs.run('task create -t "New there"');
+    theirs.run('dep add TREK-3 TREK-1');
+
+    const result = ours.runToon<MergeResult>(`merge ${theirsDb()}`);
+
+    expect(result.changes.map((c) => `${c.action} ${c.entityId}`)).toEqual([
+      'added TREK-3',
+      'added TREK-3 -> TREK-1',
+      'deleted TREK-2',
+    ]);
+    expect(ours.runExpectError('task show TREK-2')).toContain('not found');
+  });
+
+  it('should keep a task deleted here even if the source still has it', () => {
+    ours.run('task delete TREK-2');
+
+    const result = ours.runToon<MergeResult>(`merge ${theirsDb()}`);
+
+    expect(result.changes).toHaveLength(0);
+    expect(ours.runExpectError('task show TREK-2')).toContain('not found');
+  });
+
+  it('should report a task changed here but deleted in the source', () => {
+    ours.run('task update TREK-2 -s completed');
+    theirs.run('task delete TREK-2');
+
+    const result = ours.runToon<MergeResult>(`merge ${theirsDb()}`);
+
+    expect(result.conflicts[0]).toEqual(
+      expect.objectContaining({ entityId: 'TREK-2', reason: 'changed here, deleted in source' })
+    );
+    expect(ours.runToon<Task>('task show TREK-2').status).toBe('completed');
+  });
+
+  it('should merge from an export file with history', () => {
+    theirs.run('task update TREK-2 -s completed');
+    const file = join(ours.cwd, 'theirs.json');
+    writeFileSync(file, theirs.run('export --include-history'));
+
+    ours.run(`merge ${file}`);
+
+    expect(ours.runToon<Task>('task show TREK-2').status).toBe('completed');
+  });
+
+  it('should not write anything with --dry-run', () => {
+    theirs.run('task update TREK-1 -t "Renamed"');
+
+    const result = ours.runToon<MergeResult>(`merge ${theirsDb()} --dry-run`);
+
+    expect(result.dryRun).toBe(true);
+    expect(result.changes).toHaveLength(1);
+    expect(ours.runToon<Task>('task show TREK-1').title).toBe('Shared task');
+  });
+});
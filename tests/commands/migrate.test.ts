@@ -0,0 +1,255 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { existsSync, mkdirSync, readdirSync } from 'node:fs';
+import { join } from 'node:path';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface MigrationStatus {
+  currentVersion: number;
+  latestVersion: number;
+  applied: { version: number; name: string }[];
+  pending: { version: number; name: string }[];
+}
+
+interface MigrationRunResult {
+  fromVersion: number;
+  toVersion: number;
+  applied: { version: number; name: string }[];
+  backupPath: string | null;
+}
+
+interface SearchResponse {
+  total: number;
+  results: { id: string }[];
+}
+
+interface MigrationNotes {
+  applied: { name: string; notes: string[] }[];
+}
+
+interface ListResponse {
+  total: number;
+  items: { id: string; parentId: string | null }[];
+}
+
+// Schema as written by trekker releases before search, history and project config existed
+function createLegacyDatabase(cwd: string): void {
+  const dir = join(cwd, '.trekker');
+  mkdirSync(dir, { recursive: true });
+  const sqlite = new Database(join(dir, 'trekker.db'));
+
+  sqlite.run(`
+    CREATE TABLE projects (id TEXT PRIMARY KEY, name TEXT NOT NULL UNIQUE,
+      created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL);
+    CREATE TABLE epics (id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE, title TEXT NOT NULL,
+      description TEXT, status TEXT NOT NULL DEFAULT 'todo', priority INTEGER NOT NULL DEFAULT 2,
+      created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL);
+    CREATE TABLE tasks (id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+      epic_id TEXT REFERENCES epics(id) ON DELETE SET NULL, parent_task_id TEXT,
+      title TEXT NOT NULL, description TEXT, priority INTEGER NOT NULL DEFAULT 2,
+      status TEXT NOT NULL DEFAULT 'todo', tags TEXT,
+      created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL);
+    CREATE TABLE comments (id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE, author TEXT NOT NULL,
+      content TEXT NOT NULL, created_at INTEGER NOT NULL, updated_at INTEGER NOT NULL);
+    CREATE TABLE dependencies (id TEXT PRIMARY KEY,
+      task_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      depends_on_id TEXT NOT NULL REFERENCES tasks(id) ON DELETE CASCADE,
+      created_at INTEGER NOT NULL);
+    CREATE TABLE id_counters (entity_type TEXT PRIMARY KEY, counter INTEGER NOT NULL DEFAULT 0);
+    INSERT INTO projects VALUES ('p1', 'legacy', 1700000000, 1700000000);
+    INSERT INTO tasks (id, project_id, title, created_at, updated_at)
+      VALUES ('TREK-1', 'p1', 'Legacy migration task', 1700000000, 1700000000);
+    INSERT INTO id_counters VALUES ('task', 1), ('epic', 0), ('comment', 0);
+  `);
+
+  sqlite.close();
+}
+
+// Rows left behind by deletes made while foreign keys were not enforced
+function addOrphans(cwd: string): void {
+  const sqlite = new Database(join(cwd, '.trekker', 'trekker.db'));
+  sqlite.run(`
+    INSERT INTO tasks (id, project_id, parent_task_id, title, created_at, updated_at)
+      VALUES ('TREK-7', 'p1', 'TREK-6', 'Orphaned subtask', 1700000000, 1700000000);
+    INSERT INTO tasks (id, project_id, epic_id, title, created_at, updated_at)
+      VALUES ('TREK-8', 'p1', 'EPIC-9', 'Task with deleted epic', 1700000000, 1700000000);
+    INSERT INTO comments VALUES ('CMT-1', 'TREK-6', 'agent', 'Orphaned comment', 1700000000, 1700000000);
+    INSERT INTO comments VALUES ('CMT-2', 'TREK-7', 'agent', 'On orphaned subtask', 1700000000, 1700000000);
+    INSERT INTO dependencies VALUES ('d1', 'TREK-1', 'TREK-6', 1700000000);
+  `);
+  sqlite.close();
+}
+
+describe('migrate command', () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  describe('on a new database', () => {
+    beforeEach(() => {
+      initTrekker(ctx);
+    });
+
+    it('should report the latest schema version with nothing pending', () => {
+      const status = ctx.runToon<MigrationStatus>('migrate status');
+
+      expect(status.currentVersion).toBe(status.latestVersion);
+      expect(status.pending).toHaveLength(0);
+      expect(status.applied[0].name).toBe('initial-schema');
+    });
+
+    it('should do nothing on up', () => {
+      const result = ctx.runToon<MigrationRunResult>('migrate up');
+
+      expect(result.applied).toHaveLength(0);
+      expect(result.backupPath).toBeNull();
+    });
+
+    it('should show status in text mode', () => {
+      const output = ctx.run('migrate status');
+
+      expect(output).toContain('Schema version:');
+      expect(output).toContain('initial-schema');
+    });
+  });
+
+  describe('on a legacy database', () => {
+    beforeEach(() => {
+      createLegacyDatabase(ctx.cwd);
+    });
+
+    it('should report pending migrations without applying them', () => {
+      const status = ctx.runToon<MigrationStatus>('migrate status');
+
+      expect(status.currentVersion).toBe(0);
+      expect(status.pending.length).toBeGreaterThan(0);
+      expect(status.pending[0].name).toBe('initial-schema');
+    });
+
+    it('should upgrade with a backup on migrate up', () => {
+      const result = ctx.runToon<MigrationRunResult>('migrate up');
+
+      expect(result.fromVersion).toBe(0);
+      expect(result.toVersion).toBeGreaterThan(0);
+      expect(result.backupPath).not.toBeNull();
+      expect(existsSync(result.backupPath ?? '')).toBe(true);
+
+      const status = ctx.runToon<MigrationStatus>('migrate status');
+      expect(status.pending).toHaveLength(0);
+    });
+
+    it('should skip the backup with --no-backup', () => {
+      const result = ctx.runToon<MigrationRunResult>('migrate up --no-backup');
+
+      expect(result.backupPath).toBeNull();
+      expect(existsSync(join(ctx.cwd, '.trekker', 'backups'))).toBe(false);
+    });
+
+    it('should upgrade automatically on first use and index existing data', () => {
+      const result = ctx.runToon<SearchResponse>('search legacy');
+
+      expect(result.total).toBe(1);
+      expect(result.results[0].id).toBe('TREK-1');
+      expect(readdirSync(join(ctx.cwd, '.trekker', 'backups'))).toHaveLength(1);
+    });
+
+    it('should upgrade once and keep every write when several processes start at the same time', async () => {
+      const cli = join(import.meta.dir, '../../src/index.ts');
+      const writes = [
+        ['comment', 'add', 'TREK-1', '-a', 'agent-a', '-c', 'From agent-a'],
+        ['comment', 'add', 'TREK-1', '-a', 'agent-b', '-c', 'From agent-b'],
+        ['comment', 'add', 'TREK-1', '-a', 'agent-c', '-c', 'From agent-c'],
+        ['task', 'create', '-t', 'From agent-d'],
+        ['task', 'create', '-t', 'From agent-e'],
+      ];
+      const processes = writes.map((args) =>
+        Bun.spawn(['bun', 'run', cli, ...args], {
+          cwd: ctx.cwd,
+          stdout: 'pipe',
+          stderr: 'pipe',
+        })
+      );
+
+      const exitCodes = await Promise.all(processes.map((p) => p.exited));
+      const stderr = await Promise.all(processes.map((p) => new Response(p.stderr).text()));
+      expect(exitCodes).toEqual(writes.map(() => 0));
+
+      const upgrades = stderr.filter((text) => text.includes('Upgraded database schema'));
+      expect(upgrades).toHaveLength(1);
+      expect(readdirSync(join(ctx.cwd, '.trekker', 'backups'))).toHaveLength(1);
+
+      const comments = ctx.runToon<{ items: { author: string }[] }>('comment list TREK-1');
+      expect(comments.items.map((c) => c.author).sort()).toEqual(['agent-a', 'agent-b', 'agent-c']);
+      const tasks = ctx.runToon<{ items: { title: string }[] }>('task list');
+      expect(tasks.items.filter((t) => t.title.startsWith('From '))).toHaveLength(2);
+    });
+
+    it('should keep working with existing data after upgrade', () => {
+      ctx.run('migrate up');
+      const task = ctx.runToon<{ id: string }>('task create -t "New task"');
+
+      expect(task.id).toBe('TREK-2');
+    });
+  });
+
+  describe('on a legacy database with orphaned rows', () => {
+    beforeEach(() => {
+      createLegacyDatabase(ctx.cwd);
+      addOrphans(ctx.cwd);
+    });
+
+    it('should clean up and report orphans', () => {
+      const result = ctx.runToon<MigrationNotes>('migrate up');
+      const notes = result.applied.find((m) => m.name === 'enforce-foreign-keys')?.notes ?? [];
+
+      expect(notes.some((n) => n.includes('orphaned subtasks') && n.includes('TREK-7'))).toBe(true);
+      expect(notes.some((n) => n.includes('orphaned comments') && n.includes('CMT-2'))).toBe(true);
+      expect(notes.some((n) => n.includes('orphaned dependencies'))).toBe(true);
+      expect(notes.some((n) => n.includes('missing epic') && n.includes('TREK-8'))).toBe(true);
+
+      const list = ctx.runToon<ListResponse>('list');
+      expect(list.items.map((i) => i.id).sort()).toEqual(['TREK-1', 'TREK-8']);
+      expect(list.items.find((i) => i.id === 'TREK-8')?.parentId).toBeNull();
+    });
+
+    it('should report orphans when upgrading automatically on first use', () => {
+      const cli = join(import.meta.dir, '../../src/index.ts');
+      const result = Bun.spawnSync(['bun', 'run', cli, 'task', 'list'], { cwd: ctx.cwd });
+      const stderr = result.stderr.toString();
+
+      expect(result.exitCode).toBe(0);
+      expect(stderr).toContain('Upgraded database schema from v0');
+      expect(stderr).toContain('enforce-foreign-keys: ');
+      expect(stderr).toContain('TREK-7');
+      expect(stderr).toContain('TREK-8');
+    });
+
+    it('should record removed orphans in history', () => {
+      ctx.run('migrate up');
+      const history = ctx.runToon<{ events: { entityId: string }[] }>(
+        'history --action delete --type subtask'
+      );
+
+      expect(history.events.map((e) => e.entityId)).toContain('TREK-7');
+    });
+  });
+
+  it('should refuse a database newer than the CLI supports', () => {
+    initTrekker(ctx);
+    const sqlite = new Database(join(ctx.cwd, '.trekker', 'trekker.db'));
+    sqlite.run("INSERT INTO schema_version (version, name, applied_at) VALUES (9999, 'future', 0)");
+    sqlite.close();
+
+    const error = ctx.runExpectError('task list');
+    expect(error).toContain('newer than this version of trekker supports');
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface Task {
+  id: string;
+  status: string;
+  assignee: string | null;
+  claimExpiresAt: string | null;
+}
+
+interface Epic {
+  id: string;
+}
+
+interface TaskContext {
+  task: Task;
+  epic: Epic | null;
+  subtasks: { id: string }[];
+  comments: { content: string }[];
+  dependsOn: { dependsOnId: string }[];
+  blocks: { taskId: string }[];
+}
+
+interface ReadyList {
+  items: { id: string }[];
+}
+
+describe('next command', () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should start and claim the highest-priority ready task', () => {
+    ctx.runToon<Task>('task create -t "Low" -p 3');
+    const urgent = ctx.runToon<Task>('task create -t "Urgent" -p 0');
+
+    const context = ctx.runToon<TaskContext>('next --as agent-a');
+
+    expect(context.task.id).toBe(urgent.id);
+    expect(context.task.status).toBe('in_progress');
+    expect(context.task.assignee).toBe('agent-a');
+    expect(context.task.claimExpiresAt).not.toBeNull();
+  });
+
+  it('should give the next agent a different task', () => {
+    const first = ctx.runToon<Task>('task create -t "First" -p 1');
+    const second = ctx.runToon<Task>('task create -t "Second" -p 2');
+
+    const a = ctx.runToon<TaskContext>('next --as agent-a');
+    const b = ctx.runToon<TaskContext>('next --as agent-b');
+
+    expect(a.task.id).toBe(first.id);
+    expect(b.task.id).toBe(second.id);
+    expect(ctx.runExpectError('next --as agent-c')).toContain('No ready task matches');
+  });
+
+  it('should return the epic, subtasks, comments and dependencies of the task', () => {
+    const epic = ctx.runToon<Epic>('epic create -t "Epic"');
+    const done = ctx.runToon<Task>('task create -t "Done" -s completed');
+    const task = ctx.runToon<Task>(`task create -t "Task" -e ${epic.id}`);
+    const later = ctx.runToon<Task>('task create -t "Later" -p 5');
+    ctx.run(`dep add ${task.id} ${done.id}`);
+    ctx.run(`dep add ${later.id} ${task.id}`);
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Step"`);
+    ctx.run(`comment add ${task.id} -a human -c "Watch out for the cache"`);
+
+    const context = ctx.runToon<TaskContext>('next --as agent-a');
+
+    expect(context.task.id).toBe(task.id);
+    expect(context.epic?.id).toBe(epic.id);
+    expect(context.subtasks.map((s) => s.id)).toEqual([subtask.id]);
+    expect(context.comments.map((c) => c.content)).toEqual(['Watch out for the cache']);
+    expect(context.dependsOn.map((d) => d.dependsOnId)).toEqual([done.id]);
+    expect(context.blocks.map((d) => d.taskId)).toEqual([later.id]);
+  });
+
+  it('should only consider tasks in the given epic', () => {
+    const epic = ctx.runToon<Epic>('epic create -t "Epic"');
+    ctx.runToon<Task>('task create -t "Elsewhere" -p 0');
+    const inEpic = ctx.runToon<Task>(`task create -t "In epic" -p 3 -e ${epic.id}`);
+
+    expect(ctx.runToon<TaskContext>(`next --as agent-a -e ${epic.id}`).task.id).toBe(inEpic.id);
+  });
+
+  it('should only consider tasks with all the given tags', () => {
+    ctx.runToon<Task>('task create -t "Frontend" -p 0 --tags frontend');
+    ctx.runToon<Task>('task create -t "Backend only" -p 1 --tags backend');
+    const both = ctx.runToon<Task>('task create -t "Both" -p 2 --tags "backend, api"');
+
+    const context = ctx.runToon<TaskContext>('next --as agent-a --tags api,backend');
+
+    expect(context.task.id).toBe(both.id);
+  });
+
+  it('should skip tasks less urgent than --max-priority', () => {
+    ctx.runToon<Task>('task create -t "Someday" -p 4');
+
+    expect(ctx.runExpectError('next --as agent-a --max-priority 2')).toContain(
+      'No ready task matches'
+    );
+    expect(ctx.runToon<ReadyList>('ready --max-priority 2').items).toHaveLength(0);
+    expect(ctx.runToon<ReadyList>('ready --max-priority 4').items).toHaveLength(1);
+  });
+
+  it('should skip tasks the workflow does not let move to in_progress', () => {
+    ctx.run('workflow add triage --category todo --to todo');
+    const untriaged = ctx.runToon<Task>('task create -t "Untriaged" -s triage -p 0');
+    const task = ctx.runToon<Task>('task create -t "Triaged" -p 2');
+
+    expect(ctx.runToon<TaskContext>('next --as agent-a').task.id).toBe(task.id);
+    expect(ctx.runExpectError('next --as agent-b')).toContain('No ready task matches');
+    const unchanged = ctx.runToon<Task>(`task show ${untriaged.id}`);
+    expect(unchanged.status).toBe('triage');
+    expect(unchanged.assignee).toBeNull();
+
+    ctx.run(`task update ${untriaged.id} -s todo`);
+    expect(ctx.runToon<TaskContext>('next --as agent-b').task.id).toBe(untriaged.id);
+  });
+
+  it('should require an agent name', () => {
+    expect(ctx.runExpectError('next')).toContain("required option '--as <agent>'");
+  });
+});
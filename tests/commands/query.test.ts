@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface Item {
+  id: string;
+}
+
+interface ListResponse {
+  total: number;
+  items: Item[];
+}
+
+interface SearchResponse {
+  total: number;
+  results: Item[];
+}
+
+interface BulkResult {
+  matched: number;
+  items: Item[];
+}
+
+describe('query language', () => {
+  let ctx: TestContext;
+  let login: Item;
+  let api: Item;
+  let docs: Item;
+  let epic: Item;
+
+  const listIds = (query: string): string[] =>
+    ctx.runToon<ListResponse>(`list '${query}' --sort created:asc`).items.map((item) => item.id);
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+    epic = ctx.runToon<Item>('epic create -t "Auth" -p 1');
+    login = ctx.runToon<Item>(
+      `task create -t "Login page" -d "Form for users" -p 0 --tags "backend, ui" -e ${epic.id}`
+    );
+    api = ctx.runToon<Item>('task create -t "Login API" -p 1 --tags backend');
+    docs = ctx.runToon<Item>('task create -t "Write docs" -p 4 --tags docs');
+    ctx.run(`dep add ${api.id} ${docs.id}`);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should combine field terms, comparisons and negation in list', () => {
+    expect(listIds('type:task priority<=1 tag:backend')).toEqual([login.id, api.id]);
+    expect(listIds('priority>0 priority<4')).toEqual([epic.id, api.id]);
+    expect(listIds(`epic:${epic.id}`)).toEqual([login.id]);
+    expect(listIds('type:task -tag:backend')).toEqual([docs.id]);
+    expect(listIds('status:todo,in_progress priority!=1')).toEqual([login.id, docs.id]);
+  });
+
+  it('should match quoted tags with spaces in any case', () => {
+    ctx.run(`task update ${docs.id} --tags "user guide,backend"`);
+
+    expect(listIds('tag:"User Guide"')).toEqual([docs.id]);
+    expect(listIds('tag:BACKEND,"user guide"')).toEqual([docs.id]);
+    expect(listIds('type:task -tag:"user guide"')).toEqual([login.id, api.id]);
+  });
+
+  it('should match words and quoted phrases against titles and descriptions', () => {
+    expect(listIds('login')).toEqual([login.id, api.id]);
+    expect(listIds('"login page"')).toEqual([login.id]);
+    expect(listIds('login -api')).toEqual([login.id]);
+    expect(listIds('users')).toEqual([login.id]);
+  });
+
+  it('should filter on blocked and claimed tasks', () => {
+    expect(listIds('type:task blocked')).toEqual([api.id]);
+    expect(listIds('type:task -blocked')).toEqual([login.id, docs.id]);
+
+    ctx.run('next --as agent-a');
+    expect(listIds('claimed')).toEqual([login.id]);
+    expect(listIds('type:task -claimed -blocked')).toEqual([docs.id]);
+  });
+
+  it('should compare created and updated dates', () => {
+    expect(listIds('created>=2000-01-01 type:epic')).toEqual([epic.id]);
+    expect(listIds('created<2000-01-01')).toEqual([]);
+    expect(listIds('updated>7d type:epic')).toEqual([epic.id]);
+    expect(listIds('updated<7d')).toEqual([]);
+  });
+
+  it('should keep the list filter options as shorthands for terms', () => {
+    expect(
+      ctx.runToon<ListResponse>('list login --type task --priority 1').items.map((item) => item.id)
+    ).toEqual([api.id]);
+  });
+
+  it('should apply filter terms to search results', () => {
+    ctx.run(`comment add ${docs.id} -a "agent" -c "Login flow needs docs"`);
+
+    expect(ctx.runToon<SearchResponse>('search login').total).toBe(3);
+    expect(ctx.runToon<SearchResponse>('search "login tag:ui"').results.map((r) => r.id)).toEqual([
+      login.id,
+    ]);
+    expect(ctx.runToon<SearchResponse>('search "login -type:comment"').total).toBe(2);
+    expect(ctx.runToon<SearchResponse>('search "login -page"').total).toBe(2);
+    expect(ctx.runExpectError('search status:todo')).toContain(
+      'give at least one word to search for'
+    );
+  });
+
+  it('should filter ready tasks and bulk targets with a query', () => {
+    const ready = ctx.runToon<ListResponse>('ready tag:backend');
+    expect(ready.items.map((item) => item.id)).toEqual([login.id]);
+
+    const result = ctx.runToon<BulkResult>(
+      'task update --where "priority>=1 -blocked" -s wont_fix --yes'
+    );
+    expect(result.items.map((item) => item.id)).toEqual([docs.id]);
+  });
+
+  it('should explain invalid queries', () => {
+    expect(ctx.runExpectError("list 'state:todo'")).toContain(
+      'Invalid query term "state:todo": unknown field state'
+    );
+    expect(ctx.runExpectError("list 'tag<2'")).toContain('tag supports : =, not <');
+    expect(ctx.runExpectError("list 'priority:high'")).toContain(
+      'priority must be a whole number from 0 to 5'
+    );
+    expect(ctx.runExpectError("list 'updated>soon'")).toContain(
+      'updated takes a date (YYYY-MM-DD), a timestamp or an age such as 7d'
+    );
+    expect(ctx.runExpectError(`list '"login'`)).toContain('a quote is not closed');
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface Task {
+  id: string;
+  title: string;
+  epicId: string | null;
+  assignee: string | null;
+  createdAt: string;
+}
+
+interface Epic {
+  id: string;
+}
+
+interface RestoredEvent {
+  action: string;
+  entityType: string;
+  entityId: string;
+}
+
+interface RestoreResult {
+  entityId: string;
+  restored: RestoredEvent[];
+  skipped: RestoredEvent[];
+}
+
+interface CommentList {
+  items: { id: string; content: string }[];
+}
+
+describe('restore command', () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should restore a deleted task with its original ID and creation time', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    const before = ctx.runToon<Task>(`task show ${task.id}`);
+    ctx.run(`task delete ${task.id}`);
+
+    const result = ctx.runToon<RestoreResult>(`restore ${task.id}`);
+
+    expect(result.entityId).toBe(task.id);
+    const restored = ctx.runToon<Task>(`task show ${task.id}`);
+    expect(restored.title).toBe('Task');
+    expect(restored.createdAt).toBe(before.createdAt);
+  });
+
+  it('should restore the assignee and claim of a deleted task', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`task claim ${task.id} --as agent-a`);
+    ctx.run(`task delete ${task.id}`);
+
+    ctx.run(`restore ${task.id}`);
+
+    expect(ctx.runToon<Task>(`task show ${task.id}`).assignee).toBe('agent-a');
+    expect(ctx.runExpectError(`task claim ${task.id} --as agent-b`)).toContain(
+      'claimed by agent-a'
+    );
+  });
+
+  it('should restore subtasks, comments and dependencies deleted with the task', () => {
+    const task = ctx.runToon<Task>('task create -t "Parent"');
+    const other = ctx.runToon<Task>('task create -t "Other"');
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Child"`);
+    ctx.run(`comment add ${subtask.id} -a agent -c "On the subtask"`);
+    ctx.run(`dep add ${task.id} ${other.id}`);
+    ctx.run(`task delete ${task.id}`);
+
+    const result = ctx.runToon<RestoreResult>(`restore ${task.id}`);
+
+    expect(result.restored.map((event) => event.entityType).sort()).toEqual([
+      'comment',
+      'dependency',
+      'subtask',
+      'task',
+    ]);
+    expect(result.skipped).toEqual([]);
+    expect(ctx.runToon<Task>(`task show ${subtask.id}`).title).toBe('Child');
+    const comments = ctx.runToon<CommentList>(`comment list ${subtask.id}`);
+    expect(comments.items.map((c) => c.content)).toEqual(['On the subtask']);
+    expect(ctx.run(`dep list ${task.id}`)).toContain(other.id);
+  });
+
+  it('should skip dependencies on tasks that are still deleted', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    const gone = ctx.runToon<Task>('task create -t "Gone"');
+    const kept = ctx.runToon<Task>('task create -t "Kept"');
+    ctx.run(`dep add ${task.id} ${gone.id}`);
+    ctx.run(`dep add ${kept.id} ${task.id}`);
+    ctx.run(`task delete ${task.id}`);
+    ctx.run(`task delete ${gone.id}`);
+
+    const result = ctx.runToon<RestoreResult>(`restore ${task.id}`);
+
+    expect(result.skipped).toHaveLength(1);
+    expect(result.skipped[0].entityType).toBe('dependency');
+    expect(ctx.run(`dep list ${kept.id}`)).toContain(task.id);
+    expect(ctx.run(`dep list ${task.id}`)).not.toContain(gone.id);
+  });
+
+  it('should restore an epic and reattach its tasks', () => {
+    const epic = ctx.runToon<Epic>('epic create -t "Epic"');
+    const first = ctx.runToon<Task>(`task create -t "First" -e ${epic.id}`);
+    const second = ctx.runToon<Task>(`task create -t "Second" -e ${epic.id}`);
+    const otherEpic = ctx.runToon<Epic>('epic create -t "Other epic"');
+    ctx.run(`epic delete ${epic.id}`);
+    ctx.run(`task update ${second.id} -e ${otherEpic.id}`);
+
+    const result = ctx.runToon<RestoreResult>(`restore ${epic.id}`);
+
+    expect(ctx.runToon<Task>(`task show ${first.id}`).epicId).toBe(epic.id);
+    expect(ctx.runToon<Task>(`task show ${second.id}`).epicId).toBe(otherEpic.id);
+    expect(result.skipped.map((event) => event.entityId)).toEqual([second.id]);
+  });
+
+  it('should restore a comment', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`comment add ${task.id} -a agent -c "Keep me"`);
+    const comments = ctx.runToon<CommentList>(`comment list ${task.id}`);
+    ctx.run(`comment delete ${comments.items[0].id}`);
+
+    ctx.run(`restore ${comments.items[0].id}`);
+
+    expect(ctx.run(`comment list ${task.id}`)).toContain('Keep me');
+  });
+
+  it('should require the parent to be restored first', () => {
+    const task = ctx.runToon<Task>('task create -t "Parent"');
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Child"`);
+    ctx.run(`task delete ${task.id}`);
+
+    const error = ctx.runExpectError(`restore ${subtask.id}`);
+
+    expect(error).toContain(`${task.id} no longer exists. Restore it first.`);
+  });
+
+  it('should reject items that are not deleted or unknown', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+
+    expect(ctx.runExpectError(`restore ${task.id}`)).toContain(`${task.id} is not deleted`);
+    expect(ctx.runExpectError('restore TREK-99')).toContain(
+      'No deleted item found with ID TREK-99'
+    );
+  });
+
+  it('should print what was restored in text mode', () => {
+    const task = ctx.runToon<Task>('task create -t "Parent"');
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Child"`);
+    ctx.run(`task delete ${task.id}`);
+
+    const output = ctx.run(`restore ${task.id}`);
+
+    expect(output).toContain(`Restored ${task.id}`);
+    expect(output).toContain(`Restored subtask ${subtask.id}`);
+  });
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface Item {
+  id: string;
+  startAt: string | null;
+  dueAt: string | null;
+}
+
+interface ListResponse {
+  items: { id: string }[];
+}
+
+interface BatchResult {
+  results: { op: string; id: string }[];
+}
+
+interface HistoryResponse {
+  events: { changes?: Record<string, { from: unknown; to: unknown }> }[];
+}
+
+describe('start and due dates', () => {
+  let ctx: TestContext;
+
+  const listIds = (args: string): string[] =>
+    ctx.runToon<ListResponse>(`list ${args}`).items.map((item) => item.id);
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should set, show and clear dates on tasks and epics', () => {
+    const task = ctx.runToon<Item>('task create -t "Launch" --start 2099-03-01 --due 2099-03-15');
+    expect(task.startAt).not.toBeNull();
+    expect(task.dueAt).not.toBeNull();
+
+    const shown = ctx.run(`task show ${task.id}`);
+    expect(shown).toContain('Start:       2099-03-01 (in ');
+    expect(shown).toContain('Due:         2099-03-15 (in ');
+
+    const cleared = ctx.runToon<Item>(`task update ${task.id} --no-start`);
+    expect(cleared.startAt).toBeNull();
+    expect(cleared.dueAt).toBe(task.dueAt);
+
+    const epic = ctx.runToon<Item>('epic create -t "Q1" --due 2099-03-31');
+    expect(ctx.run(`epic show ${epic.id}`)).toContain('Due:         2099-03-31');
+    expect(ctx.runToon<Item>(`epic update ${epic.id} --no-due`).dueAt).toBeNull();
+  });
+
+  it('should accept relative dates', () => {
+    const inThreeDays = ctx.runToon<Item>('task create -t "A" --due +3d');
+    expect(ctx.run(`task show ${inThreeDays.id}`)).toMatch(/Due: +\d{4}-\d{2}-\d{2} \(in 3 days\)/);
+
+    const tomorrow = ctx.runToon<Item>('task create -t "B" --due tomorrow');
+    expect(ctx.run(`task show ${tomorrow.id}`)).toContain('(tomorrow)');
+
+    const friday = ctx.runToon<Item>('task create -t "C" --due friday');
+    const due = new Date(friday.dueAt ?? '');
+    expect(due.getDay()).toBe(5);
+    expect(due.getTime()).toBeGreaterThan(Date.now());
+  });
+
+  it('should reject invalid dates and a start after the due date', () => {
+    expect(ctx.runExpectError('task create -t "A" --due someday')).toContain(
+      'Invalid due date: someday. Use YYYY-MM-DD, today, tomorrow, a weekday such as friday, or +3d / +2w.'
+    );
+    expect(ctx.runExpectError('task create -t "A" --start 2099-02-01 --due 2099-01-01')).toContain(
+      'The start date (2099-02-01) is after the due date (2099-01-01).'
+    );
+
+    const task = ctx.runToon<Item>('task create -t "A" --due 2099-01-10');
+    expect(ctx.runExpectError(`task update ${task.id} --start 2099-01-20`)).toContain(
+      'The start date (2099-01-20) is after the due date (2099-01-10).'
+    );
+  });
+
+  it('should filter and sort lists by due date', () => {
+    const late = ctx.runToon<Item>('task create -t "Late" --due 2020-01-01');
+    const done = ctx.runToon<Item>('task create -t "Done" --due 2020-01-02 -s completed');
+    const soon = ctx.runToon<Item>('task create -t "Soon" --due +2d');
+    const open = ctx.runToon<Item>('task create -t "Open"');
+
+    expect(listIds('--overdue')).toEqual([late.id]);
+    expect(listIds("--sort created:asc -- '-overdue'")).toEqual([done.id, soon.id, open.id]);
+    expect(listIds("'due<=+7d' --sort due:asc")).toEqual([late.id, done.id, soon.id]);
+    expect(listIds("'due>today'")).toEqual([soon.id]);
+    expect(listIds('--sort due:desc')).toEqual([soon.id, done.id, late.id, open.id]);
+
+    expect(ctx.run('list --overdue')).toContain(
+      `${late.id} | todo        | P2 | Late | due 2020-01-01`
+    );
+  });
+
+  it('should show due dates on ready tasks', () => {
+    const late = ctx.runToon<Item>('task create -t "Late" --due 2020-01-01');
+    ctx.runToon<Item>('task create -t "Later" --due 2099-01-01');
+
+    const output = ctx.run('ready');
+    expect(output).toContain(`${late.id} | P2 | Late | overdue since 2020-01-01`);
+    expect(output).toContain('| Later | due 2099-01-01');
+  });
+
+  it('should record date changes in the history', () => {
+    const task = ctx.runToon<Item>('task create -t "A" --due 2099-01-10');
+    ctx.run(`task update ${task.id} --due 2099-01-20`);
+
+    const history = ctx.runToon<HistoryResponse>(`history --entity ${task.id} --action update`);
+    const change = history.events[0].changes?.due_at;
+    expect(change?.from).toBe(Math.floor(new Date(task.dueAt ?? '').getTime() / 1000));
+    expect(typeof change?.to).toBe('number');
+
+    ctx.run('undo');
+    expect(ctx.runToon<Item>(`task show ${task.id}`).dueAt).toBe(task.dueAt);
+  });
+
+  it('should accept dates in batch operations', () => {
+    const path = join(ctx.cwd, 'batch.json');
+    writeFileSync(
+      path,
+      JSON.stringify([
+        { op: 'task.create', title: 'A', due: '2099-05-01', start: '2099-04-01' },
+        { op: 'task.update', id: '$1', start: null },
+      ])
+    );
+
+    const [created] = ctx.runToon<BatchResult>(`batch ${path}`).results;
+    expect(ctx.runToon<Item>(`task show ${created.id}`).startAt).toBeNull();
+    expect(ctx.run(`task show ${created.id}`)).toContain('Due:         2099-05-01');
+  });
+});
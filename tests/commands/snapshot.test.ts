@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { join } from 'node:path';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface Task {
+  id: string;
+  title: string;
+  status: string;
+  parentTaskId: string | null;
+}
+
+interface Epic {
+  id: string;
+  title: string;
+}
+
+interface ProjectSnapshot {
+  at: string;
+  epics: Epic[];
+  tasks: Task[];
+  comments: { id: string; content: string }[];
+  dependencies: { taskId: string; dependsOnId: string }[];
+}
+
+interface ListResponse {
+  total: number;
+  items: { id: string; status: string }[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('snapshot command', () => {
+  let ctx: TestContext;
+  const oneHourAgo = new Date(Date.now() - HOUR_MS).toISOString();
+
+  // Moves everything recorded so far two hours into the past
+  function backdateHistory(): void {
+    const sqlite = new Database(join(ctx.cwd, '.trekker', 'trekker.db'));
+    sqlite.run(`UPDATE events SET created_at = created_at - ${2 * HOUR_MS}`);
+    sqlite.close();
+  }
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should reconstruct the project as it was', () => {
+    const epic = ctx.runToon<Epic>('epic create -t "Epic"');
+    const task = ctx.runToon<Task>(`task create -t "Original" -e ${epic.id}`);
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Child"`);
+    ctx.run(`comment add ${task.id} -a agent -c "Note"`);
+    backdateHistory();
+
+    ctx.run(`task update ${task.id} -t "Renamed" -s in_progress`);
+    ctx.run(`task delete ${subtask.id}`);
+    ctx.run('task create -t "Later"');
+
+    const snapshot = ctx.runToon<ProjectSnapshot>(`snapshot --at ${oneHourAgo}`);
+
+    expect(snapshot.epics.map((e) => e.id)).toEqual([epic.id]);
+    expect(snapshot.tasks.map((t) => t.id).sort()).toEqual([task.id, subtask.id].sort());
+    const pastTask = snapshot.tasks.find((t) => t.id === task.id);
+    expect(pastTask?.title).toBe('Original');
+    expect(pastTask?.status).toBe('todo');
+    expect(snapshot.tasks.find((t) => t.id === subtask.id)?.parentTaskId).toBe(task.id);
+    expect(snapshot.comments.map((c) => c.content)).toEqual(['Note']);
+  });
+
+  it('should show the current state for a time after the last change', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`task update ${task.id} -s completed`);
+
+    const snapshot = ctx.runToon<ProjectSnapshot>('snapshot --at 2999-01-01');
+
+    expect(snapshot.tasks).toHaveLength(1);
+    expect(snapshot.tasks[0].status).toBe('completed');
+  });
+
+  it('should be empty before anything was created', () => {
+    ctx.run('task create -t "Task"');
+
+    const output = ctx.run('snapshot --at 2000-01-01');
+
+    expect(output).toContain('0 epics, 0 tasks');
+    expect(output).toContain('No items existed at that time.');
+  });
+
+  it('should show a tree in text mode', () => {
+    const epic = ctx.runToon<Epic>('epic create -t "Epic"');
+    const task = ctx.runToon<Task>(`task create -t "Task" -e ${epic.id}`);
+    ctx.run(`subtask create ${task.id} -t "Child"`);
+    ctx.run('task create -t "Loose"');
+
+    const output = ctx.run('snapshot --at 2999-01-01');
+
+    expect(output).toContain('1 epics, 2 tasks, 1 subtasks');
+    expect(output).toContain(`  ${task.id} | todo`);
+    expect(output).toContain('No epic:');
+  });
+
+  it('should require a valid timestamp', () => {
+    expect(ctx.runExpectError('snapshot')).toContain('--at');
+    expect(ctx.runExpectError('snapshot --at yesterday')).toContain('Invalid timestamp');
+  });
+
+  describe('--at on other commands', () => {
+    it('should list items as they were', () => {
+      const task = ctx.runToon<Task>('task create -t "Task"');
+      backdateHistory();
+      ctx.run(`task update ${task.id} -s in_progress`);
+      ctx.run('task create -t "Later"');
+
+      const past = ctx.runToon<ListResponse>(`list --at ${oneHourAgo} --status todo`);
+      const now = ctx.runToon<ListResponse>('list --status todo');
+
+      expect(past.items.map((item) => item.id)).toEqual([task.id]);
+      expect(now.items.map((item) => item.id)).not.toContain(task.id);
+    });
+
+    it('should show a task and an epic as they were', () => {
+      const epic = ctx.runToon<Epic>('epic create -t "Old epic"');
+      const task = ctx.runToon<Task>('task create -t "Old title"');
+      backdateHistory();
+      ctx.run(`task update ${task.id} -t "New title"`);
+      ctx.run(`epic update ${epic.id} -t "New epic"`);
+
+      expect(ctx.runToon<Task>(`task show ${task.id} --at ${oneHourAgo}`).title).toBe('Old title');
+      expect(ctx.runToon<Epic>(`epic show ${epic.id} --at ${oneHourAgo}`).title).toBe('Old epic');
+    });
+
+    it('should report items that did not exist yet as not found', () => {
+      const task = ctx.runToon<Task>('task create -t "Task"');
+
+      expect(ctx.runExpectError(`task show ${task.id} --at 2000-01-01`)).toContain(
+        'Task not found'
+      );
+    });
+  });
+
+  it('should leave out items that were in the trash', () => {
+    ctx.run('trash enable');
+    const kept = ctx.runToon<Task>('task create -t "Kept"');
+    const trashed = ctx.runToon<Task>('task create -t "Trashed"');
+    ctx.run(`comment add ${kept.id} -a agent -c "Trashed note"`);
+    ctx.run(`task delete ${trashed.id}`);
+    ctx.run('comment delete CMT-1');
+    backdateHistory();
+
+    const snapshot = ctx.runToon<ProjectSnapshot>(`snapshot --at ${oneHourAgo}`);
+
+    expect(snapshot.tasks.map((task) => task.id)).toEqual([kept.id]);
+    expect(snapshot.comments).toEqual([]);
+  });
+});
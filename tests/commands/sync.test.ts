@@ -0,0 +1,140 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { existsSync, readFileSync, readdirSync, rmSync, writeFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface Task {
+  id: string;
+  title: string;
+  parentTaskId: string | null;
+}
+
+interface MirrorRecord {
+  table: string;
+  row: Record<string, unknown>;
+}
+
+interface MirrorWriteResult {
+  files: number;
+  written: number;
+  removed: number;
+}
+
+describe('sync command', () => {
+  let ctx: TestContext;
+
+  const mirrorPath = (...parts: string[]): string => join(ctx.cwd, '.trekker', 'mirror', ...parts);
+
+  function readRecords(...parts: string[]): MirrorRecord[] {
+    return readFileSync(mirrorPath(...parts), 'utf-8')
+      .trim()
+      .split('\n')
+      .map((line) => {
+        const record: MirrorRecord = JSON.parse(line);
+        return record;
+      });
+  }
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should write one file per epic and top-level task', () => {
+    const epic = ctx.runToon<Task>('epic create -t "Epic"');
+    const task = ctx.runToon<Task>(`task create -t "Task" -e ${epic.id}`);
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Subtask"`);
+    ctx.run(`comment add ${subtask.id} -a "agent" -c "Note"`);
+    ctx.run(`dep add ${subtask.id} ${task.id}`);
+
+    const result = ctx.runToon<MirrorWriteResult>('sync');
+
+    expect(result.files).toBe(3);
+    expect(readdirSync(mirrorPath('tasks'))).toEqual([`${task.id}.jsonl`]);
+    expect(readRecords('tasks', `${task.id}.jsonl`).map((r) => r.table)).toEqual([
+      'tasks',
+      'tasks',
+      'comments',
+      'dependencies',
+    ]);
+    expect(readRecords('epics', `${epic.id}.jsonl`)[0].row.title).toBe('Epic');
+  });
+
+  it('should produce identical files when nothing changed', () => {
+    ctx.run('task create -t "Task"');
+    ctx.run('sync');
+
+    const result = ctx.runToon<MirrorWriteResult>('sync');
+
+    expect(result.written).toBe(0);
+    expect(result.removed).toBe(0);
+  });
+
+  it('should keep the mirror current after every mutation once enabled', () => {
+    ctx.run('sync');
+
+    const task = ctx.runToon<Task>('task create -t "Created"');
+    expect(readRecords('tasks', `${task.id}.jsonl`)[0].row.title).toBe('Created');
+
+    ctx.run(`task update ${task.id} -t "Renamed"`);
+    expect(readRecords('tasks', `${task.id}.jsonl`)[0].row.title).toBe('Renamed');
+
+    ctx.run(`task delete ${task.id}`);
+    expect(existsSync(mirrorPath('tasks', `${task.id}.jsonl`))).toBe(false);
+  });
+
+  it('should not write a mirror unless enabled', () => {
+    ctx.run('task create -t "Task"');
+
+    expect(existsSync(mirrorPath())).toBe(false);
+  });
+
+  it('should rebuild the database from the files with --from-files', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`subtask create ${task.id} -t "Subtask"`);
+    ctx.run('sync');
+
+    // Simulate a fresh clone where only the mirror is checked in
+    rmSync(join(ctx.cwd, '.trekker', 'trekker.db'));
+    ctx.run('sync --from-files');
+
+    const subtask = ctx.runToon<Task>('task show TREK-2');
+    expect(subtask.parentTaskId).toBe(task.id);
+    expect(ctx.runToon<Task>('task create -t "Next"').id).toBe('TREK-3');
+  });
+
+  it('should apply edits made to the files and back up the old database', () => {
+    const task = ctx.runToon<Task>('task create -t "Original"');
+    ctx.run('sync');
+
+    const file = mirrorPath('tasks', `${task.id}.jsonl`);
+    writeFileSync(file, readFileSync(file, 'utf-8').replace('Original', 'Edited in a PR'));
+    const result = ctx.runToon<{ backupPath: string | null }>('sync --from-files');
+
+    expect(ctx.runToon<Task>(`task show ${task.id}`).title).toBe('Edited in a PR');
+    expect(existsSync(result.backupPath ?? '')).toBe(true);
+  });
+
+  it('should reject malformed mirror files without touching the database', () => {
+    ctx.run('task create -t "Task"');
+    ctx.run('sync');
+    writeFileSync(mirrorPath('tasks', 'TREK-9.jsonl'), 'not json\n');
+
+    const error = ctx.runExpectError('sync --from-files');
+
+    expect(error).toContain('tasks/TREK-9.jsonl:1');
+    expect(ctx.runToon<{ total: number }>('list').total).toBe(1);
+  });
+
+  it('should remove the mirror and stop mirroring with --disable', () => {
+    ctx.run('sync');
+    ctx.run('sync --disable');
+    ctx.run('task create -t "Task"');
+
+    expect(existsSync(mirrorPath())).toBe(false);
+  });
+});
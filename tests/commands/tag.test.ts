@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface Task {
+  id: string;
+  tags: string | null;
+}
+
+interface TagUsage {
+  name: string;
+  count: number;
+}
+
+interface PaginatedTasks {
+  total: number;
+  items: Task[];
+}
+
+interface SearchResponse {
+  results: { id: string }[];
+}
+
+describe('tag command', () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should store tags in the spelling the project already uses', () => {
+    ctx.runToon<Task>('task create -t "First" --tags backend');
+    const task = ctx.runToon<Task>('task create -t "Second" --tags "Backend, ui,, BACKEND"');
+    expect(task.tags).toBe('backend,ui');
+
+    const updated = ctx.runToon<Task>(`task update ${task.id} --tags " UI "`);
+    expect(updated.tags).toBe('ui');
+  });
+
+  it('should list tags with the number of tasks using each', () => {
+    ctx.run('task create -t "One" --tags backend,ui');
+    ctx.run('task create -t "Two" --tags backend');
+    const trashed = ctx.runToon<Task>('task create -t "Three" --tags docs');
+    ctx.run('trash enable');
+    ctx.run(`task delete ${trashed.id}`);
+
+    expect(ctx.runToon<TagUsage[]>('tag list')).toEqual([
+      { name: 'backend', count: 2 },
+      { name: 'docs', count: 0 },
+      { name: 'ui', count: 1 },
+    ]);
+    expect(ctx.run('tag list')).toContain('backend | 2 task(s)');
+  });
+
+  it('should rename, merge and delete tags on every task', () => {
+    const one = ctx.runToon<Task>('task create -t "One" --tags backend,ui');
+    const two = ctx.runToon<Task>('task create -t "Two" --tags frontend,ui');
+
+    ctx.run('tag rename ui design');
+    expect(ctx.runToon<Task>(`task show ${one.id}`).tags).toBe('backend,design');
+
+    ctx.run('tag merge frontend design');
+    expect(ctx.runToon<Task>(`task show ${two.id}`).tags).toBe('design');
+
+    ctx.run('tag delete design');
+    expect(ctx.runToon<Task>(`task show ${one.id}`).tags).toBe('backend');
+    expect(ctx.runToon<Task>(`task show ${two.id}`).tags).toBeNull();
+    expect(ctx.runToon<TagUsage[]>('tag list').map((tag) => tag.name)).toEqual(['backend']);
+  });
+
+  it('should filter tasks, lists and searches by tag', () => {
+    const one = ctx.runToon<Task>('task create -t "Login page" --tags backend,ui');
+    const two = ctx.runToon<Task>('task create -t "Login API" --tags Backend');
+    ctx.run('task create -t "Login docs" --tags docs');
+
+    const tasks = ctx.runToon<PaginatedTasks>('task list --tag backend');
+    expect(tasks.items.map((task) => task.id).sort()).toEqual([one.id, two.id].sort());
+    expect(ctx.runToon<PaginatedTasks>('task list --tag backend,ui').items).toHaveLength(1);
+
+    const listed = ctx.runToon<PaginatedTasks>('list --tag ui');
+    expect(listed.items.map((item) => item.id)).toEqual([one.id]);
+
+    const found = ctx.runToon<SearchResponse>('search login --tag backend');
+    expect(found.results.map((result) => result.id).sort()).toEqual([one.id, two.id].sort());
+  });
+
+  it('should filter by a tag with spaces in it, in any case', () => {
+    const task = ctx.runToon<Task>('task create -t "Login form" --tags "front end,ui"');
+    ctx.run('task create -t "Login handler" --tags end');
+
+    const listed = ctx.runToon<PaginatedTasks>('list --tag "front end"');
+    expect(listed.items.map((item) => item.id)).toEqual([task.id]);
+
+    const ready = ctx.runToon<PaginatedTasks>('ready --tag "Front End"');
+    expect(ready.items.map((item) => item.id)).toEqual([task.id]);
+
+    const found = ctx.runToon<SearchResponse>('search login --tag "FRONT END,ui"');
+    expect(found.results.map((result) => result.id)).toEqual([task.id]);
+  });
+
+  it('should explain invalid tag changes', () => {
+    ctx.run('task create -t "One" --tags backend,ui');
+
+    expect(ctx.runExpectError('tag rename missing other')).toContain('Tag not found: missing');
+    expect(ctx.runExpectError('tag rename ui Backend')).toContain(
+      "Tag already exists: backend. Use 'trekker tag merge ui backend'"
+    );
+    expect(ctx.runExpectError('tag merge ui UI')).toContain('Cannot merge tag ui into itself.');
+    expect(ctx.runExpectError('tag rename ui "a,b"')).toContain('Invalid tag name');
+  });
+});
@@ -19,6 +19,18 @@ interface Epic {
   title: string;
 }
 
+interface TaskDetails {
+  task: Task;
+  epic: { id: string; title: string; status: string } | null;
+  subtasks: Task[];
+  comments: { content: string }[];
+  commentCount: number;
+  dependsOn: { id: string; title: string; status: string }[];
+  blocks: { id: string; title: string; status: string }[];
+  history: { action: string; entityId: string }[];
+  historyCount: number;
+}
+
 interface PaginatedResponse<T> {
   total: number;
   page: number;
@@ -164,6 +176,49 @@ describe('task command', () => {
       const error = ctx.runExpectError('task show TREK-999');
       expect(error.toLowerCase()).toContain('not found');
     });
+
+    it('should show the full task context with --full', () => {
+      const epic = ctx.runToon<Epic>('epic create -t "Auth"');
+      const schema = ctx.runToon<Task>(`task create -t "Schema" -e ${epic.id} -s completed`);
+      const login = ctx.runToon<Task>(`task create -t "Login" -e ${epic.id}`);
+      const deploy = ctx.runToon<Task>('task create -t "Deploy"');
+      ctx.run(`dep add ${login.id} ${schema.id}`);
+      ctx.run(`dep add ${deploy.id} ${login.id}`);
+      const form = ctx.runToon<Task>(`subtask create ${login.id} -t "Form"`);
+      for (const note of ['First', 'Second', 'Third']) {
+        ctx.run(`comment add ${login.id} -a agent -c "${note}"`);
+      }
+      ctx.run(`task update ${login.id} -s in_progress`);
+
+      const details = ctx.runToon<TaskDetails>(`task show ${login.id} --full --comments 2`);
+      expect(details.task.status).toBe('in_progress');
+      expect(details.epic).toEqual({ id: epic.id, title: 'Auth', status: 'todo' });
+      expect(details.subtasks.map((subtask) => subtask.id)).toEqual([form.id]);
+      expect(details.dependsOn).toEqual([{ id: schema.id, title: 'Schema', status: 'completed' }]);
+      expect(details.blocks).toEqual([{ id: deploy.id, title: 'Deploy', status: 'todo' }]);
+      expect(details.comments.map((comment) => comment.content)).toEqual(['Third', 'Second']);
+      expect(details.commentCount).toBe(3);
+      expect(details.history.map((event) => event.action)).toEqual(['update', 'create']);
+      expect(details.historyCount).toBe(2);
+
+      const output = ctx.run(`task show ${login.id} --full --history 1`);
+      expect(output).toContain(`Epic: ${epic.id} | todo | Auth`);
+      expect(output).toContain(`Depends on (1):\n  ${schema.id} | completed   | Schema`);
+      expect(output).toContain(`Blocks (1):\n  ${deploy.id} | todo        | Deploy`);
+      expect(output).toContain('Comments (3, newest first):\n  [agent] Third');
+      expect(output).toContain('History (1 of 2, newest first):');
+      expect(output).toContain('    status: todo -> in_progress');
+    });
+
+    it('should reject --comments and --history without --full', () => {
+      const created = ctx.runToon<Task>('task create -t "Test"');
+      expect(ctx.runExpectError(`task show ${created.id} --comments 2`)).toContain(
+        '--comments and --history only apply with --full.'
+      );
+      expect(ctx.runExpectError(`task show ${created.id} --full --at 2025-01-01`)).toContain(
+        '--full shows the task as it is now and cannot be combined with --at.'
+      );
+    });
   });
 
   describe('update', () => {
@@ -261,6 +316,28 @@ describe('task command', () => {
       expect(error.toLowerCase()).toContain('not found');
     });
 
+    it('should cascade delete subtasks, comments and dependencies', () => {
+      const task = ctx.runToon<Task>('task create -t "Parent"');
+      const other = ctx.runToon<Task>('task create -t "Other"');
+      const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Child"`);
+      ctx.run(`comment add ${task.id} -a "agent" -c "Note"`);
+      ctx.run(`dep add ${other.id} ${task.id}`);
+
+      ctx.run(`task delete ${task.id}`);
+
+      const subtaskError = ctx.runExpectError(`task show ${subtask.id}`);
+      expect(subtaskError.toLowerCase()).toContain('not found');
+
+      const list = ctx.runToon<PaginatedResponse<{ id: string }>>('list');
+      expect(list.items.map((i) => i.id)).toEqual([other.id]);
+
+      const deps = ctx.runToon<{ dependsOn: unknown[] }>(`dep list ${other.id}`);
+      expect(deps.dependsOn).toHaveLength(0);
+
+      const search = ctx.runToon<{ total: number }>('search Note');
+      expect(search.total).toBe(0);
+    });
+
     it('should fail for non-existent task', () => {
       const error = ctx.runExpectError('task delete TREK-999');
       expect(error.toLowerCase()).toContain('not found');
@@ -0,0 +1,292 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { join } from 'node:path';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface Task {
+  id: string;
+  title: string;
+  deletedAt: string | null;
+}
+
+interface Epic {
+  id: string;
+}
+
+interface Comment {
+  id: string;
+}
+
+interface PaginatedList {
+  total: number;
+  items: { id: string }[];
+}
+
+interface TrashList {
+  enabled: boolean;
+  items: { type: string; id: string; parentId: string | null }[];
+}
+
+interface SearchResponse {
+  results: { id: string }[];
+}
+
+interface RestoreResult {
+  restored: number;
+}
+
+interface RevertResult {
+  reverted: { entityId: string }[];
+}
+
+interface PurgeResult {
+  epics: number;
+  tasks: number;
+  comments: number;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+describe('trash command', () => {
+  let ctx: TestContext;
+
+  // Moves every trashed item the given number of days into the past
+  function backdateTrash(days: number): void {
+    const sqlite = new Database(join(ctx.cwd, '.trekker', 'trekker.db'));
+    for (const table of ['epics', 'tasks', 'comments']) {
+      sqlite.run(
+        `UPDATE ${table} SET deleted_at = deleted_at - ${days * DAY_SECONDS} WHERE deleted_at IS NOT NULL`
+      );
+    }
+    sqlite.close();
+  }
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should delete permanently while the trash is disabled', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+
+    expect(ctx.run(`task delete ${task.id}`)).toContain(`Task deleted: ${task.id}`);
+    expect(ctx.runExpectError(`task show ${task.id}`)).toContain('Task not found');
+    expect(ctx.runToon<TrashList>('trash list').items).toHaveLength(0);
+  });
+
+  it('should move deleted items to the trash once enabled', () => {
+    ctx.run('trash enable');
+    const task = ctx.runToon<Task>('task create -t "Task"');
+
+    expect(ctx.run(`task delete ${task.id}`)).toContain(`Task moved to trash: ${task.id}`);
+
+    const shown = ctx.runToon<Task>(`task show ${task.id}`);
+    expect(shown.deletedAt).not.toBeNull();
+    const trash = ctx.runToon<TrashList>('trash list');
+    expect(trash.enabled).toBe(true);
+    expect(trash.items.map((item) => item.id)).toEqual([task.id]);
+  });
+
+  it('should hide trashed items from list, task list, search and ready by default', () => {
+    ctx.run('trash enable');
+    const kept = ctx.runToon<Task>('task create -t "Searchable kept"');
+    const trashed = ctx.runToon<Task>('task create -t "Searchable trashed"');
+    ctx.run(`task delete ${trashed.id}`);
+
+    expect(ctx.runToon<PaginatedList>('list').items.map((item) => item.id)).toEqual([kept.id]);
+    expect(ctx.runToon<PaginatedList>('task list').items.map((item) => item.id)).toEqual([kept.id]);
+    expect(ctx.runToon<SearchResponse>('search Searchable').results.map((r) => r.id)).toEqual([
+      kept.id,
+    ]);
+    expect(ctx.runToon<PaginatedList>('ready').items.map((item) => item.id)).toEqual([kept.id]);
+
+    expect(ctx.runToon<PaginatedList>('list --include-deleted').total).toBe(2);
+    expect(ctx.runToon<PaginatedList>('task list --include-deleted').total).toBe(2);
+    expect(ctx.runToon<SearchResponse>('search Searchable --include-deleted').results).toHaveLength(
+      2
+    );
+    expect(ctx.runToon<PaginatedList>('ready --include-deleted').total).toBe(2);
+  });
+
+  it('should hide trashed comments from comment list by default', () => {
+    ctx.run('trash enable');
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    const comment = ctx.runToon<Comment>(`comment add ${task.id} -a agent -c "Note"`);
+    ctx.run(`comment delete ${comment.id}`);
+
+    expect(ctx.runToon<PaginatedList>(`comment list ${task.id}`).total).toBe(0);
+    expect(ctx.runToon<PaginatedList>(`comment list ${task.id} --include-deleted`).total).toBe(1);
+  });
+
+  it('should not let a trashed task block others', () => {
+    ctx.run('trash enable');
+    const blocker = ctx.runToon<Task>('task create -t "Blocker"');
+    const blocked = ctx.runToon<Task>('task create -t "Blocked"');
+    ctx.run(`dep add ${blocked.id} ${blocker.id}`);
+    ctx.run(`task delete ${blocker.id}`);
+
+    expect(ctx.runToon<PaginatedList>('ready').items.map((item) => item.id)).toEqual([blocked.id]);
+  });
+
+  it('should refuse to change a trashed item', () => {
+    ctx.run('trash enable');
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`task delete ${task.id}`);
+
+    expect(ctx.runExpectError(`task update ${task.id} -t "New"`)).toContain(
+      `Task ${task.id} is in the trash`
+    );
+    expect(ctx.runExpectError(`comment add ${task.id} -a agent -c "Note"`)).toContain(
+      `Task ${task.id} is in the trash`
+    );
+    expect(ctx.runExpectError(`task delete ${task.id}`)).toContain('already in the trash');
+  });
+
+  it('should name the task to restore when a change hits something trashed along with it', () => {
+    ctx.run('trash enable');
+    const task = ctx.runToon<Task>('task create -t "Parent"');
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Child"`);
+    const comment = ctx.runToon<Comment>(`comment add ${subtask.id} -a agent -c "Note"`);
+    ctx.run(`task delete ${task.id}`);
+
+    expect(ctx.runExpectError(`subtask update ${subtask.id} -t "New"`)).toContain(
+      `Task ${subtask.id} is in the trash because ${task.id} is. Run 'trekker trash restore ${task.id}' first.`
+    );
+    expect(ctx.runExpectError(`comment update ${comment.id} -c "New"`)).toContain(
+      `Comment ${comment.id} is in the trash because ${task.id} is.`
+    );
+  });
+
+  it('should restore a task together with the subtasks and comments trashed with it', () => {
+    ctx.run('trash enable');
+    const task = ctx.runToon<Task>('task create -t "Parent"');
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Child"`);
+    ctx.run(`comment add ${subtask.id} -a agent -c "Note"`);
+    ctx.run(`task delete ${task.id}`);
+
+    expect(ctx.runToon<TrashList>('trash list').items).toHaveLength(3);
+    expect(ctx.runExpectError(`trash restore ${subtask.id}`)).toContain(
+      `Restore ${task.id} instead`
+    );
+
+    expect(ctx.runToon<RestoreResult>(`trash restore ${task.id}`).restored).toBe(3);
+
+    expect(ctx.runToon<TrashList>('trash list').items).toHaveLength(0);
+    expect(ctx.runToon<PaginatedList>(`subtask list ${task.id}`).total).toBe(1);
+    expect(ctx.runToon<PaginatedList>(`comment list ${subtask.id}`).total).toBe(1);
+  });
+
+  it('should undo moving a task to the trash along with what went with it', () => {
+    ctx.run('trash enable');
+    const other = ctx.runToon<Task>('task create -t "Other"');
+    ctx.run(`task update ${other.id} -t "Renamed"`);
+    const task = ctx.runToon<Task>('task create -t "Parent"');
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Child"`);
+    ctx.run(`comment add ${subtask.id} -a agent -c "Note"`);
+    ctx.run(`task delete ${task.id}`);
+
+    const result = ctx.runToon<RevertResult>('undo');
+
+    expect(result.reverted.map((event) => event.entityId)).toEqual([task.id, 'CMT-1', subtask.id]);
+    expect(ctx.runToon<TrashList>('trash list').items).toHaveLength(0);
+    expect(ctx.runToon<Task>(`task show ${other.id}`).title).toBe('Renamed');
+
+    // Undoing a restore from the trash moves the whole group back
+    ctx.run(`task delete ${task.id}`);
+    ctx.run(`trash restore ${task.id}`);
+    ctx.run('undo');
+    expect(ctx.runToon<TrashList>('trash list').items).toHaveLength(3);
+  });
+
+  it('should let restore bring back a trashed item', () => {
+    ctx.run('trash enable');
+    const task = ctx.runToon<Task>('task create -t "Parent"');
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Child"`);
+    ctx.run(`task delete ${task.id}`);
+
+    expect(ctx.runExpectError(`restore ${subtask.id}`)).toContain(`Restore ${task.id} instead`);
+
+    ctx.run(`restore ${task.id}`);
+
+    expect(ctx.runToon<TrashList>('trash list').items).toHaveLength(0);
+    expect(ctx.runToon<Task>(`task show ${subtask.id}`).deletedAt).toBeNull();
+  });
+
+  it('should refuse to revert changes to a trashed item', () => {
+    ctx.run('trash enable');
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`task update ${task.id} -t "Renamed"`);
+    ctx.run(`task delete ${task.id}`);
+    // Newest first, so the rename comes after moving it to the trash
+    const rename = ctx
+      .runToon<{ events: { id: number }[] }>(`history --entity ${task.id} --action update`)
+      .events.at(-1);
+
+    expect(ctx.runExpectError(`history revert ${rename?.id}`)).toContain(
+      `${task.id} is in the trash`
+    );
+  });
+
+  it('should leave a subtask trashed on its own in the trash when its parent is restored', () => {
+    ctx.run('trash enable');
+    const task = ctx.runToon<Task>('task create -t "Parent"');
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Child"`);
+    ctx.run(`subtask delete ${subtask.id}`);
+    backdateTrash(1);
+    ctx.run(`task delete ${task.id}`);
+
+    ctx.run(`trash restore ${task.id}`);
+
+    expect(ctx.runToon<TrashList>('trash list').items.map((item) => item.id)).toEqual([subtask.id]);
+  });
+
+  it('should purge everything in the trash', () => {
+    ctx.run('trash enable');
+    const epic = ctx.runToon<Epic>('epic create -t "Epic"');
+    const task = ctx.runToon<Task>(`task create -t "Task" -e ${epic.id}`);
+    ctx.run(`comment add ${task.id} -a agent -c "Note"`);
+    ctx.run(`task delete ${task.id}`);
+    ctx.run(`epic delete ${epic.id}`);
+
+    const result = ctx.runToon<PurgeResult>('trash purge');
+
+    expect(result).toEqual({ epics: 1, tasks: 1, comments: 1 });
+    expect(ctx.runToon<TrashList>('trash list').items).toHaveLength(0);
+    expect(ctx.runExpectError(`task show ${task.id}`)).toContain('Task not found');
+  });
+
+  it('should only purge items older than --older-than', () => {
+    ctx.run('trash enable');
+    const old = ctx.runToon<Task>('task create -t "Old"');
+    ctx.run(`task delete ${old.id}`);
+    backdateTrash(40);
+    const recent = ctx.runToon<Task>('task create -t "Recent"');
+    ctx.run(`task delete ${recent.id}`);
+
+    const result = ctx.runToon<PurgeResult>('trash purge --older-than 30d');
+
+    expect(result.tasks).toBe(1);
+    expect(ctx.runToon<TrashList>('trash list').items.map((item) => item.id)).toEqual([recent.id]);
+  });
+
+  it('should purge a single item by ID', () => {
+    ctx.run('trash enable');
+    const first = ctx.runToon<Task>('task create -t "First"');
+    const second = ctx.runToon<Task>('task create -t "Second"');
+    ctx.run(`task delete ${first.id}`);
+    ctx.run(`task delete ${second.id}`);
+
+    ctx.run(`trash purge ${first.id}`);
+
+    expect(ctx.runToon<TrashList>('trash list').items.map((item) => item.id)).toEqual([second.id]);
+    expect(ctx.runExpectError(`trash purge ${first.id}`)).toContain('Not in the trash');
+  });
+
+  it('should reject an invalid --older-than value', () => {
+    expect(ctx.runExpectError('trash purge --older-than soon')).toContain('Invalid age: soon');
+  });
+});
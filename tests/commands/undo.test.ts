@@ -0,0 +1,214 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { Database } from 'bun:sqlite';
+import { join } from 'node:path';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface Task {
+  id: string;
+  title: string;
+  status: string;
+  epicId: string | null;
+}
+
+interface RevertResult {
+  reverted: { eventId: number; action: string; entityType: string; entityId: string }[];
+}
+
+interface HistoryEvent {
+  id: number;
+  action: string;
+  entityId: string;
+  revertedAt: string | null;
+  revertOf: number | null;
+}
+
+interface HistoryResponse {
+  events: HistoryEvent[];
+}
+
+describe('undo command', () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should restore the previous values of an update', () => {
+    const task = ctx.runToon<Task>('task create -t "Original"');
+    ctx.run(`task update ${task.id} -t "Renamed" -s in_progress`);
+
+    const result = ctx.runToon<RevertResult>('undo');
+
+    expect(result.reverted).toHaveLength(1);
+    expect(result.reverted[0].action).toBe('update');
+    const restored = ctx.runToon<Task>(`task show ${task.id}`);
+    expect(restored.title).toBe('Original');
+    expect(restored.status).toBe('todo');
+  });
+
+  it('should remove a created task', () => {
+    const task = ctx.runToon<Task>('task create -t "Mistake"');
+
+    ctx.run('undo');
+
+    expect(ctx.runExpectError(`task show ${task.id}`)).toContain('not found');
+  });
+
+  it('should restore a deleted task with its subtasks, comments and dependencies', () => {
+    const task = ctx.runToon<Task>('task create -t "Parent"');
+    const other = ctx.runToon<Task>('task create -t "Other"');
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Child"`);
+    ctx.run(`comment add ${task.id} -a agent -c "Note"`);
+    ctx.run(`dep add ${other.id} ${task.id}`);
+    ctx.run(`task delete ${task.id}`);
+
+    const result = ctx.runToon<RevertResult>('undo');
+
+    expect(result.reverted.map((event) => event.action)).toEqual([
+      'delete',
+      'delete',
+      'delete',
+      'delete',
+    ]);
+    expect(ctx.runToon<Task>(`task show ${task.id}`).title).toBe('Parent');
+    expect(ctx.runToon<Task>(`task show ${subtask.id}`).title).toBe('Child');
+    expect(ctx.run(`comment list ${task.id}`)).toContain('Note');
+    expect(ctx.run(`dep list ${other.id}`)).toContain(task.id);
+  });
+
+  it('should undo a whole cascade however its events are timed, and nothing else', () => {
+    const task = ctx.runToon<Task>('task create -t "Parent"');
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Child"`);
+    ctx.run(`comment add ${task.id} -a agent -c "Kept"`);
+    ctx.run(`comment add ${task.id} -a agent -c "Removed earlier"`);
+    ctx.run('comment delete CMT-2');
+    ctx.run(`task delete ${task.id}`);
+
+    // Spread the cascade over another second, and put the earlier delete in the parent's
+    const sqlite = new Database(join(ctx.cwd, '.trekker', 'trekker.db'));
+    sqlite.run(
+      "UPDATE events SET created_at = created_at + 1000 WHERE action = 'delete' AND entity_type = 'subtask'"
+    );
+    sqlite.run(
+      `UPDATE events SET created_at = (SELECT created_at FROM events WHERE entity_id = '${task.id}' AND action = 'delete') WHERE entity_id = 'CMT-2'`
+    );
+    sqlite.close();
+
+    const result = ctx.runToon<RevertResult>('undo');
+
+    expect(result.reverted.map((event) => event.entityId)).toEqual([task.id, subtask.id, 'CMT-1']);
+    expect(ctx.runToon<Task>(`task show ${subtask.id}`).title).toBe('Child');
+    const comments = ctx.run(`comment list ${task.id}`);
+    expect(comments).toContain('Kept');
+    expect(comments).not.toContain('Removed earlier');
+  });
+
+  it('should reattach tasks when undoing an epic delete', () => {
+    const epic = ctx.runToon<Task>('epic create -t "Epic"');
+    const task = ctx.runToon<Task>(`task create -t "Task" -e ${epic.id}`);
+    ctx.run(`epic delete ${epic.id}`);
+    expect(ctx.runToon<Task>(`task show ${task.id}`).epicId).toBeNull();
+
+    ctx.run('undo');
+
+    expect(ctx.runToon<Task>(`task show ${task.id}`).epicId).toBe(epic.id);
+  });
+
+  it('should undo several changes with --count and skip its own changes', () => {
+    const task = ctx.runToon<Task>('task create -t "One"');
+    ctx.run(`task update ${task.id} -t "Two"`);
+    ctx.run(`task update ${task.id} -t "Three"`);
+
+    ctx.run('undo');
+    ctx.run('undo');
+    expect(ctx.runToon<Task>(`task show ${task.id}`).title).toBe('One');
+
+    ctx.run('undo --count 5');
+    expect(ctx.runExpectError(`task show ${task.id}`)).toContain('not found');
+    expect(ctx.runExpectError('undo')).toContain('Nothing to undo');
+  });
+
+  it('should refuse to remove a task that was built on later', () => {
+    const task = ctx.runToon<Task>('task create -t "Parent"');
+    const subtask = ctx.runToon<Task>(`subtask create ${task.id} -t "Child"`);
+    ctx.run(`task update ${task.id} -t "Renamed"`);
+
+    const error = ctx.runExpectError('history revert 1');
+
+    expect(error).toContain(`${subtask.id} was added to it later`);
+    expect(ctx.runToon<Task>(`task show ${task.id}`).title).toBe('Renamed');
+  });
+
+  it('should validate count', () => {
+    expect(ctx.runExpectError('undo --count 0')).toContain('Invalid count');
+  });
+});
+
+describe('history revert command', () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should revert a specific event and mark it in history', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`task update ${task.id} -s in_progress`);
+    ctx.run(`task update ${task.id} -t "Renamed"`);
+    const history = ctx.runToon<HistoryResponse>(`history --entity ${task.id}`);
+    const statusEvent = history.events[1];
+
+    ctx.run(`history revert ${statusEvent.id}`);
+
+    const restored = ctx.runToon<Task>(`task show ${task.id}`);
+    expect(restored.status).toBe('todo');
+    expect(restored.title).toBe('Renamed');
+
+    const after = ctx.runToon<HistoryResponse>(`history --entity ${task.id}`);
+    expect(after.events[0].revertOf).toBe(statusEvent.id);
+    expect(after.events.find((event) => event.id === statusEvent.id)?.revertedAt).not.toBeNull();
+    expect(ctx.run('history')).toContain(`(revert of #${statusEvent.id})`);
+  });
+
+  it('should refuse to revert when the field changed since', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`task update ${task.id} -t "Second"`);
+    ctx.run(`task update ${task.id} -t "Third"`);
+    const history = ctx.runToon<HistoryResponse>(`history --entity ${task.id}`);
+
+    const error = ctx.runExpectError(`history revert ${history.events[1].id}`);
+
+    expect(error).toContain('title has changed since');
+    expect(ctx.runToon<Task>(`task show ${task.id}`).title).toBe('Third');
+  });
+
+  it('should redo by reverting an undo', () => {
+    const task = ctx.runToon<Task>('task create -t "Task"');
+    ctx.run(`task delete ${task.id}`);
+    ctx.run('undo');
+    const history = ctx.runToon<HistoryResponse>('history --limit 1');
+
+    ctx.run(`history revert ${history.events[0].id}`);
+
+    expect(ctx.runExpectError(`task show ${task.id}`)).toContain('not found');
+  });
+
+  it('should reject already reverted and unknown events', () => {
+    ctx.run('task create -t "Task"');
+    ctx.run('undo');
+
+    expect(ctx.runExpectError('history revert 1')).toContain('already been reverted');
+    expect(ctx.runExpectError('history revert 99')).toContain('Event not found: 99');
+    expect(ctx.runExpectError('history revert abc')).toContain('Invalid event ID');
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface Item {
+  id: string;
+}
+
+interface SavedView {
+  name: string;
+  query: string;
+  sort: string;
+}
+
+interface ListResponse {
+  total: number;
+  items: Item[];
+}
+
+describe('view command', () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should save list options as a query and run the view by name', () => {
+    const low = ctx.runToon<Item>('task create -t "Low" -p 1');
+    const urgent = ctx.runToon<Item>('task create -t "Urgent" -p 0');
+    ctx.runToon<Item>('task create -t "Later" -p 3');
+    ctx.runToon<Item>('epic create -t "Epic" -p 0');
+
+    const view = ctx.runToon<SavedView>(
+      'view save hot --type task --status todo,in_progress --priority 0,1 --sort priority:asc'
+    );
+    expect(view).toMatchObject({
+      name: 'hot',
+      query: 'type:task status:todo,in_progress priority:0,1',
+      sort: 'priority:asc',
+    });
+
+    const result = ctx.runToon<ListResponse>('view run hot');
+    expect(result.items.map((item) => item.id)).toEqual([urgent.id, low.id]);
+
+    ctx.run(`task update ${urgent.id} -s completed`);
+    expect(ctx.runToon<ListResponse>('view run hot').items.map((item) => item.id)).toEqual([
+      low.id,
+    ]);
+  });
+
+  it('should list, replace and delete views', () => {
+    ctx.run('view save mine "assignee:agent-a"');
+    ctx.run('view save blocked "type:task blocked"');
+    ctx.run('view save mine "assignee:agent-b" --sort updated:desc');
+
+    const views = ctx.runToon<SavedView[]>('view list');
+    expect(views.map((view) => [view.name, view.query, view.sort])).toEqual([
+      ['blocked', 'type:task blocked', 'created:desc'],
+      ['mine', 'assignee:agent-b', 'updated:desc'],
+    ]);
+    expect(ctx.run('view list')).toContain('mine: assignee:agent-b | sort updated:desc');
+
+    ctx.run('view delete mine');
+    expect(ctx.runToon<SavedView[]>('view list').map((view) => view.name)).toEqual(['blocked']);
+    expect(ctx.runExpectError('view run mine')).toContain('View not found: mine');
+    expect(ctx.runExpectError('view delete mine')).toContain('View not found: mine');
+  });
+
+  it('should reject invalid names, queries and sorts', () => {
+    expect(ctx.runExpectError('view save "my view" status:todo')).toContain(
+      'Invalid view name: my view'
+    );
+    expect(ctx.runExpectError('view save broken "state:todo"')).toContain(
+      'Invalid query term "state:todo"'
+    );
+    expect(ctx.runExpectError('view save broken --sort size:asc')).toContain(
+      'Invalid sort field: size'
+    );
+    expect(ctx.runToon<SavedView[]>('view list')).toEqual([]);
+  });
+
+  it('should carry views through export and import', () => {
+    ctx.run('view save todo status:todo');
+    const exportPath = `${ctx.cwd}/export.json`;
+    ctx.run(`export -o ${exportPath}`);
+
+    const target = createTestContext();
+    try {
+      target.run(`import ${exportPath}`);
+      expect(target.runToon<SavedView[]>('view list').map((view) => view.name)).toEqual(['todo']);
+    } finally {
+      target.cleanup();
+    }
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach } from 'bun:test';
+import { createTestContext, initTrekker, type TestContext } from '../helpers/test-context';
+
+interface Task {
+  id: string;
+  status: string;
+}
+
+interface WorkflowStatus {
+  name: string;
+  category: string;
+  transitions: string[] | null;
+}
+
+interface ReadyResponse {
+  items: { id: string }[];
+}
+
+interface ListResponse {
+  items: { id: string }[];
+}
+
+describe('workflow command', () => {
+  let ctx: TestContext;
+
+  beforeEach(() => {
+    ctx = createTestContext();
+    initTrekker(ctx);
+  });
+
+  afterEach(() => {
+    ctx?.cleanup();
+  });
+
+  it('should start with the built-in statuses', () => {
+    const statuses = ctx.runToon<WorkflowStatus[]>('workflow list');
+    expect(statuses.map((status) => [status.name, status.category])).toEqual([
+      ['todo', 'todo'],
+      ['in_progress', 'active'],
+      ['completed', 'done'],
+      ['wont_fix', 'done'],
+      ['archived', 'done'],
+    ]);
+    expect(statuses.every((status) => status.transitions === null)).toBe(true);
+  });
+
+  it('should add custom statuses tasks can take', () => {
+    const added = ctx.runToon<WorkflowStatus>('workflow add In-Review --category active');
+    expect(added.name).toBe('in_review');
+
+    const task = ctx.runToon<Task>('task create -t "Review me" -s in_review');
+    expect(task.status).toBe('in_review');
+
+    const list = ctx.runToon<ListResponse>('list status:in_review');
+    expect(list.items.map((item) => item.id)).toEqual([task.id]);
+    expect(ctx.run('workflow list')).toContain('in_review   | active      | to any status');
+
+    expect(ctx.runExpectError('task create -t "A" -s qa')).toContain(
+      'Invalid task status: qa. Valid values: todo, in_progress, completed, wont_fix, archived, in_review'
+    );
+    expect(ctx.runExpectError('workflow add review --category later')).toContain(
+      'Invalid status category: later. Valid categories: todo, active, done'
+    );
+    expect(ctx.runExpectError('workflow add in_review --category done')).toContain(
+      'Status already exists: in_review'
+    );
+  });
+
+  it('should enforce the allowed transitions on update', () => {
+    ctx.run('workflow add in_review --category active --to completed,in_progress');
+    ctx.run('workflow update in_progress --to in_review');
+    const task = ctx.runToon<Task>('task create -t "Feature" -s in_progress');
+
+    expect(ctx.runExpectError(`task update ${task.id} -s completed`)).toContain(
+      `Cannot move ${task.id} from in_progress to completed. Allowed from in_progress: in_review.`
+    );
+
+    ctx.run(`task update ${task.id} -s in_review`);
+    ctx.run(`task update ${task.id} -s completed`);
+    expect(ctx.runToon<Task>(`task show ${task.id}`).status).toBe('completed');
+
+    // Statuses without transitions can move anywhere, and --any lifts a restriction
+    ctx.run(`task update ${task.id} -s in_progress`);
+    ctx.run('workflow update in_progress --any');
+    ctx.run(`task update ${task.id} -s wont_fix`);
+    expect(ctx.runToon<Task>(`task show ${task.id}`).status).toBe('wont_fix');
+  });
+
+  it('should use status categories for ready tasks and blockers', () => {
+    ctx.run('workflow add triage --category todo');
+    ctx.run('workflow add shipped --category done');
+    const blocker = ctx.runToon<Task>('task create -t "Blocker" -s triage');
+    const blocked = ctx.runToon<Task>('task create -t "Blocked"');
+    ctx.run(`dep add ${blocked.id} ${blocker.id}`);
+
+    let ready = ctx.runToon<ReadyResponse>('ready');
+    expect(ready.items.map((item) => item.id)).toEqual([blocker.id]);
+
+    ctx.run(`task update ${blocker.id} -s shipped`);
+    ready = ctx.runToon<ReadyResponse>('ready');
+    expect(ready.items.map((item) => item.id)).toEqual([blocked.id]);
+  });
+
+  it('should protect built-in statuses and statuses in use', () => {
+    ctx.run('workflow add qa --category active');
+    ctx.run('workflow add in_review --category active --to qa');
+    const task = ctx.runToon<Task>('task create -t "A" -s qa');
+
+    expect(ctx.runExpectError('workflow remove todo')).toContain(
+      'Cannot remove built-in status todo.'
+    );
+    expect(ctx.runExpectError('workflow update todo --category active')).toContain(
+      'Cannot change the category of built-in status todo.'
+    );
+    expect(ctx.runExpectError('workflow remove qa')).toContain(
+      `Cannot remove status qa: ${task.id} still have it.`
+    );
+
+    ctx.run(`task update ${task.id} -s todo`);
+    expect(ctx.runExpectError('workflow remove qa')).toContain(
+      'Cannot remove status qa: in_review can move to it.'
+    );
+
+    ctx.run('workflow update in_review --any');
+    ctx.run('workflow remove qa');
+    expect(ctx.runToon<WorkflowStatus[]>('workflow list').map((s) => s.name)).not.toContain('qa');
+    expect(ctx.runExpectError('workflow update qa --any')).toContain('Status not found: qa');
+  });
+});
@@ -9,6 +9,7 @@ export interface TestContext {
   run: (args: string) => string;
   runToon: <T = unknown>(args: string) => T;
   runExpectError: (args: string) => string;
+  runExitCode: (args: string) => number;
   cleanup: () => void;
 }
 
@@ -114,6 +115,10 @@ export function createTestContext(): TestContext {
       return result.stderr || result.stdout;
     },
 
+    runExitCode(args: string): number {
+      return runCommand(['--toon', ...parseArgs(args)]).status;
+    },
+
     cleanup(): void {
       rmSync(cwd, { recursive: true, force: true });
     },